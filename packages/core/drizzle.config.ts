@@ -1,10 +1,17 @@
 import type { Config } from 'drizzle-kit';
+import { loadConfig } from './src/config/config';
+
+const config = loadConfig();
+if (config.isErr()) {
+  console.error(config.error.message);
+  process.exit(1);
+}
 
 export default {
   schema: './src/db/schema.ts',
   out: './drizzle',
   dialect: 'sqlite',
   dbCredentials: {
-    url: `file:${process.env.DATABASE_PATH || './data/core.db'}`,
+    url: `file:${config.value.database.path}`,
   },
-} satisfies Config;
\ No newline at end of file
+} satisfies Config;
@@ -0,0 +1,5 @@
+ALTER TABLE `connected_services` ADD `encrypted_account` text;--> statement-breakpoint
+ALTER TABLE `connected_services` ADD `account_email_index` text;--> statement-breakpoint
+ALTER TABLE `connected_services` ADD `account_username_index` text;--> statement-breakpoint
+CREATE INDEX `connected_services_account_email_index_idx` ON `connected_services` (`provider`,`account_email_index`);--> statement-breakpoint
+CREATE INDEX `connected_services_account_username_index_idx` ON `connected_services` (`provider`,`account_username_index`);
\ No newline at end of file
@@ -0,0 +1,8 @@
+CREATE TABLE `oauth_states` (
+	`state` text PRIMARY KEY NOT NULL,
+	`provider` text NOT NULL,
+	`encrypted_verifier` text NOT NULL,
+	`redirect_uri` text NOT NULL,
+	`expires_at` integer NOT NULL,
+	`created_at` integer NOT NULL
+);
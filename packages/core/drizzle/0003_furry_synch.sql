@@ -0,0 +1 @@
+ALTER TABLE `connected_services` ADD `status` text DEFAULT 'active' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE `telegram_link_tokens` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`token_hash` text NOT NULL,
+	`telegram_user_id` integer NOT NULL,
+	`expires_at` integer NOT NULL,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `telegram_link_tokens_token_hash_unique` ON `telegram_link_tokens` (`token_hash`);--> statement-breakpoint
+CREATE TABLE `telegram_links` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`telegram_user_id` integer NOT NULL,
+	`user_id` integer NOT NULL,
+	`linked_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `telegram_links_telegram_user_id_unique` ON `telegram_links` (`telegram_user_id`);
\ No newline at end of file
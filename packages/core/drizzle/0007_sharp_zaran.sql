@@ -0,0 +1,35 @@
+CREATE TABLE `job_runs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`job_id` integer NOT NULL,
+	`trigger` text NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`attempt` integer DEFAULT 1 NOT NULL,
+	`scheduled_for` integer NOT NULL,
+	`started_at` integer,
+	`finished_at` integer,
+	`duration_ms` integer,
+	`error` text,
+	FOREIGN KEY (`job_id`) REFERENCES `jobs`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `job_runs_job_id_idx` ON `job_runs` (`job_id`);--> statement-breakpoint
+CREATE INDEX `job_runs_status_scheduled_for_idx` ON `job_runs` (`status`,`scheduled_for`);--> statement-breakpoint
+CREATE TABLE `jobs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`function_name` text NOT NULL,
+	`input` text NOT NULL,
+	`services` text NOT NULL,
+	`schedule` text NOT NULL,
+	`timezone` text DEFAULT 'UTC' NOT NULL,
+	`catch_up` text DEFAULT 'skip' NOT NULL,
+	`max_attempts` integer DEFAULT 3 NOT NULL,
+	`retry_backoff_seconds` integer DEFAULT 60 NOT NULL,
+	`paused` integer DEFAULT false NOT NULL,
+	`next_run_at` integer,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `jobs_name_unique` ON `jobs` (`name`);--> statement-breakpoint
+CREATE INDEX `jobs_next_run_at_idx` ON `jobs` (`next_run_at`);
\ No newline at end of file
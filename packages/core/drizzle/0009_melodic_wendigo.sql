@@ -0,0 +1,4 @@
+ALTER TABLE `users` ADD `role` text DEFAULT 'user' NOT NULL;--> statement-breakpoint
+-- Every user so far was bootstrapped as root; the newest one came from the current ROOT_USER_EMAIL
+UPDATE `users` SET `role` = 'root' WHERE `id` = (SELECT max(`id`) FROM `users`);--> statement-breakpoint
+CREATE UNIQUE INDEX `users_root_role_idx` ON `users` (`role`) WHERE role = 'root';
\ No newline at end of file
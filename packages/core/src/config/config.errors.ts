@@ -0,0 +1,55 @@
+/**
+ * Config Error Types
+ *
+ * Discriminated union type for all errors of the startup configuration.
+ */
+export type ConfigErrorType = "CONFIG_INVALID";
+
+/**
+ * Base class for all config errors.
+ */
+export abstract class ConfigError extends Error {
+  abstract readonly type: ConfigErrorType;
+
+  constructor(message: string) {
+    super(message);
+    this.name = this.constructor.name;
+    Error.captureStackTrace?.(this, this.constructor);
+  }
+}
+
+/**
+ * A single problem with an env var
+ *
+ * @property {string} variable - Name of the env var
+ * @property {string} reason - What is wrong with it
+ */
+export interface ConfigIssue {
+  variable: string;
+  reason: string;
+}
+
+/**
+ * Error thrown when one or more env vars are missing or malformed.
+ *
+ * @remarks
+ * Every problem found is listed in `issues` (and in the message, one per
+ * line), so a deployment can be fixed in one go.
+ */
+export class ConfigInvalidError extends ConfigError {
+  readonly type = "CONFIG_INVALID" as const;
+
+  constructor(public readonly issues: ConfigIssue[]) {
+    super(
+      [
+        "Invalid configuration:",
+        ...issues.map((issue) => `- ${issue.variable}: ${issue.reason}`),
+      ].join("\n"),
+    );
+  }
+}
+
+/**
+ * Union type of all config errors.
+ */
+export type ConfigErrorUnion = ConfigInvalidError;
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "bun:test";
+import { generateEncryptionKey } from "../lib/crypto";
+import { getKeyId } from "../lib/keyring";
+import { loadConfig } from "./config";
+
+describe("Config", () => {
+  const key = generateEncryptionKey();
+
+  it("should disable optional features when their variables are absent", () => {
+    const config = loadConfig({ ENCRYPTION_KEY: key })._unsafeUnwrap();
+
+    expect(config).toMatchObject({
+      server: {
+        port: 3000,
+        publicBaseUrl: "http://localhost:3000",
+        oauthRedirectBaseUrl: null,
+      },
+      database: { path: "./data/core.db" },
+      backup: { key: null },
+      rootUser: null,
+      youtube: { oauth: null },
+      github: { oauth: null, apiUrl: "https://api.github.com" },
+      telegram: null,
+    });
+    expect(config.encryption.keyring.activeKeyId).toBe(getKeyId(key));
+    expect(Object.isFrozen(config)).toBe(true);
+    expect(Object.isFrozen(config.server)).toBe(true);
+  });
+
+  it("should read every feature", () => {
+    const config = loadConfig({
+      ENCRYPTION_KEY: key,
+      PORT: "8080",
+      OAUTH_REDIRECT_BASE_URL: "https://core.example.com",
+      ROOT_USER_EMAIL: "root@example.com",
+      ROOT_USER_PASSWORD: "secret",
+      ROOT_USER_FORCE: "true",
+      GITHUB_CLIENT_ID: "gh-id",
+      GITHUB_CLIENT_SECRET: "gh-secret",
+      TELEGRAM_BOT_TOKEN: "123:abc",
+      TELEGRAM_OWNER_ID: "42",
+      TELEGRAM_WEBHOOK_URL: "https://core.example.com/telegram/webhook",
+      TELEGRAM_WEBHOOK_SECRET: "hook",
+    })._unsafeUnwrap();
+
+    expect(config.server.port).toBe(8080);
+    expect(config.rootUser).toEqual({
+      email: "root@example.com",
+      label: "root@example.com",
+      password: "secret",
+      force: true,
+    });
+    expect(config.github.oauth).toEqual({
+      clientId: "gh-id",
+      clientSecret: "gh-secret",
+    });
+    expect(config.telegram).toEqual({
+      token: "123:abc",
+      ownerId: 42,
+      publicBaseUrl: "https://core.example.com",
+      apiRoot: undefined,
+      webhook: {
+        url: "https://core.example.com/telegram/webhook",
+        secretToken: "hook",
+      },
+    });
+  });
+
+  it("should report every problem at once", () => {
+    const error = loadConfig({
+      ENCRYPTION_KEY: "c2hvcnQ=",
+      BACKUP_KEY: "c2hvcnQ=",
+      PORT: "eighty",
+      ROOT_USER_EMAIL: "root@example.com",
+      YOUTUBE_CLIENT_ID: "yt-id",
+      GITHUB_API_URL: "not a url",
+      TELEGRAM_BOT_TOKEN: "123:abc",
+      TELEGRAM_OWNER_ID: "@owner",
+    })._unsafeUnwrapErr();
+
+    expect(error.type).toBe("CONFIG_INVALID");
+    expect(error.issues.map((issue) => issue.variable)).toEqual([
+      "PORT",
+      "ENCRYPTION_KEY",
+      "BACKUP_KEY",
+      "ROOT_USER_PASSWORD",
+      "YOUTUBE_CLIENT_SECRET",
+      "GITHUB_API_URL",
+      "TELEGRAM_OWNER_ID",
+    ]);
+    expect(error.message).toContain("- TELEGRAM_OWNER_ID: must be the numeric");
+  });
+
+  it("should require an encryption key and attribute bad retired keys", () => {
+    expect(
+      loadConfig({})
+        ._unsafeUnwrapErr()
+        .issues.map((issue) => issue.variable),
+    ).toEqual(["ENCRYPTION_KEY"]);
+
+    const error = loadConfig({
+      ENCRYPTION_KEY: key,
+      ENCRYPTION_RETIRED_KEYS: `${generateEncryptionKey()},c2hvcnQ=`,
+    })._unsafeUnwrapErr();
+    expect(error.issues).toEqual([
+      {
+        variable: "ENCRYPTION_RETIRED_KEYS",
+        reason: expect.stringContaining("32 bytes"),
+      },
+    ]);
+  });
+});
@@ -0,0 +1,332 @@
+import { err, ok, Result } from "neverthrow";
+import { configureDatabase, DEFAULT_DATABASE_PATH } from "../db/index";
+import type { TelegramConfig } from "../interfaces/telegram/config";
+import { parseTelegramConfig } from "../interfaces/telegram/config";
+import type { Keyring } from "../lib/keyring";
+import {
+  createKeyring,
+  loadKeyringFromEnv,
+  setDefaultKeyring,
+} from "../lib/keyring";
+import type { RootUserConfig } from "../services/auth/users";
+import { loadRootUserConfig } from "../services/auth/users";
+import {
+  configureGitHubClient,
+  GITHUB_API_URL,
+} from "../services/github/client";
+import {
+  configureYouTubeClient,
+  YOUTUBE_API_URL,
+} from "../services/youtube/client";
+import type { ConfigIssue } from "./config.errors";
+import { ConfigInvalidError } from "./config.errors";
+
+/**
+ * Env vars to read the configuration from
+ */
+export type ConfigEnv = Readonly<Record<string, string | undefined>>;
+
+/**
+ * Credentials of an OAuth app
+ *
+ * @property {string} clientId - OAuth client ID
+ * @property {string} clientSecret - OAuth client secret
+ */
+export interface OAuthClientConfig {
+  readonly clientId: string;
+  readonly clientSecret: string;
+}
+
+/**
+ * An API integration
+ *
+ * @property {OAuthClientConfig | null} oauth - OAuth app, null when connecting through OAuth is disabled
+ * @property {string} apiUrl - API base URL
+ */
+export interface ProviderConfig {
+  readonly oauth: OAuthClientConfig | null;
+  readonly apiUrl: string;
+}
+
+/**
+ * The HTTP server
+ *
+ * @property {number} port - Port to listen on
+ * @property {string} publicBaseUrl - Public base URL, used in links sent by the bot
+ * @property {string | null} oauthRedirectBaseUrl - Base URL of OAuth callbacks (null: origin of the connect request)
+ */
+export interface ServerConfig {
+  readonly port: number;
+  readonly publicBaseUrl: string;
+  readonly oauthRedirectBaseUrl: string | null;
+}
+
+/**
+ * Configuration of the core service, read from the env vars at startup
+ *
+ * @property {ServerConfig} server - HTTP server
+ * @property {{ path: string }} database - SQLite file
+ * @property {{ keyring: Keyring }} encryption - Master keys of the credentials
+ * @property {{ key: string | null }} backup - Key of backup archives (null: backups need an explicit key)
+ * @property {RootUserConfig & { force: boolean } | null} rootUser - Admin user to bootstrap (null: none)
+ * @property {ProviderConfig} youtube - YouTube integration
+ * @property {ProviderConfig} github - GitHub integration
+ * @property {TelegramConfig | null} telegram - Telegram bot (null: disabled)
+ */
+export interface AppConfig {
+  readonly server: ServerConfig;
+  readonly database: { readonly path: string };
+  readonly encryption: { readonly keyring: Keyring };
+  readonly backup: { readonly key: string | null };
+  readonly rootUser: Readonly<RootUserConfig & { force: boolean }> | null;
+  readonly youtube: ProviderConfig;
+  readonly github: ProviderConfig;
+  readonly telegram: Readonly<TelegramConfig> | null;
+}
+
+/**
+ * Reads a variable, treating an empty or blank value as unset
+ *
+ * @private
+ */
+function read(env: ConfigEnv, variable: string): string | undefined {
+  const value = env[variable]?.trim();
+  return value ? value : undefined;
+}
+
+/**
+ * Reads an optional http(s) URL
+ *
+ * @private
+ */
+function readUrl(
+  env: ConfigEnv,
+  variable: string,
+  issues: ConfigIssue[],
+): string | undefined {
+  const value = read(env, variable);
+  if (
+    value &&
+    (!URL.canParse(value) ||
+      !["http:", "https:"].includes(new URL(value).protocol))
+  ) {
+    issues.push({ variable, reason: "must be an http(s) URL" });
+    return undefined;
+  }
+  return value;
+}
+
+/**
+ * Reads the port and the public URLs
+ *
+ * @private
+ */
+function readServer(env: ConfigEnv, issues: ConfigIssue[]): ServerConfig {
+  let port = 3000;
+  const portValue = read(env, "PORT");
+  if (portValue) {
+    port = Number(portValue);
+    if (!/^[0-9]+$/.test(portValue) || port < 1 || port > 65535) {
+      issues.push({ variable: "PORT", reason: "must be a port (1-65535)" });
+    }
+  }
+
+  const oauthRedirectBaseUrl = readUrl(env, "OAUTH_REDIRECT_BASE_URL", issues);
+  return {
+    port,
+    publicBaseUrl:
+      readUrl(env, "PUBLIC_BASE_URL", issues) ??
+      oauthRedirectBaseUrl ??
+      `http://localhost:${port}`,
+    oauthRedirectBaseUrl: oauthRedirectBaseUrl ?? null,
+  };
+}
+
+/**
+ * Reads the keyring and attributes its error to the right variable
+ *
+ * @private
+ */
+function readKeyring(
+  env: ConfigEnv,
+  issues: ConfigIssue[],
+): Keyring | undefined {
+  const keyring = loadKeyringFromEnv(env);
+  if (keyring.isOk()) {
+    return keyring.value;
+  }
+
+  let variable = "ENCRYPTION_KEY";
+  if (env.ENCRYPTION_KEY_FILE) {
+    variable = "ENCRYPTION_KEY_FILE";
+  } else if (env.ENCRYPTION_KEY && createKeyring(env.ENCRYPTION_KEY).isOk()) {
+    variable = "ENCRYPTION_RETIRED_KEYS";
+  }
+  issues.push({ variable, reason: keyring.error.message });
+  return undefined;
+}
+
+/**
+ * Reads the root user; setting only some of its variables is an issue
+ *
+ * @private
+ */
+function readRootUser(
+  env: ConfigEnv,
+  issues: ConfigIssue[],
+): AppConfig["rootUser"] {
+  const force = read(env, "ROOT_USER_FORCE");
+  if (force && force !== "true" && force !== "false") {
+    issues.push({
+      variable: "ROOT_USER_FORCE",
+      reason: "must be true or false",
+    });
+  }
+
+  const rootUser = loadRootUserConfig(env);
+  if (rootUser.isOk()) {
+    return { ...rootUser.value, force: force === "true" };
+  }
+  // Neither email nor password: no root user to bootstrap
+  if (rootUser.error.missing.length < 2) {
+    for (const variable of rootUser.error.missing) {
+      issues.push({
+        variable,
+        reason: "is required once the other ROOT_USER_* variables are set",
+      });
+    }
+  }
+  return null;
+}
+
+/**
+ * Reads an API integration; a client ID without its secret is an issue
+ *
+ * @private
+ */
+function readProvider(
+  env: ConfigEnv,
+  prefix: "YOUTUBE" | "GITHUB",
+  defaultApiUrl: string,
+  issues: ConfigIssue[],
+): ProviderConfig {
+  const clientId = read(env, `${prefix}_CLIENT_ID`);
+  const clientSecret = read(env, `${prefix}_CLIENT_SECRET`);
+  if (clientId && !clientSecret) {
+    issues.push({
+      variable: `${prefix}_CLIENT_SECRET`,
+      reason: `is required when ${prefix}_CLIENT_ID is set`,
+    });
+  }
+  if (clientSecret && !clientId) {
+    issues.push({
+      variable: `${prefix}_CLIENT_ID`,
+      reason: `is required when ${prefix}_CLIENT_SECRET is set`,
+    });
+  }
+
+  return {
+    oauth: clientId && clientSecret ? { clientId, clientSecret } : null,
+    apiUrl: (
+      readUrl(env, `${prefix}_API_URL`, issues) ?? defaultApiUrl
+    ).replace(/\/$/, ""),
+  };
+}
+
+/**
+ * Freezes an object and every plain object or array in it
+ *
+ * @private
+ */
+function deepFreeze<T>(value: T): T {
+  if (
+    Array.isArray(value) ||
+    (value !== null &&
+      typeof value === "object" &&
+      Object.getPrototypeOf(value) === Object.prototype)
+  ) {
+    for (const entry of Object.values(value as object)) {
+      deepFreeze(entry);
+    }
+    Object.freeze(value);
+  }
+  return value;
+}
+
+/**
+ * Reads and validates every env var of the core service
+ *
+ * @param {ConfigEnv} [env] - The env vars (defaults to `process.env`)
+ * @returns {Result<AppConfig, ConfigInvalidError>} The frozen configuration or error
+ *
+ * @example
+ * ```typescript
+ * const config = loadConfig();
+ * if (config.isErr()) {
+ *   console.error(config.error.message); // one line per problem
+ *   process.exit(1);
+ * }
+ * ```
+ *
+ * @errors
+ * - ConfigInvalidError - Lists every missing or malformed variable, not just the first
+ *
+ * @remarks
+ * - Required: `ENCRYPTION_KEY` (or `ENCRYPTION_KEY_FILE`)
+ * - Optional features are null when their variables are absent: the root
+ *   user, OAuth apps, the Telegram bot and the default backup key
+ * - Variables that belong together must be set together: an OAuth client ID
+ *   needs its secret, the root user needs email and password
+ * - Keys must decode to 32 bytes, `TELEGRAM_OWNER_ID` must be numeric and
+ *   URLs must parse
+ * - Nothing else reads the env vars: {@link applyConfig} hands the sections
+ *   to the modules that use them
+ */
+export function loadConfig(
+  env: ConfigEnv = process.env,
+): Result<AppConfig, ConfigInvalidError> {
+  const issues: ConfigIssue[] = [];
+
+  const server = readServer(env, issues);
+  const keyring = readKeyring(env, issues);
+
+  const backupKey = read(env, "BACKUP_KEY");
+  const backup = backupKey ? createKeyring(backupKey) : ok(null);
+  if (backup.isErr()) {
+    issues.push({ variable: "BACKUP_KEY", reason: backup.error.message });
+  }
+
+  const config = {
+    server,
+    database: { path: read(env, "DATABASE_PATH") ?? DEFAULT_DATABASE_PATH },
+    encryption: { keyring },
+    backup: { key: backupKey ?? null },
+    rootUser: readRootUser(env, issues),
+    youtube: readProvider(env, "YOUTUBE", YOUTUBE_API_URL, issues),
+    github: readProvider(env, "GITHUB", GITHUB_API_URL, issues),
+    telegram: parseTelegramConfig(env, server.publicBaseUrl, issues),
+  };
+
+  if (issues.length > 0 || !keyring) {
+    return err(new ConfigInvalidError(issues));
+  }
+  return ok(deepFreeze({ ...config, encryption: { keyring } }));
+}
+
+/**
+ * Hands the configuration to the modules that use it
+ *
+ * @param {AppConfig} config - The loaded configuration
+ *
+ * @remarks
+ * Sets the database file, the default keyring and the API base URLs. The
+ * remaining sections are passed where they are needed: the OAuth redirect
+ * base URL to `createApp`, the backup key to `createBackup`/`restoreBackup`,
+ * the OAuth apps to the provider registrations.
+ */
+export function applyConfig(config: AppConfig): void {
+  configureDatabase(config.database);
+  setDefaultKeyring(config.encryption.keyring);
+  configureYouTubeClient(config.youtube);
+  configureGitHubClient(config.github);
+}
@@ -0,0 +1,133 @@
+import type {
+  KeyringErrorUnion,
+  StreamDecryptErrorUnion,
+  StreamEncryptErrorUnion,
+} from "../lib/crypto.errors";
+import type { AuditErrorUnion } from "../services/audit/audit.errors";
+import type { KeyRotationErrorUnion } from "./rotate-keys.errors";
+
+/**
+ * Backup Error Types
+ *
+ * Discriminated union type for all errors of database backups and
+ * restores.
+ */
+export type BackupErrorType =
+  | "BACKUP_KEY_MISSING"
+  | "BACKUP_SNAPSHOT_FAILED"
+  | "BACKUP_ARCHIVE_INVALID"
+  | "BACKUP_INCOMPATIBLE"
+  | "BACKUP_VALIDATION_FAILED"
+  | "BACKUP_IO_FAILED";
+
+/**
+ * Base class for all backup errors.
+ */
+export abstract class BackupError extends Error {
+  abstract readonly type: BackupErrorType;
+
+  constructor(message: string) {
+    super(message);
+    this.name = this.constructor.name;
+    Error.captureStackTrace?.(this, this.constructor);
+  }
+}
+
+/**
+ * Error thrown when no backup key was passed (BACKUP_KEY is not set).
+ */
+export class BackupKeyMissingError extends BackupError {
+  readonly type = "BACKUP_KEY_MISSING" as const;
+
+  constructor() {
+    super("BACKUP_KEY environment variable is not set");
+  }
+}
+
+/**
+ * Error thrown when the consistent snapshot of the database cannot be taken.
+ */
+export class BackupSnapshotFailedError extends BackupError {
+  readonly type = "BACKUP_SNAPSHOT_FAILED" as const;
+
+  constructor(public readonly cause: Error) {
+    super(`Database snapshot failed: ${cause.message}`);
+  }
+}
+
+/**
+ * Error thrown when a file is not a backup archive or its manifest is malformed.
+ */
+export class BackupArchiveInvalidError extends BackupError {
+  readonly type = "BACKUP_ARCHIVE_INVALID" as const;
+
+  constructor(public readonly reason: string) {
+    super(`Invalid backup archive: ${reason}`);
+  }
+}
+
+/**
+ * Error thrown when a backup has migrations this build does not know.
+ *
+ * @remarks
+ * The backup was taken by a newer (or diverged) version of the service;
+ * restore it with that version instead.
+ */
+export class BackupIncompatibleError extends BackupError {
+  readonly type = "BACKUP_INCOMPATIBLE" as const;
+
+  constructor(public readonly reason: string) {
+    super(`Backup is incompatible with this version: ${reason}`);
+  }
+}
+
+/**
+ * Error thrown when the decrypted database fails a check before it replaces the current one.
+ */
+export class BackupValidationFailedError extends BackupError {
+  readonly type = "BACKUP_VALIDATION_FAILED" as const;
+
+  constructor(public readonly reason: string) {
+    super(`Restored database failed validation: ${reason}`);
+  }
+}
+
+/**
+ * Error thrown when reading or writing a backup or database file fails.
+ */
+export class BackupIoFailedError extends BackupError {
+  readonly type = "BACKUP_IO_FAILED" as const;
+
+  constructor(public readonly cause: Error) {
+    super(`Backup I/O failed: ${cause.message}`);
+  }
+}
+
+/**
+ * Union type of the errors raised by the backup routines themselves.
+ */
+export type BackupErrorUnion =
+  | BackupKeyMissingError
+  | BackupSnapshotFailedError
+  | BackupArchiveInvalidError
+  | BackupIncompatibleError
+  | BackupValidationFailedError
+  | BackupIoFailedError;
+
+/**
+ * Subset of errors that can occur while creating a backup.
+ */
+export type CreateBackupErrorUnion =
+  | BackupErrorUnion
+  | StreamEncryptErrorUnion
+  | AuditErrorUnion;
+
+/**
+ * Subset of errors that can occur while restoring a backup.
+ */
+export type RestoreBackupErrorUnion =
+  | BackupErrorUnion
+  | StreamDecryptErrorUnion
+  | KeyringErrorUnion
+  | KeyRotationErrorUnion
+  | AuditErrorUnion;
@@ -0,0 +1,127 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { generateEncryptionKey } from "../lib/crypto";
+import { createKeyring } from "../lib/keyring";
+import { listAuditEvents } from "../services/audit/audit";
+import {
+  deleteService,
+  getServiceCredentials,
+  listServices,
+  saveServiceCredentials,
+} from "../services/crud/connected-services";
+import { useTestDatabase } from "../testing/database";
+import { createBackup, readBackupManifest, restoreBackup } from "./backup";
+
+describe("Backup", () => {
+  const backupKey = generateEncryptionKey();
+  const oldKey = generateEncryptionKey();
+  const newKey = generateEncryptionKey();
+  const database = useTestDatabase({ encryptionKey: oldKey });
+  let archivePath: string;
+
+  beforeAll(async () => {
+    archivePath = join(database.dir, "core.backup");
+    (
+      await saveServiceCredentials("openai", "apikey", { apiKey: "sk-backup" })
+    )._unsafeUnwrap();
+  });
+
+  it("should restore a backup over later changes", async () => {
+    const manifest = (
+      await createBackup(archivePath, { key: backupKey })
+    )._unsafeUnwrap();
+    expect(manifest.migrations.length).toBeGreaterThan(0);
+    expect((await readBackupManifest(archivePath))._unsafeUnwrap()).toEqual(
+      manifest,
+    );
+    expect(readFileSync(archivePath).includes("sk-backup")).toBe(false);
+
+    const [service] = (await listServices())._unsafeUnwrap();
+    (await deleteService(service!.id))._unsafeUnwrap();
+
+    const restored = (
+      await restoreBackup(archivePath, { key: backupKey })
+    )._unsafeUnwrap();
+    expect(restored.rotation).toMatchObject({ total: 1, rotated: 0 });
+    expect(existsSync(restored.previousDatabasePath!)).toBe(true);
+
+    expect((await getServiceCredentials(service!.id))._unsafeUnwrap()).toEqual({
+      apiKey: "sk-backup",
+    });
+    // backup.create is recorded after the snapshot, in the replaced database
+    const events = (await listAuditEvents())._unsafeUnwrap();
+    expect(events.map((event) => event.action)).toEqual([
+      "credential.read",
+      "backup.restore",
+      "credential.write",
+    ]);
+  });
+
+  it("should reject a wrong key, a tampered manifest and unknown migrations", async () => {
+    const wrongKey = await restoreBackup(archivePath, {
+      key: generateEncryptionKey(),
+    });
+    expect(wrongKey._unsafeUnwrapErr().type).toBe("STREAM_CHUNK_AUTH_FAILED");
+
+    const archive = readFileSync(archivePath);
+    const newline = archive.indexOf("\n");
+    const manifest = JSON.parse(archive.toString("utf8", 0, newline));
+    const tamper = (changes: object) => {
+      const path = join(database.dir, "tampered.backup");
+      writeFileSync(
+        path,
+        Buffer.concat([
+          Buffer.from(JSON.stringify({ ...manifest, ...changes })),
+          archive.subarray(newline),
+        ]),
+      );
+      return path;
+    };
+
+    const edited = await restoreBackup(
+      tamper({ createdAt: new Date(0).toISOString() }),
+      { key: backupKey },
+    );
+    expect(edited._unsafeUnwrapErr().type).toBe("STREAM_CHUNK_AUTH_FAILED");
+
+    const newer = await restoreBackup(
+      tamper({ migrations: [...manifest.migrations, "f".repeat(64)] }),
+      { key: backupKey },
+    );
+    expect(newer._unsafeUnwrapErr().type).toBe("BACKUP_INCOMPATIBLE");
+
+    const notAnArchive = await readBackupManifest(tamper({ format: "zip" }));
+    expect(notAnArchive._unsafeUnwrapErr().type).toBe("BACKUP_ARCHIVE_INVALID");
+  });
+
+  it("should re-wrap credentials under a different encryption key", async () => {
+    const [service] = (await listServices())._unsafeUnwrap();
+    const keyring = createKeyring(newKey)._unsafeUnwrap();
+
+    const missingKey = await restoreBackup(archivePath, {
+      key: backupKey,
+      keyring,
+    });
+    expect(missingKey._unsafeUnwrapErr().type).toBe(
+      "CREDENTIAL_REENCRYPTION_FAILED",
+    );
+
+    const restored = await restoreBackup(archivePath, {
+      key: backupKey,
+      keyring,
+      previousEncryptionKeys: [oldKey],
+    });
+    expect(restored._unsafeUnwrap().rotation.rotated).toBe(1);
+
+    expect(
+      (await getServiceCredentials(service!.id, { keyring }))._unsafeUnwrap(),
+    ).toEqual({ apiKey: "sk-backup" });
+    const oldKeyring = createKeyring(oldKey)._unsafeUnwrap();
+    expect(
+      (
+        await getServiceCredentials(service!.id, { keyring: oldKeyring })
+      ).isErr(),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,693 @@
+import { createReadStream, createWriteStream } from "node:fs";
+import {
+  mkdir,
+  mkdtemp,
+  open,
+  rename,
+  rm,
+  stat,
+  writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { basename, dirname, join } from "node:path";
+import { Readable, Writable } from "node:stream";
+import { parseArgs } from "node:util";
+import { createClient } from "@libsql/client";
+import type { Static } from "@sinclair/typebox";
+import { Type } from "@sinclair/typebox";
+import { sql } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/libsql";
+import { err, errAsync, ok, Result, ResultAsync } from "neverthrow";
+import { applyConfig, loadConfig } from "../config/config";
+import { CryptoError } from "../lib/crypto.errors";
+import type { KeyringErrorUnion } from "../lib/crypto.errors";
+import {
+  createDecryptionStream,
+  createEncryptionStream,
+} from "../lib/crypto.stream";
+import { validateJson } from "../lib/json-schema";
+import type { Keyring } from "../lib/keyring";
+import { createKeyring, getDefaultKeyring } from "../lib/keyring";
+import { recordAuditEvent } from "../services/audit/audit";
+import { AuditError } from "../services/audit/audit.errors";
+import { runAsAuditActor } from "../services/audit/context";
+import type {
+  BackupErrorUnion,
+  CreateBackupErrorUnion,
+  RestoreBackupErrorUnion,
+} from "./backup.errors";
+import {
+  BackupArchiveInvalidError,
+  BackupError,
+  BackupIncompatibleError,
+  BackupIoFailedError,
+  BackupKeyMissingError,
+  BackupSnapshotFailedError,
+  BackupValidationFailedError,
+} from "./backup.errors";
+import type { Database } from "./index";
+import { closeDb, getDatabasePath, getDb } from "./index";
+import {
+  listAppliedMigrations,
+  readMigrationFiles,
+  runMigrations,
+} from "./migrate";
+import type { KeyRotationProgress } from "./rotate-keys";
+import { rotateEncryptionKeys } from "./rotate-keys";
+import { KeyRotationError } from "./rotate-keys.errors";
+import * as schema from "./schema";
+
+/**
+ * Format identifier written into every archive
+ */
+export const BACKUP_FORMAT = "coresvc-backup/1";
+
+/**
+ * Upper bound of the manifest line, so a random file is rejected quickly
+ */
+const MAX_MANIFEST_LENGTH = 64 * 1024;
+
+const BackupManifestSchema = Type.Object({
+  format: Type.Literal(BACKUP_FORMAT),
+  createdAt: Type.String(),
+  databaseBytes: Type.Integer({ minimum: 0 }),
+  migrations: Type.Array(Type.String()),
+});
+
+/**
+ * Plaintext header of a backup archive
+ *
+ * @property {string} format - Always BACKUP_FORMAT
+ * @property {string} createdAt - ISO timestamp of the snapshot
+ * @property {number} databaseBytes - Size of the database file in the archive
+ * @property {string[]} migrations - Hashes of the applied migrations, oldest first
+ */
+export type BackupManifest = Static<typeof BackupManifestSchema>;
+
+/**
+ * Options of {@link createBackup}
+ *
+ * @property {string} [key] - Base64 backup key (`config.backup.key`)
+ */
+export interface CreateBackupOptions {
+  key?: string;
+}
+
+/**
+ * Options of {@link restoreBackup}
+ *
+ * @property {string} [key] - Base64 backup key (`config.backup.key`)
+ * @property {Keyring} [keyring] - Keyring credentials end up under (defaults to the keyring from env vars)
+ * @property {string[]} [previousEncryptionKeys] - Keys the backed-up credentials were sealed with, when they are not in the keyring
+ */
+export interface RestoreBackupOptions {
+  key?: string;
+  keyring?: Keyring;
+  previousEncryptionKeys?: string[];
+}
+
+/**
+ * Outcome of {@link restoreBackup}
+ *
+ * @property {BackupManifest} manifest - Manifest of the restored archive
+ * @property {KeyRotationProgress} rotation - Credentials re-wrapped under the active key
+ * @property {string | null} previousDatabasePath - Where the replaced database was moved, if there was one
+ */
+export interface RestoreBackupResult {
+  manifest: BackupManifest;
+  rotation: KeyRotationProgress;
+  previousDatabasePath: string | null;
+}
+
+/**
+ * Manifest and where the encrypted database starts
+ *
+ * @private
+ */
+interface ArchiveHeader {
+  manifest: BackupManifest;
+  manifestJson: string;
+  dataOffset: number;
+}
+
+/**
+ * Passes typed errors through and maps anything else to BackupIoFailedError
+ *
+ * @private
+ */
+function toBackupError<E>(error: unknown): E | BackupIoFailedError {
+  if (
+    error instanceof BackupError ||
+    error instanceof CryptoError ||
+    error instanceof KeyRotationError ||
+    error instanceof AuditError
+  ) {
+    return error as E;
+  }
+  return new BackupIoFailedError(
+    error instanceof Error ? error : new Error(String(error)),
+  );
+}
+
+/**
+ * Requires a backup key
+ *
+ * @private
+ */
+function resolveBackupKey(key?: string): Result<string, BackupKeyMissingError> {
+  return key ? ok(key) : err(new BackupKeyMissingError());
+}
+
+/**
+ * Adds the previous encryption keys to the keyring as retired keys
+ *
+ * @private
+ */
+function resolveRestoreKeyring(
+  options: RestoreBackupOptions,
+): Result<Keyring, KeyringErrorUnion> {
+  const keyring = options.keyring ? ok(options.keyring) : getDefaultKeyring();
+  const previous = options.previousEncryptionKeys ?? [];
+  if (keyring.isErr() || previous.length === 0) {
+    return keyring;
+  }
+
+  const { activeKeyId, keys } = keyring.value;
+  const retired = [...keys].filter(([id]) => id !== activeKeyId);
+  return createKeyring(keys.get(activeKeyId)!, [
+    ...retired.map(([, key]) => key),
+    ...previous,
+  ]);
+}
+
+/**
+ * Opens a database file with its own connection
+ *
+ * @private
+ */
+function openDatabaseFile(path: string): Database {
+  return drizzle(createClient({ url: `file:${path}` }), { schema });
+}
+
+/**
+ * Reads the hashes of the applied migrations, oldest first
+ *
+ * @private
+ */
+async function appliedMigrations(db: Database): Promise<string[]> {
+  const applied = await listAppliedMigrations(db);
+  if (applied.isErr()) {
+    throw applied.error.cause;
+  }
+  return applied.value.map((migration) => migration.hash);
+}
+
+/**
+ * Checks that the backup's migrations are a prefix of this build's
+ *
+ * @private
+ */
+function checkMigrations(
+  migrations: string[],
+): Result<void, BackupIncompatibleError | BackupIoFailedError> {
+  const files = readMigrationFiles();
+  if (files.isErr()) {
+    return err(new BackupIoFailedError(files.error.cause));
+  }
+  const known = files.value.map((migration) => migration.hash);
+
+  if (migrations.length > known.length) {
+    return err(
+      new BackupIncompatibleError(
+        `it has ${migrations.length} migrations applied, this version knows ${known.length}`,
+      ),
+    );
+  }
+  const differing = migrations.findIndex(
+    (hash, index) => hash !== known[index],
+  );
+  if (differing !== -1) {
+    return err(
+      new BackupIncompatibleError(
+        `migration ${differing + 1} differs from this version's`,
+      ),
+    );
+  }
+  return ok(undefined);
+}
+
+/**
+ * Reads the manifest line at the start of an archive
+ *
+ * @private
+ */
+function readArchiveHeader(
+  archivePath: string,
+): ResultAsync<ArchiveHeader, BackupErrorUnion> {
+  return ResultAsync.fromPromise(
+    (async () => {
+      const file = await open(archivePath, "r");
+      try {
+        const buffer = Buffer.alloc(MAX_MANIFEST_LENGTH);
+        const { bytesRead } = await file.read(buffer, 0, buffer.length, 0);
+        const newline = buffer.subarray(0, bytesRead).indexOf("\n");
+        if (newline === -1) {
+          throw new BackupArchiveInvalidError("no manifest line");
+        }
+
+        const manifestJson = buffer.toString("utf8", 0, newline);
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(manifestJson);
+        } catch {
+          throw new BackupArchiveInvalidError("the manifest is not JSON");
+        }
+        const manifest = validateJson(BackupManifestSchema, parsed);
+        if (manifest.isErr()) {
+          throw new BackupArchiveInvalidError(
+            `unexpected manifest (${manifest.error.paths.join(", ")})`,
+          );
+        }
+
+        return {
+          manifest: manifest.value,
+          manifestJson,
+          dataOffset: newline + 1,
+        };
+      } finally {
+        await file.close();
+      }
+    })(),
+    (error) => toBackupError<BackupErrorUnion>(error),
+  );
+}
+
+/**
+ * Reads the manifest of a backup archive without decrypting it
+ *
+ * @param {string} archivePath - Path of the archive
+ * @returns {ResultAsync<BackupManifest, BackupErrorUnion>} The manifest or error
+ *
+ * @errors
+ * - BackupArchiveInvalidError - Not a backup archive
+ * - BackupIoFailedError - The file cannot be read
+ *
+ * @remarks
+ * The manifest is authenticated together with the database: it can only
+ * be trusted once {@link restoreBackup} has decrypted the archive.
+ */
+export function readBackupManifest(
+  archivePath: string,
+): ResultAsync<BackupManifest, BackupErrorUnion> {
+  return readArchiveHeader(archivePath).map((header) => header.manifest);
+}
+
+/**
+ * Takes a consistent snapshot of the current database into a file
+ *
+ * @private
+ * @remarks
+ * `VACUUM INTO` reads inside a single transaction, so writes that happen
+ * meanwhile are either fully in the snapshot or not at all.
+ */
+async function takeSnapshot(snapshotPath: string): Promise<void> {
+  try {
+    await getDb().run(sql`VACUUM INTO ${snapshotPath}`);
+  } catch (error) {
+    throw new BackupSnapshotFailedError(
+      error instanceof Error ? error : new Error(String(error)),
+    );
+  }
+}
+
+/**
+ * Describes a snapshot: size and applied migrations
+ *
+ * @private
+ */
+async function describeSnapshot(snapshotPath: string): Promise<BackupManifest> {
+  const db = openDatabaseFile(snapshotPath);
+  try {
+    return {
+      format: BACKUP_FORMAT,
+      createdAt: new Date().toISOString(),
+      databaseBytes: (await stat(snapshotPath)).size,
+      migrations: await appliedMigrations(db),
+    };
+  } finally {
+    db.$client.close();
+  }
+}
+
+/**
+ * Writes the manifest line followed by the encrypted snapshot
+ *
+ * @private
+ * @remarks
+ * The archive is written next to its destination and renamed once
+ * complete, so a failed backup never leaves a truncated archive behind.
+ */
+async function writeArchive(
+  snapshotPath: string,
+  outputPath: string,
+  manifest: BackupManifest,
+  key: string,
+): Promise<void> {
+  const manifestJson = JSON.stringify(manifest);
+  const transform = createEncryptionStream(key, {
+    associatedData: manifestJson,
+  });
+  if (transform.isErr()) {
+    throw transform.error;
+  }
+
+  const partialPath = `${outputPath}.partial`;
+  try {
+    await writeFile(partialPath, `${manifestJson}\n`, { mode: 0o600 });
+    const source = Readable.toWeb(
+      createReadStream(snapshotPath),
+    ) as unknown as ReadableStream<Uint8Array>;
+    const destination = Writable.toWeb(
+      createWriteStream(partialPath, { flags: "a" }),
+    ) as WritableStream<Uint8Array>;
+    await source.pipeThrough(transform.value).pipeTo(destination);
+    await rename(partialPath, outputPath);
+  } catch (error) {
+    await rm(partialPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Creates an encrypted backup of the whole database
+ *
+ * @param {string} outputPath - Path of the archive to write
+ * @param {CreateBackupOptions} [options] - Backup key
+ * @returns {ResultAsync<BackupManifest, CreateBackupErrorUnion>} Manifest of the archive or error
+ *
+ * @example
+ * ```typescript
+ * const result = await createBackup("backups/core-2024-06-01.backup", {
+ *   key: config.backup.key ?? undefined,
+ * });
+ * if (result.isOk()) {
+ *   console.log(`${result.value.databaseBytes} bytes backed up`);
+ * }
+ * ```
+ *
+ * @errors
+ * - BackupKeyMissingError - No key passed (BACKUP_KEY is not set)
+ * - InvalidKeyLengthError - The backup key is not 32 bytes
+ * - BackupSnapshotFailedError - The database could not be snapshotted
+ * - BackupIoFailedError / EncryptionFailedError - Writing the archive failed
+ * - AuditDatabaseError - The backup could not be recorded
+ *
+ * @remarks
+ * - Safe while the service is running: the snapshot is transactionally consistent
+ * - The archive is a JSON manifest line (readable without the key) followed by
+ *   the database encrypted with the streaming format; the manifest is bound to
+ *   every chunk as associated data, so editing it breaks decryption
+ * - Credentials stay sealed with the ENCRYPTION_KEY they were stored under:
+ *   the backup key alone does not reveal them
+ * - Recorded as `backup.create` in the audit log
+ */
+export function createBackup(
+  outputPath: string,
+  options: CreateBackupOptions = {},
+): ResultAsync<BackupManifest, CreateBackupErrorUnion> {
+  const key = resolveBackupKey(options.key);
+  if (key.isErr()) {
+    return errAsync(key.error);
+  }
+
+  return ResultAsync.fromPromise(
+    (async () => {
+      const workDir = await mkdtemp(join(tmpdir(), "coresvc-backup-"));
+      try {
+        const snapshotPath = join(workDir, "snapshot.db");
+        await takeSnapshot(snapshotPath);
+        const manifest = await describeSnapshot(snapshotPath);
+        await writeArchive(snapshotPath, outputPath, manifest, key.value);
+        return manifest;
+      } finally {
+        await rm(workDir, { recursive: true, force: true });
+      }
+    })(),
+    (error) => toBackupError<CreateBackupErrorUnion>(error),
+  ).andThen((manifest) =>
+    recordAuditEvent({
+      action: "backup.create",
+      details: {
+        file: basename(outputPath),
+        databaseBytes: manifest.databaseBytes,
+        migrations: manifest.migrations.length,
+      },
+    }).map(() => manifest),
+  );
+}
+
+/**
+ * Decrypts the database of an archive into a file
+ *
+ * @private
+ */
+async function decryptArchive(
+  archivePath: string,
+  header: ArchiveHeader,
+  outputPath: string,
+  key: string,
+): Promise<void> {
+  const transform = createDecryptionStream(key, {
+    associatedData: header.manifestJson,
+  });
+  if (transform.isErr()) {
+    throw transform.error;
+  }
+
+  const source = Readable.toWeb(
+    createReadStream(archivePath, { start: header.dataOffset }),
+  ) as unknown as ReadableStream<Uint8Array>;
+  const destination = Writable.toWeb(
+    createWriteStream(outputPath, { mode: 0o600 }),
+  ) as WritableStream<Uint8Array>;
+  await source.pipeThrough(transform.value).pipeTo(destination);
+}
+
+/**
+ * Checks a decrypted database, migrates it and re-wraps its credentials
+ *
+ * @private
+ */
+async function prepareCandidate(
+  candidatePath: string,
+  keyring: Keyring,
+): Promise<KeyRotationProgress> {
+  const db = openDatabaseFile(candidatePath);
+  try {
+    const [check] = await db.all<{ integrity_check: string }>(
+      sql`PRAGMA integrity_check`,
+    );
+    if (check?.integrity_check !== "ok") {
+      throw new BackupValidationFailedError(
+        `integrity check reported "${check?.integrity_check ?? "nothing"}"`,
+      );
+    }
+
+    const migrated = await runMigrations({ db });
+    if (migrated.isErr()) {
+      throw new BackupValidationFailedError(migrated.error.message);
+    }
+
+    const rotation = await rotateEncryptionKeys(keyring, { db });
+    if (rotation.isErr()) {
+      throw rotation.error;
+    }
+    return rotation.value;
+  } finally {
+    db.$client.close();
+  }
+}
+
+/**
+ * Moves the database file (and its WAL files) out of the way
+ *
+ * @private
+ */
+async function setAside(
+  databasePath: string,
+  suffix: string,
+): Promise<string | null> {
+  let moved: string | null = null;
+  for (const extension of ["", "-wal", "-shm"]) {
+    try {
+      await rename(
+        databasePath + extension,
+        `${databasePath}${suffix}${extension}`,
+      );
+      moved ??= `${databasePath}${suffix}`;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+    }
+  }
+  return moved;
+}
+
+/**
+ * Replaces the database with the one of an encrypted backup
+ *
+ * @param {string} archivePath - Path of the archive written by createBackup
+ * @param {RestoreBackupOptions} [options] - Backup key and encryption keys
+ * @returns {ResultAsync<RestoreBackupResult, RestoreBackupErrorUnion>} Outcome or error
+ *
+ * @example
+ * ```typescript
+ * // Credentials were sealed with a key this deployment does not use
+ * const result = await restoreBackup("core.backup", {
+ *   key: config.backup.key ?? undefined,
+ *   previousEncryptionKeys: [oldEncryptionKey],
+ * });
+ * ```
+ *
+ * @errors
+ * - BackupKeyMissingError - No key passed (BACKUP_KEY is not set)
+ * - BackupArchiveInvalidError - Not a backup archive
+ * - BackupIncompatibleError - The backup has migrations this version does not know
+ * - StreamChunkAuthFailedError / StreamTruncatedError / InvalidStreamFormatError -
+ *   Wrong backup key, or the archive was tampered with or cut short
+ * - BackupValidationFailedError - The integrity check or the migrations failed
+ * - CredentialReencryptionFailedError - A credential cannot be opened with the keyring
+ * - BackupIoFailedError - Reading or writing a file failed
+ * - AuditDatabaseError - The restore could not be recorded
+ *
+ * @remarks
+ * - Everything is checked on a decrypted copy first: the integrity check,
+ *   pending migrations, and every credential re-wrapped under the active
+ *   ENCRYPTION_KEY. Only then the current database is replaced; on any
+ *   earlier failure it is left untouched
+ * - The replaced database is kept next to it as `<file>.pre-restore-<timestamp>`
+ * - Closes the shared connection: stop the service before restoring, or other
+ *   writers keep using the replaced file
+ * - Recorded as `backup.restore` in the restored database's audit log
+ */
+export function restoreBackup(
+  archivePath: string,
+  options: RestoreBackupOptions = {},
+): ResultAsync<RestoreBackupResult, RestoreBackupErrorUnion> {
+  const key = resolveBackupKey(options.key);
+  if (key.isErr()) {
+    return errAsync(key.error);
+  }
+  const keyring = resolveRestoreKeyring(options);
+  if (keyring.isErr()) {
+    return errAsync(keyring.error);
+  }
+
+  return readArchiveHeader(archivePath)
+    .andThen((header) =>
+      checkMigrations(header.manifest.migrations).map(() => header),
+    )
+    .andThen((header) =>
+      ResultAsync.fromPromise(
+        (async () => {
+          const databasePath = getDatabasePath();
+          const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+          const candidatePath = `${databasePath}.restore-${timestamp}`;
+          await mkdir(dirname(databasePath), { recursive: true });
+
+          let rotation: KeyRotationProgress;
+          try {
+            await decryptArchive(archivePath, header, candidatePath, key.value);
+            rotation = await prepareCandidate(candidatePath, keyring.value);
+          } catch (error) {
+            for (const extension of ["", "-wal", "-shm"]) {
+              await rm(candidatePath + extension, { force: true });
+            }
+            throw error;
+          }
+
+          closeDb();
+          const previousDatabasePath = await setAside(
+            databasePath,
+            `.pre-restore-${timestamp}`,
+          );
+          await rename(candidatePath, databasePath);
+
+          return { manifest: header.manifest, rotation, previousDatabasePath };
+        })(),
+        (error) => toBackupError<RestoreBackupErrorUnion>(error),
+      ),
+    )
+    .andThen((restored) =>
+      recordAuditEvent({
+        action: "backup.restore",
+        details: {
+          file: basename(archivePath),
+          createdAt: restored.manifest.createdAt,
+          rotated: restored.rotation.rotated,
+        },
+      }).map(() => restored),
+    );
+}
+
+if (import.meta.main) {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: {
+      "previous-encryption-key": { type: "string", multiple: true },
+    },
+  });
+  const [command, path] = positionals;
+
+  if (!path || (command !== "create" && command !== "restore")) {
+    console.error(
+      "Usage: bun run db:backup <file> | bun run db:restore <file> [--previous-encryption-key k]...",
+    );
+    process.exit(1);
+  }
+
+  const config = loadConfig();
+  if (config.isErr()) {
+    console.error(config.error.message);
+    process.exit(1);
+  }
+  applyConfig(config.value);
+  const key = config.value.backup.key ?? undefined;
+
+  if (command === "create") {
+    const result = await runAsAuditActor("cli:db:backup", () =>
+      createBackup(path, { key }),
+    );
+    result.match(
+      (manifest) =>
+        console.log(
+          `Backed up ${manifest.databaseBytes} bytes (${manifest.migrations.length} migrations) to ${path}`,
+        ),
+      (error) => {
+        console.error(error.message);
+        process.exit(1);
+      },
+    );
+  } else {
+    const result = await runAsAuditActor("cli:db:restore", () =>
+      restoreBackup(path, {
+        key,
+        previousEncryptionKeys: values["previous-encryption-key"],
+      }),
+    );
+    result.match(
+      ({ manifest, rotation, previousDatabasePath }) =>
+        console.log(
+          `Restored the backup of ${manifest.createdAt}: ${rotation.rotated} credentials re-wrapped` +
+            (previousDatabasePath
+              ? `, previous database kept at ${previousDatabasePath}`
+              : ""),
+        ),
+      (error) => {
+        console.error(error.message);
+        process.exit(1);
+      },
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { createClient } from "@libsql/client";
+import { eq, sql } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/libsql";
+import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { generateEncryptionKey } from "../lib/crypto";
+import { createLocalKekProvider } from "../lib/envelope";
+import { createKeyring } from "../lib/keyring";
+import { encryptedJson, sealJson } from "./columns";
+
+interface Secret {
+  apiKey: string;
+}
+
+describe("Encrypted JSON Column", () => {
+  const kek = createLocalKekProvider(
+    createKeyring(generateEncryptionKey())._unsafeUnwrap(),
+  );
+  const valueOptions = { associatedData: "secrets.value", kek };
+
+  const secrets = sqliteTable("secrets", {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    name: text("name").notNull(),
+    value: encryptedJson<Secret>("value", valueOptions),
+  });
+
+  let tempDir: string;
+  let db: ReturnType<typeof drizzle>;
+
+  beforeAll(async () => {
+    tempDir = mkdtempSync(join(tmpdir(), "coresvc-columns-"));
+    db = drizzle(createClient({ url: `file:${join(tempDir, "test.db")}` }));
+    await db.run(
+      sql`CREATE TABLE secrets (id integer PRIMARY KEY AUTOINCREMENT, name text NOT NULL, value text)`,
+    );
+  });
+
+  afterAll(() => {
+    db.$client.close();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should encrypt on insert and decrypt on select", async () => {
+    const sealed = sealJson<Secret>({ apiKey: "sk-test" }, valueOptions);
+    await db
+      .insert(secrets)
+      .values({ name: "openai", value: sealed._unsafeUnwrap() });
+
+    const raw = await db.all<{ value: string }>(
+      sql`SELECT value FROM secrets WHERE name = 'openai'`,
+    );
+    expect(raw[0].value).not.toContain("sk-test");
+
+    const [row] = await db
+      .select()
+      .from(secrets)
+      .where(eq(secrets.name, "openai"));
+    expect(row.value?.value._unsafeUnwrap()).toEqual({ apiKey: "sk-test" });
+  });
+
+  it("should report undecryptable values as typed errors", async () => {
+    const sealed = sealJson<Secret>(
+      { apiKey: "sk-other" },
+      { associatedData: "memories.content", kek },
+    );
+    await db
+      .insert(secrets)
+      .values({ name: "copied", value: sealed._unsafeUnwrap() });
+    await db.run(
+      sql`INSERT INTO secrets (name, value) VALUES ('garbage', 'not json')`,
+    );
+
+    const rows = await db.select().from(secrets);
+    const errors = Object.fromEntries(
+      rows.map((row) => [
+        row.name,
+        row.value?.value.isErr() ? row.value.value.error.type : null,
+      ]),
+    );
+
+    expect(errors).toEqual({
+      openai: null,
+      copied: "ASSOCIATED_DATA_MISMATCH",
+      garbage: "JSON_PARSE_FAILED",
+    });
+  });
+});
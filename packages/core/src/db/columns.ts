@@ -0,0 +1,152 @@
+import { customType } from "drizzle-orm/sqlite-core";
+import { err, ok, Result } from "neverthrow";
+import type {
+  DecryptJsonErrorUnion,
+  EncryptJsonErrorUnion,
+} from "../lib/crypto.errors";
+import { JsonParseFailedError } from "../lib/crypto.errors";
+import type { KekProvider } from "../lib/envelope";
+import {
+  isEnvelopeData,
+  openEnvelopeJson,
+  sealEnvelopeJson,
+} from "../lib/envelope";
+
+/**
+ * Options shared by an encrypted column and the values written to it
+ *
+ * @property {string} [associatedData] - Context every value of the column is bound to (e.g. `"secrets.value"`)
+ * @property {KekProvider} [kek] - Optional KEK provider (defaults to the local provider of the default keyring)
+ */
+export interface EncryptedJsonOptions {
+  associatedData?: string;
+  kek?: KekProvider;
+}
+
+/**
+ * The value of an encrypted JSON column
+ *
+ * @template T - The type of the decrypted JSON
+ * @property {string} stored - The serialized envelope as stored in the database
+ * @property {Result<T, DecryptJsonErrorUnion>} value - The decrypted value, or why it could not be decrypted
+ *
+ * @remarks
+ * Selecting a row never fails because of a single undecryptable value;
+ * the error is reported per value instead.
+ */
+export interface EncryptedJson<T> {
+  readonly stored: string;
+  readonly value: Result<T, DecryptJsonErrorUnion>;
+}
+
+/**
+ * Encrypts a value for an encrypted JSON column
+ *
+ * @template T - The type of the value
+ * @param {T} value - The value to encrypt (must be JSON-serializable)
+ * @param {EncryptedJsonOptions} [options] - Must match the options of the column
+ * @returns {Result<EncryptedJson<T>, EncryptJsonErrorUnion>} Result with the column value or error
+ *
+ * @example
+ * ```typescript
+ * const sealed = sealJson({ apiKey: "sk-..." }, { associatedData: "secrets.value" });
+ * if (sealed.isOk()) {
+ *   await db.insert(secrets).values({ name: "openai", value: sealed.value });
+ * }
+ * ```
+ *
+ * @remarks
+ * Encryption happens here rather than inside the insert, so failures
+ * surface as typed errors before the query is sent.
+ */
+export function sealJson<T>(
+  value: T,
+  options: EncryptedJsonOptions = {},
+): Result<EncryptedJson<T>, EncryptJsonErrorUnion> {
+  return sealEnvelopeJson(value, options.kek, options.associatedData).map(
+    (envelope) => ({ stored: JSON.stringify(envelope), value: ok(value) }),
+  );
+}
+
+/**
+ * Decrypts a stored value of an encrypted JSON column
+ *
+ * @template T - The expected type of the decrypted JSON
+ * @param {string} stored - The serialized envelope
+ * @param {EncryptedJsonOptions} [options] - The options of the column
+ * @returns {EncryptedJson<T>} The column value; `value` holds the decryption result
+ */
+export function openJson<T>(
+  stored: string,
+  options: EncryptedJsonOptions = {},
+): EncryptedJson<T> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stored);
+  } catch (error) {
+    return {
+      stored,
+      value: err(
+        new JsonParseFailedError(
+          error instanceof Error ? error : new Error(String(error)),
+        ),
+      ),
+    };
+  }
+
+  if (!isEnvelopeData(parsed)) {
+    return {
+      stored,
+      value: err(
+        new JsonParseFailedError(new Error("Stored value is not an envelope")),
+      ),
+    };
+  }
+
+  return {
+    stored,
+    value: openEnvelopeJson<T>(parsed, options.kek, options.associatedData),
+  };
+}
+
+/**
+ * Builds a text column that stores envelope-encrypted JSON
+ *
+ * @template T - The type of the decrypted JSON
+ * @param {string} name - The column name
+ * @param {EncryptedJsonOptions} [options] - Associated data and KEK provider of the column
+ * @returns The Drizzle column builder
+ *
+ * @example
+ * ```typescript
+ * const valueOptions = { associatedData: "secrets.value" };
+ *
+ * export const secrets = sqliteTable("secrets", {
+ *   name: text("name").primaryKey(),
+ *   value: encryptedJson<{ apiKey: string }>("value", valueOptions),
+ * });
+ *
+ * const [row] = await db.select().from(secrets);
+ * if (row.value.value.isOk()) {
+ *   console.log(row.value.value.value.apiKey);
+ * }
+ * ```
+ *
+ * @remarks
+ * - Values are written with {@link sealJson} and decrypted on select.
+ *   Drizzle's driver hooks can only report a failure by throwing, so
+ *   `toDriver` does not encrypt: it stores the envelope sealed beforehand
+ * - The associated data binds values to the column, not to a row; tables
+ *   that need row binding (like `connected_services`) seal values themselves
+ * - Rotating the KEK only requires re-wrapping the data keys (see `rewrapEnvelope`)
+ */
+export function encryptedJson<T>(
+  name: string,
+  options: EncryptedJsonOptions = {},
+) {
+  return customType<{ data: EncryptedJson<T>; driverData: string }>({
+    dataType: () => "text",
+    toDriver: (value) => value.stored,
+    fromDriver: (stored) => openJson<T>(stored, options),
+  })(name);
+}
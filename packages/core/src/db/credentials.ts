@@ -0,0 +1,254 @@
+import type { Static, TSchema } from "@sinclair/typebox";
+import { err, ok, Result } from "neverthrow";
+import type { EncryptedData } from "../lib/crypto";
+import type {
+  DecryptJsonErrorUnion,
+  DecryptJsonWithSchemaErrorUnion,
+  EncryptJsonErrorUnion,
+} from "../lib/crypto.errors";
+import { JsonParseFailedError } from "../lib/crypto.errors";
+import type { EnvelopeData, KekProvider } from "../lib/envelope";
+import {
+  createLocalKekProvider,
+  isEnvelopeData,
+  openEnvelopeJson,
+  sealEnvelopeJson,
+} from "../lib/envelope";
+import { validateJson } from "../lib/json-schema";
+import { getDefaultKeyring } from "../lib/keyring";
+import type { ConnectedService } from "./schema";
+
+/**
+ * The columns of a connected service its credentials are bound to
+ */
+export type CredentialContext = Pick<
+  ConnectedService,
+  "id" | "provider" | "type"
+>;
+
+/**
+ * The value stored in `connected_services.encrypted_data`
+ *
+ * @remarks
+ * New rows always hold an envelope. Plain EncryptedData is the legacy format
+ * (sealed directly with the master key) and is upgraded by the key rotation.
+ */
+export type StoredCredentials = EnvelopeData | EncryptedData;
+
+/**
+ * Builds the associated data binding a credential blob to its row
+ *
+ * @param {CredentialContext} context - Row id, provider and type of the connected service
+ * @returns {string} Associated data for encrypt/decrypt
+ *
+ * @remarks
+ * A blob copied onto another row (e.g. a YouTube token onto a GitHub row)
+ * fails to decrypt because the associated data no longer matches.
+ */
+export function credentialAssociatedData(context: CredentialContext): string {
+  return JSON.stringify([
+    "connected_services",
+    context.id,
+    context.provider,
+    context.type,
+  ]);
+}
+
+/**
+ * Encrypts credentials for storage in a connected service row
+ *
+ * @param {CredentialContext} context - The row the credentials belong to
+ * @param {unknown} data - The credentials (must be JSON-serializable)
+ * @param {KekProvider} [kek] - Optional KEK provider (defaults to the local provider from env vars)
+ * @returns {Result<string, EncryptJsonErrorUnion>} Result with the `encrypted_data` column value or error
+ */
+export function sealCredentials(
+  context: CredentialContext,
+  data: unknown,
+  kek?: KekProvider,
+): Result<string, EncryptJsonErrorUnion> {
+  return sealEnvelopeJson(data, kek, credentialAssociatedData(context)).map(
+    serializeStoredCredentials,
+  );
+}
+
+/**
+ * Decrypts the credentials stored in a connected service row
+ *
+ * @template T - The expected type of the credentials
+ * @param {CredentialContext & { encryptedData: string }} row - The stored row
+ * @param {KekProvider} [kek] - Optional KEK provider (defaults to the local provider from env vars)
+ * @returns {Result<T, DecryptJsonErrorUnion>} Result with the credentials or error
+ */
+export function openCredentials<T = unknown>(
+  row: CredentialContext & { encryptedData: string },
+  kek?: KekProvider,
+): Result<T, DecryptJsonErrorUnion> {
+  const associatedData = credentialAssociatedData(row);
+
+  return parseStoredCredentials(row.encryptedData).andThen((stored) =>
+    isEnvelopeData(stored)
+      ? openEnvelopeJson<T>(stored, kek, associatedData)
+      : openLegacyCredentials(stored, kek, associatedData).andThen(
+          (plaintext) => parseJson<T>(plaintext),
+        ),
+  );
+}
+
+/**
+ * Decrypts the credentials stored in a connected service row and validates their shape
+ *
+ * @template S - The TypeBox schema type
+ * @param {CredentialContext & { encryptedData: string }} row - The stored row
+ * @param {S} schema - The schema the credentials must match
+ * @param {KekProvider} [kek] - Optional KEK provider (defaults to the local provider from env vars)
+ * @returns {Result<Static<S>, DecryptJsonWithSchemaErrorUnion>} Result with the validated credentials or error
+ */
+export function openCredentialsWithSchema<S extends TSchema>(
+  row: CredentialContext & { encryptedData: string },
+  schema: S,
+  kek?: KekProvider,
+): Result<Static<S>, DecryptJsonWithSchemaErrorUnion> {
+  return openCredentials(row, kek).andThen((value) =>
+    validateJson(schema, value),
+  );
+}
+
+/**
+ * Checks that the key of stored credentials unwraps, without opening them
+ *
+ * @param {CredentialContext & { encryptedData: string }} row - The stored row
+ * @param {KekProvider} [kek] - Optional KEK provider (defaults to the local provider from env vars)
+ * @returns {Result<boolean, DecryptJsonErrorUnion>} Result with whether the key was checked or error
+ *
+ * @errors
+ * - JsonParseFailedError - The column is neither an envelope nor EncryptedData
+ * - All errors from decrypt() (unknown key ID, tampering, a row binding that does not match)
+ *
+ * @remarks
+ * Only the data key of an envelope is unwrapped, then discarded; the payload
+ * stays sealed, so this is not a read of the credentials. Legacy rows are
+ * sealed with the master key itself and are not checked (false), as
+ * unwrapping their key would decrypt the credentials.
+ */
+export function verifyCredentialKey(
+  row: CredentialContext & { encryptedData: string },
+  kek?: KekProvider,
+): Result<boolean, DecryptJsonErrorUnion> {
+  return parseStoredCredentials(row.encryptedData).andThen((stored) => {
+    if (!isEnvelopeData(stored)) {
+      return ok(false);
+    }
+    const provider = kek
+      ? ok(kek)
+      : getDefaultKeyring().map(createLocalKekProvider);
+    return provider
+      .andThen((provider) =>
+        provider.unwrapKey(stored.wrappedKey, credentialAssociatedData(row)),
+      )
+      .map(() => true);
+  });
+}
+
+/**
+ * Decrypts credentials stored in the legacy (non-envelope) format
+ *
+ * @param {EncryptedData} stored - The legacy encrypted data
+ * @param {KekProvider | undefined} kek - KEK provider (defaults to the local provider from env vars)
+ * @param {string} associatedData - The row binding of the credentials
+ * @returns {Result<string, DecryptJsonErrorUnion>} Result with the plaintext or error
+ *
+ * @remarks
+ * Legacy rows were sealed directly with the master key, which is exactly
+ * what unwrapping a data key with the KEK does. Rows sealed before row
+ * binding existed are opened without associated data.
+ */
+export function openLegacyCredentials(
+  stored: EncryptedData,
+  kek: KekProvider | undefined,
+  associatedData: string,
+): Result<string, DecryptJsonErrorUnion> {
+  const providerResult = kek
+    ? ok(kek)
+    : getDefaultKeyring().map(createLocalKekProvider);
+
+  return providerResult.andThen((provider) =>
+    provider.unwrapKey(stored, stored.aadDigest ? associatedData : undefined),
+  );
+}
+
+/**
+ * Serializes stored credentials for the `connected_services.encrypted_data` column
+ *
+ * @param {StoredCredentials} data - The envelope (or legacy encrypted data) to store
+ * @returns {string} JSON representation of the stored credentials
+ */
+export function serializeStoredCredentials(data: StoredCredentials): string {
+  return JSON.stringify(data);
+}
+
+/**
+ * Parses the `connected_services.encrypted_data` column
+ *
+ * @param {string} value - The stored column value
+ * @returns {Result<StoredCredentials, JsonParseFailedError>} Result with the stored credentials or error
+ *
+ * @errors
+ * - JsonParseFailedError - Value is not JSON, or neither an envelope nor EncryptedData
+ */
+export function parseStoredCredentials(
+  value: string,
+): Result<StoredCredentials, JsonParseFailedError> {
+  return parseJson<unknown>(value).andThen((parsed) => {
+    const isEnvelope =
+      isEnvelopeData(parsed) &&
+      isEncryptedData(parsed.wrappedKey) &&
+      isEncryptedData(parsed.payload);
+
+    if (!isEnvelope && !isEncryptedData(parsed)) {
+      return err(
+        new JsonParseFailedError(
+          new Error("Stored value is neither an envelope nor EncryptedData"),
+        ),
+      );
+    }
+    return ok(parsed as StoredCredentials);
+  });
+}
+
+/**
+ * Parses JSON into a Result
+ *
+ * @private
+ */
+function parseJson<T>(value: string): Result<T, JsonParseFailedError> {
+  try {
+    return ok(JSON.parse(value) as T);
+  } catch (error) {
+    return err(
+      new JsonParseFailedError(
+        error instanceof Error ? error : new Error(String(error)),
+      ),
+    );
+  }
+}
+
+/**
+ * Type guard for the shape of EncryptedData
+ *
+ * @private
+ */
+function isEncryptedData(value: unknown): value is EncryptedData {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.ciphertext === "string" &&
+    typeof candidate.iv === "string" &&
+    typeof candidate.tag === "string" &&
+    (candidate.keyId === undefined || typeof candidate.keyId === "string") &&
+    (candidate.aadDigest === undefined ||
+      typeof candidate.aadDigest === "string")
+  );
+}
@@ -3,11 +3,32 @@ import { mkdir } from 'fs/promises';
 import { drizzle } from "drizzle-orm/libsql";
 import * as schema from "./schema";
 
-let dbInstance: ReturnType<typeof drizzle> | null = null;
+export type Database = ReturnType<typeof drizzle>;
+
+export const DEFAULT_DATABASE_PATH = './data/core.db';
+
+let dbInstance: Database | null = null;
+let databasePath = DEFAULT_DATABASE_PATH;
+
+/**
+ * Sets the database file, closing the connection to a previous one
+ *
+ * @param {{ path: string }} config - `config.database`
+ */
+export function configureDatabase(config: { path: string }) {
+  if (config.path !== databasePath) {
+    closeDb();
+    databasePath = config.path;
+  }
+}
+
+export function getDatabasePath() {
+  return databasePath;
+}
 
 export function getDb() {
   if (!dbInstance) {
-    const dbPath = process.env.DATABASE_PATH || './data/core.db';
+    const dbPath = getDatabasePath();
     
     // Ensure data directory exists
     if (dbPath.includes('/')) {
@@ -24,3 +45,10 @@ export function getDb() {
   
   return dbInstance;
 }
+
+export function closeDb() {
+  if (dbInstance) {
+    dbInstance.$client.close();
+    dbInstance = null;
+  }
+}
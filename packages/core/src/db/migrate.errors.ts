@@ -0,0 +1,121 @@
+/**
+ * Migration Error Types
+ *
+ * Discriminated union type for all errors of schema migrations.
+ */
+export type MigrationErrorType =
+  | "MIGRATION_FILES_UNREADABLE"
+  | "MIGRATION_DATABASE_ERROR"
+  | "MIGRATION_SNAPSHOT_FAILED"
+  | "MIGRATION_FAILED"
+  | "MIGRATION_ROLLBACK_FAILED";
+
+/**
+ * Base class for all migration errors.
+ */
+export abstract class MigrationError extends Error {
+  abstract readonly type: MigrationErrorType;
+
+  constructor(message: string) {
+    super(message);
+    this.name = this.constructor.name;
+    Error.captureStackTrace?.(this, this.constructor);
+  }
+}
+
+/**
+ * Error thrown when the migration journal or a migration file cannot be read.
+ */
+export class MigrationFilesUnreadableError extends MigrationError {
+  readonly type = "MIGRATION_FILES_UNREADABLE" as const;
+
+  constructor(
+    public readonly folder: string,
+    public readonly cause: Error,
+  ) {
+    super(`Cannot read the migrations in ${folder}: ${cause.message}`);
+  }
+}
+
+/**
+ * Error thrown when the migrations table cannot be read.
+ */
+export class MigrationDatabaseError extends MigrationError {
+  readonly type = "MIGRATION_DATABASE_ERROR" as const;
+
+  constructor(public readonly cause: Error) {
+    super(`Cannot read the applied migrations: ${cause.message}`);
+  }
+}
+
+/**
+ * Error thrown when the database cannot be snapshotted before migrating.
+ *
+ * @remarks
+ * Nothing was applied: the migrations only run once the snapshot exists.
+ */
+export class MigrationSnapshotFailedError extends MigrationError {
+  readonly type = "MIGRATION_SNAPSHOT_FAILED" as const;
+
+  constructor(public readonly cause: Error) {
+    super(`Database snapshot before migrating failed: ${cause.message}`);
+  }
+}
+
+/**
+ * Error thrown when applying the pending migrations fails.
+ *
+ * @remarks
+ * `rolledBack` tells whether the database was put back from its snapshot.
+ */
+export class MigrationFailedError extends MigrationError {
+  readonly type = "MIGRATION_FAILED" as const;
+
+  constructor(
+    public readonly cause: Error,
+    public readonly rolledBack: boolean,
+  ) {
+    super(
+      `Migration failed: ${cause.message}` +
+        (rolledBack ? " (the database was restored from its snapshot)" : ""),
+    );
+  }
+}
+
+/**
+ * Error thrown when a migration failed and the snapshot could not be put back.
+ *
+ * @remarks
+ * The database may be half migrated; the snapshot is left in place so it
+ * can be restored by hand (with the service stopped).
+ */
+export class MigrationRollbackFailedError extends MigrationError {
+  readonly type = "MIGRATION_ROLLBACK_FAILED" as const;
+
+  constructor(
+    public readonly migrationError: Error,
+    public readonly cause: Error,
+    public readonly snapshotPath: string,
+  ) {
+    super(
+      `Migration failed (${migrationError.message}) and restoring the snapshot failed (${cause.message}); ` +
+        `the snapshot is kept at ${snapshotPath}`,
+    );
+  }
+}
+
+/**
+ * Subset of errors that can occur while reading the migration status.
+ */
+export type MigrationStatusErrorUnion =
+  | MigrationFilesUnreadableError
+  | MigrationDatabaseError;
+
+/**
+ * Union type of all migration errors.
+ */
+export type MigrationErrorUnion =
+  | MigrationStatusErrorUnion
+  | MigrationSnapshotFailedError
+  | MigrationFailedError
+  | MigrationRollbackFailedError;
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "bun:test";
+import { readdirSync } from "node:fs";
+import { sql } from "drizzle-orm";
+import { useTestDatabase } from "../testing/database";
+import { getDb } from "./index";
+import {
+  getMigrationStatus,
+  MIGRATIONS_FOLDER,
+  readMigrationFiles,
+  runMigrations,
+} from "./migrate";
+
+describe("Migrations", () => {
+  const database = useTestDatabase({ perTest: true, migrate: false });
+
+  it("should read the shipped migrations from the package", () => {
+    expect(MIGRATIONS_FOLDER).toStartWith("/");
+    const files = readMigrationFiles()._unsafeUnwrap();
+
+    expect(files.length).toBeGreaterThan(0);
+    expect(files[0]!.tag).toStartWith("0000_");
+    expect(files[0]!.hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(files[0]!.statements[0]).toStartWith("CREATE TABLE");
+  });
+
+  it("should list the SQL in a dry run and apply it afterwards", async () => {
+    const files = readMigrationFiles()._unsafeUnwrap();
+
+    const plan = (await runMigrations({ dryRun: true }))._unsafeUnwrap();
+    expect(plan.dryRun).toBe(true);
+    expect(plan.migrations).toEqual(files);
+    expect((await getMigrationStatus())._unsafeUnwrap().pending).toHaveLength(
+      files.length,
+    );
+
+    const report = (await runMigrations())._unsafeUnwrap();
+    expect(report.migrations.map((migration) => migration.tag)).toEqual(
+      files.map((file) => file.tag),
+    );
+    expect((await getMigrationStatus())._unsafeUnwrap()).toEqual({
+      applied: files,
+      pending: [],
+      unrecognized: [],
+    });
+    // The snapshot is only kept when a migration fails
+    expect(readdirSync(database.dir)).not.toContainEqual(
+      expect.stringContaining(".pre-migrate-"),
+    );
+
+    expect((await runMigrations())._unsafeUnwrap().migrations).toEqual([]);
+  });
+
+  it("should roll back to the snapshot when a migration fails", async () => {
+    await getDb().run(sql`CREATE TABLE connected_services (id integer)`);
+    await getDb().run(sql`INSERT INTO connected_services VALUES (42)`);
+
+    const error = (await runMigrations())._unsafeUnwrapErr();
+    expect(error.type).toBe("MIGRATION_FAILED");
+    expect(error).toMatchObject({ rolledBack: true });
+
+    const status = (await getMigrationStatus())._unsafeUnwrap();
+    expect(status.applied).toEqual([]);
+    expect(await getDb().all(sql`SELECT id FROM connected_services`)).toEqual([
+      { id: 42 },
+    ]);
+    expect(readdirSync(database.dir)).not.toContainEqual(
+      expect.stringContaining(".pre-migrate-"),
+    );
+  });
+});
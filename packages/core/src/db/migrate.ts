@@ -1,16 +1,380 @@
-import { migrate } from 'drizzle-orm/libsql/migrator';
-import { getDb } from './index';
-import { ResultAsync } from 'neverthrow';
+import { existsSync, readFileSync } from "node:fs";
+import { rename, rm } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { parseArgs } from "node:util";
+import { sql } from "drizzle-orm";
+import { migrate } from "drizzle-orm/libsql/migrator";
+import { readMigrationFiles as readDrizzleMigrations } from "drizzle-orm/migrator";
+import { okAsync, Result, ResultAsync } from "neverthrow";
+import { applyConfig, loadConfig } from "../config/config";
+import type {
+  MigrationErrorUnion,
+  MigrationStatusErrorUnion,
+} from "./migrate.errors";
+import {
+  MigrationDatabaseError,
+  MigrationError,
+  MigrationFailedError,
+  MigrationFilesUnreadableError,
+  MigrationRollbackFailedError,
+  MigrationSnapshotFailedError,
+} from "./migrate.errors";
+import type { Database } from "./index";
+import { closeDb, getDatabasePath, getDb } from "./index";
 
-export function runMigrations() {
+/**
+ * Finds the `drizzle` folder of the package, from the source or the build
+ *
+ * @private
+ */
+function findMigrationsFolder(): string {
+  for (let dir = import.meta.dir; ; dir = dirname(dir)) {
+    const folder = join(dir, "drizzle");
+    if (existsSync(join(folder, "meta", "_journal.json"))) {
+      return folder;
+    }
+    if (dirname(dir) === dir) {
+      return join(import.meta.dir, "..", "..", "drizzle");
+    }
+  }
+}
+
+/**
+ * Absolute path of the migrations generated by drizzle-kit
+ *
+ * @remarks
+ * Resolved from this module rather than the working directory, so scripts
+ * and the bundled server find it wherever they are started from.
+ */
+export const MIGRATIONS_FOLDER = findMigrationsFolder();
+
+/**
+ * A migration shipped with this version
+ *
+ * @property {string} tag - File name without `.sql` (e.g. `0003_furry_synch`)
+ * @property {string} hash - SHA-256 of the file, as stored in `__drizzle_migrations`
+ * @property {Date} createdAt - When it was generated; orders the migrations
+ * @property {string[]} statements - SQL statements it runs
+ */
+export interface MigrationFile {
+  tag: string;
+  hash: string;
+  createdAt: Date;
+  statements: string[];
+}
+
+/**
+ * Shipped migrations compared to the database
+ *
+ * @property {MigrationFile[]} applied - Migrations the database has
+ * @property {MigrationFile[]} pending - Migrations the next run applies
+ * @property {string[]} unrecognized - Hashes in the database matching no shipped file (newer version, or an edited file)
+ */
+export interface MigrationStatus {
+  applied: MigrationFile[];
+  pending: MigrationFile[];
+  unrecognized: string[];
+}
+
+/**
+ * Options of {@link runMigrations}
+ *
+ * @property {Database} [db] - Database to migrate (defaults to the shared connection)
+ * @property {boolean} [dryRun] - Only report the pending migrations
+ * @property {boolean} [snapshot] - Snapshot the database file first, to roll back a failure (default true; never with `db`)
+ */
+export interface MigrationOptions {
+  db?: Database;
+  dryRun?: boolean;
+  snapshot?: boolean;
+}
+
+/**
+ * Outcome of {@link runMigrations}
+ *
+ * @property {MigrationFile[]} migrations - Migrations applied (or, in a dry run, that would be)
+ * @property {boolean} dryRun - Whether nothing was applied on purpose
+ */
+export interface MigrationReport {
+  migrations: MigrationFile[];
+  dryRun: boolean;
+}
+
+const toError = (error: unknown) =>
+  error instanceof Error ? error : new Error(String(error));
+
+/**
+ * Reads the migrations shipped with this version, oldest first
+ *
+ * @returns {Result<MigrationFile[], MigrationFilesUnreadableError>} The migrations or error
+ *
+ * @errors
+ * - MigrationFilesUnreadableError - The journal or a migration file is missing or malformed
+ */
+export function readMigrationFiles(): Result<
+  MigrationFile[],
+  MigrationFilesUnreadableError
+> {
+  return Result.fromThrowable(
+    () => {
+      const journal = JSON.parse(
+        readFileSync(join(MIGRATIONS_FOLDER, "meta", "_journal.json"), "utf8"),
+      ) as { entries: { tag: string }[] };
+      return readDrizzleMigrations({
+        migrationsFolder: MIGRATIONS_FOLDER,
+      }).map((migration, index) => ({
+        tag: journal.entries[index]!.tag,
+        hash: migration.hash,
+        createdAt: new Date(migration.folderMillis),
+        statements: migration.sql
+          .map((statement) => statement.trim())
+          .filter(Boolean),
+      }));
+    },
+    (error) =>
+      new MigrationFilesUnreadableError(MIGRATIONS_FOLDER, toError(error)),
+  )();
+}
+
+/**
+ * Reads the migrations applied to a database, oldest first
+ *
+ * @param {Database} [db] - Database to read (defaults to the shared connection)
+ * @returns {ResultAsync<{ hash: string; createdAt: Date }[], MigrationDatabaseError>} Hash and generation time of each, or error
+ *
+ * @errors
+ * - MigrationDatabaseError - The migrations table cannot be read
+ *
+ * @remarks
+ * A database that was never migrated has no migrations table: it has no
+ * applied migrations.
+ */
+export function listAppliedMigrations(
+  db: Database = getDb(),
+): ResultAsync<{ hash: string; createdAt: Date }[], MigrationDatabaseError> {
   return ResultAsync.fromPromise(
     (async () => {
-      const db = getDb();
-      await migrate(db, {
-        migrationsFolder: './drizzle'
-      });
-      return 'Migrations completed';
+      // Drizzle's migrator creates the table on its first run
+      const [table] = await db.all<{ name: string }>(
+        sql`SELECT name FROM sqlite_master WHERE type = 'table' AND name = '__drizzle_migrations'`,
+      );
+      if (!table) {
+        return [];
+      }
+      const rows = await db.all<{ hash: string; created_at: number }>(
+        sql`SELECT hash, created_at FROM __drizzle_migrations ORDER BY created_at, rowid`,
+      );
+      return rows.map((row) => ({
+        hash: row.hash,
+        createdAt: new Date(Number(row.created_at)),
+      }));
     })(),
-    (error: unknown) => new Error(`Migration failed: ${error}`)
+    (error) => new MigrationDatabaseError(toError(error)),
+  );
+}
+
+/**
+ * Compares the shipped migrations with the ones a database has
+ *
+ * @param {Database} [db] - Database to check (defaults to the shared connection)
+ * @returns {ResultAsync<MigrationStatus, MigrationStatusErrorUnion>} Applied, pending and unrecognized migrations, or error
+ *
+ * @errors
+ * - MigrationFilesUnreadableError - The shipped migrations cannot be read
+ * - MigrationDatabaseError - The migrations table cannot be read
+ *
+ * @remarks
+ * Pending follows drizzle's migrator: every migration generated after the
+ * newest applied one, whatever the hashes.
+ */
+export function getMigrationStatus(
+  db: Database = getDb(),
+): ResultAsync<MigrationStatus, MigrationStatusErrorUnion> {
+  return readMigrationFiles().asyncAndThen((files) =>
+    listAppliedMigrations(db).map((applied) => {
+      const newest = Math.max(
+        -Infinity,
+        ...applied.map((migration) => migration.createdAt.getTime()),
+      );
+      const shipped = new Set(files.map((file) => file.hash));
+      return {
+        applied: files.filter((file) => file.createdAt.getTime() <= newest),
+        pending: files.filter((file) => file.createdAt.getTime() > newest),
+        unrecognized: applied
+          .map((migration) => migration.hash)
+          .filter((hash) => !shipped.has(hash)),
+      };
+    }),
   );
-}
\ No newline at end of file
+}
+
+/**
+ * Puts the snapshot back in place of the shared database
+ *
+ * @private
+ */
+async function restoreSnapshot(snapshotPath: string): Promise<void> {
+  const databasePath = getDatabasePath();
+  closeDb();
+  for (const extension of ["", "-wal", "-shm"]) {
+    await rm(databasePath + extension, { force: true });
+  }
+  await rename(snapshotPath, databasePath);
+}
+
+/**
+ * Applies the pending migrations, rolling back to a snapshot on failure
+ *
+ * @private
+ */
+async function applyMigrations(db: Database, snapshot: boolean): Promise<void> {
+  let snapshotPath: string | null = null;
+  if (snapshot) {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+    snapshotPath = `${getDatabasePath()}.pre-migrate-${timestamp}`;
+    try {
+      await db.run(sql`VACUUM INTO ${snapshotPath}`);
+    } catch (error) {
+      await rm(snapshotPath, { force: true });
+      throw new MigrationSnapshotFailedError(toError(error));
+    }
+  }
+
+  try {
+    await migrate(db, { migrationsFolder: MIGRATIONS_FOLDER });
+  } catch (error) {
+    if (!snapshotPath) {
+      throw new MigrationFailedError(toError(error), false);
+    }
+    try {
+      await restoreSnapshot(snapshotPath);
+    } catch (rollbackError) {
+      throw new MigrationRollbackFailedError(
+        toError(error),
+        toError(rollbackError),
+        snapshotPath,
+      );
+    }
+    throw new MigrationFailedError(toError(error), true);
+  }
+
+  if (snapshotPath) {
+    await rm(snapshotPath, { force: true });
+  }
+}
+
+/**
+ * Applies the pending migrations
+ *
+ * @param {MigrationOptions} [options] - Database, dry run and snapshot
+ * @returns {ResultAsync<MigrationReport, MigrationErrorUnion>} The migrations applied or error
+ *
+ * @example
+ * ```typescript
+ * const plan = await runMigrations({ dryRun: true });
+ * if (plan.isOk()) {
+ *   for (const migration of plan.value.migrations) {
+ *     console.log(migration.tag, migration.statements.join("\n"));
+ *   }
+ * }
+ * ```
+ *
+ * @errors
+ * - MigrationFilesUnreadableError / MigrationDatabaseError - The status cannot be read
+ * - MigrationSnapshotFailedError - The snapshot failed; nothing was applied
+ * - MigrationFailedError - A statement failed (`rolledBack` when the snapshot was put back)
+ * - MigrationRollbackFailedError - A statement failed and the snapshot could not be put back
+ *
+ * @remarks
+ * - Before applying, the database is copied next to it with `VACUUM INTO`
+ *   as `<file>.pre-migrate-<timestamp>`. On failure the copy replaces the
+ *   database (closing the shared connection); on success it is deleted
+ * - Nothing is snapshotted when no migration is pending
+ * - Run it before anything else uses the database: a rollback discards
+ *   writes made meanwhile
+ */
+export function runMigrations(
+  options: MigrationOptions = {},
+): ResultAsync<MigrationReport, MigrationErrorUnion> {
+  const db = options.db ?? getDb();
+  const dryRun = options.dryRun ?? false;
+
+  return getMigrationStatus(db).andThen(
+    ({ pending }): ResultAsync<MigrationReport, MigrationErrorUnion> => {
+      if (dryRun || pending.length === 0) {
+        return okAsync({ migrations: pending, dryRun });
+      }
+      return ResultAsync.fromPromise(
+        applyMigrations(db, !options.db && (options.snapshot ?? true)),
+        (error) =>
+          error instanceof MigrationError
+            ? (error as MigrationErrorUnion)
+            : new MigrationFailedError(toError(error), false),
+      ).map(() => ({ migrations: pending, dryRun }));
+    },
+  );
+}
+
+/**
+ * Summarizes a migration report in one line
+ *
+ * @param {MigrationReport} report - Outcome of runMigrations
+ * @returns {string} e.g. `Applied 2 migrations: 0007_sharp_zaran, 0008_flawless_jubilee`
+ */
+export function describeMigrationReport(report: MigrationReport): string {
+  const { migrations, dryRun } = report;
+  if (migrations.length === 0) {
+    return "Database schema is up to date";
+  }
+  const tags = migrations.map((migration) => migration.tag).join(", ");
+  return `${dryRun ? "Would apply" : "Applied"} ${migrations.length} migration${migrations.length === 1 ? "" : "s"}: ${tags}`;
+}
+
+if (import.meta.main) {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: { "dry-run": { type: "boolean" } },
+  });
+  const [command = "apply"] = positionals;
+  const config = loadConfig();
+  if (config.isErr()) {
+    console.error(config.error.message);
+    process.exit(1);
+  }
+  applyConfig(config.value);
+  const fail = (error: MigrationErrorUnion) => {
+    console.error(error.message);
+    process.exit(1);
+  };
+
+  if (command === "status") {
+    (await getMigrationStatus()).match(({ applied, pending, unrecognized }) => {
+      for (const migration of applied) {
+        console.log(`applied  ${migration.tag}  ${migration.hash}`);
+      }
+      for (const migration of pending) {
+        console.log(`pending  ${migration.tag}  ${migration.hash}`);
+      }
+      for (const hash of unrecognized) {
+        console.log(`unknown  ${hash} (not shipped with this version)`);
+      }
+    }, fail);
+  } else if (command === "apply") {
+    (await runMigrations({ dryRun: values["dry-run"] })).match((report) => {
+      if (report.dryRun) {
+        for (const migration of report.migrations) {
+          console.log(
+            `-- ${migration.tag}\n${migration.statements.join("\n")}\n`,
+          );
+        }
+      }
+      console.log(describeMigrationReport(report));
+    }, fail);
+  } else {
+    console.error(
+      "Usage: bun run db:migrate [--dry-run] | bun run db:migrate:status",
+    );
+    process.exit(1);
+  }
+  closeDb();
+}
@@ -0,0 +1,63 @@
+import type { CryptoErrorUnion } from "../lib/crypto.errors";
+import type { AuditErrorUnion } from "../services/audit/audit.errors";
+
+/**
+ * Key Rotation Error Types
+ *
+ * Discriminated union type for all errors of the key rotation routine.
+ */
+export type KeyRotationErrorType =
+  | "CREDENTIAL_REENCRYPTION_FAILED"
+  | "KEY_ROTATION_DATABASE_ERROR";
+
+/**
+ * Base class for all key rotation errors.
+ */
+export abstract class KeyRotationError extends Error {
+  abstract readonly type: KeyRotationErrorType;
+
+  constructor(message: string) {
+    super(message);
+    this.name = this.constructor.name;
+    Error.captureStackTrace?.(this, this.constructor);
+  }
+}
+
+/**
+ * Error thrown when a stored credential cannot be re-wrapped under the active key.
+ *
+ * @remarks
+ * The whole rotation is rolled back, so no row ends up under the new key
+ * while others remain under the old one. The failing row id is preserved
+ * in `rowId` and the underlying crypto error in `cause`.
+ */
+export class CredentialReencryptionFailedError extends KeyRotationError {
+  readonly type = "CREDENTIAL_REENCRYPTION_FAILED" as const;
+
+  constructor(
+    public readonly rowId: number,
+    public readonly cause: CryptoErrorUnion,
+  ) {
+    super(`Re-wrapping connected service ${rowId} failed: ${cause.message}`);
+  }
+}
+
+/**
+ * Error thrown when the database fails during key rotation.
+ */
+export class KeyRotationDatabaseError extends KeyRotationError {
+  readonly type = "KEY_ROTATION_DATABASE_ERROR" as const;
+
+  constructor(public readonly cause: Error) {
+    super(`Key rotation database error: ${cause.message}`);
+  }
+}
+
+/**
+ * Union type of all key rotation errors, including failing to record
+ * the rotation in the audit log.
+ */
+export type KeyRotationErrorUnion =
+  | CredentialReencryptionFailedError
+  | KeyRotationDatabaseError
+  | AuditErrorUnion;
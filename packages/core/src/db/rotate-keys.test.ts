@@ -0,0 +1,140 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { encryptJson, generateEncryptionKey } from "../lib/crypto";
+import type { EnvelopeData } from "../lib/envelope";
+import { createLocalKekProvider, isEnvelopeData } from "../lib/envelope";
+import { createKeyring, getKeyId } from "../lib/keyring";
+import { useTestDatabase } from "../testing/database";
+import {
+  openCredentials,
+  parseStoredCredentials,
+  serializeStoredCredentials,
+} from "./credentials";
+import { getDb } from "./index";
+import { rotateEncryptionKeys } from "./rotate-keys";
+import { CredentialReencryptionFailedError } from "./rotate-keys.errors";
+import { connectedServices } from "./schema";
+
+async function readEnvelopes(): Promise<EnvelopeData[]> {
+  const rows = await getDb().select().from(connectedServices);
+  return rows.map((row) => {
+    const stored = parseStoredCredentials(row.encryptedData)._unsafeUnwrap();
+    if (!isEnvelopeData(stored)) {
+      throw new Error(`Row ${row.id} is not an envelope`);
+    }
+    return stored;
+  });
+}
+
+describe("Key Rotation", () => {
+  const oldKey = generateEncryptionKey();
+  const newKey = generateEncryptionKey();
+  const newestKey = generateEncryptionKey();
+  useTestDatabase();
+
+  beforeAll(async () => {
+    await getDb()
+      .insert(connectedServices)
+      .values(
+        ["youtube", "github"].map((provider) => ({
+          provider,
+          type: "apikey" as const,
+          // Legacy format: sealed directly with the master key, without row binding
+          encryptedData: serializeStoredCredentials(
+            encryptJson({ token: `${provider}-token` }, oldKey)._unsafeUnwrap(),
+          ),
+        })),
+      );
+  });
+
+  it("should fail without changes when a key is missing from the keyring", async () => {
+    const keyring = createKeyring(newKey)._unsafeUnwrap();
+
+    const result = await rotateEncryptionKeys(keyring);
+    expect(result.isErr()).toBe(true);
+
+    if (result.isErr()) {
+      expect(result.error).toBeInstanceOf(CredentialReencryptionFailedError);
+    }
+
+    const rows = await getDb().select().from(connectedServices);
+    for (const row of rows) {
+      const stored = parseStoredCredentials(row.encryptedData)._unsafeUnwrap();
+      expect(isEnvelopeData(stored)).toBe(false);
+    }
+  });
+
+  it("should upgrade legacy rows to envelopes and report progress", async () => {
+    const keyring = createKeyring(newKey, [oldKey])._unsafeUnwrap();
+    const reported: number[] = [];
+
+    const result = await rotateEncryptionKeys(keyring, {
+      onProgress: (progress) => reported.push(progress.processed),
+    });
+    expect(result.isOk()).toBe(true);
+
+    if (result.isOk()) {
+      expect(result.value).toEqual({
+        total: 2,
+        processed: 2,
+        rotated: 2,
+        skipped: 0,
+      });
+    }
+    expect(reported).toEqual([1, 2]);
+
+    const kek = createLocalKekProvider(createKeyring(newKey)._unsafeUnwrap());
+    const rows = await getDb().select().from(connectedServices);
+    for (const row of rows) {
+      expect(openCredentials(row, kek)._unsafeUnwrap()).toEqual({
+        token: `${row.provider}-token`,
+      });
+    }
+    for (const envelope of await readEnvelopes()) {
+      expect(envelope.wrappedKey.keyId).toBe(getKeyId(newKey));
+    }
+  });
+
+  it("should only re-wrap data keys of envelopes", async () => {
+    const before = await readEnvelopes();
+    const keyring = createKeyring(newestKey, [newKey])._unsafeUnwrap();
+
+    const result = await rotateEncryptionKeys(keyring);
+    expect(result.isOk()).toBe(true);
+
+    const after = await readEnvelopes();
+    after.forEach((envelope, index) => {
+      expect(envelope.payload).toEqual(before[index]!.payload);
+      expect(envelope.wrappedKey.keyId).toBe(getKeyId(newestKey));
+    });
+  });
+
+  it("should skip rows already wrapped with the active key", async () => {
+    const keyring = createKeyring(newestKey)._unsafeUnwrap();
+
+    const result = await rotateEncryptionKeys(keyring);
+    expect(result.isOk()).toBe(true);
+
+    if (result.isOk()) {
+      expect(result.value.skipped).toBe(2);
+      expect(result.value.rotated).toBe(0);
+    }
+  });
+
+  it("should reject credentials copied onto another row", async () => {
+    const [youtube, github] = await getDb().select().from(connectedServices);
+    if (!youtube || !github) {
+      throw new Error("Expected two connected services");
+    }
+
+    const kek = createLocalKekProvider(
+      createKeyring(newestKey)._unsafeUnwrap(),
+    );
+    const swapped = { ...github, encryptedData: youtube.encryptedData };
+    const result = openCredentials(swapped, kek);
+    expect(result.isErr()).toBe(true);
+
+    if (result.isErr()) {
+      expect(result.error.type).toBe("ASSOCIATED_DATA_MISMATCH");
+    }
+  });
+});
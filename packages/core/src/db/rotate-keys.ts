@@ -0,0 +1,208 @@
+import { eq } from "drizzle-orm";
+import { okAsync, ResultAsync } from "neverthrow";
+import { applyConfig, loadConfig } from "../config/config";
+import {
+  createLocalKekProvider,
+  isEnvelopeData,
+  rewrapEnvelope,
+  sealEnvelope,
+} from "../lib/envelope";
+import type { Keyring } from "../lib/keyring";
+import { recordAuditEvent } from "../services/audit/audit";
+import { runAsAuditActor } from "../services/audit/context";
+import {
+  credentialAssociatedData,
+  openLegacyCredentials,
+  parseStoredCredentials,
+  serializeStoredCredentials,
+} from "./credentials";
+import type { Database } from "./index";
+import { getDb } from "./index";
+import { rotateServiceAccount } from "./service-accounts";
+import type { KeyRotationErrorUnion } from "./rotate-keys.errors";
+import {
+  CredentialReencryptionFailedError,
+  KeyRotationDatabaseError,
+  KeyRotationError,
+} from "./rotate-keys.errors";
+import type { NewConnectedService } from "./schema";
+import { connectedServices } from "./schema";
+
+/**
+ * Progress of a running (or finished) key rotation
+ *
+ * @property {number} total - Number of connected services to process
+ * @property {number} processed - Number of connected services processed so far
+ * @property {number} rotated - Rows whose data key was re-wrapped (or that were upgraded to an envelope) or whose account was re-indexed
+ * @property {number} skipped - Rows already fully under the active key
+ */
+export interface KeyRotationProgress {
+  total: number;
+  processed: number;
+  rotated: number;
+  skipped: number;
+}
+
+export interface KeyRotationOptions {
+  /** Called after every processed row */
+  onProgress?: (progress: Readonly<KeyRotationProgress>) => void;
+  /** Database to rotate instead of the current one (e.g. a backup being restored) */
+  db?: Database;
+}
+
+/**
+ * Re-wraps every connected service credential under the active master key
+ *
+ * @param {Keyring} keyring - Keyring holding the new active key and all keys still in use
+ * @param {KeyRotationOptions} [options] - Progress reporting options
+ * @returns {ResultAsync<KeyRotationProgress, KeyRotationErrorUnion>} Final progress or error
+ *
+ * @example
+ * ```typescript
+ * const keyring = createKeyring(newKey, [oldKey])._unsafeUnwrap();
+ * const result = await rotateEncryptionKeys(keyring, {
+ *   onProgress: (p) => console.log(`${p.processed}/${p.total}`),
+ * });
+ * ```
+ *
+ * @errors
+ * - CredentialReencryptionFailedError - A row could not be decrypted or re-encrypted
+ * - KeyRotationDatabaseError - Reading or writing the table failed
+ * - AuditDatabaseError - The completed rotation could not be recorded
+ *
+ * @remarks
+ * - Runs in a single transaction: on any error no row is changed
+ * - Envelopes only get their data key re-wrapped; the payload is not re-encrypted
+ * - Rows already wrapped with the active key are skipped, so the routine can be re-run safely
+ * - Legacy rows (sealed directly with the master key) are upgraded to envelopes
+ *   bound to their id, provider and type
+ * - Account blind indexes are recomputed with the active key
+ * - Once it succeeds, retired keys can be removed from ENCRYPTION_RETIRED_KEYS
+ * - Recorded as `key.rotation` in the audit log after the commit; rotations
+ *   of another database (`options.db`) are left to the caller to record
+ */
+export function rotateEncryptionKeys(
+  keyring: Keyring,
+  options: KeyRotationOptions = {},
+): ResultAsync<KeyRotationProgress, KeyRotationErrorUnion> {
+  const kek = createLocalKekProvider(keyring);
+
+  return ResultAsync.fromPromise(
+    (options.db ?? getDb()).transaction(async (tx) => {
+      const rows = await tx
+        .select({
+          id: connectedServices.id,
+          provider: connectedServices.provider,
+          type: connectedServices.type,
+          encryptedData: connectedServices.encryptedData,
+          encryptedAccount: connectedServices.encryptedAccount,
+          accountEmailIndex: connectedServices.accountEmailIndex,
+          accountUsernameIndex: connectedServices.accountUsernameIndex,
+        })
+        .from(connectedServices);
+
+      const progress: KeyRotationProgress = {
+        total: rows.length,
+        processed: 0,
+        rotated: 0,
+        skipped: 0,
+      };
+
+      for (const row of rows) {
+        const parsed = parseStoredCredentials(row.encryptedData);
+        if (parsed.isErr()) {
+          throw new CredentialReencryptionFailedError(row.id, parsed.error);
+        }
+
+        const stored = parsed.value;
+        const associatedData = credentialAssociatedData(row);
+        const update: Partial<NewConnectedService> = {};
+
+        if (
+          !isEnvelopeData(stored) ||
+          stored.wrappedKey.keyId !== kek.activeKeyId
+        ) {
+          const rewrapped = isEnvelopeData(stored)
+            ? rewrapEnvelope(stored, kek, associatedData)
+            : openLegacyCredentials(stored, kek, associatedData).andThen(
+                (plaintext) => sealEnvelope(plaintext, kek, associatedData),
+              );
+          if (rewrapped.isErr()) {
+            throw new CredentialReencryptionFailedError(
+              row.id,
+              rewrapped.error,
+            );
+          }
+          update.encryptedData = serializeStoredCredentials(rewrapped.value);
+        }
+
+        const account = rotateServiceAccount(row, keyring);
+        if (account.isErr()) {
+          throw new CredentialReencryptionFailedError(row.id, account.error);
+        }
+        if (account.value) {
+          Object.assign(update, account.value);
+        }
+
+        if (Object.keys(update).length > 0) {
+          await tx
+            .update(connectedServices)
+            .set(update)
+            .where(eq(connectedServices.id, row.id));
+          progress.rotated++;
+        } else {
+          progress.skipped++;
+        }
+
+        progress.processed++;
+        options.onProgress?.({ ...progress });
+      }
+
+      return progress;
+    }),
+    (error: unknown) =>
+      error instanceof KeyRotationError
+        ? (error as KeyRotationErrorUnion)
+        : new KeyRotationDatabaseError(
+            error instanceof Error ? error : new Error(String(error)),
+          ),
+  ).andThen((progress) =>
+    options.db
+      ? okAsync(progress)
+      : recordAuditEvent({
+          action: "key.rotation",
+          details: {
+            activeKeyId: kek.activeKeyId,
+            rotated: progress.rotated,
+            skipped: progress.skipped,
+          },
+        }).map(() => progress),
+  );
+}
+
+if (import.meta.main) {
+  const config = loadConfig();
+  if (config.isErr()) {
+    console.error(config.error.message);
+    process.exit(1);
+  }
+  applyConfig(config.value);
+
+  const result = await runAsAuditActor("cli:db:rotate-keys", () =>
+    rotateEncryptionKeys(config.value.encryption.keyring, {
+      onProgress: ({ processed, total }) =>
+        console.log(`Re-wrapped ${processed}/${total} connected services`),
+    }),
+  );
+
+  result.match(
+    ({ rotated, skipped }) =>
+      console.log(
+        `Key rotation completed: ${rotated} re-wrapped, ${skipped} already current`,
+      ),
+    (error) => {
+      console.error(error.message);
+      process.exit(1);
+    },
+  );
+}
@@ -1,4 +1,8 @@
-import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import { sql } from "drizzle-orm";
+import { index, integer, sqliteTable, text, uniqueIndex } from "drizzle-orm/sqlite-core";
+import type { ApiTokenScope } from "../services/auth/api-tokens";
+import type { AuditAction } from "../services/audit/audit";
+import { encryptedJson } from "./columns";
 
 export const connectedServices = sqliteTable("connected_services", {
   id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
@@ -7,14 +11,227 @@ export const connectedServices = sqliteTable("connected_services", {
   // (for example with different accounts)
   provider: text("provider").notNull(),
   type: text("type", { enum: ["oauth", "apikey"] }).notNull(),
+  // "needs_reauth" once the provider revoked the refresh token;
+  // the user has to connect the service again.
+  status: text("status", { enum: ["active", "needs_reauth"] })
+    .notNull()
+    .default("active"),
   encryptedData: text("encrypted_data").notNull(),
+  // Account identifiers (email, username) are only stored encrypted.
+  // The blind indexes below are keyed HMACs used to look them up.
+  encryptedAccount: text("encrypted_account"),
+  accountEmailIndex: text("account_email_index"),
+  accountUsernameIndex: text("account_username_index"),
   createdAt: integer("created_at", { mode: "timestamp" }).notNull().$defaultFn(
     () => new Date()
   ),
-  updatedAt: integer("updated_at", { mode: "timestamp" }).notNull().$defaultFn(
-    () => new Date()
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .notNull()
+    .$defaultFn(() => new Date())
+    .$onUpdateFn(() => new Date()),
+}, (table) => [
+  index("connected_services_account_email_index_idx").on(
+    table.provider,
+    table.accountEmailIndex
   ),
-});
+  index("connected_services_account_username_index_idx").on(
+    table.provider,
+    table.accountUsernameIndex
+  ),
+]);
 
 export type ConnectedService = typeof connectedServices.$inferSelect;
 export type NewConnectedService = typeof connectedServices.$inferInsert;
+
+
+// Options of the encrypted PKCE verifier column, needed to seal values for it
+export const oauthVerifierColumn = {
+  associatedData: "oauth_states.encrypted_verifier",
+};
+
+// Pending OAuth authorizations. A row is consumed by the callback
+// (single use) and is worthless after `expires_at`.
+export const oauthStates = sqliteTable("oauth_states", {
+  state: text("state").primaryKey(),
+  provider: text("provider").notNull(),
+  codeVerifier: encryptedJson<string>(
+    "encrypted_verifier",
+    oauthVerifierColumn
+  ).notNull(),
+  redirectUri: text("redirect_uri").notNull(),
+  expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().$defaultFn(
+    () => new Date()
+  ),
+});
+
+export type OAuthState = typeof oauthStates.$inferSelect;
+export type NewOAuthState = typeof oauthStates.$inferInsert;
+
+
+// Personal API tokens. Only the SHA-256 hash of a token is stored;
+// the token itself is shown once, when it is created.
+export const apiTokens = sqliteTable("api_tokens", {
+  id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  // First characters of the token, to recognize it in listings
+  prefix: text("prefix").notNull(),
+  scopes: text("scopes", { mode: "json" }).$type<ApiTokenScope[]>().notNull(),
+  expiresAt: integer("expires_at", { mode: "timestamp" }),
+  lastUsedAt: integer("last_used_at", { mode: "timestamp" }),
+  revokedAt: integer("revoked_at", { mode: "timestamp" }),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().$defaultFn(
+    () => new Date()
+  ),
+});
+
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type NewApiToken = typeof apiTokens.$inferInsert;
+
+
+export const users = sqliteTable("users", {
+  id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+  // Stored normalized (trimmed, lowercase)
+  email: text("email").notNull().unique(),
+  label: text("label").notNull(),
+  // Bun.password hash (argon2id, parameters encoded in the hash)
+  passwordHash: text("password_hash").notNull(),
+  // "root" marks the user bootstrapped from ROOT_USER_EMAIL; at most one row has it
+  role: text("role", { enum: ["root", "user"] }).notNull().default("user"),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().$defaultFn(
+    () => new Date()
+  ),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .notNull()
+    .$defaultFn(() => new Date())
+    .$onUpdateFn(() => new Date()),
+}, (table) => [
+  uniqueIndex("users_root_role_idx").on(table.role).where(sql`role = 'root'`),
+]);
+
+export type User = typeof users.$inferSelect;
+export type NewUser = typeof users.$inferInsert;
+
+// Sign-in sessions. Like API tokens, only the hash of the session token is stored.
+export const sessions = sqliteTable("sessions", {
+  id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+  tokenHash: text("token_hash").notNull().unique(),
+  userId: integer("user_id", { mode: "number" })
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().$defaultFn(
+    () => new Date()
+  ),
+}, (table) => [index("sessions_user_id_idx").on(table.userId)]);
+
+export type Session = typeof sessions.$inferSelect;
+export type NewSession = typeof sessions.$inferInsert;
+
+// Telegram accounts allowed to use the bot on behalf of a user
+export const telegramLinks = sqliteTable("telegram_links", {
+  id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+  telegramUserId: integer("telegram_user_id", { mode: "number" }).notNull().unique(),
+  userId: integer("user_id", { mode: "number" })
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  linkedAt: integer("linked_at", { mode: "timestamp" }).notNull().$defaultFn(
+    () => new Date()
+  ),
+});
+
+export type TelegramLink = typeof telegramLinks.$inferSelect;
+export type NewTelegramLink = typeof telegramLinks.$inferInsert;
+
+// Single-use tokens sent by the bot's /start to link a Telegram account.
+// Only the hash is stored; redeeming deletes the row.
+export const telegramLinkTokens = sqliteTable("telegram_link_tokens", {
+  id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+  tokenHash: text("token_hash").notNull().unique(),
+  telegramUserId: integer("telegram_user_id", { mode: "number" }).notNull(),
+  expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().$defaultFn(
+    () => new Date()
+  ),
+});
+
+export type TelegramLinkToken = typeof telegramLinkTokens.$inferSelect;
+export type NewTelegramLinkToken = typeof telegramLinkTokens.$inferInsert;
+
+// Recurring invocations of registered functions. `next_run_at` is null
+// while a job is paused (or its expression has no further occurrence).
+export const jobs = sqliteTable("jobs", {
+  id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+  name: text("name").notNull().unique(),
+  functionName: text("function_name").notNull(),
+  input: text("input", { mode: "json" }).$type<Record<string, unknown>>().notNull(),
+  // Connected service id per provider, for providers with several connections
+  services: text("services", { mode: "json" }).$type<Record<string, number>>().notNull(),
+  schedule: text("schedule").notNull(),
+  timezone: text("timezone").notNull().default("UTC"),
+  // What happens to occurrences missed while the server was down:
+  // "skip" drops them, "once" runs the job once, "all" runs each of them
+  catchUp: text("catch_up", { enum: ["skip", "once", "all"] }).notNull().default("skip"),
+  maxAttempts: integer("max_attempts", { mode: "number" }).notNull().default(3),
+  // Delay before the first retry; doubled for every further attempt
+  retryBackoffSeconds: integer("retry_backoff_seconds", { mode: "number" }).notNull().default(60),
+  paused: integer("paused", { mode: "boolean" }).notNull().default(false),
+  nextRunAt: integer("next_run_at", { mode: "timestamp" }),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().$defaultFn(
+    () => new Date()
+  ),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .notNull()
+    .$defaultFn(() => new Date())
+    .$onUpdateFn(() => new Date()),
+}, (table) => [index("jobs_next_run_at_idx").on(table.nextRunAt)]);
+
+export type Job = typeof jobs.$inferSelect;
+export type NewJob = typeof jobs.$inferInsert;
+
+// One row per attempt of a job. Pending rows are the queue: retries and
+// manual triggers wait here until `scheduled_for`.
+export const jobRuns = sqliteTable("job_runs", {
+  id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+  jobId: integer("job_id", { mode: "number" })
+    .notNull()
+    .references(() => jobs.id, { onDelete: "cascade" }),
+  trigger: text("trigger", { enum: ["schedule", "catch_up", "manual", "retry"] }).notNull(),
+  status: text("status", { enum: ["pending", "running", "succeeded", "failed"] })
+    .notNull()
+    .default("pending"),
+  attempt: integer("attempt", { mode: "number" }).notNull().default(1),
+  scheduledFor: integer("scheduled_for", { mode: "timestamp" }).notNull(),
+  startedAt: integer("started_at", { mode: "timestamp" }),
+  finishedAt: integer("finished_at", { mode: "timestamp" }),
+  durationMs: integer("duration_ms", { mode: "number" }),
+  error: text("error", { mode: "json" }).$type<{ type: string; message: string }>(),
+}, (table) => [
+  index("job_runs_job_id_idx").on(table.jobId),
+  index("job_runs_status_scheduled_for_idx").on(table.status, table.scheduledFor),
+]);
+
+export type JobRun = typeof jobRuns.$inferSelect;
+export type NewJobRun = typeof jobRuns.$inferInsert;
+
+// Append-only log of credential access, key rotations and auth events
+// (triggers in the migration reject updates and deletes).
+// Every row is hash-chained to the previous one (see services/audit).
+// `service_id` has no foreign key: the history outlives the service.
+export const auditEvents = sqliteTable("audit_events", {
+  id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+  // Milliseconds, so the hashed timestamp survives the round trip
+  occurredAt: integer("occurred_at", { mode: "timestamp_ms" }).notNull(),
+  action: text("action").$type<AuditAction>().notNull(),
+  // Chain of callers, outermost first, e.g. "job:nightly > function:github_stars"
+  actor: text("actor").notNull(),
+  serviceId: integer("service_id", { mode: "number" }),
+  details: text("details", { mode: "json" }).$type<Record<string, unknown>>().notNull(),
+  // Unique, so two events can never claim the same predecessor
+  prevHash: text("prev_hash").notNull().unique(),
+  hash: text("hash").notNull(),
+}, (table) => [index("audit_events_service_id_idx").on(table.serviceId)]);
+
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type NewAuditEvent = typeof auditEvents.$inferInsert;
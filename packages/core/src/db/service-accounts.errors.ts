@@ -0,0 +1,35 @@
+/**
+ * Service Account Error Types
+ *
+ * Discriminated union type for all errors of the service account lookups.
+ */
+export type ServiceAccountErrorType = "ACCOUNT_LOOKUP_FAILED";
+
+/**
+ * Base class for all service account errors.
+ */
+export abstract class ServiceAccountError extends Error {
+  abstract readonly type: ServiceAccountErrorType;
+
+  constructor(message: string) {
+    super(message);
+    this.name = this.constructor.name;
+    Error.captureStackTrace?.(this, this.constructor);
+  }
+}
+
+/**
+ * Error thrown when the database fails while looking up services by account.
+ */
+export class AccountLookupFailedError extends ServiceAccountError {
+  readonly type = "ACCOUNT_LOOKUP_FAILED" as const;
+
+  constructor(public readonly cause: Error) {
+    super(`Looking up connected services by account failed: ${cause.message}`);
+  }
+}
+
+/**
+ * Union type of all service account errors.
+ */
+export type ServiceAccountErrorUnion = AccountLookupFailedError;
@@ -0,0 +1,116 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { eq } from "drizzle-orm";
+import { generateEncryptionKey } from "../lib/crypto";
+import { createLocalKekProvider } from "../lib/envelope";
+import type { Keyring } from "../lib/keyring";
+import { createKeyring, getKeyId } from "../lib/keyring";
+import { useTestDatabase } from "../testing/database";
+import { sealCredentials } from "./credentials";
+import { getDb } from "./index";
+import { rotateEncryptionKeys } from "./rotate-keys";
+import { connectedServices } from "./schema";
+import {
+  findServicesByAccount,
+  openServiceAccount,
+  sealServiceAccount,
+} from "./service-accounts";
+
+async function connect(
+  provider: string,
+  account: { email?: string; username?: string },
+  keyring: Keyring,
+): Promise<number> {
+  const kek = createLocalKekProvider(keyring);
+  const db = getDb();
+  const [row] = await db
+    .insert(connectedServices)
+    .values({ provider, type: "oauth", encryptedData: "{}" })
+    .returning();
+  if (!row) {
+    throw new Error("Insert returned no row");
+  }
+
+  await db
+    .update(connectedServices)
+    .set({
+      encryptedData: sealCredentials(row, { token: "t" }, kek)._unsafeUnwrap(),
+      ...sealServiceAccount(row, account, keyring)._unsafeUnwrap(),
+    })
+    .where(eq(connectedServices.id, row.id));
+  return row.id;
+}
+
+describe("Service Accounts", () => {
+  const oldKey = generateEncryptionKey();
+  const newKey = generateEncryptionKey();
+  const oldKeyring = createKeyring(oldKey)._unsafeUnwrap();
+  useTestDatabase();
+  let janeId: number;
+
+  beforeAll(async () => {
+    janeId = await connect(
+      "youtube",
+      { email: "jane@example.com", username: "JaneDoe" },
+      oldKeyring,
+    );
+    await connect("youtube", { email: "john@example.com" }, oldKeyring);
+    await connect("github", { email: "jane@example.com" }, oldKeyring);
+  });
+
+  it("should never store plaintext identifiers", async () => {
+    const rows = await getDb().select().from(connectedServices);
+    const dump = JSON.stringify(rows).toLowerCase();
+
+    expect(dump).not.toContain("jane");
+    expect(dump).not.toContain("example.com");
+  });
+
+  it("should find a service by email or username without decrypting rows", async () => {
+    const byEmail = await findServicesByAccount(
+      "youtube",
+      { email: "Jane@Example.com" },
+      oldKeyring,
+    );
+    expect(byEmail._unsafeUnwrap().map((row) => row.id)).toEqual([janeId]);
+
+    const byUsername = await findServicesByAccount(
+      "youtube",
+      { username: "janedoe" },
+      oldKeyring,
+    );
+    expect(byUsername._unsafeUnwrap().map((row) => row.id)).toEqual([janeId]);
+
+    const byUsernameAsEmail = await findServicesByAccount(
+      "youtube",
+      { email: "JaneDoe" },
+      oldKeyring,
+    );
+    expect(byUsernameAsEmail._unsafeUnwrap()).toEqual([]);
+  });
+
+  it("should keep lookups working across a key rotation", async () => {
+    const rotatingKeyring = createKeyring(newKey, [oldKey])._unsafeUnwrap();
+    const before = await findServicesByAccount(
+      "youtube",
+      { email: "jane@example.com" },
+      rotatingKeyring,
+    );
+    expect(before._unsafeUnwrap().map((row) => row.id)).toEqual([janeId]);
+
+    (await rotateEncryptionKeys(rotatingKeyring))._unsafeUnwrap();
+
+    const newKeyring = createKeyring(newKey)._unsafeUnwrap();
+    const after = await findServicesByAccount(
+      "youtube",
+      { email: "jane@example.com" },
+      newKeyring,
+    );
+    const [row] = after._unsafeUnwrap();
+    expect(row?.id).toBe(janeId);
+    expect(row?.accountEmailIndex?.startsWith(getKeyId(newKey))).toBe(true);
+    expect(openServiceAccount(row!, newKeyring)._unsafeUnwrap()).toEqual({
+      email: "jane@example.com",
+      username: "JaneDoe",
+    });
+  });
+});
@@ -0,0 +1,279 @@
+import { and, eq, inArray } from "drizzle-orm";
+import { err, errAsync, ok, Result, ResultAsync } from "neverthrow";
+import {
+  computeBlindIndex,
+  computeBlindIndexCandidates,
+  getBlindIndexKeyId,
+} from "../lib/blind-index";
+import type {
+  DecryptJsonErrorUnion,
+  EncryptJsonErrorUnion,
+  KeyringErrorUnion,
+} from "../lib/crypto.errors";
+import { JsonParseFailedError } from "../lib/crypto.errors";
+import type { EnvelopeData } from "../lib/envelope";
+import {
+  createLocalKekProvider,
+  isEnvelopeData,
+  openEnvelopeJson,
+  sealEnvelopeJson,
+} from "../lib/envelope";
+import type { Keyring } from "../lib/keyring";
+import { getDefaultKeyring } from "../lib/keyring";
+import type { CredentialContext } from "./credentials";
+import { getDb } from "./index";
+import type { ServiceAccountErrorUnion } from "./service-accounts.errors";
+import { AccountLookupFailedError } from "./service-accounts.errors";
+import type { ConnectedService } from "./schema";
+import { connectedServices } from "./schema";
+
+/**
+ * The identifiers of the account behind a connected service
+ *
+ * @property {string} [email] - Email address of the account
+ * @property {string} [username] - Username or handle of the account
+ */
+export interface ServiceAccount {
+  email?: string;
+  username?: string;
+}
+
+/**
+ * The columns of a connected service that hold its account
+ */
+export type ServiceAccountColumns = Pick<
+  ConnectedService,
+  "encryptedAccount" | "accountEmailIndex" | "accountUsernameIndex"
+>;
+
+/**
+ * Looks up a connected service by exactly one account identifier
+ */
+export type ServiceAccountLookup = { email: string } | { username: string };
+
+/**
+ * Builds the associated data binding an account blob to its row
+ *
+ * @param {CredentialContext} context - Row id, provider and type of the connected service
+ * @returns {string} Associated data for the account envelope
+ */
+export function accountAssociatedData(context: CredentialContext): string {
+  return JSON.stringify([
+    "connected_services.account",
+    context.id,
+    context.provider,
+    context.type,
+  ]);
+}
+
+/**
+ * Resolves the keyring to use
+ *
+ * @private
+ */
+function resolveKeyring(keyring?: Keyring): Result<Keyring, KeyringErrorUnion> {
+  return keyring ? ok(keyring) : getDefaultKeyring();
+}
+
+/**
+ * Encrypts an account and computes its blind indexes
+ *
+ * @param {CredentialContext} context - The row the account belongs to
+ * @param {ServiceAccount} account - The account identifiers
+ * @param {Keyring} [keyring] - Optional keyring (defaults to the keyring from env vars)
+ * @returns {Result<ServiceAccountColumns, EncryptJsonErrorUnion>} Result with the column values or error
+ *
+ * @example
+ * ```typescript
+ * const columns = sealServiceAccount(row, { email: "jane@example.com" });
+ * if (columns.isOk()) {
+ *   await db.update(connectedServices).set(columns.value).where(eq(connectedServices.id, row.id));
+ * }
+ * ```
+ *
+ * @remarks
+ * - The identifiers themselves are only stored inside the envelope
+ * - The indexes are computed with the active master key
+ */
+export function sealServiceAccount(
+  context: CredentialContext,
+  account: ServiceAccount,
+  keyring?: Keyring,
+): Result<ServiceAccountColumns, EncryptJsonErrorUnion> {
+  return resolveKeyring(keyring).andThen((resolved) => {
+    const emailIndex = account.email
+      ? computeBlindIndex("email", account.email, resolved)
+      : ok(null);
+    const usernameIndex = account.username
+      ? computeBlindIndex("username", account.username, resolved)
+      : ok(null);
+
+    return Result.combine([emailIndex, usernameIndex]).andThen(
+      ([accountEmailIndex, accountUsernameIndex]) =>
+        sealEnvelopeJson(
+          account,
+          createLocalKekProvider(resolved),
+          accountAssociatedData(context),
+        ).map((envelope) => ({
+          encryptedAccount: JSON.stringify(envelope),
+          accountEmailIndex,
+          accountUsernameIndex,
+        })),
+    );
+  });
+}
+
+/**
+ * Decrypts the account of a connected service row
+ *
+ * @param {CredentialContext & ServiceAccountColumns} row - The stored row
+ * @param {Keyring} [keyring] - Optional keyring (defaults to the keyring from env vars)
+ * @returns {Result<ServiceAccount | null, DecryptJsonErrorUnion>} Result with the account (null if none is stored) or error
+ */
+export function openServiceAccount(
+  row: CredentialContext & Pick<ServiceAccountColumns, "encryptedAccount">,
+  keyring?: Keyring,
+): Result<ServiceAccount | null, DecryptJsonErrorUnion> {
+  if (row.encryptedAccount === null) {
+    return ok(null);
+  }
+
+  return parseAccountEnvelope(row.encryptedAccount).andThen((envelope) =>
+    resolveKeyring(keyring).andThen((resolved) =>
+      openEnvelopeJson<ServiceAccount>(
+        envelope,
+        createLocalKekProvider(resolved),
+        accountAssociatedData(row),
+      ),
+    ),
+  );
+}
+
+/**
+ * Parses the `connected_services.encrypted_account` column
+ *
+ * @private
+ */
+function parseAccountEnvelope(
+  value: string,
+): Result<EnvelopeData, JsonParseFailedError> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    return err(
+      new JsonParseFailedError(
+        error instanceof Error ? error : new Error(String(error)),
+      ),
+    );
+  }
+  if (!isEnvelopeData(parsed)) {
+    return err(
+      new JsonParseFailedError(new Error("Stored account is not an envelope")),
+    );
+  }
+  return ok(parsed);
+}
+
+/**
+ * Re-seals an account and recomputes its indexes with the active key
+ *
+ * @param {CredentialContext & ServiceAccountColumns} row - The stored row
+ * @param {Keyring} keyring - Keyring holding the active key and all keys still in use
+ * @returns {Result<ServiceAccountColumns | null, DecryptJsonErrorUnion | EncryptJsonErrorUnion>} Result with the new column values (null if already current) or error
+ *
+ * @remarks
+ * Used by the key rotation. A row is current when its envelope and its
+ * indexes are under the active key; otherwise the account is re-sealed as a
+ * whole, since recomputing the indexes requires the plaintext anyway.
+ */
+export function rotateServiceAccount(
+  row: CredentialContext & ServiceAccountColumns,
+  keyring: Keyring,
+): Result<
+  ServiceAccountColumns | null,
+  DecryptJsonErrorUnion | EncryptJsonErrorUnion
+> {
+  if (row.encryptedAccount === null) {
+    return ok(null);
+  }
+
+  return parseAccountEnvelope(row.encryptedAccount).andThen((envelope) => {
+    const isCurrent =
+      envelope.wrappedKey.keyId === keyring.activeKeyId &&
+      [row.accountEmailIndex, row.accountUsernameIndex].every(
+        (index) =>
+          index === null || getBlindIndexKeyId(index) === keyring.activeKeyId,
+      );
+    if (isCurrent) {
+      return ok(null);
+    }
+
+    return openServiceAccount(row, keyring).andThen((account) =>
+      sealServiceAccount(row, account ?? {}, keyring),
+    );
+  });
+}
+
+/**
+ * Finds the connected services of a provider by account email or username
+ *
+ * @param {string} provider - The provider (e.g. "youtube")
+ * @param {ServiceAccountLookup} lookup - The email or username to look up
+ * @param {Keyring} [keyring] - Optional keyring (defaults to the keyring from env vars)
+ * @returns {ResultAsync<ConnectedService[], KeyringErrorUnion | ServiceAccountErrorUnion>} Matching rows or error
+ *
+ * @example
+ * ```typescript
+ * const result = await findServicesByAccount("youtube", { email: "jane@example.com" });
+ * if (result.isOk() && result.value.length > 0) {
+ *   const credentials = openCredentials(result.value[0]);
+ * }
+ * ```
+ *
+ * @errors
+ * - KeyringErrorUnion - The keyring cannot be loaded
+ * - AccountLookupFailedError - The query failed
+ *
+ * @remarks
+ * - No row is decrypted; the lookup only compares blind indexes
+ * - Indexes computed with a retired key still match until the key rotation ran
+ */
+export function findServicesByAccount(
+  provider: string,
+  lookup: ServiceAccountLookup,
+  keyring?: Keyring,
+): ResultAsync<
+  ConnectedService[],
+  KeyringErrorUnion | ServiceAccountErrorUnion
+> {
+  const [field, value, column] =
+    "email" in lookup
+      ? (["email", lookup.email, connectedServices.accountEmailIndex] as const)
+      : ([
+          "username",
+          lookup.username,
+          connectedServices.accountUsernameIndex,
+        ] as const);
+
+  const candidates = computeBlindIndexCandidates(field, value, keyring);
+  if (candidates.isErr()) {
+    return errAsync(candidates.error);
+  }
+
+  return ResultAsync.fromPromise(
+    getDb()
+      .select()
+      .from(connectedServices)
+      .where(
+        and(
+          eq(connectedServices.provider, provider),
+          inArray(column, candidates.value),
+        ),
+      ),
+    (error: unknown) =>
+      new AccountLookupFailedError(
+        error instanceof Error ? error : new Error(String(error)),
+      ),
+  );
+}
@@ -0,0 +1,120 @@
+import { swagger } from "@elysiajs/swagger";
+import { Elysia } from "elysia";
+import type { Bot } from "grammy";
+import type { RootUserConfig } from "../../services/auth/users";
+import type { BotContext } from "../telegram/bot";
+import { telegramWebhookRoutes } from "../telegram/webhook";
+import {
+  accountRoutes,
+  apiTokenRoutes,
+  auditActor,
+  requireAuthentication,
+  sessionRoutes,
+  SWAGGER_PATH,
+} from "./auth";
+import { auditRoutes } from "./audit";
+import { functionRoutes } from "./functions";
+import { githubRoutes } from "./github";
+import { healthRoutes } from "./health";
+import { jobRoutes } from "./jobs";
+import { oauthCallbackRoutes, oauthRoutes } from "./oauth";
+import { servicesRoutes } from "./services";
+import { youtubeRoutes } from "./youtube";
+
+/**
+ * Optional parts of the app
+ *
+ * @property {{ bot: Bot<BotContext>; secretToken: string }} [telegramWebhook] - Receive Telegram updates at `/telegram/webhook`
+ * @property {string | null} [oauthRedirectBaseUrl] - Base URL of OAuth callbacks (default: origin of the connect request)
+ * @property {RootUserConfig | null} [rootUser] - Root user created by `POST /auth/registerAdmin` (default: none)
+ */
+export interface AppOptions {
+  telegramWebhook?: { bot: Bot<BotContext>; secretToken: string };
+  oauthRedirectBaseUrl?: string | null;
+  rootUser?: RootUserConfig | null;
+}
+
+/**
+ * Creates the REST API of the core service
+ *
+ * @param {AppOptions} [options] - Optional parts of the app
+ * @returns The Elysia app (not yet listening)
+ *
+ * @remarks
+ * The OpenAPI document is generated from the route schemas and served
+ * with Swagger UI at `/swagger`.
+ *
+ * Order matters: Swagger UI, the health probes, sign-in/sign-out, the OAuth
+ * callback and the Telegram webhook are public; {@link requireAuthentication} rejects
+ * unauthenticated requests to every route registered after it.
+ *
+ * Function routes are built from the registry, so register functions
+ * before creating the app.
+ */
+export function createApp(options: AppOptions = {}) {
+  return new Elysia()
+    .use(auditActor)
+    .use(
+      swagger({
+        path: SWAGGER_PATH,
+        documentation: {
+          info: {
+            title: "Core Service API",
+            version: "0.1.0",
+            description:
+              "Connected services, integrations and utility functions of the core service",
+          },
+          components: {
+            securitySchemes: {
+              bearerAuth: { type: "http", scheme: "bearer" },
+            },
+          },
+          tags: [
+            { name: "Auth", description: "Sign-in, sessions and API tokens" },
+            { name: "Services", description: "Connected services" },
+            { name: "OAuth", description: "Connecting OAuth providers" },
+            { name: "YouTube", description: "YouTube playlist exports" },
+            {
+              name: "GitHub",
+              description: "GitHub stars, repositories and notifications",
+            },
+            {
+              name: "Functions",
+              description: "Utilities of the function space",
+            },
+            { name: "Jobs", description: "Scheduled runs of functions" },
+            {
+              name: "Audit",
+              description:
+                "Hash-chained log of credential access and auth events",
+            },
+            { name: "Telegram", description: "Telegram bot" },
+            { name: "Health", description: "Liveness and readiness probes" },
+          ],
+        },
+      }),
+    )
+    .use(healthRoutes)
+    .use(sessionRoutes)
+    .use(oauthCallbackRoutes)
+    .use(
+      options.telegramWebhook
+        ? telegramWebhookRoutes(
+            options.telegramWebhook.bot,
+            options.telegramWebhook.secretToken,
+          )
+        : new Elysia(),
+    )
+    .use(requireAuthentication)
+    .use(accountRoutes(options.rootUser ?? null))
+    .use(apiTokenRoutes)
+    .use(servicesRoutes)
+    .use(oauthRoutes(options.oauthRedirectBaseUrl ?? null))
+    .use(youtubeRoutes)
+    .use(githubRoutes)
+    .use(jobRoutes)
+    .use(auditRoutes)
+    .use(functionRoutes());
+}
+
+export type App = ReturnType<typeof createApp>;
@@ -0,0 +1,98 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import {
+  API_TOKEN_SCOPES,
+  createApiToken,
+} from "../../services/auth/api-tokens";
+import { useTestDatabase } from "../../testing/database";
+import { createApp } from "./app";
+
+describe("Audit Routes", () => {
+  const app = createApp();
+  useTestDatabase();
+  let token: { id: number; token: string };
+  let servicesToken: string;
+
+  const request = (
+    method: string,
+    path: string,
+    body?: unknown,
+    bearer = token.token,
+  ) =>
+    app.handle(
+      new Request(new URL(path, "http://localhost"), {
+        method,
+        headers: {
+          authorization: `Bearer ${bearer}`,
+          ...(body !== undefined && { "content-type": "application/json" }),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      }),
+    );
+
+  beforeAll(async () => {
+    token = (
+      await createApiToken({ name: "tests", scopes: [...API_TOKEN_SCOPES] })
+    )._unsafeUnwrap();
+    servicesToken = (
+      await createApiToken({ name: "services", scopes: ["services:write"] })
+    )._unsafeUnwrap().token;
+  });
+
+  it("should attribute events to the caller and route", async () => {
+    const created = await request("POST", "/services", {
+      provider: "openai",
+      apiKey: "sk-test",
+    });
+    const service = await created.json();
+    await request("DELETE", `/services/${service.id}`);
+
+    const events = await (
+      await request("GET", `/audit?serviceId=${service.id}`)
+    ).json();
+    expect(
+      events.map((event: { action: string; actor: string }) => [
+        event.action,
+        event.actor,
+      ]),
+    ).toEqual([
+      ["credential.delete", `token:${token.id} > route:DELETE /services/:id`],
+      ["credential.write", `token:${token.id} > route:POST /services`],
+    ]);
+  });
+
+  it("should attribute public routes and filter by actor", async () => {
+    const signIn = await request("POST", "/auth/signin", {
+      email: "nobody@example.com",
+      password: "wrong",
+    });
+    expect(signIn.status).toBe(401);
+
+    const events = await (
+      await request("GET", "/audit?actor=route:POST%20/auth/signin")
+    ).json();
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      action: "auth.signin_failed",
+      actor: "route:POST /auth/signin",
+      details: { email: "nobody@example.com" },
+    });
+  });
+
+  it("should verify the chain", async () => {
+    const response = await request("GET", "/audit/verify");
+    const [head] = await (await request("GET", "/audit?limit=1")).json();
+
+    expect(await response.json()).toEqual({
+      valid: true,
+      events: head.id,
+      headHash: head.hash,
+      brokenAt: null,
+    });
+  });
+
+  it("should require audit:read", async () => {
+    const response = await request("GET", "/audit", undefined, servicesToken);
+
+    expect(response.status).toBe(403);
+  });
+});
@@ -0,0 +1,96 @@
+import { Elysia, t } from "elysia";
+import { literalUnion } from "../../lib/json-schema";
+import {
+  AUDIT_ACTIONS,
+  listAuditEvents,
+  verifyAuditChain,
+} from "../../services/audit/audit";
+import { authentication } from "./auth";
+import { ErrorResponse, errorResponse } from "./errors";
+
+const AuditEventSummary = t.Object({
+  id: t.Number(),
+  occurredAt: t.Date(),
+  action: literalUnion(AUDIT_ACTIONS),
+  actor: t.String({
+    description: "Chain of callers, outermost first",
+    examples: ["token:3 > route:POST /functions/github_stars"],
+  }),
+  serviceId: t.Nullable(t.Number()),
+  details: t.Record(t.String(), t.Unknown()),
+  prevHash: t.String(),
+  hash: t.String(),
+});
+
+const protectedResponses = {
+  401: ErrorResponse,
+  403: ErrorResponse,
+  500: ErrorResponse,
+};
+
+/**
+ * Routes for reading and verifying the audit log
+ *
+ * @remarks
+ * The log itself is append-only; there is no route to change it.
+ */
+export const auditRoutes = new Elysia({
+  prefix: "/audit",
+  detail: { tags: ["Audit"], security: [{ bearerAuth: [] }] },
+})
+  .use(authentication)
+  .get(
+    "/",
+    ({ query, set }) =>
+      listAuditEvents(query).match(
+        (events) => events,
+        (cause) => errorResponse(set, cause),
+      ),
+    {
+      scopes: ["audit:read"],
+      query: t.Object({
+        serviceId: t.Optional(
+          t.Numeric({ description: "Only events of this connected service" }),
+        ),
+        actor: t.Optional(
+          t.String({
+            description:
+              "Only events whose actor chain contains these whole segments",
+            examples: ["token:3", "function:github_stars", "bot:/stars"],
+          }),
+        ),
+        action: t.Optional(literalUnion(AUDIT_ACTIONS)),
+        before: t.Optional(
+          t.Numeric({ description: "Only events older than this event id" }),
+        ),
+        limit: t.Optional(t.Numeric({ minimum: 1, maximum: 500, default: 50 })),
+      }),
+      response: { 200: t.Array(AuditEventSummary), ...protectedResponses },
+      detail: { summary: "List audit events, newest first" },
+    },
+  )
+  .get(
+    "/verify",
+    ({ set }) =>
+      verifyAuditChain().match(
+        (verification) => verification,
+        (cause) => errorResponse(set, cause),
+      ),
+    {
+      scopes: ["audit:read"],
+      response: {
+        200: t.Object({
+          valid: t.Boolean(),
+          events: t.Number(),
+          headHash: t.String(),
+          brokenAt: t.Nullable(t.Number()),
+        }),
+        ...protectedResponses,
+      },
+      detail: {
+        summary: "Verify the hash chain of the audit log",
+        description:
+          "Recomputes every hash. Events removed from the end leave a valid but shorter chain: compare headHash with one noted earlier to detect that.",
+      },
+    },
+  );
@@ -0,0 +1,208 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { createApiToken } from "../../services/auth/api-tokens";
+import { bootstrapRootUser } from "../../services/auth/users";
+import { useTestDatabase } from "../../testing/database";
+import { createApp } from "./app";
+
+describe("API Token Routes", () => {
+  const app = createApp();
+  useTestDatabase();
+  let adminToken: string;
+
+  const request = (path: string, token?: string, init: RequestInit = {}) =>
+    app.handle(
+      new Request(new URL(path, "http://localhost"), {
+        ...init,
+        headers: {
+          ...(token ? { authorization: `Bearer ${token}` } : {}),
+          ...init.headers,
+        },
+      }),
+    );
+
+  const createToken = (token: string, body: unknown) =>
+    request("/auth/tokens", token, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+  beforeAll(async () => {
+    adminToken = (
+      await createApiToken({
+        name: "admin",
+        scopes: ["services:read", "tokens:manage"],
+      })
+    )._unsafeUnwrap().token;
+  });
+
+  it("should reject requests without a token", async () => {
+    const response = await request("/services");
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get("www-authenticate")).toBe("Bearer");
+    expect((await response.json()).error.type).toBe("AUTHENTICATION_REQUIRED");
+  });
+
+  it("should keep Swagger UI public", async () => {
+    const response = await request("/swagger/json");
+
+    expect(response.status).toBe(200);
+  });
+
+  it("should create a token whose secret is returned once", async () => {
+    const created = await createToken(adminToken, {
+      name: "reader",
+      scopes: ["services:read"],
+    });
+    expect(created.status).toBe(201);
+    const { token, id } = await created.json();
+
+    const list = await request("/auth/tokens", adminToken);
+    const listed = (await list.json()).find(
+      (entry: { id: number }) => entry.id === id,
+    );
+    expect(listed.prefix).toBe(token.slice(0, listed.prefix.length));
+    expect(JSON.stringify(listed)).not.toContain(token);
+
+    expect((await request("/services", token)).status).toBe(200);
+    const forbidden = await request("/auth/tokens", token);
+    expect(forbidden.status).toBe(403);
+    expect((await forbidden.json()).error.type).toBe("API_TOKEN_SCOPE_MISSING");
+  });
+
+  it("should not hand out scopes the caller does not hold", async () => {
+    const response = await createToken(adminToken, {
+      name: "writer",
+      scopes: ["services:write"],
+    });
+
+    expect(response.status).toBe(403);
+  });
+
+  it("should reject a revoked token", async () => {
+    const { token, id } = await (
+      await createToken(adminToken, { name: "temp", scopes: ["services:read"] })
+    ).json();
+
+    const revoked = await request(`/auth/tokens/${id}`, adminToken, {
+      method: "DELETE",
+    });
+    expect((await revoked.json()).revokedAt).not.toBeNull();
+
+    const response = await request("/services", token);
+    expect(response.status).toBe(401);
+    expect((await response.json()).error.type).toBe("API_TOKEN_REVOKED");
+  });
+});
+
+describe("Session Routes", () => {
+  const app = createApp();
+  const credentials = { email: "root@example.com", password: "correct horse" };
+  useTestDatabase();
+
+  const request = (path: string, init: RequestInit = {}) =>
+    app.handle(new Request(new URL(path, "http://localhost"), init));
+
+  const signIn = (body: unknown, query = "") =>
+    request(`/auth/signin${query}`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+  beforeAll(async () => {
+    (
+      await bootstrapRootUser({
+        config: { ...credentials, label: "Root" },
+      })
+    )._unsafeUnwrap();
+  });
+
+  it("should reject a wrong password", async () => {
+    const response = await signIn({ ...credentials, password: "wrong" });
+
+    expect(response.status).toBe(401);
+    expect((await response.json()).error.type).toBe("INVALID_CREDENTIALS");
+  });
+
+  it("should authenticate with the session cookie", async () => {
+    const response = await signIn(credentials);
+    expect(response.status).toBe(200);
+    const cookie = response.headers.get("set-cookie")!;
+    expect(cookie).toContain("HttpOnly");
+    expect(cookie).toContain("SameSite=Lax");
+
+    const me = await request("/auth/me", {
+      headers: { cookie: cookie.split(";")[0]! },
+    });
+    expect(me.status).toBe(200);
+    expect(await me.json()).toMatchObject({
+      type: "user",
+      user: { email: credentials.email, label: "Root" },
+    });
+  });
+
+  it("should authenticate with the session token as bearer and end it on sign-out", async () => {
+    const token = await (await signIn(credentials, "?tokenOnly=true")).text();
+    const headers = { authorization: `Bearer ${token}` };
+
+    expect((await request("/services", { headers })).status).toBe(200);
+
+    const signOut = await request("/auth/signout", {
+      method: "POST",
+      headers,
+    });
+    expect(signOut.status).toBe(204);
+
+    const response = await request("/services", { headers });
+    expect(response.status).toBe(401);
+    expect((await response.json()).error.type).toBe("SESSION_INVALID");
+  });
+});
+
+describe("Root User Route", () => {
+  const rootUser = {
+    email: "Admin@Example.com",
+    label: "Admin",
+    password: "correct horse",
+  };
+  useTestDatabase();
+  let token: string;
+
+  const registerAdmin = (app: ReturnType<typeof createApp>) =>
+    app.handle(
+      new Request("http://localhost/auth/registerAdmin", {
+        method: "POST",
+        headers: { authorization: `Bearer ${token}` },
+      }),
+    );
+
+  beforeAll(async () => {
+    token = (
+      await createApiToken({ name: "admin", scopes: ["users:manage"] })
+    )._unsafeUnwrap().token;
+  });
+
+  it("should create the root user passed to the app once", async () => {
+    const app = createApp({ rootUser });
+
+    const created = await registerAdmin(app);
+    expect(created.status).toBe(201);
+    expect(await created.json()).toMatchObject({
+      action: "created",
+      user: { email: "admin@example.com", label: "Admin" },
+    });
+
+    const again = await registerAdmin(app);
+    expect(again.status).toBe(200);
+    expect((await again.json()).action).toBe("unchanged");
+  });
+
+  it("should fail without a configured root user", async () => {
+    const response = await registerAdmin(createApp());
+
+    expect(response.status).toBe(500);
+    expect((await response.json()).error.type).toBe("ROOT_USER_NOT_CONFIGURED");
+  });
+});
@@ -0,0 +1,503 @@
+import { Elysia, t } from "elysia";
+import { err, errAsync, ok } from "neverthrow";
+import { literalUnion } from "../../lib/json-schema";
+import type { ApiTokenScope } from "../../services/auth/api-tokens";
+import {
+  API_TOKEN_SCOPES,
+  createApiToken,
+  listApiTokens,
+  missingScopes,
+  revokeApiToken,
+} from "../../services/auth/api-tokens";
+import { ApiTokenScopeMissingError } from "../../services/auth/api-tokens.errors";
+import { enterAuditActor } from "../../services/audit/context";
+import {
+  AuthenticationRequiredError,
+  RootUserNotConfiguredError,
+  UserSessionRequiredError,
+} from "../../services/auth/auth.errors";
+import type { Principal } from "../../services/auth/authenticate";
+import {
+  authenticateRequest,
+  principalScopes,
+} from "../../services/auth/authenticate";
+import {
+  SESSION_TOKEN_PREFIX,
+  signIn,
+  signOut,
+} from "../../services/auth/sessions";
+import type { RootUserConfig } from "../../services/auth/users";
+import { bootstrapRootUser } from "../../services/auth/users";
+import { confirmLink } from "../../services/telegram/links";
+import {
+  ErrorResponse,
+  errorResponse,
+  errorStatusOf,
+  publicErrorMessage,
+} from "./errors";
+
+/**
+ * Name of the session cookie set by `POST /auth/signin`
+ */
+export const SESSION_COOKIE = "session";
+
+const ApiTokenScopeSchema = literalUnion(API_TOKEN_SCOPES);
+
+const ApiTokenSummary = t.Object({
+  id: t.Number(),
+  name: t.String(),
+  prefix: t.String({ description: "First characters of the token" }),
+  scopes: t.Array(ApiTokenScopeSchema),
+  expiresAt: t.Nullable(t.Date()),
+  lastUsedAt: t.Nullable(t.Date()),
+  revokedAt: t.Nullable(t.Date()),
+  createdAt: t.Date(),
+});
+
+const UserSummary = t.Object({
+  id: t.Number(),
+  email: t.String(),
+  label: t.String(),
+  createdAt: t.Date(),
+  updatedAt: t.Date(),
+});
+
+const RootUserBootstrapSchema = t.Object({
+  user: UserSummary,
+  action: t.Union([
+    t.Literal("created"),
+    t.Literal("updated"),
+    t.Literal("unchanged"),
+  ]),
+});
+
+const protectedResponses = {
+  401: ErrorResponse,
+  403: ErrorResponse,
+  500: ErrorResponse,
+};
+
+/**
+ * Describes a request for the audit log, e.g. "route:GET /services/:id"
+ *
+ * @private
+ */
+function routeActor(request: Request, route: string): string {
+  // Prefixed index routes are registered as "/services/"
+  const path = route.length > 1 ? route.replace(/\/$/, "") : route;
+  return `route:${request.method} ${path}`;
+}
+
+/**
+ * Describes a caller for the audit log, e.g. "user:1" or "token:3"
+ *
+ * @private
+ */
+function principalActor(principal: Principal): string {
+  return principal.type === "user"
+    ? `user:${principal.user.id}`
+    : `token:${principal.token.id}`;
+}
+
+/**
+ * Records the route of every request as the actor of the audit log
+ *
+ * @remarks
+ * Registered first by `createApp()`, so public routes (sign-in, the
+ * OAuth callback) are attributed too; {@link authentication} adds the
+ * caller once it is known.
+ */
+export const auditActor = new Elysia({ name: "audit-actor" }).onBeforeHandle(
+  { as: "global" },
+  ({ request, route }) => {
+    enterAuditActor(routeActor(request, route));
+  },
+);
+
+/**
+ * Resolves the caller of every request and enforces scopes per route
+ *
+ * @remarks
+ * Adds `principal` (a Result) to the context. Routes declare the scopes
+ * they need with the `scopes` option:
+ *
+ * ```typescript
+ * new Elysia().use(authentication).get("/", handler, { scopes: ["services:read"] });
+ * ```
+ *
+ * Authentication itself is enforced once for the whole app by
+ * {@link requireAuthentication}. Authenticated requests are recorded in
+ * the audit log as "<caller> > <route>", e.g. "token:3 > route:GET /audit".
+ */
+export const authentication = new Elysia({ name: "authentication" })
+  .resolve({ as: "global" }, async ({ headers, cookie }) => ({
+    principal: await authenticateRequest({
+      authorization: headers.authorization,
+      sessionToken: cookie[SESSION_COOKIE]?.value,
+    }),
+  }))
+  .onBeforeHandle({ as: "global" }, ({ principal, request, route }) => {
+    // Synchronous on purpose: the actor must outlive this hook
+    if (principal.isOk()) {
+      enterAuditActor(
+        principalActor(principal.value),
+        routeActor(request, route),
+      );
+    }
+  })
+  .macro(({ onBeforeHandle }) => ({
+    scopes(required: ApiTokenScope[]) {
+      onBeforeHandle(
+        ({ principal = err(new AuthenticationRequiredError()), set }) => {
+          const authorized = principal.andThen((caller) => {
+            const missing = missingScopes(principalScopes(caller), required);
+            return missing.length > 0
+              ? err(new ApiTokenScopeMissingError(missing))
+              : principal;
+          });
+          if (authorized.isErr()) {
+            if (errorStatusOf(authorized.error) === 401) {
+              set.headers["www-authenticate"] = "Bearer";
+            }
+            return errorResponse(set, authorized.error);
+          }
+        },
+      );
+    },
+  }));
+
+/**
+ * Path of Swagger UI and the OpenAPI document
+ */
+export const SWAGGER_PATH = "/swagger";
+
+/**
+ * Rejects unauthenticated requests to every route registered after it
+ *
+ * @remarks
+ * The single gate of the app: `createApp()` registers the public routes
+ * (sign-in, the OAuth callback) before this plugin and all other routes
+ * after it. The Swagger plugin is async and only adds its routes once it
+ * has loaded, so its path is exempted explicitly. Responds 401 with
+ * `WWW-Authenticate: Bearer`.
+ */
+export const requireAuthentication = new Elysia({
+  name: "require-authentication",
+})
+  .use(authentication)
+  .onBeforeHandle({ as: "global" }, ({ principal, path, set }) => {
+    const isSwagger =
+      path === SWAGGER_PATH || path.startsWith(`${SWAGGER_PATH}/`);
+    if (!isSwagger && principal.isErr()) {
+      set.headers["www-authenticate"] = "Bearer";
+      return errorResponse(set, principal.error);
+    }
+  });
+
+/**
+ * Public routes for signing in and out
+ */
+export const sessionRoutes = new Elysia({
+  prefix: "/auth",
+  detail: { tags: ["Auth"] },
+})
+  .post(
+    "/signin",
+    ({ body, query, cookie, request, set }) =>
+      signIn(body.email, body.password).match(
+        ({ sessionToken, expiresAt, user }) => {
+          cookie[SESSION_COOKIE]!.set({
+            value: sessionToken,
+            expires: expiresAt,
+            httpOnly: true,
+            sameSite: "lax",
+            secure: new URL(request.url).protocol === "https:",
+            path: "/",
+          });
+          return query.tokenOnly
+            ? sessionToken
+            : { sessionToken, expiresAt, user };
+        },
+        (cause) => errorResponse(set, cause),
+      ),
+    {
+      body: t.Object({
+        email: t.String({ minLength: 1 }),
+        password: t.String({ minLength: 1 }),
+      }),
+      query: t.Object({
+        tokenOnly: t.Optional(
+          t.BooleanString({
+            description: "Respond with the bare session token",
+          }),
+        ),
+      }),
+      response: {
+        200: t.Union([
+          t.Object({
+            sessionToken: t.String(),
+            expiresAt: t.Date(),
+            user: UserSummary,
+          }),
+          t.String(),
+        ]),
+        401: ErrorResponse,
+        500: ErrorResponse,
+      },
+      detail: {
+        summary: "Sign in",
+        description:
+          "Sets the session cookie and returns the session token, which also works as a bearer token.",
+      },
+    },
+  )
+  .post(
+    "/signout",
+    ({ headers, cookie, set }) => {
+      const bearer = /^Bearer\s+(\S+)$/i.exec(
+        headers.authorization?.trim() ?? "",
+      )?.[1];
+      const sessionToken = bearer?.startsWith(SESSION_TOKEN_PREFIX)
+        ? bearer
+        : cookie[SESSION_COOKIE]?.value;
+      cookie[SESSION_COOKIE]?.remove();
+      if (!sessionToken) {
+        set.status = 204;
+        return;
+      }
+      return signOut(sessionToken).match(
+        () => {
+          set.status = 204;
+        },
+        (cause) => errorResponse(set, cause),
+      );
+    },
+    {
+      response: { 204: t.Void(), 500: ErrorResponse },
+      detail: {
+        summary: "Sign out",
+        description:
+          "Ends the session of the bearer token or cookie and clears the cookie.",
+      },
+    },
+  );
+
+/**
+ * Routes for the signed-in caller and the root user
+ *
+ * @param {RootUserConfig | null} rootUser - `config.rootUser`
+ * @returns The Elysia plugin with the account routes
+ */
+export function accountRoutes(rootUser: RootUserConfig | null) {
+  return new Elysia({
+    prefix: "/auth",
+    detail: { tags: ["Auth"], security: [{ bearerAuth: [] }] },
+  })
+    .use(authentication)
+    .get(
+      "/me",
+      ({ principal, set }) =>
+        principal.match(
+          (caller) =>
+            caller.type === "user"
+              ? {
+                  type: caller.type,
+                  user: caller.user,
+                  scopes: [...principalScopes(caller)],
+                }
+              : {
+                  type: caller.type,
+                  token: caller.token,
+                  scopes: [...principalScopes(caller)],
+                },
+          (cause) => errorResponse(set, cause),
+        ),
+      {
+        response: {
+          200: t.Union([
+            t.Object({
+              type: t.Literal("user"),
+              user: UserSummary,
+              scopes: t.Array(ApiTokenScopeSchema),
+            }),
+            t.Object({
+              type: t.Literal("api_token"),
+              token: ApiTokenSummary,
+              scopes: t.Array(ApiTokenScopeSchema),
+            }),
+          ]),
+          ...protectedResponses,
+        },
+        detail: { summary: "Describe the authenticated caller" },
+      },
+    )
+    .post(
+      "/registerAdmin",
+      ({ query, set }) =>
+        (rootUser
+          ? bootstrapRootUser({ config: rootUser, force: query.force })
+          : errAsync(
+              new RootUserNotConfiguredError([
+                "ROOT_USER_EMAIL",
+                "ROOT_USER_PASSWORD",
+              ]),
+            )
+        ).match(
+          (bootstrap) => {
+            set.status = bootstrap.action === "created" ? 201 : 200;
+            return bootstrap;
+          },
+          (cause) => errorResponse(set, cause),
+        ),
+      {
+        scopes: ["users:manage"],
+        query: t.Object({
+          force: t.Optional(
+            t.BooleanString({
+              description:
+                "Overwrite label and password of an existing root user and end its sessions",
+            }),
+          ),
+        }),
+        response: {
+          200: RootUserBootstrapSchema,
+          201: RootUserBootstrapSchema,
+          ...protectedResponses,
+        },
+        detail: {
+          summary: "Create or reset the root user from ROOT_USER_* env vars",
+        },
+      },
+    )
+    .get(
+      "/telegram/link",
+      ({ principal = err(new AuthenticationRequiredError()), query, set }) =>
+        principal
+          .andThen((caller) =>
+            caller.type === "user"
+              ? ok(caller.user)
+              : err(new UserSessionRequiredError()),
+          )
+          .asyncAndThen((user) =>
+            confirmLink(query.token, user.id).map((link) => ({ link, user })),
+          )
+          .match(
+            ({ link, user }) =>
+              `Linked Telegram account ${link.telegramUserId} to ${user.email}. You can go back to Telegram.`,
+            (cause) => {
+              set.status = errorStatusOf(cause);
+              return `Linking the Telegram account failed: ${publicErrorMessage(cause)}`;
+            },
+          ),
+      {
+        query: t.Object({
+          token: t.String({
+            description: "Link token sent by the bot's /start",
+          }),
+        }),
+        response: {
+          200: t.String(),
+          400: t.String(),
+          401: ErrorResponse,
+          403: t.String(),
+          500: t.String(),
+        },
+        detail: {
+          summary: "Link a Telegram account (opened from the bot's /start)",
+          description:
+            "Requires a signed-in user (session cookie); API tokens are refused.",
+        },
+      },
+    );
+}
+
+/**
+ * Routes for managing API tokens
+ */
+export const apiTokenRoutes = new Elysia({
+  prefix: "/auth/tokens",
+  detail: { tags: ["Auth"], security: [{ bearerAuth: [] }] },
+})
+  .use(authentication)
+  .get(
+    "/",
+    ({ set }) =>
+      listApiTokens().match(
+        (tokens) => tokens,
+        (cause) => errorResponse(set, cause),
+      ),
+    {
+      scopes: ["tokens:manage"],
+      response: {
+        200: t.Array(ApiTokenSummary),
+        ...protectedResponses,
+      },
+      detail: { summary: "List API tokens (without secrets)" },
+    },
+  )
+  .post(
+    "/",
+    ({ principal = err(new AuthenticationRequiredError()), body, set }) =>
+      principal
+        .asyncAndThen((caller) => {
+          // A caller can only hand out scopes it holds itself
+          const missing = missingScopes(principalScopes(caller), body.scopes);
+          return missing.length > 0
+            ? errAsync(new ApiTokenScopeMissingError(missing))
+            : createApiToken({
+                name: body.name,
+                scopes: body.scopes,
+                expiresAt: body.expiresAt
+                  ? new Date(body.expiresAt)
+                  : undefined,
+              });
+        })
+        .match(
+          (created) => {
+            set.status = 201;
+            return created;
+          },
+          (cause) => errorResponse(set, cause),
+        ),
+    {
+      scopes: ["tokens:manage"],
+      body: t.Object({
+        name: t.String({ minLength: 1, examples: ["backup cron"] }),
+        scopes: t.Array(ApiTokenScopeSchema, { minItems: 1 }),
+        expiresAt: t.Optional(
+          t.String({
+            format: "date-time",
+            description: "When the token stops working (default: never)",
+          }),
+        ),
+      }),
+      response: {
+        201: t.Composite([
+          ApiTokenSummary,
+          t.Object({
+            token: t.String({ description: "The secret, shown only once" }),
+          }),
+        ]),
+        ...protectedResponses,
+      },
+      detail: { summary: "Create an API token" },
+    },
+  )
+  .delete(
+    "/:id",
+    ({ params, set }) =>
+      revokeApiToken(params.id).match(
+        (token) => token,
+        (cause) => errorResponse(set, cause),
+      ),
+    {
+      scopes: ["tokens:manage"],
+      params: t.Object({ id: t.Numeric({ description: "API token id" }) }),
+      response: {
+        200: ApiTokenSummary,
+        404: ErrorResponse,
+        ...protectedResponses,
+      },
+      detail: { summary: "Revoke an API token" },
+    },
+  );
@@ -0,0 +1,118 @@
+import type { Context } from "elysia";
+import { t } from "elysia";
+
+/**
+ * Body of every error response
+ */
+export const ErrorResponse = t.Object(
+  {
+    error: t.Object({
+      type: t.String({ description: "Discriminant of the error union" }),
+      message: t.String(),
+    }),
+  },
+  { description: "Typed error" },
+);
+
+/**
+ * HTTP status codes for error types that are not server errors
+ *
+ * @remarks
+ * Anything not listed here (database failures, missing or wrong keys,
+ * tampered data, ...) is a 500.
+ */
+const errorStatus: Record<string, number> = {
+  SERVICE_NOT_FOUND: 404,
+  JSON_SERIALIZATION_FAILED: 400,
+  PLAINTEXT_TOO_LARGE: 413,
+  UNKNOWN_OAUTH_PROVIDER: 404,
+  OAUTH_STATE_INVALID: 400,
+  OAUTH_STATE_EXPIRED: 400,
+  OAUTH_AUTHORIZATION_DENIED: 400,
+  OAUTH_TOKEN_EXCHANGE_FAILED: 502,
+  OAUTH_ACCOUNT_LOOKUP_FAILED: 502,
+  OAUTH_REAUTH_REQUIRED: 409,
+  NOT_AN_OAUTH_SERVICE: 400,
+  YOUTUBE_NOT_CONNECTED: 404,
+  YOUTUBE_CONNECTION_AMBIGUOUS: 400,
+  YOUTUBE_PLAYLIST_NOT_FOUND: 404,
+  YOUTUBE_API_ERROR: 502,
+  GITHUB_NOT_CONNECTED: 404,
+  GITHUB_CONNECTION_AMBIGUOUS: 400,
+  GITHUB_NOT_FOUND: 404,
+  GITHUB_RATE_LIMITED: 429,
+  GITHUB_API_ERROR: 502,
+  AUTHENTICATION_REQUIRED: 401,
+  INVALID_CREDENTIALS: 401,
+  SESSION_INVALID: 401,
+  SESSION_EXPIRED: 401,
+  USER_SESSION_REQUIRED: 403,
+  TELEGRAM_LINK_TOKEN_INVALID: 400,
+  TELEGRAM_LINK_TOKEN_EXPIRED: 400,
+  FUNCTION_NOT_FOUND: 404,
+  FUNCTION_INPUT_INVALID: 400,
+  FUNCTION_PROVIDER_NOT_CONNECTED: 404,
+  FUNCTION_PROVIDER_AMBIGUOUS: 400,
+  CRON_EXPRESSION_INVALID: 400,
+  TIMEZONE_INVALID: 400,
+  JOB_NOT_FOUND: 404,
+  JOB_NAME_TAKEN: 409,
+  API_TOKEN_INVALID: 401,
+  API_TOKEN_EXPIRED: 401,
+  API_TOKEN_REVOKED: 401,
+  API_TOKEN_SCOPE_MISSING: 403,
+  API_TOKEN_NOT_FOUND: 404,
+};
+
+/**
+ * Returns the HTTP status code for a typed error
+ *
+ * @param {{ type: string }} cause - Any error of one of the discriminated unions
+ * @returns {number} The status code (500 for unlisted types)
+ */
+export function errorStatusOf(cause: { type: string }): number {
+  return errorStatus[cause.type] ?? 500;
+}
+
+/**
+ * Message returned instead of the message of a server error
+ */
+export const INTERNAL_ERROR_MESSAGE =
+  "The request failed on the server, see its log for details";
+
+/**
+ * Returns the message of a typed error as shown to clients
+ *
+ * @param {{ type: string; message: string }} cause - Any error of one of the discriminated unions
+ * @returns {string} The message of client (4xx) errors, {@link INTERNAL_ERROR_MESSAGE} otherwise
+ *
+ * @remarks
+ * Messages of server errors carry internals (SQL, key IDs, provider
+ * responses); they are logged on the server instead.
+ */
+export function publicErrorMessage(cause: {
+  type: string;
+  message: string;
+}): string {
+  const status = errorStatusOf(cause);
+  if (status >= 400 && status < 500) {
+    return cause.message;
+  }
+  console.error(`Request failed with ${cause.type}:`, cause);
+  return INTERNAL_ERROR_MESSAGE;
+}
+
+/**
+ * Turns a typed error into an error response
+ *
+ * @param {Context["set"]} set - The response settings of the request
+ * @param {{ type: string; message: string }} cause - Any error of one of the discriminated unions
+ * @returns The error response body; the status code is set on `set`
+ */
+export function errorResponse(
+  set: Context["set"],
+  cause: { type: string; message: string },
+): typeof ErrorResponse.static {
+  set.status = errorStatusOf(cause);
+  return { error: { type: cause.type, message: publicErrorMessage(cause) } };
+}
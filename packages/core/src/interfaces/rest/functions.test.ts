@@ -0,0 +1,102 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { Type } from "@sinclair/typebox";
+import { okAsync } from "neverthrow";
+import { createApiToken } from "../../services/auth/api-tokens";
+import { saveServiceCredentials } from "../../services/crud/connected-services";
+import { registerFunction } from "../../services/functions/registry";
+import { useTestDatabase } from "../../testing/database";
+import { createApp } from "./app";
+
+describe("Function Routes", () => {
+  useTestDatabase();
+  let app: ReturnType<typeof createApp>;
+  let token: string;
+  let readOnlyToken: string;
+
+  const post = (path: string, body: unknown, bearer = token) =>
+    app.handle(
+      new Request(new URL(path, "http://localhost"), {
+        method: "POST",
+        headers: {
+          authorization: `Bearer ${bearer}`,
+          "content-type": "application/json",
+        },
+        body: JSON.stringify(body),
+      }),
+    );
+
+  beforeAll(async () => {
+    registerFunction({
+      name: "test_greet",
+      description: "Greets someone with the configured greeting",
+      input: Type.Object({ name: Type.String({ minLength: 1 }) }),
+      output: Type.Object({ message: Type.String() }),
+      providers: ["greeter"],
+      handler: ({ name }, { credentials }) =>
+        okAsync({
+          message:
+            credentials.greeter.type === "apikey"
+              ? `${(credentials.greeter.data as { greeting: string }).greeting}, ${name}`
+              : name,
+        }),
+    })._unsafeUnwrap();
+    app = createApp();
+
+    token = (
+      await createApiToken({ name: "functions", scopes: ["functions:run"] })
+    )._unsafeUnwrap().token;
+    readOnlyToken = (
+      await createApiToken({ name: "read", scopes: ["services:read"] })
+    )._unsafeUnwrap().token;
+  });
+
+  it("should run a function with the credentials of its provider", async () => {
+    const missing = await post("/functions/test_greet", { name: "Ada" });
+    expect(missing.status).toBe(404);
+    expect((await missing.json()).error.type).toBe(
+      "FUNCTION_PROVIDER_NOT_CONNECTED",
+    );
+
+    const service = (
+      await saveServiceCredentials("greeter", "apikey", { greeting: "Hello" })
+    )._unsafeUnwrap();
+    const response = await post(`/functions/test_greet?greeter=${service.id}`, {
+      name: "Ada",
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ message: "Hello, Ada" });
+  });
+
+  it("should validate the body against the input schema", async () => {
+    const response = await post("/functions/test_greet", { name: "" });
+
+    expect(response.status).toBe(422);
+  });
+
+  it("should require the functions:run scope", async () => {
+    const response = await post(
+      "/functions/test_greet",
+      { name: "Ada" },
+      readOnlyToken,
+    );
+
+    expect(response.status).toBe(403);
+  });
+
+  it("should document every function in the OpenAPI document", async () => {
+    const response = await app.handle(
+      new Request("http://localhost/swagger/json"),
+    );
+    const document = await response.json();
+    const operation = document.paths["/functions/test_greet"].post;
+
+    expect(operation.summary).toBe(
+      "Greets someone with the configured greeting",
+    );
+    expect(operation.tags).toEqual(["Functions"]);
+    expect(
+      operation.responses["200"].content["application/json"].schema.properties,
+    ).toHaveProperty("message");
+  });
+});
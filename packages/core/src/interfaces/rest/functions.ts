@@ -0,0 +1,109 @@
+import { Elysia, t } from "elysia";
+import { invokeFunction } from "../../services/functions/invoke";
+import { listFunctions } from "../../services/functions/registry";
+import { authentication } from "./auth";
+import { ErrorResponse, errorResponse } from "./errors";
+
+const FunctionSummary = t.Object({
+  name: t.String(),
+  description: t.String(),
+  providers: t.Array(t.String()),
+  input: t.Unknown({ description: "JSON schema of the input" }),
+  output: t.Unknown({ description: "JSON schema of the output" }),
+});
+
+/**
+ * Routes of the function space: one `POST /functions/<name>` per function
+ *
+ * @returns The Elysia plugin
+ *
+ * @remarks
+ * Built from the registry when called, so every function gets its own
+ * route with its input and output schemas in the OpenAPI document.
+ * Connections of the required providers are selected with one query
+ * parameter per provider (e.g. `?github=3`), which is only needed when
+ * a provider has several connections.
+ */
+export function functionRoutes() {
+  const routes = new Elysia({
+    prefix: "/functions",
+    detail: { tags: ["Functions"], security: [{ bearerAuth: [] }] },
+  })
+    .use(authentication)
+    .get(
+      "/",
+      () =>
+        listFunctions().map(
+          ({ name, description, providers, input, output }) => ({
+            name,
+            description,
+            providers: [...providers],
+            input,
+            output,
+          }),
+        ),
+      {
+        scopes: ["functions:run"],
+        response: {
+          200: t.Array(FunctionSummary),
+          401: ErrorResponse,
+          403: ErrorResponse,
+        },
+        detail: { summary: "List functions with their schemas" },
+      },
+    );
+
+  for (const definition of listFunctions()) {
+    const ServiceSelection = t.Object(
+      Object.fromEntries(
+        definition.providers.map((provider) => [
+          provider,
+          t.Optional(
+            t.Numeric({
+              description: `Connected service id of the ${provider} account to use`,
+            }),
+          ),
+        ]),
+      ),
+    );
+
+    routes.post(
+      `/${definition.name}`,
+      ({ body, query, set }) =>
+        invokeFunction(definition.name, body, { services: query }).match(
+          (output) => output,
+          (cause) => errorResponse(set, cause),
+        ),
+      {
+        scopes: ["functions:run"],
+        body: definition.input,
+        query: ServiceSelection,
+        detail: {
+          summary: definition.description,
+          ...(definition.providers.length > 0 && {
+            description: `Requires a connected ${definition.providers.join(", ")} account.`,
+          }),
+          // Documented rather than validated: Elysia cannot type a
+          // response schema that is only known at runtime
+          responses: {
+            200: {
+              description: "Output of the function",
+              content: { "application/json": { schema: definition.output } },
+            },
+            ...Object.fromEntries(
+              [400, 401, 403, 404, 500, 502].map((status) => [
+                status,
+                {
+                  description: "Typed error",
+                  content: { "application/json": { schema: ErrorResponse } },
+                },
+              ]),
+            ),
+          },
+        },
+      },
+    );
+  }
+
+  return routes;
+}
@@ -0,0 +1,311 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "bun:test";
+import type { Server } from "bun";
+import {
+  deleteService,
+  listServices,
+  saveServiceCredentials,
+} from "../../services/crud/connected-services";
+import {
+  API_TOKEN_SCOPES,
+  createApiToken,
+} from "../../services/auth/api-tokens";
+import { githubStars } from "../../services/functions/builtin";
+import { invokeFunction } from "../../services/functions/invoke";
+import { registerFunction } from "../../services/functions/registry";
+import {
+  configureGitHubClient,
+  GITHUB_API_URL,
+} from "../../services/github/client";
+import { listAuditEvents } from "../../services/audit/audit";
+import { useTestDatabase } from "../../testing/database";
+import { createApp } from "./app";
+import { INTERNAL_ERROR_MESSAGE } from "./errors";
+
+const STARRED = 250;
+
+/**
+ * A minimal GitHub API that only accepts the token `ghp_test`
+ */
+function startMockGitHubApi(): Server<undefined> {
+  return Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const url = new URL(request.url);
+      requests.push(`${request.method} ${url.pathname}`);
+
+      if (request.headers.get("authorization") !== "Bearer ghp_test") {
+        return Response.json({ message: "Bad credentials" }, { status: 401 });
+      }
+      const rateHeaders = {
+        "x-ratelimit-remaining": String(rateLimitRemaining),
+        "x-ratelimit-reset": String(Math.floor(Date.now() / 1000) + 3600),
+      };
+      if (url.pathname === "/user/starred") {
+        const page = Number(url.searchParams.get("page") ?? 1);
+        const perPage = Number(url.searchParams.get("per_page"));
+        const start = (page - 1) * perPage;
+        const end = Math.min(start + perPage, STARRED);
+        const next =
+          end < STARRED
+            ? `<${url.origin}/user/starred?per_page=${perPage}&page=${page + 1}>; rel="next"`
+            : `<${url.origin}/user/starred?per_page=${perPage}&page=1>; rel="first"`;
+        return Response.json(
+          Array.from({ length: end - start }, (_, i) =>
+            repository(`octo/repo-${start + i}`),
+          ),
+          { headers: { ...rateHeaders, link: next } },
+        );
+      }
+
+      if (url.pathname === "/users/octocat/repos") {
+        return Response.json([repository("octocat/hello", ["demo", "git"])], {
+          headers: rateHeaders,
+        });
+      }
+
+      if (url.pathname === "/notifications" && request.method === "GET") {
+        return Response.json(
+          [
+            {
+              id: "42",
+              unread: true,
+              reason: "mention",
+              updated_at: "2024-05-01T00:00:00Z",
+              subject: {
+                title: "Fix the thing",
+                type: "PullRequest",
+                url: "https://api.github.com/repos/octo/repo/pulls/1",
+              },
+              repository: { full_name: "octo/repo" },
+            },
+          ],
+          { headers: rateHeaders },
+        );
+      }
+
+      if (url.pathname === "/notifications" && request.method === "PUT") {
+        markedRead.push(await request.json());
+        return new Response(null, { status: 205, headers: rateHeaders });
+      }
+
+      if (url.pathname === "/notifications/threads/42") {
+        return new Response(null, { status: 205, headers: rateHeaders });
+      }
+
+      return Response.json(
+        { message: "Not Found" },
+        { status: 404, headers: rateHeaders },
+      );
+    },
+  });
+}
+
+function repository(fullName: string, topics: string[] = []) {
+  return {
+    full_name: fullName,
+    html_url: `https://github.com/${fullName}`,
+    description: null,
+    language: "TypeScript",
+    stargazers_count: 7,
+    topics,
+    pushed_at: "2024-04-01T12:00:00Z",
+    private: false,
+    fork: false,
+    archived: false,
+  };
+}
+
+let requests: string[] = [];
+let markedRead: unknown[] = [];
+let rateLimitRemaining = 5000;
+
+describe("GitHub Routes", () => {
+  const app = createApp();
+  let api: Server<undefined>;
+  useTestDatabase();
+
+  let token: string;
+
+  const request = (path: string, init: RequestInit = {}) =>
+    app.handle(
+      new Request(new URL(path, "http://localhost"), {
+        ...init,
+        headers: { authorization: `Bearer ${token}`, ...init.headers },
+      }),
+    );
+
+  /** Connects a GitHub account with a personal access token */
+  async function connectToken(apiKey = "ghp_test") {
+    const service = await saveServiceCredentials("github", "apikey", {
+      apiKey,
+    });
+    return service._unsafeUnwrap().id;
+  }
+
+  beforeAll(async () => {
+    token = (
+      await createApiToken({ name: "tests", scopes: [...API_TOKEN_SCOPES] })
+    )._unsafeUnwrap().token;
+
+    api = startMockGitHubApi();
+    configureGitHubClient({ apiUrl: `http://localhost:${api.port}` });
+  });
+
+  afterAll(() => {
+    api.stop(true);
+    configureGitHubClient({ apiUrl: GITHUB_API_URL });
+  });
+
+  afterEach(async () => {
+    for (const service of (await listServices())._unsafeUnwrap()) {
+      await deleteService(service.id);
+    }
+    requests = [];
+    markedRead = [];
+    rateLimitRemaining = 5000;
+  });
+
+  it("should export all starred repositories by following Link headers", async () => {
+    const serviceId = await connectToken();
+
+    const response = await request("/github/stars");
+
+    expect(response.status).toBe(200);
+    const repositories = await response.json();
+    expect(repositories).toHaveLength(STARRED);
+    expect(repositories[249].fullName).toBe("octo/repo-249");
+    expect(requests).toEqual([
+      "GET /user/starred",
+      "GET /user/starred",
+      "GET /user/starred",
+    ]);
+    // The token is decrypted once for all pages
+    const reads = await listAuditEvents({
+      serviceId,
+      action: "credential.read",
+    });
+    expect(reads._unsafeUnwrap()).toHaveLength(1);
+  });
+
+  it("should run github_stars with the injected token", async () => {
+    const serviceId = await connectToken();
+    registerFunction(githubStars)._unsafeUnwrap();
+
+    const result = await invokeFunction("github_stars", { limit: 2 });
+
+    expect(result._unsafeUnwrap()).toEqual([
+      expect.objectContaining({ fullName: "octo/repo-0" }),
+      expect.objectContaining({ fullName: "octo/repo-1" }),
+    ]);
+    // Read once to inject the credentials, never again by the client
+    const reads = await listAuditEvents({
+      serviceId,
+      action: "credential.read",
+    });
+    expect(reads._unsafeUnwrap()).toHaveLength(1);
+  });
+
+  it("should export a user's repositories with topics and last push", async () => {
+    await connectToken();
+
+    const response = await request("/github/repos?username=octocat");
+
+    expect(await response.json()).toEqual([
+      {
+        fullName: "octocat/hello",
+        url: "https://github.com/octocat/hello",
+        description: null,
+        language: "TypeScript",
+        stars: 7,
+        topics: ["demo", "git"],
+        pushedAt: "2024-04-01T12:00:00Z",
+        private: false,
+        fork: false,
+        archived: false,
+      },
+    ]);
+  });
+
+  it("should map unknown users to 404", async () => {
+    await connectToken();
+
+    const response = await request("/github/repos?username=nobody");
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).error.type).toBe("GITHUB_NOT_FOUND");
+  });
+
+  it("should list unread notifications and mark them read", async () => {
+    await connectToken();
+
+    const list = await request("/github/notifications");
+    expect(await list.json()).toEqual([
+      {
+        id: "42",
+        title: "Fix the thing",
+        type: "PullRequest",
+        reason: "mention",
+        repository: "octo/repo",
+        subjectUrl: "https://api.github.com/repos/octo/repo/pulls/1",
+        updatedAt: "2024-05-01T00:00:00Z",
+      },
+    ]);
+
+    const thread = await request("/github/notifications/42/read", {
+      method: "POST",
+    });
+    expect(thread.status).toBe(204);
+
+    const all = await request("/github/notifications/read", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ lastReadAt: "2024-05-02T00:00:00.000Z" }),
+    });
+    expect(all.status).toBe(204);
+    expect(markedRead).toEqual([
+      { last_read_at: "2024-05-02T00:00:00.000Z", read: true },
+    ]);
+    expect(requests).toContain("PATCH /notifications/threads/42");
+  });
+
+  it("should report invalid personal access tokens", async () => {
+    await connectToken("ghp_revoked");
+
+    const response = await request("/github/stars");
+
+    expect(response.status).toBe(502);
+    // The provider's message is only logged
+    expect((await response.json()).error).toEqual({
+      type: "GITHUB_API_ERROR",
+      message: INTERNAL_ERROR_MESSAGE,
+    });
+  });
+
+  it("should require a connection id when several accounts are connected", async () => {
+    const first = await connectToken();
+    await connectToken();
+
+    const ambiguous = await request("/github/stars");
+    expect((await ambiguous.json()).error.type).toBe(
+      "GITHUB_CONNECTION_AMBIGUOUS",
+    );
+
+    const selected = await request(
+      `/github/repos?username=octocat&serviceId=${first}`,
+    );
+    expect(selected.status).toBe(200);
+  });
+
+  it("should stop sending requests once the rate limit is exhausted", async () => {
+    await connectToken();
+    rateLimitRemaining = 0;
+
+    const exhausted = await request("/github/repos?username=octocat");
+    expect(exhausted.status).toBe(200);
+
+    const limited = await request("/github/stars");
+    expect(limited.status).toBe(429);
+    expect((await limited.json()).error.type).toBe("GITHUB_RATE_LIMITED");
+    expect(requests).toEqual(["GET /users/octocat/repos"]);
+  });
+});
@@ -0,0 +1,167 @@
+import { Elysia, t } from "elysia";
+import {
+  listNotifications,
+  listRepositories,
+  listStarredRepositories,
+  markNotificationsRead,
+} from "../../services/github/client";
+import { authentication } from "./auth";
+import { ErrorResponse, errorResponse } from "./errors";
+
+const GitHubRepository = t.Object({
+  fullName: t.String(),
+  url: t.String(),
+  description: t.Nullable(t.String()),
+  language: t.Nullable(t.String()),
+  stars: t.Number(),
+  topics: t.Array(t.String()),
+  pushedAt: t.Nullable(t.String({ description: "Last push (ISO 8601)" })),
+  private: t.Boolean(),
+  fork: t.Boolean(),
+  archived: t.Boolean(),
+});
+
+const GitHubNotification = t.Object({
+  id: t.String({ description: "Thread id" }),
+  title: t.String(),
+  type: t.String({ examples: ["PullRequest"] }),
+  reason: t.String({ examples: ["mention"] }),
+  repository: t.String(),
+  subjectUrl: t.Nullable(t.String()),
+  updatedAt: t.String(),
+});
+
+const ConnectionQuery = t.Object({
+  serviceId: t.Optional(
+    t.Numeric({
+      description:
+        "Connected service id of the GitHub account (required if several are connected)",
+    }),
+  ),
+});
+
+const errorResponses = {
+  400: ErrorResponse,
+  401: ErrorResponse,
+  403: ErrorResponse,
+  404: ErrorResponse,
+  409: ErrorResponse,
+  429: ErrorResponse,
+  500: ErrorResponse,
+  502: ErrorResponse,
+};
+
+/**
+ * Routes of the GitHub integration
+ *
+ * @remarks
+ * Works with OAuth connections and personal access tokens (connected via
+ * `POST /services` with `provider: "github"`).
+ */
+export const githubRoutes = new Elysia({
+  prefix: "/github",
+  detail: { tags: ["GitHub"], security: [{ bearerAuth: [] }] },
+})
+  .use(authentication)
+  .get(
+    "/stars",
+    ({ query, set }) =>
+      listStarredRepositories(query.serviceId).match(
+        (repositories) => repositories,
+        (cause) => errorResponse(set, cause),
+      ),
+    {
+      scopes: ["services:read"],
+      query: ConnectionQuery,
+      response: { 200: t.Array(GitHubRepository), ...errorResponses },
+      detail: { summary: "Export starred repositories" },
+    },
+  )
+  .get(
+    "/repos",
+    ({ query, set }) =>
+      listRepositories(query.username, query.serviceId).match(
+        (repositories) => repositories,
+        (cause) => errorResponse(set, cause),
+      ),
+    {
+      scopes: ["services:read"],
+      query: t.Composite([
+        ConnectionQuery,
+        t.Object({
+          username: t.Optional(
+            t.String({
+              minLength: 1,
+              description:
+                "User whose public repositories to export (default: the connected account, including private ones)",
+            }),
+          ),
+        }),
+      ]),
+      response: { 200: t.Array(GitHubRepository), ...errorResponses },
+      detail: { summary: "Export repositories with topics and last push" },
+    },
+  )
+  .get(
+    "/notifications",
+    ({ query, set }) =>
+      listNotifications(query.serviceId).match(
+        (notifications) => notifications,
+        (cause) => errorResponse(set, cause),
+      ),
+    {
+      scopes: ["services:read"],
+      query: ConnectionQuery,
+      response: { 200: t.Array(GitHubNotification), ...errorResponses },
+      detail: { summary: "List unread notifications" },
+    },
+  )
+  .post(
+    "/notifications/read",
+    ({ query, body, set }) =>
+      markNotificationsRead(
+        {
+          lastReadAt: body?.lastReadAt ? new Date(body.lastReadAt) : undefined,
+        },
+        query.serviceId,
+      ).match(
+        () => {
+          set.status = 204;
+        },
+        (cause) => errorResponse(set, cause),
+      ),
+    {
+      scopes: ["services:write"],
+      query: ConnectionQuery,
+      body: t.Optional(
+        t.Object({
+          lastReadAt: t.Optional(
+            t.String({
+              format: "date-time",
+              description:
+                "Only mark notifications updated before this time (default: now)",
+            }),
+          ),
+        }),
+      ),
+      response: { 204: t.Void(), ...errorResponses },
+      detail: { summary: "Mark all notifications as read" },
+    },
+  )
+  .post(
+    "/notifications/:id/read",
+    ({ params, query, set }) =>
+      markNotificationsRead({ threadId: params.id }, query.serviceId).match(
+        () => {
+          set.status = 204;
+        },
+        (cause) => errorResponse(set, cause),
+      ),
+    {
+      scopes: ["services:write"],
+      params: t.Object({ id: t.String({ description: "Thread id" }) }),
+      query: ConnectionQuery,
+      response: { 204: t.Void(), ...errorResponses },
+      detail: { summary: "Mark a notification thread as read" },
+    },
+  );
@@ -0,0 +1,83 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { eq } from "drizzle-orm";
+import { getDb } from "../../db/index";
+import { connectedServices } from "../../db/schema";
+import { generateEncryptionKey } from "../../lib/crypto";
+import { createKeyring, setDefaultKeyring } from "../../lib/keyring";
+import { listAuditEvents } from "../../services/audit/audit";
+import { saveServiceCredentials } from "../../services/crud/connected-services";
+import { useTestDatabase } from "../../testing/database";
+import { createApp } from "./app";
+
+describe("Health Routes", () => {
+  const app = createApp();
+  const database = useTestDatabase();
+  let serviceId: number;
+
+  const get = (path: string) =>
+    app.handle(new Request(new URL(path, "http://localhost")));
+
+  beforeAll(async () => {
+    serviceId = (
+      await saveServiceCredentials("openai", "apikey", { apiKey: "sk-health" })
+    )._unsafeUnwrap().id;
+  });
+
+  it("should answer the liveness probe without a token", async () => {
+    const response = await get("/health/live");
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: "ok" });
+  });
+
+  it("should report every check when ready", async () => {
+    const response = await get("/health/ready");
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.ready).toBe(true);
+    expect(body.checks.database).toEqual({ ok: true, value: null });
+    expect(body.checks.migrations.value.pending).toBe(0);
+    expect(body.checks.encryption.value.checkedServiceId).toBe(serviceId);
+    expect(JSON.stringify(body)).not.toContain("sk-health");
+  });
+
+  it("should be unready when stored credentials do not decrypt", async () => {
+    setDefaultKeyring(createKeyring(generateEncryptionKey())._unsafeUnwrap());
+    try {
+      const response = await get("/health/ready");
+      const body = await response.json();
+
+      expect(response.status).toBe(503);
+      expect(body.ready).toBe(false);
+      expect(body.checks.database.ok).toBe(true);
+      expect(body.checks.encryption.ok).toBe(false);
+      expect(body.checks.encryption.error).toContain(`#${serviceId}`);
+    } finally {
+      setDefaultKeyring(createKeyring(database.encryptionKey)._unsafeUnwrap());
+    }
+  });
+
+  it("should only unwrap the data key of the stored credentials", async () => {
+    const [row] = await getDb()
+      .select({ encryptedData: connectedServices.encryptedData })
+      .from(connectedServices)
+      .where(eq(connectedServices.id, serviceId));
+    const stored = JSON.parse(row!.encryptedData);
+    stored.payload.ciphertext = Buffer.from("tampered").toString("base64");
+    await getDb()
+      .update(connectedServices)
+      .set({ encryptedData: JSON.stringify(stored) })
+      .where(eq(connectedServices.id, serviceId));
+    // A new keyring object skips the cached check
+    setDefaultKeyring(createKeyring(database.encryptionKey)._unsafeUnwrap());
+
+    const response = await get("/health/ready");
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.checks.encryption.value.checkedServiceId).toBe(serviceId);
+    const reads = await listAuditEvents({ action: "credential.read" });
+    expect(reads._unsafeUnwrap()).toEqual([]);
+  });
+});
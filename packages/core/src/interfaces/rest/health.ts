@@ -0,0 +1,74 @@
+import type { TSchema } from "@sinclair/typebox";
+import { Elysia, t } from "elysia";
+import { getSystemStatus, isReady } from "../../services/status/status";
+
+/**
+ * Schema of a StatusCheck carrying a value of the given schema
+ *
+ * @private
+ */
+function StatusCheck<T extends TSchema>(value: T) {
+  return t.Union([
+    t.Object({ ok: t.Literal(true), value }),
+    t.Object({ ok: t.Literal(false), error: t.String() }),
+  ]);
+}
+
+const Readiness = t.Object({
+  ready: t.Boolean(),
+  uptimeSeconds: t.Number(),
+  checks: t.Object({
+    database: StatusCheck(t.Null()),
+    migrations: StatusCheck(
+      t.Object({ applied: t.Number(), total: t.Number(), pending: t.Number() }),
+    ),
+    encryption: StatusCheck(
+      t.Object({
+        activeKeyId: t.String(),
+        checkedServiceId: t.Nullable(t.Number()),
+      }),
+    ),
+  }),
+});
+
+/**
+ * Liveness and readiness probes
+ *
+ * @remarks
+ * Public, so the platform can probe without a token. Readiness reports the
+ * same checks as the Telegram `/status` command, but not the number of
+ * connected services.
+ */
+export const healthRoutes = new Elysia({
+  prefix: "/health",
+  detail: { tags: ["Health"] },
+})
+  .get("/live", () => ({ status: "ok" as const }), {
+    response: { 200: t.Object({ status: t.Literal("ok") }) },
+    detail: {
+      summary: "Liveness probe",
+      description: "Answers as long as the process serves requests.",
+    },
+  })
+  .get(
+    "/ready",
+    async ({ set }) => {
+      const { uptimeSeconds, ...status } = await getSystemStatus();
+      const { database, migrations, encryption } = status;
+      const ready = isReady(status);
+      set.status = ready ? 200 : 503;
+      return {
+        ready,
+        uptimeSeconds,
+        checks: { database, migrations, encryption },
+      };
+    },
+    {
+      response: { 200: Readiness, 503: Readiness },
+      detail: {
+        summary: "Readiness probe",
+        description:
+          "503 unless the database answers, every shipped migration is applied and the encryption self-test passes (a random canary round-trips and the newest stored credentials decrypt with the configured keys).",
+      },
+    },
+  );
@@ -0,0 +1,119 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { Type } from "@sinclair/typebox";
+import { okAsync } from "neverthrow";
+import { createApiToken } from "../../services/auth/api-tokens";
+import { registerFunction } from "../../services/functions/registry";
+import { useTestDatabase } from "../../testing/database";
+import { createApp } from "./app";
+
+describe("Job Routes", () => {
+  const app = createApp();
+  useTestDatabase();
+  let token: string;
+  let readToken: string;
+
+  const request = (
+    method: string,
+    path: string,
+    body?: unknown,
+    bearer = token,
+  ) =>
+    app.handle(
+      new Request(new URL(path, "http://localhost"), {
+        method,
+        headers: {
+          authorization: `Bearer ${bearer}`,
+          ...(body !== undefined && { "content-type": "application/json" }),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      }),
+    );
+
+  beforeAll(async () => {
+    registerFunction({
+      name: "test_noop",
+      description: "Does nothing",
+      input: Type.Object({}),
+      output: Type.Null(),
+      providers: [],
+      handler: () => okAsync(null),
+    })._unsafeUnwrap();
+
+    token = (
+      await createApiToken({
+        name: "jobs",
+        scopes: ["jobs:read", "jobs:write"],
+      })
+    )._unsafeUnwrap().token;
+    readToken = (
+      await createApiToken({ name: "read", scopes: ["jobs:read"] })
+    )._unsafeUnwrap().token;
+  });
+
+  it("should create, pause, trigger and inspect a job", async () => {
+    const created = await request("POST", "/jobs", {
+      name: "nightly",
+      functionName: "test_noop",
+      schedule: "30 2 * * *",
+      timezone: "Europe/Berlin",
+      catchUp: "once",
+    });
+    expect(created.status).toBe(201);
+    const job = await created.json();
+    expect(job).toMatchObject({
+      paused: false,
+      catchUp: "once",
+      maxAttempts: 3,
+    });
+    expect(job.nextRunAt).not.toBeNull();
+
+    const paused = await request("POST", `/jobs/${job.id}/pause`);
+    expect(await paused.json()).toMatchObject({
+      paused: true,
+      nextRunAt: null,
+    });
+
+    const triggered = await request("POST", `/jobs/${job.id}/trigger`);
+    expect(triggered.status).toBe(202);
+
+    const runs = await (await request("GET", `/jobs/${job.id}/runs`)).json();
+    expect(runs).toHaveLength(1);
+    expect(runs[0]).toMatchObject({
+      trigger: "manual",
+      status: "pending",
+      attempt: 1,
+      error: null,
+    });
+
+    const listed = await (
+      await request("GET", "/jobs", undefined, readToken)
+    ).json();
+    expect(listed.map((entry: { name: string }) => entry.name)).toEqual([
+      "nightly",
+    ]);
+  });
+
+  it("should reject invalid schedules and unknown jobs", async () => {
+    const invalid = await request("POST", "/jobs", {
+      name: "broken",
+      functionName: "test_noop",
+      schedule: "every day",
+    });
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).error.type).toBe("CRON_EXPRESSION_INVALID");
+
+    const missing = await request("POST", "/jobs/999/trigger");
+    expect(missing.status).toBe(404);
+  });
+
+  it("should require jobs:write to change jobs", async () => {
+    const response = await request(
+      "POST",
+      "/jobs/1/pause",
+      undefined,
+      readToken,
+    );
+
+    expect(response.status).toBe(403);
+  });
+});
@@ -0,0 +1,241 @@
+import { Elysia, t } from "elysia";
+import { literalUnion } from "../../lib/json-schema";
+import {
+  createJob,
+  deleteJob,
+  getJob,
+  listJobRuns,
+  listJobs,
+  pauseJob,
+  resumeJob,
+  triggerJob,
+} from "../../services/scheduler/jobs";
+import { wakeScheduler } from "../../services/scheduler/scheduler";
+import { authentication } from "./auth";
+import { ErrorResponse, errorResponse } from "./errors";
+
+const CatchUpPolicy = literalUnion(["skip", "once", "all"], {
+  description:
+    'Occurrences missed during downtime: "skip" drops them, "once" runs the job once, "all" runs each (at most 24)',
+});
+
+const JobSummary = t.Object({
+  id: t.Number(),
+  name: t.String(),
+  functionName: t.String(),
+  input: t.Record(t.String(), t.Unknown()),
+  services: t.Record(t.String(), t.Number()),
+  schedule: t.String(),
+  timezone: t.String(),
+  catchUp: CatchUpPolicy,
+  maxAttempts: t.Number(),
+  retryBackoffSeconds: t.Number(),
+  paused: t.Boolean(),
+  nextRunAt: t.Nullable(t.Date()),
+  createdAt: t.Date(),
+  updatedAt: t.Date(),
+});
+
+const JobRunSummary = t.Object({
+  id: t.Number(),
+  jobId: t.Number(),
+  trigger: literalUnion(["schedule", "catch_up", "manual", "retry"]),
+  status: literalUnion(["pending", "running", "succeeded", "failed"]),
+  attempt: t.Number(),
+  scheduledFor: t.Date(),
+  startedAt: t.Nullable(t.Date()),
+  finishedAt: t.Nullable(t.Date()),
+  durationMs: t.Nullable(t.Number()),
+  error: t.Nullable(t.Object({ type: t.String(), message: t.String() })),
+});
+
+const JobParams = t.Object({
+  id: t.Numeric({ description: "Job id" }),
+});
+
+const protectedResponses = {
+  401: ErrorResponse,
+  403: ErrorResponse,
+  500: ErrorResponse,
+};
+
+/**
+ * Routes for managing scheduled jobs
+ *
+ * @remarks
+ * Jobs run registered functions (see `/functions`) on a cron schedule;
+ * the scheduler itself is started with the server.
+ */
+export const jobRoutes = new Elysia({
+  prefix: "/jobs",
+  detail: { tags: ["Jobs"], security: [{ bearerAuth: [] }] },
+})
+  .use(authentication)
+  .get(
+    "/",
+    ({ set }) =>
+      listJobs().match(
+        (jobs) => jobs,
+        (cause) => errorResponse(set, cause),
+      ),
+    {
+      scopes: ["jobs:read"],
+      response: { 200: t.Array(JobSummary), ...protectedResponses },
+      detail: { summary: "List scheduled jobs" },
+    },
+  )
+  .post(
+    "/",
+    ({ body, set }) =>
+      createJob(body).match(
+        (job) => {
+          set.status = 201;
+          return job;
+        },
+        (cause) => errorResponse(set, cause),
+      ),
+    {
+      scopes: ["jobs:write"],
+      body: t.Object({
+        name: t.String({ minLength: 1, maxLength: 100 }),
+        functionName: t.String({ examples: ["github_stars"] }),
+        input: t.Optional(t.Record(t.String(), t.Unknown())),
+        services: t.Optional(
+          t.Record(t.String(), t.Integer(), {
+            description: "Connected service id per provider",
+          }),
+        ),
+        schedule: t.String({
+          description:
+            "Cron expression: minute hour day-of-month month day-of-week",
+          examples: ["0 8 * * mon"],
+        }),
+        timezone: t.Optional(
+          t.String({ default: "UTC", examples: ["Europe/Berlin"] }),
+        ),
+        catchUp: t.Optional(CatchUpPolicy),
+        maxAttempts: t.Optional(t.Integer({ minimum: 1, maximum: 10 })),
+        retryBackoffSeconds: t.Optional(
+          t.Integer({ minimum: 1, maximum: 24 * 60 * 60 }),
+        ),
+      }),
+      response: {
+        201: JobSummary,
+        400: ErrorResponse,
+        404: ErrorResponse,
+        409: ErrorResponse,
+        ...protectedResponses,
+      },
+      detail: { summary: "Schedule a registered function" },
+    },
+  )
+  .get(
+    "/:id",
+    ({ params, set }) =>
+      getJob(params.id).match(
+        (job) => job,
+        (cause) => errorResponse(set, cause),
+      ),
+    {
+      scopes: ["jobs:read"],
+      params: JobParams,
+      response: { 200: JobSummary, 404: ErrorResponse, ...protectedResponses },
+      detail: { summary: "Get a job" },
+    },
+  )
+  .get(
+    "/:id/runs",
+    ({ params, query, set }) =>
+      listJobRuns(params.id, query.limit).match(
+        (runs) => runs,
+        (cause) => errorResponse(set, cause),
+      ),
+    {
+      scopes: ["jobs:read"],
+      params: JobParams,
+      query: t.Object({
+        limit: t.Optional(t.Numeric({ minimum: 1, maximum: 100, default: 20 })),
+      }),
+      response: {
+        200: t.Array(JobRunSummary),
+        404: ErrorResponse,
+        ...protectedResponses,
+      },
+      detail: {
+        summary: "List the latest runs of a job",
+        description:
+          "Newest first, with status, duration and error of every attempt. Pending runs are queued retries and triggers.",
+      },
+    },
+  )
+  .post(
+    "/:id/pause",
+    ({ params, set }) =>
+      pauseJob(params.id).match(
+        (job) => job,
+        (cause) => errorResponse(set, cause),
+      ),
+    {
+      scopes: ["jobs:write"],
+      params: JobParams,
+      response: { 200: JobSummary, 404: ErrorResponse, ...protectedResponses },
+      detail: { summary: "Pause a job (queued runs wait until it is resumed)" },
+    },
+  )
+  .post(
+    "/:id/resume",
+    ({ params, set }) =>
+      resumeJob(params.id).match(
+        (job) => job,
+        (cause) => errorResponse(set, cause),
+      ),
+    {
+      scopes: ["jobs:write"],
+      params: JobParams,
+      response: { 200: JobSummary, 404: ErrorResponse, ...protectedResponses },
+      detail: {
+        summary: "Resume a paused job",
+        description: "Occurrences missed while paused are not caught up.",
+      },
+    },
+  )
+  .post(
+    "/:id/trigger",
+    ({ params, set }) =>
+      triggerJob(params.id).match(
+        (run) => {
+          wakeScheduler();
+          set.status = 202;
+          return run;
+        },
+        (cause) => errorResponse(set, cause),
+      ),
+    {
+      scopes: ["jobs:write"],
+      params: JobParams,
+      response: {
+        202: JobRunSummary,
+        404: ErrorResponse,
+        ...protectedResponses,
+      },
+      detail: {
+        summary: "Run a job now",
+        description:
+          "Queues a run that starts right away, or after the run of the job in progress.",
+      },
+    },
+  )
+  .delete(
+    "/:id",
+    ({ params, set }) =>
+      deleteJob(params.id).match(
+        (job) => job,
+        (cause) => errorResponse(set, cause),
+      ),
+    {
+      scopes: ["jobs:write"],
+      params: JobParams,
+      response: { 200: JobSummary, 404: ErrorResponse, ...protectedResponses },
+      detail: { summary: "Delete a job and its run history" },
+    },
+  );
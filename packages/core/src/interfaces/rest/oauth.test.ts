@@ -0,0 +1,318 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { createHash } from "node:crypto";
+import { join } from "node:path";
+import type { Server } from "bun";
+import { eq, sql } from "drizzle-orm";
+import { getDb } from "../../db/index";
+import { oauthStates } from "../../db/schema";
+import { findServicesByAccount } from "../../db/service-accounts";
+import { getServiceCredentialsWithSchema } from "../../services/crud/connected-services";
+import { failPendingAuthorizations } from "../../services/oauth/events";
+import { registerOAuthProvider } from "../../services/oauth/providers";
+import { OAuthTokens } from "../../services/oauth/token-endpoint";
+import {
+  API_TOKEN_SCOPES,
+  createApiToken,
+} from "../../services/auth/api-tokens";
+import { useTestDatabase } from "../../testing/database";
+import { createApp } from "./app";
+import { INTERNAL_ERROR_MESSAGE } from "./errors";
+
+/**
+ * A minimal authorization server that enforces PKCE (S256)
+ */
+function startMockAuthorizationServer(): Server<undefined> {
+  const challenges = new Map<
+    string,
+    { challenge: string; redirectUri: string }
+  >();
+  let issued = 0;
+
+  return Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const url = new URL(request.url);
+
+      if (url.pathname === "/authorize") {
+        const code = `code-${++issued}`;
+        const redirectUri = url.searchParams.get("redirect_uri")!;
+        challenges.set(code, {
+          challenge: url.searchParams.get("code_challenge")!,
+          redirectUri,
+        });
+        const target = new URL(redirectUri);
+        target.searchParams.set("code", code);
+        target.searchParams.set("state", url.searchParams.get("state")!);
+        return Response.redirect(target.toString(), 302);
+      }
+
+      if (url.pathname === "/token") {
+        const form = new URLSearchParams(await request.text());
+        const issuedCode = challenges.get(form.get("code") ?? "");
+        const challenge = createHash("sha256")
+          .update(form.get("code_verifier") ?? "")
+          .digest("base64url");
+        if (
+          !issuedCode ||
+          issuedCode.challenge !== challenge ||
+          issuedCode.redirectUri !== form.get("redirect_uri")
+        ) {
+          return Response.json({ error: "invalid_grant" }, { status: 400 });
+        }
+        challenges.delete(form.get("code")!);
+        return Response.json({
+          access_token: "mock-access",
+          refresh_token: "mock-refresh",
+          token_type: "Bearer",
+          expires_in: 3600,
+        });
+      }
+
+      if (url.pathname === "/user") {
+        if (request.headers.get("authorization") !== "Bearer mock-access") {
+          return Response.json({ message: "Bad credentials" }, { status: 401 });
+        }
+        return Response.json({ login: "mock-user", email: null });
+      }
+
+      return new Response("Not found", { status: 404 });
+    },
+  });
+}
+
+/**
+ * Reads server-sent events from a response body
+ */
+function readEvents(response: Response) {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  return async (): Promise<{ event: string; data: unknown }> => {
+    while (!buffer.includes("\n\n")) {
+      const { value, done } = await reader.read();
+      if (done) {
+        throw new Error("Stream closed");
+      }
+      buffer += decoder.decode(value, { stream: true });
+    }
+    const [raw, ...rest] = buffer.split("\n\n");
+    buffer = rest.join("\n\n");
+    const lines = raw!.split("\n");
+    return {
+      event: lines[0]!.slice("event: ".length),
+      data: JSON.parse(lines[1]!.slice("data: ".length)),
+    };
+  };
+}
+
+/**
+ * Narrows the data of an `authorization` event
+ */
+function authorizationData(data: unknown): { authUrl: string; state: string } {
+  const { authUrl, state } = (data ?? {}) as Record<string, unknown>;
+  if (typeof authUrl !== "string" || typeof state !== "string") {
+    throw new Error(`Not an authorization event: ${JSON.stringify(data)}`);
+  }
+  return { authUrl, state };
+}
+
+describe("OAuth Routes", () => {
+  const app = createApp();
+  let authServer: Server<undefined>;
+  useTestDatabase();
+
+  let token: string;
+
+  const request = (path: string, init: RequestInit = {}) =>
+    app.handle(
+      new Request(new URL(path, "http://localhost"), {
+        ...init,
+        headers: { authorization: `Bearer ${token}`, ...init.headers },
+      }),
+    );
+
+  /** Starts a connection and follows the provider redirect */
+  async function connect() {
+    const response = await request("/services/mock/connect", {
+      method: "POST",
+    });
+    expect(response.headers.get("content-type")).toBe("text/event-stream");
+    const next = readEvents(response);
+
+    const { event, data } = await next();
+    expect(event).toBe("authorization");
+    const { authUrl, state } = authorizationData(data);
+
+    const redirect = await fetch(authUrl, { redirect: "manual" });
+    const callbackUrl = redirect.headers.get("location")!;
+    return { next, callbackUrl, state };
+  }
+
+  beforeAll(async () => {
+    token = (
+      await createApiToken({ name: "tests", scopes: [...API_TOKEN_SCOPES] })
+    )._unsafeUnwrap().token;
+
+    authServer = startMockAuthorizationServer();
+    registerOAuthProvider({
+      id: "mock",
+      authorizationUrl: `${authServer.url}authorize`,
+      tokenUrl: `${authServer.url}token`,
+      clientId: "client",
+      scopes: ["read", "write"],
+      account: {
+        url: `${authServer.url}user`,
+        email: "email",
+        username: "login",
+      },
+    });
+  });
+
+  afterAll(() => {
+    authServer.stop(true);
+  });
+
+  it("should connect a provider and push the result to the stream", async () => {
+    const { next, callbackUrl } = await connect();
+    expect(
+      callbackUrl.startsWith("http://localhost/services/mock/callback"),
+    ).toBe(true);
+
+    const callback = await request(callbackUrl);
+    expect(callback.status).toBe(200);
+
+    const { event, data } = await next();
+    expect(event).toBe("connected");
+    expect(data).toMatchObject({
+      service: { provider: "mock", type: "oauth" },
+    });
+    const { id } = (data as { service: Record<string, unknown> }).service;
+    if (typeof id !== "number") {
+      throw new Error(`Connected service without an id: ${id}`);
+    }
+
+    const tokens = await getServiceCredentialsWithSchema(id, OAuthTokens);
+    expect(tokens._unsafeUnwrap()).toMatchObject({
+      access_token: "mock-access",
+      refresh_token: "mock-refresh",
+      token_type: "Bearer",
+    });
+    expect(tokens._unsafeUnwrap().expires_at).toBeGreaterThan(Date.now());
+
+    const accounts = await findServicesByAccount("mock", {
+      username: "mock-user",
+    });
+    expect(accounts._unsafeUnwrap().map((row) => row.id)).toEqual([id]);
+
+    const replay = await request(callbackUrl);
+    expect(replay.status).toBe(400);
+    expect(await replay.text()).toContain("already been used");
+  });
+
+  it("should push a failure when the provider denies access", async () => {
+    const { next, state } = await connect();
+
+    const callback = await request(
+      `/services/mock/callback?state=${state}&error=access_denied`,
+    );
+    expect(callback.status).toBe(400);
+
+    const { event, data } = await next();
+    expect(event).toBe("failed");
+    expect(data).toMatchObject({
+      error: { type: "OAUTH_AUTHORIZATION_DENIED" },
+    });
+  });
+
+  it("should fail when the code was issued for another PKCE challenge", async () => {
+    const first = await connect();
+    const second = await connect();
+    const stolenCode = new URL(first.callbackUrl).searchParams.get("code");
+
+    const callback = await request(
+      `/services/mock/callback?state=${second.state}&code=${stolenCode}`,
+    );
+    expect(callback.status).toBe(502);
+
+    const { data } = await second.next();
+    expect(data).toMatchObject({
+      error: { type: "OAUTH_TOKEN_EXCHANGE_FAILED" },
+    });
+  });
+
+  it("should reject expired states", async () => {
+    const { next, callbackUrl } = await connect();
+    await getDb()
+      .update(oauthStates)
+      .set({ expiresAt: new Date(0) });
+
+    const callback = await request(callbackUrl);
+    expect(callback.status).toBe(400);
+
+    const { data } = await next();
+    expect(data).toMatchObject({ error: { type: "OAUTH_STATE_EXPIRED" } });
+  });
+
+  it("should push a failure when the stored verifier cannot be decrypted", async () => {
+    const { next, callbackUrl, state } = await connect();
+    await getDb().run(
+      sql`UPDATE oauth_states SET encrypted_verifier = 'x' WHERE state = ${state}`,
+    );
+
+    const callback = await request(callbackUrl);
+    expect(callback.status).toBe(500);
+
+    const { data } = await next();
+    expect(data).toMatchObject({
+      error: { type: "JSON_PARSE_FAILED", message: INTERNAL_ERROR_MESSAGE },
+    });
+    // The state is consumed all the same
+    const remaining = await getDb()
+      .select({ state: oauthStates.state })
+      .from(oauthStates)
+      .where(eq(oauthStates.state, state));
+    expect(remaining).toEqual([]);
+  });
+
+  it("should end the open streams on shutdown", async () => {
+    const { next } = await connect();
+
+    failPendingAuthorizations();
+
+    const { event, data } = await next();
+    expect(event).toBe("failed");
+    expect(data).toMatchObject({ error: { type: "SERVER_SHUTTING_DOWN" } });
+    await expect(next()).rejects.toThrow("Stream closed");
+  });
+
+  it("should build the redirect URI from the configured base URL", async () => {
+    const connectWith = (oauthRedirectBaseUrl: string) =>
+      createApp({ oauthRedirectBaseUrl }).handle(
+        new Request("http://localhost/services/mock/connect", {
+          method: "POST",
+          headers: { authorization: `Bearer ${token}` },
+        }),
+      );
+
+    const configured = await connectWith("https://core.example.com");
+    const { data } = await readEvents(configured)();
+    const { authUrl } = authorizationData(data);
+    expect(new URL(authUrl).searchParams.get("redirect_uri")).toBe(
+      "https://core.example.com/services/mock/callback",
+    );
+
+    const invalid = await connectWith("core.example.com");
+    expect(invalid.status).toBe(500);
+    expect((await invalid.json()).error.type).toBe(
+      "OAUTH_REDIRECT_URI_INVALID",
+    );
+  });
+
+  it("should return 404 for unknown providers", async () => {
+    const response = await request("/services/unknown/connect", {
+      method: "POST",
+    });
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,178 @@
+import { Elysia, t } from "elysia";
+import type { AuthorizationEvent } from "../../services/oauth/events";
+import { onAuthorizationEvent } from "../../services/oauth/events";
+import type { AuthorizationRequest } from "../../services/oauth/flow";
+import {
+  completeAuthorization,
+  startAuthorization,
+} from "../../services/oauth/flow";
+import { authentication } from "./auth";
+import {
+  ErrorResponse,
+  errorResponse,
+  errorStatusOf,
+  publicErrorMessage,
+} from "./errors";
+
+/**
+ * Formats a server-sent event
+ *
+ * @param {string} event - The event name
+ * @param {unknown} data - The event payload (sent as JSON)
+ * @returns {string} The event in `text/event-stream` format
+ */
+export function formatServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Streams the progress of an authorization as server-sent events
+ *
+ * @private
+ * @remarks
+ * Emits `authorization` (auth URL, state, expiry) right away, then exactly
+ * one `connected` or `failed` event before closing. The stream fails on its
+ * own once the state expires.
+ */
+function authorizationStream(authorization: AuthorizationRequest): Response {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: string, data: unknown) =>
+        controller.enqueue(encoder.encode(formatServerSentEvent(event, data)));
+
+      const finish = (event: AuthorizationEvent) => {
+        cleanup();
+        send(
+          event.type,
+          event.type === "failed"
+            ? {
+                ...event,
+                error: {
+                  ...event.error,
+                  message: publicErrorMessage(event.error),
+                },
+              }
+            : event,
+        );
+        controller.close();
+      };
+
+      const unsubscribe = onAuthorizationEvent(authorization.state, finish);
+      const timer = setTimeout(
+        () =>
+          finish({
+            type: "failed",
+            error: {
+              type: "OAUTH_STATE_EXPIRED",
+              message: "The authorization was not completed in time",
+            },
+          }),
+        authorization.expiresAt.getTime() - Date.now(),
+      );
+      cleanup = () => {
+        unsubscribe();
+        clearTimeout(timer);
+      };
+
+      send("authorization", authorization);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "content-type": "text/event-stream",
+      "cache-control": "no-cache",
+      connection: "keep-alive",
+    },
+  });
+}
+
+/**
+ * Routes of the OAuth2 authorization-code flow
+ *
+ * @param {string | null} redirectBaseUrl - `config.server.oauthRedirectBaseUrl`
+ * @returns The Elysia plugin with the connect route
+ *
+ * @remarks
+ * The redirect URI registered with providers is
+ * `${redirectBaseUrl}/services/:provider/callback`; without a configured
+ * base URL the origin of the connect request is used.
+ */
+export function oauthRoutes(redirectBaseUrl: string | null) {
+  return new Elysia({
+    prefix: "/services",
+    detail: { tags: ["OAuth"] },
+  })
+    .use(authentication)
+    .post(
+      "/:provider/connect",
+      ({ params, request, set }) =>
+        startAuthorization(
+          params.provider,
+          redirectBaseUrl ?? new URL(request.url).origin,
+        ).match(authorizationStream, (cause) => errorResponse(set, cause)),
+      {
+        scopes: ["services:write"],
+        params: t.Object({ provider: t.String() }),
+        detail: {
+          summary: "Start connecting an OAuth provider",
+          security: [{ bearerAuth: [] }],
+          description:
+            "Returns a `text/event-stream`. The first `authorization` event carries the `authUrl` to open; " +
+            "a `connected` or `failed` event follows once the provider redirected back.",
+          responses: {
+            200: {
+              description: "Server-sent events of the authorization",
+              content: { "text/event-stream": { schema: { type: "string" } } },
+            },
+            404: {
+              description: "Unknown provider",
+              content: { "application/json": { schema: ErrorResponse } },
+            },
+          },
+        },
+      },
+    );
+}
+
+/**
+ * The redirect target of the OAuth2 flow
+ *
+ * @remarks
+ * Public: the browser arrives here from the provider without credentials;
+ * the single-use state authorizes the request instead.
+ */
+export const oauthCallbackRoutes = new Elysia({
+  prefix: "/services",
+  detail: { tags: ["OAuth"] },
+}).get(
+  // The segment is named `id` because the router requires one parameter
+  // name per position and `GET /services/:id` already claims it.
+  "/:id/callback",
+  ({ params: { id: provider }, query, set }) =>
+    completeAuthorization(provider, query).match(
+      (service) => `Connected ${service.provider}. You can close this window.`,
+      (cause) => {
+        set.status = errorStatusOf(cause);
+        return `Connecting ${provider} failed: ${publicErrorMessage(cause)}`;
+      },
+    ),
+  {
+    params: t.Object({ id: t.String({ description: "The provider id" }) }),
+    query: t.Object({
+      state: t.Optional(t.String()),
+      code: t.Optional(t.String()),
+      error: t.Optional(t.String()),
+      error_description: t.Optional(t.String()),
+    }),
+    detail: {
+      summary: "OAuth redirect target (opened by the provider, not by clients)",
+    },
+  },
+);
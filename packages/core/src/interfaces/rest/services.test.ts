@@ -0,0 +1,77 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { getServiceCredentials } from "../../services/crud/connected-services";
+import {
+  API_TOKEN_SCOPES,
+  createApiToken,
+} from "../../services/auth/api-tokens";
+import { useTestDatabase } from "../../testing/database";
+import { createApp } from "./app";
+
+describe("Services Routes", () => {
+  const app = createApp();
+  useTestDatabase();
+
+  let token: string;
+
+  const request = (path: string, init: RequestInit = {}) =>
+    app.handle(
+      new Request(`http://localhost${path}`, {
+        ...init,
+        headers: { authorization: `Bearer ${token}`, ...init.headers },
+      }),
+    );
+
+  beforeAll(async () => {
+    token = (
+      await createApiToken({ name: "tests", scopes: [...API_TOKEN_SCOPES] })
+    )._unsafeUnwrap().token;
+  });
+
+  it("should create, list, get and delete an API key connection", async () => {
+    const created = await request("/services", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ provider: "openai", apiKey: "sk-test" }),
+    });
+    expect(created.status).toBe(201);
+    const service = await created.json();
+    expect(service).toMatchObject({ provider: "openai", type: "apikey" });
+    expect(JSON.stringify(service)).not.toContain("sk-test");
+
+    const credentials = await getServiceCredentials(service.id);
+    expect(credentials._unsafeUnwrap()).toEqual({ apiKey: "sk-test" });
+
+    const listed = await request("/services");
+    expect(await listed.json()).toEqual([service]);
+
+    const fetched = await request(`/services/${service.id}`);
+    expect(await fetched.json()).toEqual(service);
+
+    const deleted = await request(`/services/${service.id}`, {
+      method: "DELETE",
+    });
+    expect(deleted.status).toBe(200);
+    expect(await (await request("/services")).json()).toEqual([]);
+  });
+
+  it("should map typed errors to status codes", async () => {
+    const missing = await request("/services/999");
+    expect(missing.status).toBe(404);
+    expect((await missing.json()).error.type).toBe("SERVICE_NOT_FOUND");
+  });
+
+  it("should reject invalid bodies", async () => {
+    const response = await request("/services", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ provider: "openai" }),
+    });
+    expect(response.status).toBe(422);
+  });
+
+  it("should serve the OpenAPI document", async () => {
+    const response = await request("/swagger/json");
+    const document = await response.json();
+    expect(Object.keys(document.paths)).toContain("/services/{id}");
+  });
+});
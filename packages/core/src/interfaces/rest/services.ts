@@ -0,0 +1,131 @@
+import { Elysia, t } from "elysia";
+import {
+  deleteService,
+  getService,
+  listServices,
+  saveServiceCredentials,
+} from "../../services/crud/connected-services";
+import { authentication } from "./auth";
+import { ErrorResponse, errorResponse } from "./errors";
+
+const ConnectedServiceSummary = t.Object({
+  id: t.Number(),
+  provider: t.String(),
+  type: t.Union([t.Literal("oauth"), t.Literal("apikey")]),
+  status: t.Union([t.Literal("active"), t.Literal("needs_reauth")]),
+  createdAt: t.Date(),
+  updatedAt: t.Date(),
+});
+
+const ServiceParams = t.Object({
+  id: t.Numeric({ description: "Connected service id" }),
+});
+
+/**
+ * Routes for managing connected services
+ *
+ * @remarks
+ * No route ever returns credentials; they only leave the database
+ * decrypted inside the integrations that use them.
+ */
+export const servicesRoutes = new Elysia({
+  prefix: "/services",
+  detail: { tags: ["Services"], security: [{ bearerAuth: [] }] },
+})
+  .use(authentication)
+  .get(
+    "/",
+    ({ set }) =>
+      listServices().match(
+        (services) => services,
+        (cause) => errorResponse(set, cause),
+      ),
+    {
+      scopes: ["services:read"],
+      response: {
+        200: t.Array(ConnectedServiceSummary),
+        401: ErrorResponse,
+        403: ErrorResponse,
+        500: ErrorResponse,
+      },
+      detail: { summary: "List connected services (metadata only)" },
+    },
+  )
+  .get(
+    "/:id",
+    ({ params, set }) =>
+      getService(params.id).match(
+        (service) => service,
+        (cause) => errorResponse(set, cause),
+      ),
+    {
+      scopes: ["services:read"],
+      params: ServiceParams,
+      response: {
+        200: ConnectedServiceSummary,
+        401: ErrorResponse,
+        403: ErrorResponse,
+        404: ErrorResponse,
+        500: ErrorResponse,
+      },
+      detail: { summary: "Get a connected service (metadata only)" },
+    },
+  )
+  .post(
+    "/",
+    ({ body, set }) =>
+      saveServiceCredentials(
+        body.provider,
+        "apikey",
+        { apiKey: body.apiKey },
+        { account: body.account },
+      ).match(
+        (service) => {
+          set.status = 201;
+          return service;
+        },
+        (cause) => errorResponse(set, cause),
+      ),
+    {
+      scopes: ["services:write"],
+      body: t.Object({
+        provider: t.String({ minLength: 1, examples: ["openai"] }),
+        apiKey: t.String({ minLength: 1 }),
+        account: t.Optional(
+          t.Object({
+            email: t.Optional(t.String()),
+            username: t.Optional(t.String()),
+          }),
+        ),
+      }),
+      response: {
+        201: ConnectedServiceSummary,
+        400: ErrorResponse,
+        401: ErrorResponse,
+        403: ErrorResponse,
+        413: ErrorResponse,
+        500: ErrorResponse,
+      },
+      detail: { summary: "Connect a service with an API key" },
+    },
+  )
+  .delete(
+    "/:id",
+    ({ params, set }) =>
+      deleteService(params.id).match(
+        (service) => service,
+        (cause) => errorResponse(set, cause),
+      ),
+    {
+      scopes: ["services:write"],
+      params: ServiceParams,
+      response: {
+        200: ConnectedServiceSummary,
+        401: ErrorResponse,
+        403: ErrorResponse,
+        404: ErrorResponse,
+        500: ErrorResponse,
+      },
+      detail: { summary: "Disconnect a service and delete its credentials" },
+    },
+  );
@@ -0,0 +1,260 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+} from "bun:test";
+import type { Server } from "bun";
+import {
+  deleteService,
+  listServices,
+  saveServiceCredentials,
+} from "../../services/crud/connected-services";
+import { listAuditEvents } from "../../services/audit/audit";
+import { registerOAuthProvider } from "../../services/oauth/providers";
+import {
+  configureYouTubeClient,
+  YOUTUBE_API_URL,
+} from "../../services/youtube/client";
+import { YOUTUBE_PROVIDER_ID } from "../../services/youtube/provider";
+import {
+  API_TOKEN_SCOPES,
+  createApiToken,
+} from "../../services/auth/api-tokens";
+import { useTestDatabase } from "../../testing/database";
+import { createApp } from "./app";
+
+const PLAYLIST_SIZE = 120;
+
+/**
+ * A minimal YouTube Data API serving one playlist of 120 videos
+ *
+ * @remarks
+ * Only `valid-token` is accepted; the token endpoint always issues it.
+ */
+function startMockYouTubeApi(): Server<undefined> {
+  return Bun.serve({
+    port: 0,
+    fetch(request) {
+      const url = new URL(request.url);
+      if (url.pathname === "/token") {
+        return Response.json({
+          access_token: "valid-token",
+          token_type: "Bearer",
+          expires_in: 3600,
+        });
+      }
+
+      if (request.headers.get("authorization") !== "Bearer valid-token") {
+        return Response.json(
+          { error: { code: 401, message: "Invalid Credentials" } },
+          { status: 401 },
+        );
+      }
+
+      if (url.pathname === "/youtube/v3/playlistItems") {
+        if (url.searchParams.get("playlistId") !== "PLtest") {
+          return Response.json(
+            {
+              error: {
+                code: 404,
+                message: "Playlist not found",
+                errors: [{ reason: "playlistNotFound" }],
+              },
+            },
+            { status: 404 },
+          );
+        }
+        const start = Number(url.searchParams.get("pageToken") ?? 0);
+        const end = Math.min(start + 50, PLAYLIST_SIZE);
+        return Response.json({
+          nextPageToken: end < PLAYLIST_SIZE ? String(end) : undefined,
+          items: Array.from({ length: end - start }, (_, i) => ({
+            snippet: {
+              title: `Video ${start + i}`,
+              publishedAt: "2024-01-01T00:00:00Z",
+              videoOwnerChannelTitle: "Channel",
+            },
+            contentDetails: { videoId: `video${start + i}` },
+          })),
+        });
+      }
+
+      if (url.pathname === "/youtube/v3/videos") {
+        const ids = url.searchParams.get("id")!.split(",");
+        return Response.json({
+          items: ids.map((id) => ({
+            id,
+            contentDetails: { duration: "PT1M30S" },
+          })),
+        });
+      }
+
+      return new Response("Not found", { status: 404 });
+    },
+  });
+}
+
+describe("YouTube Routes", () => {
+  const app = createApp();
+  let api: Server<undefined>;
+  useTestDatabase();
+  let serviceId: number;
+
+  let token: string;
+
+  const request = (path: string, init: RequestInit = {}) =>
+    app.handle(
+      new Request(new URL(path, "http://localhost"), {
+        ...init,
+        headers: { authorization: `Bearer ${token}`, ...init.headers },
+      }),
+    );
+
+  beforeAll(async () => {
+    token = (
+      await createApiToken({ name: "tests", scopes: [...API_TOKEN_SCOPES] })
+    )._unsafeUnwrap().token;
+
+    api = startMockYouTubeApi();
+    configureYouTubeClient({
+      apiUrl: `http://localhost:${api.port}/youtube/v3`,
+    });
+    registerOAuthProvider({
+      id: YOUTUBE_PROVIDER_ID,
+      authorizationUrl: "http://localhost/authorize",
+      tokenUrl: `http://localhost:${api.port}/token`,
+      clientId: "client",
+      scopes: ["youtube.readonly"],
+    });
+  });
+
+  afterAll(() => {
+    api.stop(true);
+    configureYouTubeClient({ apiUrl: YOUTUBE_API_URL });
+  });
+
+  beforeEach(async () => {
+    const service = await saveServiceCredentials(YOUTUBE_PROVIDER_ID, "oauth", {
+      access_token: "valid-token",
+      refresh_token: "refresh",
+      token_type: "Bearer",
+      expires_at: Date.now() + 3600_000,
+    });
+    serviceId = service._unsafeUnwrap().id;
+  });
+
+  afterEach(async () => {
+    for (const service of (await listServices())._unsafeUnwrap()) {
+      await deleteService(service.id);
+    }
+  });
+
+  it("should export every page of a playlist as JSON", async () => {
+    const response = await request("/youtube/playlists/PLtest/export");
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toContain("application/json");
+    const videos = await response.json();
+    expect(videos).toHaveLength(PLAYLIST_SIZE);
+    expect(videos[119]).toEqual({
+      videoId: "video119",
+      title: "Video 119",
+      channel: "Channel",
+      durationSeconds: 90,
+      addedAt: "2024-01-01T00:00:00Z",
+    });
+    // One token for the three pages and the three duration requests
+    const reads = await listAuditEvents({
+      serviceId,
+      action: "credential.read",
+    });
+    expect(reads._unsafeUnwrap()).toHaveLength(1);
+  });
+
+  it("should export CSV and Markdown", async () => {
+    const csv = await request("/youtube/playlists/PLtest/export?format=csv");
+    expect(csv.headers.get("content-type")).toContain("text/csv");
+    expect(csv.headers.get("content-disposition")).toContain("PLtest.csv");
+    const rows = (await csv.text()).trimEnd().split("\r\n");
+    expect(rows).toHaveLength(PLAYLIST_SIZE + 1);
+    expect(rows[1]).toBe("video0,Video 0,Channel,1:30,2024-01-01T00:00:00Z");
+
+    const md = await request("/youtube/playlists/PLtest/export?format=md");
+    expect(md.headers.get("content-type")).toContain("text/markdown");
+    expect((await md.text()).split("\n")[0]).toBe(
+      "| video_id | title | channel | duration | added_at |",
+    );
+  });
+
+  it("should retry once with a refreshed token after a 401", async () => {
+    const revoked = await saveServiceCredentials(YOUTUBE_PROVIDER_ID, "oauth", {
+      access_token: "revoked-token",
+      refresh_token: "refresh",
+      token_type: "Bearer",
+      expires_at: Date.now() + 3600_000,
+    });
+    const revokedId = revoked._unsafeUnwrap().id;
+
+    const response = await request(
+      `/youtube/playlists/PLtest/export?serviceId=${revokedId}`,
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toHaveLength(PLAYLIST_SIZE);
+    // Read for the export, then once more by the single refresh
+    const reads = await listAuditEvents({
+      serviceId: revokedId,
+      action: "credential.read",
+    });
+    expect(reads._unsafeUnwrap()).toHaveLength(2);
+  });
+
+  it("should map a missing playlist to 404", async () => {
+    const response = await request("/youtube/playlists/PLmissing/export");
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).error.type).toBe(
+      "YOUTUBE_PLAYLIST_NOT_FOUND",
+    );
+  });
+
+  it("should require a connection id when several accounts are connected", async () => {
+    const single = await request("/youtube/playlists/PLtest/export");
+    expect(single.status).toBe(200);
+
+    const second = await saveServiceCredentials(YOUTUBE_PROVIDER_ID, "oauth", {
+      access_token: "valid-token",
+      token_type: "Bearer",
+    });
+    const secondId = second._unsafeUnwrap().id;
+
+    const response = await request("/youtube/playlists/PLtest/export");
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.type).toBe(
+      "YOUTUBE_CONNECTION_AMBIGUOUS",
+    );
+
+    const selected = await request(
+      `/youtube/playlists/PLtest/export?format=csv&serviceId=${secondId}`,
+    );
+    expect(selected.status).toBe(200);
+  });
+
+  it("should reject connections that are not YouTube accounts", async () => {
+    const other = await saveServiceCredentials("openai", "apikey", {
+      apiKey: "sk-test",
+    });
+    const otherId = other._unsafeUnwrap().id;
+
+    const response = await request(
+      `/youtube/playlists/PLtest/export?serviceId=${otherId}`,
+    );
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).error.type).toBe("YOUTUBE_NOT_CONNECTED");
+  });
+});
@@ -0,0 +1,71 @@
+import { Elysia, t } from "elysia";
+import { literalUnion } from "../../lib/json-schema";
+import { getPlaylistVideos } from "../../services/youtube/client";
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  serializePlaylist,
+} from "../../services/youtube/export";
+import { authentication } from "./auth";
+import { ErrorResponse, errorResponse } from "./errors";
+
+/**
+ * Routes of the YouTube integration
+ */
+export const youtubeRoutes = new Elysia({
+  prefix: "/youtube",
+  detail: { tags: ["YouTube"], security: [{ bearerAuth: [] }] },
+})
+  .use(authentication)
+  .get(
+    "/playlists/:id/export",
+    ({ params, query, set }) => {
+      const format = query.format ?? "json";
+      return getPlaylistVideos(params.id, query.serviceId).match(
+        (videos) =>
+          new Response(serializePlaylist(videos, format), {
+            headers: {
+              "content-type": EXPORT_CONTENT_TYPES[format],
+              "content-disposition": `attachment; filename="${params.id}.${format}"`,
+            },
+          }),
+        (cause) => errorResponse(set, cause),
+      );
+    },
+    {
+      scopes: ["services:read"],
+      params: t.Object({
+        id: t.String({
+          pattern: "^[A-Za-z0-9_-]+$",
+          description: 'Playlist id ("WL" for Watch Later)',
+        }),
+      }),
+      query: t.Object({
+        format: t.Optional(
+          literalUnion(EXPORT_FORMATS, {
+            description: "Export format (default: json)",
+          }),
+        ),
+        serviceId: t.Optional(
+          t.Numeric({
+            description:
+              "Connected service id of the YouTube account (required if several are connected)",
+          }),
+        ),
+      }),
+      response: {
+        400: ErrorResponse,
+        401: ErrorResponse,
+        403: ErrorResponse,
+        404: ErrorResponse,
+        409: ErrorResponse,
+        500: ErrorResponse,
+        502: ErrorResponse,
+      },
+      detail: {
+        summary: "Export a playlist",
+        description:
+          "Returns every video of the playlist with video id, title, channel, duration and the time it was added, as JSON, CSV or a Markdown table.",
+      },
+    },
+  );
@@ -0,0 +1,115 @@
+import type { TSchema } from "@sinclair/typebox";
+import { Value } from "@sinclair/typebox/value";
+import { err, ok, Result } from "neverthrow";
+import { FunctionInputInvalidError } from "../../services/functions/functions.errors";
+
+/**
+ * The input and connection selection parsed from a command
+ */
+export interface ParsedArguments {
+  input: Record<string, unknown>;
+  services: Record<string, number>;
+}
+
+/**
+ * Splits arguments at whitespace, keeping double-quoted parts together
+ *
+ * @private
+ */
+function tokenize(text: string): string[] {
+  return (text.match(/(?:[^\s"]+|"[^"]*")+/g) ?? []).map((token) =>
+    token.replace(/"/g, ""),
+  );
+}
+
+/**
+ * Parses a single value: JSON objects and arrays, everything else as string
+ *
+ * @private
+ * @remarks
+ * Numbers and booleans stay strings here and are converted along the
+ * schema afterwards, so `name=007` stays a string where a string is expected.
+ */
+function parseValue(raw: string): unknown {
+  if (/^[[{]/.test(raw)) {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return raw;
+    }
+  }
+  return raw;
+}
+
+/**
+ * Parses the arguments of a function command into its input
+ *
+ * @param {string} text - Everything after the command (e.g. `limit=5` or `5`)
+ * @param {TSchema} schema - The input schema of the function
+ * @returns {Result<ParsedArguments, FunctionInputInvalidError>} The input and selected connections, or error
+ *
+ * @example
+ * ```typescript
+ * parseCommandArguments('"Watch later" format=csv @youtube=3', schema);
+ * // { input: { playlistId: "Watch later", format: "csv" }, services: { youtube: 3 } }
+ * ```
+ *
+ * @remarks
+ * - `key=value` sets a property; bare values fill the remaining properties
+ *   in schema order
+ * - `@provider=id` selects the connection of a provider
+ * - Values are converted along the schema (`"5"` becomes `5` for integers);
+ *   the input is validated when the function is invoked
+ */
+export function parseCommandArguments(
+  text: string,
+  schema: TSchema,
+): Result<ParsedArguments, FunctionInputInvalidError> {
+  const input: Record<string, unknown> = {};
+  const services: Record<string, number> = {};
+  const positional: string[] = [];
+
+  for (const token of tokenize(text)) {
+    const named = /^(@?)([A-Za-z_][\w-]*)=(.*)$/s.exec(token);
+    if (!named) {
+      positional.push(token);
+    } else if (named[1]) {
+      const serviceId = Number(named[3]);
+      if (!Number.isSafeInteger(serviceId)) {
+        return err(
+          new FunctionInputInvalidError([
+            {
+              path: `@${named[2]}`,
+              message: "Expected a connected service id",
+            },
+          ]),
+        );
+      }
+      services[named[2]!] = serviceId;
+    } else {
+      input[named[2]!] = parseValue(named[3]!);
+    }
+  }
+
+  const free = Object.keys(schema.properties ?? {}).filter(
+    (key) => !(key in input),
+  );
+  if (positional.length > free.length) {
+    return err(
+      new FunctionInputInvalidError([
+        {
+          path: "",
+          message: `Expected at most ${free.length} unnamed argument(s), got ${positional.length}`,
+        },
+      ]),
+    );
+  }
+  positional.forEach((value, index) => {
+    input[free[index]!] = parseValue(value);
+  });
+
+  return ok({
+    input: Value.Convert(schema, input) as Record<string, unknown>,
+    services,
+  });
+}
@@ -0,0 +1,326 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+} from "bun:test";
+import { Type } from "@sinclair/typebox";
+import type { Server } from "bun";
+import { okAsync } from "neverthrow";
+import { bootstrapRootUser } from "../../services/auth/users";
+import { saveServiceCredentials } from "../../services/crud/connected-services";
+import { registerFunction } from "../../services/functions/registry";
+import { useTestDatabase } from "../../testing/database";
+import { createApp } from "../rest/app";
+import { startTelegramBot } from "./bot";
+import type { TelegramConfig } from "./config";
+import { formatUptime } from "./commands";
+import { TELEGRAM_WEBHOOK_PATH } from "./webhook";
+
+const TOKEN = "123:test-token";
+const OWNER_ID = 42;
+
+interface ApiCall {
+  method: string;
+  payload: Record<string, unknown>;
+}
+
+/**
+ * A fake Telegram Bot API recording every call
+ *
+ * @remarks
+ * `getUpdates` hands out the queued updates once and otherwise answers
+ * with an empty list after a short delay, like a long poll timing out.
+ */
+function startFakeBotApi() {
+  const calls: ApiCall[] = [];
+  const updates: unknown[] = [];
+  let messageId = 0;
+
+  const server: Server<undefined> = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const [, bot, method] = new URL(request.url).pathname.split("/");
+      if (bot !== `bot${TOKEN}`) {
+        return Response.json(
+          { ok: false, error_code: 401, description: "Unauthorized" },
+          { status: 401 },
+        );
+      }
+      const text = await request.text();
+      const payload = text ? JSON.parse(text) : {};
+      calls.push({ method: method!, payload });
+
+      switch (method) {
+        case "getMe":
+          return Response.json({
+            ok: true,
+            result: {
+              id: 1,
+              is_bot: true,
+              first_name: "Core",
+              username: "core_bot",
+            },
+          });
+        case "getUpdates": {
+          if (updates.length === 0) {
+            await Bun.sleep(20);
+          }
+          return Response.json({ ok: true, result: updates.splice(0) });
+        }
+        case "sendMessage":
+          return Response.json({
+            ok: true,
+            result: {
+              message_id: ++messageId,
+              date: 0,
+              chat: { id: payload.chat_id, type: "private" },
+              text: payload.text,
+            },
+          });
+        default:
+          return Response.json({ ok: true, result: true });
+      }
+    },
+  });
+
+  return {
+    server,
+    calls,
+    queue: (update: unknown) => updates.push(update),
+    replies: () =>
+      calls
+        .filter((call) => call.method === "sendMessage")
+        .map((call) => call.payload.text as string),
+  };
+}
+
+let updateId = 0;
+
+function commandUpdate(fromId: number, command: string) {
+  return {
+    update_id: ++updateId,
+    message: {
+      message_id: updateId,
+      date: Math.floor(Date.now() / 1000),
+      chat: { id: fromId, type: "private" },
+      from: { id: fromId, is_bot: false, first_name: "User" },
+      text: command,
+      entities: [
+        {
+          type: "bot_command",
+          offset: 0,
+          length: command.split(" ")[0]!.length,
+        },
+      ],
+    },
+  };
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for the bot");
+    }
+    await Bun.sleep(10);
+  }
+}
+
+describe("Telegram Bot", () => {
+  useTestDatabase();
+  let api: ReturnType<typeof startFakeBotApi>;
+  let config: TelegramConfig;
+  const root = { email: "root@example.com", label: "Root", password: "pw" };
+
+  beforeAll(async () => {
+    (
+      await saveServiceCredentials("github", "apikey", { apiKey: "ghp_secret" })
+    )._unsafeUnwrap();
+    (await bootstrapRootUser({ config: root }))._unsafeUnwrap();
+    registerFunction({
+      name: "test_repeat",
+      description: "Repeats a text",
+      input: Type.Object({
+        text: Type.String(),
+        times: Type.Integer({ minimum: 1, maximum: 3 }),
+      }),
+      output: Type.String(),
+      providers: [],
+      handler: ({ text, times }) => okAsync(text.repeat(times)),
+    })._unsafeUnwrap();
+    api = startFakeBotApi();
+  });
+
+  beforeEach(() => {
+    api.calls.length = 0;
+    config = {
+      token: TOKEN,
+      ownerId: OWNER_ID,
+      publicBaseUrl: "https://core.example.com",
+      apiRoot: `http://localhost:${api.server.port}`,
+    };
+  });
+
+  afterAll(() => {
+    api.server.stop(true);
+  });
+
+  it("should link the owner's account through /start and a signed-in session", async () => {
+    const handle = (await startTelegramBot(config))._unsafeUnwrap();
+    try {
+      api.queue(commandUpdate(OWNER_ID, "/status"));
+      api.queue(commandUpdate(OWNER_ID, "/start"));
+      await waitFor(() => api.replies().length === 2);
+    } finally {
+      await handle.stop();
+    }
+
+    const [blocked, start] = api.replies();
+    expect(blocked).toContain("not linked");
+    const linkUrl = new URL(
+      start!.match(/https:\/\/core\.example\.com\S+/)![0],
+    );
+    expect(linkUrl.pathname).toBe("/auth/telegram/link");
+
+    const app = createApp();
+    const signIn = await app.handle(
+      new Request("http://localhost/auth/signin", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ email: root.email, password: root.password }),
+      }),
+    );
+    const cookie = signIn.headers.get("set-cookie")!.split(";")[0]!;
+    const link = () =>
+      app.handle(
+        new Request(`http://localhost${linkUrl.pathname}${linkUrl.search}`, {
+          headers: { cookie },
+        }),
+      );
+
+    const linked = await link();
+    expect(linked.status).toBe(200);
+    expect(await linked.text()).toContain(`${OWNER_ID} to ${root.email}`);
+    expect((await link()).status).toBe(400);
+  });
+
+  it("should answer the owner and ignore everyone else while polling", async () => {
+    const handle = (await startTelegramBot(config))._unsafeUnwrap();
+    try {
+      expect(handle.mode).toBe("polling");
+      expect(api.calls.map((call) => call.method)).toContain("deleteWebhook");
+
+      api.queue(commandUpdate(7, "/services"));
+      api.queue(commandUpdate(OWNER_ID, "/services"));
+      await waitFor(() => api.replies().length > 0);
+    } finally {
+      await handle.stop();
+    }
+
+    const replies = api.calls.filter((call) => call.method === "sendMessage");
+    expect(replies).toHaveLength(1);
+    expect(replies[0]!.payload.chat_id).toBe(OWNER_ID);
+    expect(replies[0]!.payload.text).toMatch(/^#1 github \(apikey\): active/);
+    expect(replies[0]!.payload.text).not.toContain("ghp_secret");
+  });
+
+  it("should report the status", async () => {
+    const handle = (await startTelegramBot(config))._unsafeUnwrap();
+    try {
+      api.queue(commandUpdate(OWNER_ID, "/status"));
+      await waitFor(() => api.replies().length > 0);
+    } finally {
+      await handle.stop();
+    }
+
+    const [reply] = api.replies();
+    expect(reply).toStartWith("Ready: yes\n");
+    expect(reply).toContain("Database: reachable");
+    expect(reply).toMatch(/Migrations: (\d+)\/\1 applied\n/);
+    expect(reply).toMatch(/Encryption: ok \(key [0-9a-f]{16}\)/);
+    expect(reply).toContain("Connected services: 1");
+    expect(reply).toContain("Bot: connected (long polling)");
+  });
+
+  it("should receive updates through the webhook route", async () => {
+    const webhook = {
+      url: "https://core.example.com/telegram/webhook",
+      secretToken: "webhook-secret",
+    };
+    const handle = (
+      await startTelegramBot({ ...config, webhook })
+    )._unsafeUnwrap();
+    expect(handle.mode).toBe("webhook");
+    expect(
+      api.calls.find((call) => call.method === "setWebhook")?.payload,
+    ).toMatchObject({ url: webhook.url, secret_token: webhook.secretToken });
+
+    const app = createApp({
+      telegramWebhook: { bot: handle.bot, secretToken: webhook.secretToken },
+    });
+    const post = (secret: string) =>
+      app.handle(
+        new Request(new URL(TELEGRAM_WEBHOOK_PATH, "http://localhost"), {
+          method: "POST",
+          headers: {
+            "content-type": "application/json",
+            "x-telegram-bot-api-secret-token": secret,
+          },
+          body: JSON.stringify(commandUpdate(OWNER_ID, "/help")),
+        }),
+      );
+
+    expect((await post("wrong")).status).toBe(401);
+    expect(api.replies()).toHaveLength(0);
+
+    expect((await post(webhook.secretToken)).status).toBe(200);
+    expect(api.replies()[0]).toContain("/status");
+  });
+
+  it("should run registered functions as commands", async () => {
+    const handle = (await startTelegramBot(config))._unsafeUnwrap();
+    try {
+      api.queue(commandUpdate(OWNER_ID, "/help"));
+      api.queue(commandUpdate(OWNER_ID, '/test_repeat "ab " 3'));
+      api.queue(commandUpdate(OWNER_ID, "/test_repeat times=9 ab"));
+      await waitFor(() => api.replies().length === 3);
+    } finally {
+      await handle.stop();
+    }
+
+    const [help, repeated, invalid] = api.replies();
+    expect(help).toContain("/test_repeat - Repeats a text");
+    expect(repeated).toBe("ab ab ab ");
+    expect(invalid).toContain("test_repeat failed");
+  });
+
+  it("should block commands again after /unlink", async () => {
+    const handle = (await startTelegramBot(config))._unsafeUnwrap();
+    try {
+      api.queue(commandUpdate(OWNER_ID, "/unlink"));
+      api.queue(commandUpdate(OWNER_ID, "/services"));
+      await waitFor(() => api.replies().length === 2);
+    } finally {
+      await handle.stop();
+    }
+
+    const [unlinked, blocked] = api.replies();
+    expect(unlinked).toContain("no longer linked");
+    expect(blocked).toContain("not linked");
+  });
+
+  it("should fail to start with a rejected token", async () => {
+    const result = await startTelegramBot({ ...config, token: "1:wrong" });
+
+    expect(result._unsafeUnwrapErr().type).toBe("TELEGRAM_START_FAILED");
+  });
+
+  it("should format uptimes", () => {
+    expect(formatUptime(59)).toBe("0m");
+    expect(formatUptime(3_660)).toBe("1h 1m");
+    expect(formatUptime(90_000)).toBe("1d 1h 0m");
+  });
+});
@@ -0,0 +1,308 @@
+import type { Context, MiddlewareFn } from "grammy";
+import { Bot, GrammyError, HttpError } from "grammy";
+import { ResultAsync } from "neverthrow";
+import { withAuditActor } from "../../services/audit/context";
+import type { UserSummary } from "../../services/auth/users";
+import { listServices } from "../../services/crud/connected-services";
+import { invokeFunction } from "../../services/functions/invoke";
+import { listFunctions } from "../../services/functions/registry";
+import { getSystemStatus } from "../../services/status/status";
+import {
+  createLinkToken,
+  getTelegramLink,
+  LINK_TOKEN_TTL_MS,
+  unlinkTelegramAccount,
+} from "../../services/telegram/links";
+import { parseCommandArguments } from "./arguments";
+import { formatServices, formatStatus } from "./commands";
+import type { TelegramConfig } from "./config";
+import { TelegramStartFailedError } from "./telegram.errors";
+
+/**
+ * A running bot
+ *
+ * @property {Bot<BotContext>} bot - The grammY bot
+ * @property {"polling" | "webhook"} mode - How updates arrive
+ * @property {() => Promise<void>} stop - Stops polling (webhook mode: no-op; the webhook stays registered)
+ */
+export interface TelegramBotHandle {
+  bot: Bot<BotContext>;
+  mode: "polling" | "webhook";
+  stop: () => Promise<void>;
+}
+
+/**
+ * Context of every update: the user the sender is linked to, if any
+ */
+export type BotContext = Context & { linkedUser?: UserSummary };
+
+const LINKED_COMMANDS = [
+  "/status - uptime, database, migrations and connected services",
+  "/services - connected services (no secrets)",
+  "/unlink - unlink this Telegram account",
+  "/help - this list",
+];
+
+const UNLINKED_COMMANDS = [
+  "/start - link this Telegram account to your core user",
+  "/help - this list",
+];
+
+const BUILTIN_COMMANDS = new Set([
+  "start",
+  "help",
+  "status",
+  "services",
+  "unlink",
+]);
+
+/** Telegram rejects messages longer than 4096 characters */
+const MAX_REPLY_LENGTH = 4000;
+
+/**
+ * Lists the commands available in the current state
+ *
+ * @private
+ */
+function helpText(ctx: BotContext, functionCommands: string[]): string {
+  return (
+    ctx.linkedUser
+      ? [...functionCommands, ...LINKED_COMMANDS]
+      : UNLINKED_COMMANDS
+  ).join("\n");
+}
+
+/**
+ * Formats the output of a function as a reply
+ *
+ * @private
+ */
+function formatOutput(output: unknown): string {
+  const text =
+    typeof output === "string" ? output : JSON.stringify(output, null, 2);
+  return text.length > MAX_REPLY_LENGTH
+    ? `${text.slice(0, MAX_REPLY_LENGTH)}\n… (truncated)`
+    : text;
+}
+
+/**
+ * Drops every update that is not from the owner
+ *
+ * @param {number} ownerId - The Telegram user id of the owner
+ * @returns {MiddlewareFn} grammY middleware
+ *
+ * @remarks
+ * Foreign updates get no reply at all, so strangers cannot tell that
+ * the bot is alive.
+ */
+export function ownerOnly(ownerId: number): MiddlewareFn<BotContext> {
+  return (ctx, next) => (ctx.from?.id === ownerId ? next() : undefined);
+}
+
+/**
+ * Attributes everything an update does to its sender and command
+ *
+ * @private
+ * @remarks
+ * Credential reads of `/github_stars` are recorded in the audit log as
+ * "telegram:<id> > bot:/github_stars > function:github_stars".
+ */
+const auditActor: MiddlewareFn<BotContext> = (ctx, next) => {
+  const command = /^\/[A-Za-z0-9_]+/.exec(ctx.message?.text ?? "")?.[0];
+  return withAuditActor(
+    [`telegram:${ctx.from?.id}`, ...(command ? [`bot:${command}`] : [])],
+    next,
+  );
+};
+
+/**
+ * Loads the user the sender is linked to into `ctx.linkedUser`
+ *
+ * @private
+ */
+const resolveLinkedUser: MiddlewareFn<BotContext> = async (ctx, next) => {
+  if (!ctx.from) {
+    return;
+  }
+  const link = await getTelegramLink(ctx.from.id);
+  if (link.isErr()) {
+    await ctx.reply(`Could not check the account link: ${link.error.message}`);
+    return;
+  }
+  ctx.linkedUser = link.value?.user;
+  await next();
+};
+
+/**
+ * Blocks every later command until the sender has linked the account
+ *
+ * @private
+ */
+const linkedOnly: MiddlewareFn<BotContext> = async (ctx, next) => {
+  if (ctx.linkedUser) {
+    await next();
+    return;
+  }
+  await ctx.reply("This Telegram account is not linked yet. Send /start.");
+};
+
+/**
+ * Creates the bot with the owner and link checks and all commands
+ *
+ * @param {TelegramConfig} config - Token, owner and Bot API settings
+ * @returns {Bot<BotContext>} The bot (neither polling nor registered as webhook yet)
+ *
+ * @remarks
+ * - `/start` and `/help` work for unlinked accounts; every other command
+ *   requires a link to a core user (see `confirmLink`)
+ * - Every registered function becomes a command taking its input as
+ *   arguments (see {@link parseCommandArguments}); register functions
+ *   before creating the bot
+ */
+export function createBot(config: TelegramConfig): Bot<BotContext> {
+  const bot = new Bot<BotContext>(config.token, {
+    client: config.apiRoot ? { apiRoot: config.apiRoot } : undefined,
+  });
+  const mode = config.webhook ? "webhook" : "long polling";
+  const functions = listFunctions().filter((definition) => {
+    if (BUILTIN_COMMANDS.has(definition.name)) {
+      console.warn(
+        `Function ${definition.name} is shadowed by the bot command of the same name`,
+      );
+      return false;
+    }
+    return true;
+  });
+  const functionCommands = functions.map(
+    (definition) => `/${definition.name} - ${definition.description}`,
+  );
+
+  bot.use(ownerOnly(config.ownerId));
+  bot.use(auditActor);
+  bot.use(resolveLinkedUser);
+
+  bot.command("start", async (ctx) => {
+    if (ctx.linkedUser) {
+      await ctx.reply(
+        `Welcome back, ${ctx.linkedUser.label}!\n\n${helpText(ctx, functionCommands)}`,
+      );
+      return;
+    }
+
+    const request = await createLinkToken(ctx.from!.id);
+    if (request.isErr()) {
+      await ctx.reply(`Could not start linking: ${request.error.message}`);
+      return;
+    }
+    const url = new URL("/auth/telegram/link", config.publicBaseUrl);
+    url.searchParams.set("token", request.value.token);
+    await ctx.reply(
+      `Sign in to the core service, then open this link within ` +
+        `${LINK_TOKEN_TTL_MS / 60_000} minutes to link this Telegram account:\n${url}`,
+    );
+  });
+
+  bot.command("help", (ctx) => ctx.reply(helpText(ctx, functionCommands)));
+
+  bot.use(linkedOnly);
+
+  bot.command("status", async (ctx) =>
+    ctx.reply(formatStatus(await getSystemStatus(), mode)),
+  );
+
+  bot.command("services", async (ctx) => {
+    const services = await listServices();
+    await ctx.reply(
+      services.isOk()
+        ? formatServices(services.value)
+        : `Could not load services: ${services.error.message}`,
+    );
+  });
+
+  bot.command("unlink", async (ctx) => {
+    const unlinked = await unlinkTelegramAccount(ctx.from!.id);
+    await ctx.reply(
+      unlinked.isOk()
+        ? "This Telegram account is no longer linked. Send /start to link it again."
+        : `Could not unlink: ${unlinked.error.message}`,
+    );
+  });
+
+  for (const definition of functions) {
+    bot.command(definition.name, async (ctx) => {
+      const result = await parseCommandArguments(
+        ctx.match,
+        definition.input,
+      ).asyncAndThen(({ input, services }) =>
+        invokeFunction(definition.name, input, { services }),
+      );
+      await ctx.reply(
+        result.isOk()
+          ? formatOutput(result.value)
+          : `${definition.name} failed: ${result.error.message}`,
+      );
+    });
+  }
+
+  bot.catch(({ error, ctx }) => {
+    const reason =
+      error instanceof GrammyError || error instanceof HttpError
+        ? error.message
+        : String(error);
+    console.error(`Telegram update ${ctx.update.update_id} failed: ${reason}`);
+  });
+
+  return bot;
+}
+
+/**
+ * Connects the bot to Telegram by long polling or webhook
+ *
+ * @param {TelegramConfig} config - The bot configuration
+ * @returns {ResultAsync<TelegramBotHandle, TelegramStartFailedError>} The running bot or error
+ *
+ * @example
+ * ```typescript
+ * const config = loadConfig();
+ * if (config.isOk() && config.value.telegram) {
+ *   const handle = await startTelegramBot(config.value.telegram);
+ * }
+ * ```
+ *
+ * @remarks
+ * - The token is checked with `getMe` before anything else
+ * - Webhook mode registers `config.webhook.url` with its secret token;
+ *   updates then arrive through `telegramWebhookRoutes`
+ * - Polling mode deletes a leftover webhook first (Telegram refuses
+ *   `getUpdates` while one is set) and polls in the background
+ */
+export function startTelegramBot(
+  config: TelegramConfig,
+): ResultAsync<TelegramBotHandle, TelegramStartFailedError> {
+  const bot = createBot(config);
+
+  return ResultAsync.fromPromise(
+    (async (): Promise<TelegramBotHandle> => {
+      await bot.init();
+
+      if (config.webhook) {
+        await bot.api.setWebhook(config.webhook.url, {
+          secret_token: config.webhook.secretToken,
+        });
+        return { bot, mode: "webhook", stop: async () => {} };
+      }
+
+      await bot.api.deleteWebhook();
+      bot
+        .start({
+          onStart: (me) => console.log(`Telegram bot @${me.username} polling`),
+        })
+        .catch((error) => console.error(`Telegram polling stopped: ${error}`));
+      return { bot, mode: "polling", stop: () => bot.stop() };
+    })(),
+    (error) =>
+      new TelegramStartFailedError(
+        error instanceof Error ? error : new Error(String(error)),
+      ),
+  );
+}
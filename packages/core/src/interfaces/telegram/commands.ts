@@ -0,0 +1,76 @@
+import type { ConnectedServiceSummary } from "../../services/crud/connected-services";
+import type { SystemStatus } from "../../services/status/status";
+import { isReady } from "../../services/status/status";
+
+/**
+ * Formats a duration as days, hours and minutes (e.g. "2d 3h 15m")
+ *
+ * @param {number} seconds - The duration in seconds
+ * @returns {string} The formatted duration
+ */
+export function formatUptime(seconds: number): string {
+  const days = Math.floor(seconds / 86_400);
+  const hours = Math.floor((seconds % 86_400) / 3_600);
+  const minutes = Math.floor((seconds % 3_600) / 60);
+  return [
+    days > 0 ? `${days}d` : null,
+    days > 0 || hours > 0 ? `${hours}h` : null,
+    `${minutes}m`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+/**
+ * Formats the reply to `/status`
+ *
+ * @param {SystemStatus} status - The collected status
+ * @param {string} botMode - How the bot receives updates ("long polling" or "webhook")
+ * @returns {string} Plain-text reply
+ */
+export function formatStatus(status: SystemStatus, botMode: string): string {
+  const { database, migrations, encryption, connectedServices } = status;
+  return [
+    `Ready: ${isReady(status) ? "yes" : "no"}`,
+    `Uptime: ${formatUptime(status.uptimeSeconds)}`,
+    `Database: ${database.ok ? "reachable" : `unreachable (${database.error})`}`,
+    `Migrations: ${
+      migrations.ok
+        ? `${migrations.value.applied}/${migrations.value.total} applied` +
+          (migrations.value.pending > 0
+            ? `, ${migrations.value.pending} pending`
+            : "")
+        : `unknown (${migrations.error})`
+    }`,
+    `Encryption: ${
+      encryption.ok
+        ? `ok (key ${encryption.value.activeKeyId})`
+        : `failing (${encryption.error})`
+    }`,
+    `Connected services: ${
+      connectedServices.ok
+        ? connectedServices.value
+        : `unknown (${connectedServices.error})`
+    }`,
+    `Bot: connected (${botMode})`,
+  ].join("\n");
+}
+
+/**
+ * Formats the reply to `/services`
+ *
+ * @param {ConnectedServiceSummary[]} services - The connected services (metadata only)
+ * @returns {string} Plain-text reply, one line per service
+ */
+export function formatServices(services: ConnectedServiceSummary[]): string {
+  if (services.length === 0) {
+    return "No services connected yet.";
+  }
+  return services
+    .map(
+      (service) =>
+        `#${service.id} ${service.provider} (${service.type}): ${service.status.replace("_", " ")}, ` +
+        `connected ${service.createdAt.toISOString().slice(0, 10)}`,
+    )
+    .join("\n");
+}
@@ -0,0 +1,96 @@
+import type { ConfigEnv } from "../../config/config";
+import type { ConfigIssue } from "../../config/config.errors";
+
+/**
+ * Webhook settings; without them the bot uses long polling
+ *
+ * @property {string} url - Public URL Telegram posts updates to (ends in `/telegram/webhook`)
+ * @property {string} secretToken - Sent by Telegram in `X-Telegram-Bot-Api-Secret-Token`
+ */
+export interface TelegramWebhookConfig {
+  url: string;
+  secretToken: string;
+}
+
+/**
+ * The Telegram bot as configured through env vars
+ *
+ * @property {string} token - Bot token from BotFather
+ * @property {number} ownerId - The only Telegram user id the bot answers
+ * @property {string} publicBaseUrl - Public base URL of the core service (for link URLs)
+ * @property {string} [apiRoot] - Bot API base URL (a fake server in tests)
+ * @property {TelegramWebhookConfig} [webhook] - Webhook mode settings
+ */
+export interface TelegramConfig {
+  token: string;
+  ownerId: number;
+  publicBaseUrl: string;
+  apiRoot?: string;
+  webhook?: TelegramWebhookConfig;
+}
+
+/**
+ * Reads the bot configuration from `TELEGRAM_*` env vars
+ *
+ * @param {ConfigEnv} env - The env vars
+ * @param {string} publicBaseUrl - Public base URL of the core service
+ * @param {ConfigIssue[]} issues - Problems found are appended here
+ * @returns {TelegramConfig | null} The configuration, or null if `TELEGRAM_BOT_TOKEN` is not set
+ *
+ * @remarks
+ * - `TELEGRAM_OWNER_ID` is required once the bot is enabled
+ * - `TELEGRAM_WEBHOOK_URL` switches to webhook mode and requires
+ *   `TELEGRAM_WEBHOOK_SECRET` (1-256 characters of `A-Z a-z 0-9 _ -`)
+ * - `TELEGRAM_API_URL` overrides the Bot API base URL
+ * - Called by `loadConfig`, which reports the issues of all sections at once
+ */
+export function parseTelegramConfig(
+  env: ConfigEnv,
+  publicBaseUrl: string,
+  issues: ConfigIssue[],
+): TelegramConfig | null {
+  const token = env.TELEGRAM_BOT_TOKEN?.trim();
+  if (!token) {
+    return null;
+  }
+
+  const ownerId = env.TELEGRAM_OWNER_ID?.trim() ?? "";
+  if (!/^[1-9][0-9]*$/.test(ownerId) || !Number.isSafeInteger(+ownerId)) {
+    issues.push({
+      variable: "TELEGRAM_OWNER_ID",
+      reason: "must be the numeric Telegram user id of the owner",
+    });
+  }
+
+  const apiRoot = env.TELEGRAM_API_URL || undefined;
+  if (apiRoot && !URL.canParse(apiRoot)) {
+    issues.push({ variable: "TELEGRAM_API_URL", reason: "must be a URL" });
+  }
+
+  const config: TelegramConfig = {
+    token,
+    ownerId: Number(ownerId),
+    publicBaseUrl,
+    apiRoot,
+  };
+
+  const url = env.TELEGRAM_WEBHOOK_URL;
+  if (!url) {
+    return config;
+  }
+  if (!URL.canParse(url) || new URL(url).protocol !== "https:") {
+    issues.push({
+      variable: "TELEGRAM_WEBHOOK_URL",
+      reason: "must be an https URL",
+    });
+  }
+  const secretToken = env.TELEGRAM_WEBHOOK_SECRET ?? "";
+  if (!/^[A-Za-z0-9_-]{1,256}$/.test(secretToken)) {
+    issues.push({
+      variable: "TELEGRAM_WEBHOOK_SECRET",
+      reason:
+        "webhook mode requires 1-256 characters of A-Z, a-z, 0-9, _ and -",
+    });
+  }
+  return { ...config, webhook: { url, secretToken } };
+}
@@ -0,0 +1,36 @@
+/**
+ * Telegram Error Types
+ *
+ * Discriminated union type for all errors of the Telegram bot.
+ */
+export type TelegramErrorType = "TELEGRAM_START_FAILED";
+
+/**
+ * Base class for all Telegram errors.
+ */
+export abstract class TelegramError extends Error {
+  abstract readonly type: TelegramErrorType;
+
+  constructor(message: string) {
+    super(message);
+    this.name = this.constructor.name;
+    Error.captureStackTrace?.(this, this.constructor);
+  }
+}
+
+/**
+ * Error thrown when the Bot API rejects the token or the webhook, or
+ * cannot be reached.
+ */
+export class TelegramStartFailedError extends TelegramError {
+  readonly type = "TELEGRAM_START_FAILED" as const;
+
+  constructor(public readonly cause: Error) {
+    super(`Telegram bot failed to start: ${cause.message}`);
+  }
+}
+
+/**
+ * Union type of all Telegram errors.
+ */
+export type TelegramErrorUnion = TelegramStartFailedError;
@@ -0,0 +1,60 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { Elysia } from "elysia";
+import type { Bot } from "grammy";
+import type { BotContext } from "./bot";
+import { webhookCallback } from "grammy";
+
+/**
+ * Path Telegram posts updates to in webhook mode
+ */
+export const TELEGRAM_WEBHOOK_PATH = "/telegram/webhook";
+
+/**
+ * Compares two secrets in constant time
+ *
+ * @private
+ */
+function secretsMatch(received: string, expected: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(received), digest(expected));
+}
+
+/**
+ * Route receiving updates in webhook mode
+ *
+ * @param {Bot<BotContext>} bot - The bot handling the updates
+ * @param {string} secretToken - Must match `X-Telegram-Bot-Api-Secret-Token`
+ * @returns The Elysia plugin
+ *
+ * @remarks
+ * Public in the sense of the REST auth: Telegram authenticates with the
+ * secret token header. It is checked here before grammY sees the request,
+ * because grammY's adapter logs every request it rejects.
+ */
+export function telegramWebhookRoutes(
+  bot: Bot<BotContext>,
+  secretToken: string,
+) {
+  const handleUpdate = webhookCallback(bot, "std/http", { secretToken }) as (
+    request: Request,
+  ) => Promise<Response>;
+
+  return new Elysia({ name: "telegram-webhook" }).post(
+    TELEGRAM_WEBHOOK_PATH,
+    ({ request, set }) => {
+      const received =
+        request.headers.get("x-telegram-bot-api-secret-token") ?? "";
+      if (!secretsMatch(received, secretToken)) {
+        set.status = 401;
+        return "Invalid secret token";
+      }
+      return handleUpdate(request);
+    },
+    {
+      detail: {
+        tags: ["Telegram"],
+        summary: "Bot API webhook (called by Telegram, not by clients)",
+      },
+    },
+  );
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "bun:test";
+import {
+  computeBlindIndex,
+  computeBlindIndexCandidates,
+  getBlindIndexKeyId,
+} from "./blind-index";
+import { generateEncryptionKey } from "./crypto";
+import { createKeyring, getKeyId } from "./keyring";
+
+describe("Blind Index", () => {
+  const key = generateEncryptionKey();
+
+  it("should be deterministic and ignore case and surrounding whitespace", () => {
+    const a = computeBlindIndex("email", "Jane@Example.com", key);
+    const b = computeBlindIndex("email", "  jane@example.com ", key);
+
+    expect(a._unsafeUnwrap()).toBe(b._unsafeUnwrap());
+    expect(a._unsafeUnwrap()).not.toContain("jane");
+    expect(getBlindIndexKeyId(a._unsafeUnwrap())).toBe(getKeyId(key));
+  });
+
+  it("should differ per field and per key", () => {
+    const email = computeBlindIndex("email", "jane", key)._unsafeUnwrap();
+    const username = computeBlindIndex("username", "jane", key)._unsafeUnwrap();
+    const otherKey = computeBlindIndex(
+      "email",
+      "jane",
+      generateEncryptionKey(),
+    )._unsafeUnwrap();
+
+    expect(email).not.toBe(username);
+    expect(email.split(":")[1]).not.toBe(otherKey.split(":")[1]);
+  });
+
+  it("should return one candidate per key, active key first", () => {
+    const oldKey = generateEncryptionKey();
+    const keyring = createKeyring(key, [oldKey])._unsafeUnwrap();
+
+    const candidates = computeBlindIndexCandidates(
+      "email",
+      "jane@example.com",
+      keyring,
+    )._unsafeUnwrap();
+
+    expect(candidates).toEqual([
+      computeBlindIndex("email", "jane@example.com", key)._unsafeUnwrap(),
+      computeBlindIndex("email", "jane@example.com", oldKey)._unsafeUnwrap(),
+    ]);
+  });
+});
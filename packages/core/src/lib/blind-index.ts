@@ -0,0 +1,139 @@
+import { createHmac, hkdfSync } from "node:crypto";
+import { ok, Result } from "neverthrow";
+import type { KeyringErrorUnion, UnknownKeyIdError } from "./crypto.errors";
+import type { Keyring } from "./keyring";
+import { getDefaultKeyring, getKeyId, resolveEncryptionKey } from "./keyring";
+
+const BLIND_INDEX_KEY_INFO = "coresvc:blind-index:v1";
+const BLIND_INDEX_KEY_LENGTH = 32;
+
+/**
+ * Derives the blind index sub-key from a master key
+ *
+ * @private
+ * @remarks
+ * HKDF with a dedicated info string keeps the HMAC key independent of the
+ * key used for encryption, even though both come from the same master key.
+ */
+function deriveBlindIndexKey(key: string): Buffer {
+  const keyBuffer = Buffer.from(key, "base64");
+  try {
+    return Buffer.from(
+      hkdfSync(
+        "sha256",
+        keyBuffer,
+        Buffer.alloc(0),
+        BLIND_INDEX_KEY_INFO,
+        BLIND_INDEX_KEY_LENGTH,
+      ),
+    );
+  } finally {
+    keyBuffer.fill(0);
+  }
+}
+
+/**
+ * Normalizes an identifier so equivalent spellings produce the same index
+ *
+ * @param {string} value - The identifier (e.g. an email address or username)
+ * @returns {string} Trimmed, NFKC-normalized, lowercased identifier
+ */
+export function normalizeIdentifier(value: string): string {
+  return value.trim().normalize("NFKC").toLowerCase();
+}
+
+/**
+ * Computes the blind index of a value with a single key
+ *
+ * @private
+ */
+function hmacIndex(
+  keyId: string,
+  key: string,
+  field: string,
+  value: string,
+): string {
+  const indexKey = deriveBlindIndexKey(key);
+  try {
+    const digest = createHmac("sha256", indexKey)
+      .update(field)
+      .update("\0")
+      .update(normalizeIdentifier(value))
+      .digest("base64url");
+    return `${keyId}:${digest}`;
+  } finally {
+    indexKey.fill(0);
+  }
+}
+
+/**
+ * Computes the blind index of an identifier with the active key
+ *
+ * @param {string} field - Name of the indexed field (e.g. "email"); the same value gets a different index per field
+ * @param {string} value - The identifier to index
+ * @param {string | Keyring} [key] - Optional master key or keyring (defaults to the keyring from env vars)
+ * @returns {Result<string, KeyringErrorUnion | UnknownKeyIdError>} Result with the index or error
+ *
+ * @example
+ * ```typescript
+ * const index = computeBlindIndex("email", "Jane@Example.com");
+ * // "3f9a0c1b2d4e5f60:Qm9...": key ID of the master key + HMAC-SHA256
+ * ```
+ *
+ * @remarks
+ * - The index is a keyed HMAC, so it cannot be brute-forced without the master key
+ * - Values are normalized first (see {@link normalizeIdentifier})
+ * - The key ID prefix tells which master key an index was computed with
+ */
+export function computeBlindIndex(
+  field: string,
+  value: string,
+  key?: string | Keyring,
+): Result<string, KeyringErrorUnion | UnknownKeyIdError> {
+  return resolveEncryptionKey(key).map((resolved) =>
+    hmacIndex(resolved.keyId, resolved.key, field, value),
+  );
+}
+
+/**
+ * Computes the blind index of an identifier with every key of the keyring
+ *
+ * @param {string} field - Name of the indexed field
+ * @param {string} value - The identifier to look up
+ * @param {string | Keyring} [key] - Optional master key or keyring (defaults to the keyring from env vars)
+ * @returns {Result<string[], KeyringErrorUnion>} Result with the indexes (active key first) or error
+ *
+ * @remarks
+ * Lookups match any of the candidates, so rows indexed with a retired key
+ * are still found until the key rotation has recomputed their indexes.
+ */
+export function computeBlindIndexCandidates(
+  field: string,
+  value: string,
+  key?: string | Keyring,
+): Result<string[], KeyringErrorUnion> {
+  if (typeof key === "string" && key) {
+    return ok([hmacIndex(getKeyId(key), key, field, value)]);
+  }
+
+  const keyringResult = typeof key === "object" ? ok(key) : getDefaultKeyring();
+  return keyringResult.map((keyring) => {
+    const keyIds = [
+      keyring.activeKeyId,
+      ...[...keyring.keys.keys()].filter((id) => id !== keyring.activeKeyId),
+    ];
+    return keyIds.map((keyId) =>
+      hmacIndex(keyId, keyring.keys.get(keyId)!, field, value),
+    );
+  });
+}
+
+/**
+ * Returns the ID of the key a blind index was computed with
+ *
+ * @param {string} index - A blind index from {@link computeBlindIndex}
+ * @returns {string} The key ID prefix
+ */
+export function getBlindIndexKeyId(index: string): string {
+  return index.slice(0, index.indexOf(":"));
+}
@@ -8,13 +8,22 @@ export type CryptoErrorType =
   | "PLAINTEXT_TOO_LARGE"
   | "INVALID_KEY_LENGTH"
   | "MISSING_ENCRYPTION_KEY"
+  | "UNKNOWN_KEY_ID"
+  | "KEY_FILE_READ_FAILED"
   | "INVALID_IV_LENGTH"
   | "INVALID_AUTH_TAG_LENGTH"
   | "INVALID_BASE64_FORMAT"
   | "ENCRYPTION_FAILED"
   | "DECRYPTION_FAILED"
+  | "ASSOCIATED_DATA_MISMATCH"
   | "JSON_SERIALIZATION_FAILED"
-  | "JSON_PARSE_FAILED";
+  | "JSON_PARSE_FAILED"
+  | "JSON_SCHEMA_MISMATCH"
+  | "INVALID_CHUNK_SIZE"
+  | "INVALID_STREAM_FORMAT"
+  | "STREAM_TRUNCATED"
+  | "STREAM_CHUNK_AUTH_FAILED"
+  | "STREAM_IO_FAILED";
 
 /**
  * Base class for all crypto-related errors.
@@ -103,6 +112,38 @@ export class MissingEncryptionKeyError extends CryptoError {
   }
 }
 
+/**
+ * Error thrown when encrypted data references a key that is not in the keyring.
+ *
+ * @remarks
+ * This happens when a key was dropped from `ENCRYPTION_RETIRED_KEYS` before
+ * all data sealed with it has been rotated to the active key.
+ */
+export class UnknownKeyIdError extends CryptoError {
+  readonly type = "UNKNOWN_KEY_ID" as const;
+
+  constructor(public readonly keyId: string) {
+    super(`No key with id "${keyId}" found in the keyring`);
+  }
+}
+
+/**
+ * Error thrown when the key file referenced by ENCRYPTION_KEY_FILE cannot be read.
+ *
+ * @remarks
+ * The original error is preserved in the `cause` property.
+ */
+export class KeyFileReadFailedError extends CryptoError {
+  readonly type = "KEY_FILE_READ_FAILED" as const;
+
+  constructor(
+    public readonly path: string,
+    public readonly cause: Error,
+  ) {
+    super(`Reading key file ${path} failed: ${cause.message}`);
+  }
+}
+
 /**
  * Error thrown when the initialization vector (IV) has an invalid length.
  *
@@ -196,6 +237,23 @@ export class DecryptionFailedError extends CryptoError {
   }
 }
 
+/**
+ * Error thrown when the associated data does not match the encrypted data.
+ *
+ * @remarks
+ * The ciphertext is bound to the associated data it was encrypted with
+ * (for example the row it belongs to). This occurs when a ciphertext is
+ * copied to a different context, or when associated data is passed for
+ * data that was sealed without it (and vice versa).
+ */
+export class AssociatedDataMismatchError extends CryptoError {
+  readonly type = "ASSOCIATED_DATA_MISMATCH" as const;
+
+  constructor() {
+    super("Associated data does not match the encrypted data");
+  }
+}
+
 /**
  * Error thrown when JSON serialization fails.
  *
@@ -225,6 +283,117 @@ export class JsonParseFailedError extends CryptoError {
   }
 }
 
+/**
+ * A single schema violation found in decrypted JSON.
+ *
+ * @property {string} path - JSON pointer to the failing value (e.g. `/refresh_token`)
+ * @property {string} message - Human readable description of the violation
+ */
+export interface JsonSchemaIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Error thrown when decrypted JSON does not match the expected schema.
+ *
+ * @remarks
+ * This occurs in `decryptJsonWithSchema` when the plaintext is valid JSON
+ * but has the wrong shape (e.g. an OAuth token blob without `refresh_token`).
+ * All violations are collected in `issues`; `paths` lists the failing paths.
+ */
+export class JsonSchemaMismatchError extends CryptoError {
+  readonly type = "JSON_SCHEMA_MISMATCH" as const;
+
+  public readonly paths: string[];
+
+  constructor(public readonly issues: JsonSchemaIssue[]) {
+    const paths = [...new Set(issues.map((issue) => issue.path || "/"))];
+    super(`JSON does not match schema at ${paths.join(", ")}`);
+    this.paths = paths;
+  }
+}
+
+/**
+ * Error thrown when an encrypted stream has a malformed header or chunk framing.
+ *
+ * @remarks
+ * This covers unknown magic bytes or versions, chunk sizes above the limit,
+ * and data following the final chunk.
+ */
+export class InvalidStreamFormatError extends CryptoError {
+  readonly type = "INVALID_STREAM_FORMAT" as const;
+
+  constructor(public readonly reason: string) {
+    super(`Invalid encrypted stream: ${reason}`);
+  }
+}
+
+/**
+ * Error thrown when a stream is to be encrypted with an invalid chunk size.
+ *
+ * @remarks
+ * The chunk size must be an integer between 1 and the maximum, which bounds
+ * the memory a decryptor needs for a single chunk.
+ */
+export class InvalidChunkSizeError extends CryptoError {
+  readonly type = "INVALID_CHUNK_SIZE" as const;
+
+  constructor(
+    public readonly maxSize: number,
+    public readonly actualSize: number,
+  ) {
+    super(`Chunk size must be an integer between 1 and ${maxSize} bytes (got ${actualSize})`);
+  }
+}
+
+/**
+ * Error thrown when an encrypted stream ends before its final chunk.
+ *
+ * @remarks
+ * Every stream is terminated by a chunk carrying the final flag, so a
+ * stream cut at a chunk boundary is detected as well.
+ */
+export class StreamTruncatedError extends CryptoError {
+  readonly type = "STREAM_TRUNCATED" as const;
+
+  constructor(public readonly chunksRead: number) {
+    super(`Encrypted stream ended after ${chunksRead} chunks without a final chunk`);
+  }
+}
+
+/**
+ * Error thrown when a chunk of an encrypted stream fails authentication.
+ *
+ * @remarks
+ * Each chunk nonce encodes its position and final flag, so this occurs on
+ * tampered, reordered, duplicated or dropped chunks, or with a wrong key.
+ */
+export class StreamChunkAuthFailedError extends CryptoError {
+  readonly type = "STREAM_CHUNK_AUTH_FAILED" as const;
+
+  constructor(
+    public readonly chunkIndex: number,
+    public readonly cause: Error,
+  ) {
+    super(`Authentication of stream chunk ${chunkIndex} failed: ${cause.message}`);
+  }
+}
+
+/**
+ * Error thrown when reading or writing a stream or file fails.
+ *
+ * @remarks
+ * The original error is preserved in the `cause` property.
+ */
+export class StreamIoFailedError extends CryptoError {
+  readonly type = "STREAM_IO_FAILED" as const;
+
+  constructor(public readonly cause: Error) {
+    super(`Stream I/O failed: ${cause.message}`);
+  }
+}
+
 /**
  * Union type of all crypto errors.
  *
@@ -239,13 +408,22 @@ export type CryptoErrorUnion =
   | PlaintextTooLargeError
   | InvalidKeyLengthError
   | MissingEncryptionKeyError
+  | UnknownKeyIdError
+  | KeyFileReadFailedError
   | InvalidIvLengthError
   | InvalidAuthTagLengthError
   | InvalidBase64FormatError
   | EncryptionFailedError
   | DecryptionFailedError
+  | AssociatedDataMismatchError
   | JsonSerializationFailedError
-  | JsonParseFailedError;
+  | JsonParseFailedError
+  | JsonSchemaMismatchError
+  | InvalidChunkSizeError
+  | InvalidStreamFormatError
+  | StreamTruncatedError
+  | StreamChunkAuthFailedError
+  | StreamIoFailedError;
 
 /**
  * Subset of errors that can occur during encryption.
@@ -254,6 +432,8 @@ export type EncryptErrorUnion =
   | PlaintextTooLargeError
   | InvalidKeyLengthError
   | MissingEncryptionKeyError
+  | UnknownKeyIdError
+  | KeyFileReadFailedError
   | EncryptionFailedError;
 
 /**
@@ -262,11 +442,22 @@ export type EncryptErrorUnion =
 export type DecryptErrorUnion =
   | InvalidKeyLengthError
   | MissingEncryptionKeyError
+  | UnknownKeyIdError
+  | KeyFileReadFailedError
   | InvalidIvLengthError
   | InvalidAuthTagLengthError
   | InvalidBase64FormatError
+  | AssociatedDataMismatchError
   | DecryptionFailedError;
 
+/**
+ * Subset of errors that can occur while building a keyring.
+ */
+export type KeyringErrorUnion =
+  | InvalidKeyLengthError
+  | MissingEncryptionKeyError
+  | KeyFileReadFailedError;
+
 /**
  * Subset of errors that can occur during EncryptedData validation.
  */
@@ -284,3 +475,33 @@ export type EncryptJsonErrorUnion = EncryptErrorUnion | JsonSerializationFailedE
  * Subset of errors that can occur during JSON decryption.
  */
 export type DecryptJsonErrorUnion = DecryptErrorUnion | JsonParseFailedError;
+
+/**
+ * Subset of errors that can occur during schema-validated JSON decryption.
+ */
+export type DecryptJsonWithSchemaErrorUnion =
+  | DecryptJsonErrorUnion
+  | JsonSchemaMismatchError;
+
+/**
+ * Subset of errors that can occur during stream encryption.
+ */
+export type StreamEncryptErrorUnion =
+  | InvalidKeyLengthError
+  | KeyringErrorUnion
+  | UnknownKeyIdError
+  | InvalidChunkSizeError
+  | EncryptionFailedError
+  | StreamIoFailedError;
+
+/**
+ * Subset of errors that can occur during stream decryption.
+ */
+export type StreamDecryptErrorUnion =
+  | InvalidKeyLengthError
+  | KeyringErrorUnion
+  | UnknownKeyIdError
+  | InvalidStreamFormatError
+  | StreamTruncatedError
+  | StreamChunkAuthFailedError
+  | StreamIoFailedError;
@@ -0,0 +1,230 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { generateEncryptionKey } from "./crypto";
+import {
+  decryptFile,
+  decryptStream,
+  encryptFile,
+  encryptStream,
+  MAX_STREAM_CHUNK_SIZE,
+} from "./crypto.stream";
+import {
+  InvalidChunkSizeError,
+  InvalidStreamFormatError,
+  StreamChunkAuthFailedError,
+  StreamTruncatedError,
+} from "./crypto.errors";
+import { createKeyring } from "./keyring";
+
+const HEADER_LENGTH = 32;
+const CHUNK_OVERHEAD = 5 + 16;
+
+function toStream(
+  data: Uint8Array,
+  pieceSize = 1000,
+): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= data.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(data.subarray(offset, offset + pieceSize));
+      offset += pieceSize;
+    },
+  });
+}
+
+async function collect(stream: ReadableStream<Uint8Array>): Promise<Buffer> {
+  return Buffer.from(await new Response(stream).arrayBuffer());
+}
+
+async function seal(
+  plaintext: Uint8Array,
+  key: string,
+  chunkSize: number,
+): Promise<Buffer> {
+  return collect(
+    encryptStream(toStream(plaintext), key, { chunkSize })._unsafeUnwrap(),
+  );
+}
+
+async function open(ciphertext: Uint8Array, key: string): Promise<Buffer> {
+  return collect(decryptStream(toStream(ciphertext), key)._unsafeUnwrap());
+}
+
+describe("Stream Crypto", () => {
+  const testKey = generateEncryptionKey();
+  const chunkSize = 16;
+  const plaintext = Buffer.from("a".repeat(40) + "b".repeat(40));
+
+  it("should encrypt and decrypt across multiple chunks", async () => {
+    const ciphertext = await seal(plaintext, testKey, chunkSize);
+    // 80 bytes in 16 byte chunks: 4 full chunks plus a final chunk of 16 bytes
+    expect(ciphertext.length).toBe(HEADER_LENGTH + 5 * (16 + CHUNK_OVERHEAD));
+
+    const decrypted = await open(ciphertext, testKey);
+    expect(decrypted.equals(plaintext)).toBe(true);
+  });
+
+  it("should encrypt and decrypt an empty stream", async () => {
+    const ciphertext = await seal(new Uint8Array(0), testKey, chunkSize);
+    expect(ciphertext.length).toBe(HEADER_LENGTH + CHUNK_OVERHEAD);
+
+    const decrypted = await open(ciphertext, testKey);
+    expect(decrypted.length).toBe(0);
+  });
+
+  it("should reject an invalid chunk size", () => {
+    for (const size of [0, 1.5, MAX_STREAM_CHUNK_SIZE + 1]) {
+      const result = encryptStream(toStream(plaintext), testKey, {
+        chunkSize: size,
+      });
+      expect(result.isErr() && result.error).toBeInstanceOf(
+        InvalidChunkSizeError,
+      );
+    }
+  });
+
+  it("should pick the key from a keyring by the header key ID", async () => {
+    const oldKey = generateEncryptionKey();
+    const ciphertext = await seal(plaintext, oldKey, chunkSize);
+    const keyring = createKeyring(testKey, [oldKey])._unsafeUnwrap();
+
+    const decrypted = await collect(
+      decryptStream(toStream(ciphertext), keyring)._unsafeUnwrap(),
+    );
+    expect(decrypted.equals(plaintext)).toBe(true);
+  });
+
+  it("should detect truncation at a chunk boundary", async () => {
+    const ciphertext = await seal(plaintext, testKey, chunkSize);
+    const truncated = ciphertext.subarray(
+      0,
+      HEADER_LENGTH + 2 * (16 + CHUNK_OVERHEAD),
+    );
+
+    const error = await open(truncated, testKey).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(StreamTruncatedError);
+  });
+
+  it("should detect reordered chunks", async () => {
+    const ciphertext = await seal(plaintext, testKey, chunkSize);
+    const record = 16 + CHUNK_OVERHEAD;
+    const first = ciphertext.subarray(HEADER_LENGTH, HEADER_LENGTH + record);
+    const second = ciphertext.subarray(
+      HEADER_LENGTH + record,
+      HEADER_LENGTH + 2 * record,
+    );
+    const reordered = Buffer.concat([
+      ciphertext.subarray(0, HEADER_LENGTH),
+      second,
+      first,
+      ciphertext.subarray(HEADER_LENGTH + 2 * record),
+    ]);
+
+    const error = await open(reordered, testKey).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(StreamChunkAuthFailedError);
+    if (error instanceof StreamChunkAuthFailedError) {
+      expect(error.chunkIndex).toBe(0);
+    }
+  });
+
+  it("should detect a forged final flag", async () => {
+    const ciphertext = Buffer.from(await seal(plaintext, testKey, chunkSize));
+    // Mark the first chunk as final and drop everything after it
+    ciphertext[HEADER_LENGTH] = 1;
+    const forged = ciphertext.subarray(0, HEADER_LENGTH + 16 + CHUNK_OVERHEAD);
+
+    const error = await open(forged, testKey).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(StreamChunkAuthFailedError);
+  });
+
+  it("should reject data after the final chunk", async () => {
+    const ciphertext = await seal(plaintext, testKey, chunkSize);
+    const extended = Buffer.concat([ciphertext, Buffer.alloc(CHUNK_OVERHEAD)]);
+
+    const error = await open(extended, testKey).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(InvalidStreamFormatError);
+  });
+
+  it("should reject data bound to different associated data", async () => {
+    const ciphertext = await collect(
+      encryptStream(toStream(plaintext), testKey, {
+        associatedData: "backup:1",
+      })._unsafeUnwrap(),
+    );
+
+    const error = await collect(
+      decryptStream(toStream(ciphertext), testKey, {
+        associatedData: "backup:2",
+      })._unsafeUnwrap(),
+    ).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(StreamChunkAuthFailedError);
+  });
+
+  describe("Files", () => {
+    let tempDir: string;
+
+    beforeAll(() => {
+      tempDir = mkdtempSync(join(tmpdir(), "coresvc-stream-"));
+    });
+
+    afterAll(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("should encrypt and decrypt a file larger than the plaintext limit", async () => {
+      const input = join(tempDir, "export.json");
+      const encrypted = join(tempDir, "export.json.enc");
+      const output = join(tempDir, "export.restored.json");
+      const content = Buffer.from("x".repeat(200 * 1024));
+      writeFileSync(input, content);
+
+      const encryptResult = await encryptFile(input, encrypted, testKey);
+      expect(encryptResult.isOk()).toBe(true);
+      if (encryptResult.isOk()) {
+        expect(encryptResult.value.bytes).toBe(content.length);
+      }
+
+      const decryptResult = await decryptFile(encrypted, output, testKey);
+      expect(decryptResult.isOk()).toBe(true);
+      expect(readFileSync(output).equals(content)).toBe(true);
+    });
+
+    it("should return a typed error and remove the output on truncation", async () => {
+      const input = join(tempDir, "truncated.enc");
+      const output = join(tempDir, "truncated.out");
+      const ciphertext = await seal(plaintext, testKey, chunkSize);
+      writeFileSync(input, ciphertext.subarray(0, ciphertext.length - 30));
+
+      const result = await decryptFile(input, output, testKey);
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.type).toBe("STREAM_TRUNCATED");
+      }
+      expect(existsSync(output)).toBe(false);
+    });
+
+    it("should return an I/O error for a missing input file", async () => {
+      const result = await encryptFile(
+        join(tempDir, "missing"),
+        join(tempDir, "missing.enc"),
+        testKey,
+      );
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.type).toBe("STREAM_IO_FAILED");
+      }
+    });
+  });
+});
@@ -0,0 +1,576 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  type CipherGCM,
+  type DecipherGCM,
+} from "node:crypto";
+import { createReadStream, createWriteStream } from "node:fs";
+import { rm } from "node:fs/promises";
+import { Readable, Writable } from "node:stream";
+import { err, ok, Result, ResultAsync } from "neverthrow";
+import type {
+  StreamDecryptErrorUnion,
+  StreamEncryptErrorUnion,
+} from "./crypto.errors";
+import {
+  CryptoError,
+  EncryptionFailedError,
+  InvalidChunkSizeError,
+  InvalidKeyLengthError,
+  InvalidStreamFormatError,
+  StreamChunkAuthFailedError,
+  StreamIoFailedError,
+  StreamTruncatedError,
+} from "./crypto.errors";
+import type { Keyring } from "./keyring";
+import { resolveDecryptionKey, resolveEncryptionKey } from "./keyring";
+
+/**
+ * Options for stream encryption and decryption
+ *
+ * @property {number} [chunkSize] - Plaintext bytes per chunk (encryption only, defaults to 64KB)
+ * @property {string} [associatedData] - Optional context every chunk is bound to
+ */
+export interface StreamCryptoOptions {
+  chunkSize?: number;
+  associatedData?: string;
+}
+
+/**
+ * Summary of a finished file encryption or decryption
+ *
+ * @property {number} bytes - Number of plaintext bytes processed
+ */
+export interface StreamCryptoStats {
+  bytes: number;
+}
+
+/**
+ * Stream format constants
+ *
+ * Header: magic (4) | version (1) | chunk size (4, BE) | nonce prefix (7) | key ID (16, ASCII)
+ * Chunk:  final flag (1) | ciphertext length (4, BE) | ciphertext | tag (16)
+ * Nonce:  nonce prefix (7) | chunk index (4, BE) | final flag (1)
+ */
+const ALGORITHM = "aes-256-gcm" as const;
+const KEY_LENGTH = 32; // 32 bytes for AES-256
+const TAG_LENGTH = 16; // 16 bytes for GCM authentication tag
+const MAGIC = Buffer.from("CSVS", "ascii");
+const VERSION = 1;
+const NONCE_PREFIX_LENGTH = 7;
+const KEY_ID_LENGTH = 16;
+const HEADER_LENGTH = 4 + 1 + 4 + NONCE_PREFIX_LENGTH + KEY_ID_LENGTH;
+const CHUNK_HEADER_LENGTH = 1 + 4;
+const MAX_CHUNK_INDEX = 0xffffffff;
+
+/**
+ * Default and maximum plaintext chunk sizes
+ * The maximum bounds the memory a decryptor needs for a single chunk
+ */
+export const DEFAULT_STREAM_CHUNK_SIZE = 64 * 1024; // 64KB
+export const MAX_STREAM_CHUNK_SIZE = 4 * 1024 * 1024; // 4MB
+
+/**
+ * A transformer with the `cancel` hook of the Streams spec
+ *
+ * @private
+ * @remarks
+ * Bun calls it when the readable side is cancelled or the writable side
+ * aborted; the DOM typings do not declare it yet.
+ */
+type CancellableTransformer = Transformer<Uint8Array, Uint8Array> & {
+  cancel?: (reason: unknown) => void;
+};
+
+/**
+ * Builds the nonce of a chunk from the stream prefix, its index and final flag
+ *
+ * @private
+ */
+function chunkNonce(prefix: Buffer, index: number, final: boolean): Buffer {
+  const nonce = Buffer.alloc(NONCE_PREFIX_LENGTH + 5);
+  prefix.copy(nonce, 0);
+  nonce.writeUInt32BE(index, NONCE_PREFIX_LENGTH);
+  nonce[NONCE_PREFIX_LENGTH + 4] = final ? 1 : 0;
+  return nonce;
+}
+
+/**
+ * Builds the associated data of every chunk: the header plus the caller's context
+ *
+ * @private
+ */
+function chunkAssociatedData(header: Buffer, associatedData?: string): Buffer {
+  return associatedData === undefined
+    ? header
+    : Buffer.concat([header, Buffer.from(associatedData, "utf8")]);
+}
+
+/**
+ * Converts a base64-encoded key into a validated key buffer
+ *
+ * @private
+ */
+function toKeyBuffer(key: string): Result<Buffer, InvalidKeyLengthError> {
+  const keyBuffer = Buffer.from(key, "base64");
+  if (keyBuffer.length !== KEY_LENGTH) {
+    keyBuffer.fill(0);
+    return err(new InvalidKeyLengthError(KEY_LENGTH, keyBuffer.length));
+  }
+  return ok(keyBuffer);
+}
+
+/**
+ * Normalizes an unknown stream error into a typed crypto error
+ *
+ * @private
+ */
+function toStreamError<E>(error: unknown): E | StreamIoFailedError {
+  if (error instanceof CryptoError) {
+    return error as E;
+  }
+  return new StreamIoFailedError(
+    error instanceof Error ? error : new Error(String(error)),
+  );
+}
+
+/**
+ * Creates a TransformStream that encrypts bytes in authenticated chunks
+ *
+ * @param {string | Keyring} [key] - Optional encryption key or keyring (defaults to the keyring from env vars)
+ * @param {StreamCryptoOptions} [options] - Chunk size and associated data
+ * @returns {Result<TransformStream<Uint8Array, Uint8Array>, StreamEncryptErrorUnion>} Result with the stream or error
+ *
+ * @example
+ * ```typescript
+ * const result = createEncryptionStream();
+ * if (result.isOk()) {
+ *   await exportStream.pipeThrough(result.value).pipeTo(destination);
+ * }
+ * ```
+ *
+ * @errors
+ * - InvalidKeyLengthError - Key is not 32 bytes
+ * - MissingEncryptionKeyError - No key provided and ENCRYPTION_KEY env var not set
+ * - InvalidChunkSizeError - Chunk size is not an integer between 1 and 4MB
+ * - EncryptionFailedError - Cipher failure (stream error)
+ *
+ * @remarks
+ * - STREAM construction: every chunk uses a nonce made of a random per-stream
+ *   prefix, the chunk index and a final-chunk flag
+ * - The header (including key ID and chunk size) is authenticated with every chunk
+ * - At most one chunk of plaintext is buffered, regardless of the stream length
+ * - The last chunk always carries the final flag (it may be empty)
+ * - The key buffer is zeroed when the stream ends, fails or is cancelled
+ */
+export function createEncryptionStream(
+  key?: string | Keyring,
+  options: StreamCryptoOptions = {},
+): Result<TransformStream<Uint8Array, Uint8Array>, StreamEncryptErrorUnion> {
+  const chunkSize = options.chunkSize ?? DEFAULT_STREAM_CHUNK_SIZE;
+  if (
+    !Number.isInteger(chunkSize) ||
+    chunkSize < 1 ||
+    chunkSize > MAX_STREAM_CHUNK_SIZE
+  ) {
+    return err(new InvalidChunkSizeError(MAX_STREAM_CHUNK_SIZE, chunkSize));
+  }
+
+  const keyResult = resolveEncryptionKey(key);
+  if (keyResult.isErr()) {
+    return err(keyResult.error);
+  }
+  const { keyId } = keyResult.value;
+  const keyBufferResult = toKeyBuffer(keyResult.value.key);
+  if (keyBufferResult.isErr()) {
+    return err(keyBufferResult.error);
+  }
+  const keyBuffer = keyBufferResult.value;
+
+  const noncePrefix = randomBytes(NONCE_PREFIX_LENGTH);
+  const header = Buffer.alloc(HEADER_LENGTH);
+  MAGIC.copy(header, 0);
+  header[4] = VERSION;
+  header.writeUInt32BE(chunkSize, 5);
+  noncePrefix.copy(header, 9);
+  header.write(keyId, 9 + NONCE_PREFIX_LENGTH, KEY_ID_LENGTH, "ascii");
+  const aad = chunkAssociatedData(header, options.associatedData);
+
+  let pending: Buffer = Buffer.alloc(0);
+  let chunkIndex = 0;
+
+  const sealChunk = (plaintext: Buffer, final: boolean): Buffer => {
+    if (chunkIndex > MAX_CHUNK_INDEX) {
+      throw new EncryptionFailedError(
+        new Error("Stream exceeds the maximum number of chunks"),
+      );
+    }
+    const cipher: CipherGCM = createCipheriv(
+      ALGORITHM,
+      keyBuffer,
+      chunkNonce(noncePrefix, chunkIndex, final),
+    );
+    cipher.setAAD(aad);
+    const ciphertext = Buffer.concat([
+      cipher.update(plaintext),
+      cipher.final(),
+    ]);
+    chunkIndex++;
+
+    const chunkHeader = Buffer.alloc(CHUNK_HEADER_LENGTH);
+    chunkHeader[0] = final ? 1 : 0;
+    chunkHeader.writeUInt32BE(ciphertext.length, 1);
+    return Buffer.concat([chunkHeader, ciphertext, cipher.getAuthTag()]);
+  };
+
+  const transformer: CancellableTransformer = {
+    start(controller) {
+      controller.enqueue(new Uint8Array(header));
+    },
+    transform(input, controller) {
+      try {
+        pending = Buffer.concat([pending, input]);
+        // Keep at least one byte back: only flush() knows which chunk is final
+        while (pending.length > chunkSize) {
+          controller.enqueue(sealChunk(pending.subarray(0, chunkSize), false));
+          pending = pending.subarray(chunkSize);
+        }
+      } catch (error) {
+        keyBuffer.fill(0);
+        throw error instanceof CryptoError
+          ? error
+          : new EncryptionFailedError(
+              error instanceof Error ? error : new Error(String(error)),
+            );
+      }
+    },
+    flush(controller) {
+      try {
+        controller.enqueue(sealChunk(pending, true));
+      } catch (error) {
+        throw error instanceof CryptoError
+          ? error
+          : new EncryptionFailedError(
+              error instanceof Error ? error : new Error(String(error)),
+            );
+      } finally {
+        pending = Buffer.alloc(0);
+        keyBuffer.fill(0);
+      }
+    },
+    cancel() {
+      pending = Buffer.alloc(0);
+      keyBuffer.fill(0);
+    },
+  };
+  return ok(new TransformStream(transformer));
+}
+
+/**
+ * Creates a TransformStream that decrypts and verifies a chunked stream
+ *
+ * @param {string | Keyring} [key] - Optional encryption key or keyring (defaults to the keyring from env vars)
+ * @param {StreamCryptoOptions} [options] - Associated data passed at encryption (chunk size is read from the header)
+ * @returns {Result<TransformStream<Uint8Array, Uint8Array>, StreamDecryptErrorUnion>} Result with the stream or error
+ *
+ * @errors
+ * The stream itself errors with:
+ * - InvalidStreamFormatError - Bad header, oversized chunk, or data after the final chunk
+ * - UnknownKeyIdError - The keyring does not contain the key referenced by the header
+ * - StreamChunkAuthFailedError - A chunk was tampered with, reordered or the key is wrong
+ * - StreamTruncatedError - The stream ended before the final chunk
+ *
+ * @remarks
+ * - Plaintext is only emitted after the chunk it belongs to has been authenticated
+ * - Memory use is bounded by the chunk size declared in the header (max 4MB)
+ */
+export function createDecryptionStream(
+  key?: string | Keyring,
+  options: StreamCryptoOptions = {},
+): Result<TransformStream<Uint8Array, Uint8Array>, StreamDecryptErrorUnion> {
+  if (typeof key !== "string" && typeof key !== "object") {
+    // Fail early when no key is available at all
+    const keyResult = resolveEncryptionKey(key);
+    if (keyResult.isErr()) {
+      return err(keyResult.error);
+    }
+  }
+
+  let buffered: Buffer = Buffer.alloc(0);
+  let header: Buffer | null = null;
+  let aad: Buffer | null = null;
+  let keyBuffer: Buffer | null = null;
+  let noncePrefix: Buffer | null = null;
+  let chunkSize = 0;
+  let chunkIndex = 0;
+  let finished = false;
+
+  const release = () => {
+    keyBuffer?.fill(0);
+    keyBuffer = null;
+    buffered = Buffer.alloc(0);
+  };
+
+  const readHeader = () => {
+    const candidate = buffered.subarray(0, HEADER_LENGTH);
+    if (!candidate.subarray(0, 4).equals(MAGIC)) {
+      throw new InvalidStreamFormatError("unknown magic bytes");
+    }
+    if (candidate[4] !== VERSION) {
+      throw new InvalidStreamFormatError(`unsupported version ${candidate[4]}`);
+    }
+    chunkSize = candidate.readUInt32BE(5);
+    if (chunkSize < 1 || chunkSize > MAX_STREAM_CHUNK_SIZE) {
+      throw new InvalidStreamFormatError(
+        `chunk size ${chunkSize} out of range`,
+      );
+    }
+    noncePrefix = Buffer.from(candidate.subarray(9, 9 + NONCE_PREFIX_LENGTH));
+    const keyId = candidate
+      .subarray(9 + NONCE_PREFIX_LENGTH, HEADER_LENGTH)
+      .toString("ascii");
+
+    const keyResult = resolveDecryptionKey(keyId, key).andThen(toKeyBuffer);
+    if (keyResult.isErr()) {
+      throw keyResult.error;
+    }
+    keyBuffer = keyResult.value;
+    header = Buffer.from(candidate);
+    aad = chunkAssociatedData(header, options.associatedData);
+    buffered = buffered.subarray(HEADER_LENGTH);
+  };
+
+  const openChunks = (
+    controller: TransformStreamDefaultController<Uint8Array>,
+  ) => {
+    while (buffered.length >= CHUNK_HEADER_LENGTH) {
+      if (finished) {
+        throw new InvalidStreamFormatError("data after the final chunk");
+      }
+      const final = buffered[0] === 1;
+      const length = buffered.readUInt32BE(1);
+      if (buffered[0]! > 1 || length > chunkSize) {
+        throw new InvalidStreamFormatError(`malformed chunk ${chunkIndex}`);
+      }
+      const recordLength = CHUNK_HEADER_LENGTH + length + TAG_LENGTH;
+      if (buffered.length < recordLength) {
+        return;
+      }
+
+      const ciphertext = buffered.subarray(
+        CHUNK_HEADER_LENGTH,
+        CHUNK_HEADER_LENGTH + length,
+      );
+      const tag = buffered.subarray(CHUNK_HEADER_LENGTH + length, recordLength);
+      let plaintext: Buffer;
+      try {
+        const decipher: DecipherGCM = createDecipheriv(
+          ALGORITHM,
+          keyBuffer!,
+          chunkNonce(noncePrefix!, chunkIndex, final),
+        );
+        decipher.setAAD(aad!);
+        decipher.setAuthTag(tag);
+        plaintext = Buffer.concat([
+          decipher.update(ciphertext),
+          decipher.final(),
+        ]);
+      } catch (error) {
+        throw new StreamChunkAuthFailedError(
+          chunkIndex,
+          error instanceof Error ? error : new Error(String(error)),
+        );
+      }
+
+      buffered = buffered.subarray(recordLength);
+      chunkIndex++;
+      finished = final;
+      if (plaintext.length > 0) {
+        controller.enqueue(new Uint8Array(plaintext));
+      }
+    }
+    if (finished && buffered.length > 0) {
+      throw new InvalidStreamFormatError("data after the final chunk");
+    }
+  };
+
+  const transformer: CancellableTransformer = {
+    transform(input, controller) {
+      try {
+        buffered = Buffer.concat([buffered, input]);
+        if (!header) {
+          if (buffered.length < HEADER_LENGTH) {
+            return;
+          }
+          readHeader();
+        }
+        openChunks(controller);
+      } catch (error) {
+        release();
+        throw toStreamError(error);
+      }
+    },
+    flush() {
+      const complete = finished && buffered.length === 0;
+      const chunksRead = chunkIndex;
+      release();
+      if (!header) {
+        throw new InvalidStreamFormatError("missing header");
+      }
+      if (!complete) {
+        throw new StreamTruncatedError(chunksRead);
+      }
+    },
+    cancel() {
+      release();
+    },
+  };
+  return ok(new TransformStream(transformer));
+}
+
+/**
+ * Encrypts a ReadableStream in authenticated chunks
+ *
+ * @param {ReadableStream<Uint8Array>} source - The plaintext stream
+ * @param {string | Keyring} [key] - Optional encryption key or keyring (defaults to the keyring from env vars)
+ * @param {StreamCryptoOptions} [options] - Chunk size and associated data
+ * @returns {Result<ReadableStream<Uint8Array>, StreamEncryptErrorUnion>} Result with the encrypted stream or error
+ *
+ * @see {@link createEncryptionStream} for format and security details
+ */
+export function encryptStream(
+  source: ReadableStream<Uint8Array>,
+  key?: string | Keyring,
+  options?: StreamCryptoOptions,
+): Result<ReadableStream<Uint8Array>, StreamEncryptErrorUnion> {
+  return createEncryptionStream(key, options).map((transform) =>
+    source.pipeThrough(transform),
+  );
+}
+
+/**
+ * Decrypts a ReadableStream produced by encryptStream
+ *
+ * @param {ReadableStream<Uint8Array>} source - The encrypted stream
+ * @param {string | Keyring} [key] - Optional encryption key or keyring (defaults to the keyring from env vars)
+ * @param {StreamCryptoOptions} [options] - Associated data passed at encryption
+ * @returns {Result<ReadableStream<Uint8Array>, StreamDecryptErrorUnion>} Result with the plaintext stream or error
+ *
+ * @see {@link createDecryptionStream} for the errors the returned stream can fail with
+ */
+export function decryptStream(
+  source: ReadableStream<Uint8Array>,
+  key?: string | Keyring,
+  options?: StreamCryptoOptions,
+): Result<ReadableStream<Uint8Array>, StreamDecryptErrorUnion> {
+  return createDecryptionStream(key, options).map((transform) =>
+    source.pipeThrough(transform),
+  );
+}
+
+/**
+ * Pipes a file through a transform into another file, counting plaintext bytes
+ *
+ * @private
+ * @remarks
+ * The output file is removed when anything fails, so no partial plaintext
+ * or ciphertext is left behind.
+ */
+function transformFile<E>(
+  inputPath: string,
+  outputPath: string,
+  transform: TransformStream<Uint8Array, Uint8Array>,
+  countFrom: "input" | "output",
+): ResultAsync<StreamCryptoStats, E | StreamIoFailedError> {
+  const stats: StreamCryptoStats = { bytes: 0 };
+  const counter = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      stats.bytes += chunk.length;
+      controller.enqueue(chunk);
+    },
+  });
+
+  const source = Readable.toWeb(
+    createReadStream(inputPath),
+  ) as unknown as ReadableStream<Uint8Array>;
+  const destination = Writable.toWeb(
+    createWriteStream(outputPath),
+  ) as WritableStream<Uint8Array>;
+
+  const pipeline =
+    countFrom === "input"
+      ? source.pipeThrough(counter).pipeThrough(transform)
+      : source.pipeThrough(transform).pipeThrough(counter);
+
+  return ResultAsync.fromPromise(pipeline.pipeTo(destination), (error) =>
+    toStreamError<E>(error),
+  )
+    .map(() => stats)
+    .orElse((error) =>
+      ResultAsync.fromSafePromise(rm(outputPath, { force: true })).andThen(() =>
+        err(error),
+      ),
+    );
+}
+
+/**
+ * Encrypts a file in authenticated chunks
+ *
+ * @param {string} inputPath - Path of the plaintext file
+ * @param {string} outputPath - Path of the encrypted file to write
+ * @param {string | Keyring} [key] - Optional encryption key or keyring (defaults to the keyring from env vars)
+ * @param {StreamCryptoOptions} [options] - Chunk size and associated data
+ * @returns {ResultAsync<StreamCryptoStats, StreamEncryptErrorUnion>} Plaintext byte count or error
+ *
+ * @example
+ * ```typescript
+ * const result = await encryptFile("export.json", "export.json.enc");
+ * if (result.isErr()) {
+ *   console.error(result.error.type);
+ * }
+ * ```
+ */
+export function encryptFile(
+  inputPath: string,
+  outputPath: string,
+  key?: string | Keyring,
+  options?: StreamCryptoOptions,
+): ResultAsync<StreamCryptoStats, StreamEncryptErrorUnion> {
+  return createEncryptionStream(key, options).asyncAndThen((transform) =>
+    transformFile<StreamEncryptErrorUnion>(
+      inputPath,
+      outputPath,
+      transform,
+      "input",
+    ),
+  );
+}
+
+/**
+ * Decrypts a file produced by encryptFile
+ *
+ * @param {string} inputPath - Path of the encrypted file
+ * @param {string} outputPath - Path of the plaintext file to write
+ * @param {string | Keyring} [key] - Optional encryption key or keyring (defaults to the keyring from env vars)
+ * @param {StreamCryptoOptions} [options] - Associated data passed at encryption
+ * @returns {ResultAsync<StreamCryptoStats, StreamDecryptErrorUnion>} Plaintext byte count or error
+ *
+ * @remarks
+ * On truncation, tampering or any other failure the output file is deleted.
+ */
+export function decryptFile(
+  inputPath: string,
+  outputPath: string,
+  key?: string | Keyring,
+  options?: StreamCryptoOptions,
+): ResultAsync<StreamCryptoStats, StreamDecryptErrorUnion> {
+  return createDecryptionStream(key, options).asyncAndThen((transform) =>
+    transformFile<StreamDecryptErrorUnion>(
+      inputPath,
+      outputPath,
+      transform,
+      "output",
+    ),
+  );
+}
@@ -1,12 +1,15 @@
 import { describe, expect, it } from "bun:test";
+import { Type } from "@sinclair/typebox";
 import {
   decrypt,
   decryptJson,
+  decryptJsonWithSchema,
   encrypt,
   encryptJson,
   generateEncryptionKey,
 } from "./crypto";
 import {
+  AssociatedDataMismatchError,
   DecryptionFailedError,
   InvalidAuthTagLengthError,
   InvalidBase64FormatError,
@@ -325,4 +328,143 @@ describe("Crypto Module", () => {
       });
     });
   });
+
+  describe("Associated Data", () => {
+    const youtubeRow = "connected_services:1:youtube:oauth";
+    const githubRow = "connected_services:2:github:oauth";
+
+    it("should decrypt with the same associated data", () => {
+      const encryptedResult = encryptJson(
+        { token: "abc" },
+        testKey,
+        youtubeRow,
+      );
+      expect(encryptedResult.isOk()).toBe(true);
+
+      if (encryptedResult.isOk()) {
+        expect(encryptedResult.value.aadDigest).toBeDefined();
+
+        const decryptedResult = decryptJson(
+          encryptedResult.value,
+          testKey,
+          youtubeRow,
+        );
+        expect(decryptedResult.isOk()).toBe(true);
+
+        if (decryptedResult.isOk()) {
+          expect(decryptedResult.value).toEqual({ token: "abc" });
+        }
+      }
+    });
+
+    it("should reject data moved to a different context", () => {
+      const encryptedResult = encrypt("youtube-token", testKey, youtubeRow);
+      expect(encryptedResult.isOk()).toBe(true);
+
+      if (encryptedResult.isOk()) {
+        const decryptedResult = decrypt(
+          encryptedResult.value,
+          testKey,
+          githubRow,
+        );
+        expect(decryptedResult.isErr()).toBe(true);
+
+        if (decryptedResult.isErr()) {
+          expect(decryptedResult.error).toBeInstanceOf(
+            AssociatedDataMismatchError,
+          );
+          expect(decryptedResult.error.type).toBe("ASSOCIATED_DATA_MISMATCH");
+        }
+      }
+    });
+
+    it("should reject bound data decrypted without associated data", () => {
+      const encryptedResult = encrypt("youtube-token", testKey, youtubeRow);
+      expect(encryptedResult.isOk()).toBe(true);
+
+      if (encryptedResult.isOk()) {
+        const decryptedResult = decrypt(encryptedResult.value, testKey);
+        expect(decryptedResult.isErr()).toBe(true);
+
+        if (decryptedResult.isErr()) {
+          expect(decryptedResult.error.type).toBe("ASSOCIATED_DATA_MISMATCH");
+        }
+      }
+    });
+
+    it("should still fail authentication when the stored digest is forged", () => {
+      const encryptedResult = encrypt("youtube-token", testKey, youtubeRow);
+      expect(encryptedResult.isOk()).toBe(true);
+
+      if (encryptedResult.isOk()) {
+        const forged = encrypt("other", testKey, githubRow)._unsafeUnwrap();
+        const tamperedData = {
+          ...encryptedResult.value,
+          aadDigest: forged.aadDigest,
+        };
+
+        const decryptedResult = decrypt(tamperedData, testKey, githubRow);
+        expect(decryptedResult.isErr()).toBe(true);
+
+        if (decryptedResult.isErr()) {
+          expect(decryptedResult.error).toBeInstanceOf(DecryptionFailedError);
+        }
+      }
+    });
+  });
+
+  describe("Schema Validation", () => {
+    const OAuthTokens = Type.Object({
+      access_token: Type.String(),
+      refresh_token: Type.String(),
+      expires_at: Type.Optional(Type.Number()),
+    });
+
+    it("should return the typed object when it matches the schema", () => {
+      const tokens = { access_token: "access", refresh_token: "refresh" };
+      const encrypted = encryptJson(tokens, testKey)._unsafeUnwrap();
+
+      const result = decryptJsonWithSchema(encrypted, OAuthTokens, testKey);
+      expect(result.isOk()).toBe(true);
+
+      if (result.isOk()) {
+        expect(result.value.refresh_token).toBe("refresh");
+      }
+    });
+
+    it("should report the failing paths on a schema mismatch", () => {
+      const encrypted = encryptJson(
+        { access_token: "access", expires_at: "soon" },
+        testKey,
+      )._unsafeUnwrap();
+
+      const result = decryptJsonWithSchema(encrypted, OAuthTokens, testKey);
+      expect(result.isErr()).toBe(true);
+
+      if (result.isErr() && result.error.type === "JSON_SCHEMA_MISMATCH") {
+        expect(result.error.paths).toContain("/refresh_token");
+        expect(result.error.paths).toContain("/expires_at");
+      } else {
+        throw new Error("Expected JSON_SCHEMA_MISMATCH");
+      }
+    });
+
+    it("should pass decryption errors through unchanged", () => {
+      const encrypted = encryptJson(
+        { access_token: "a", refresh_token: "r" },
+        testKey,
+      )._unsafeUnwrap();
+
+      const result = decryptJsonWithSchema(
+        encrypted,
+        OAuthTokens,
+        generateEncryptionKey(),
+      );
+      expect(result.isErr()).toBe(true);
+
+      if (result.isErr()) {
+        expect(result.error).toBeInstanceOf(DecryptionFailedError);
+      }
+    });
+  });
 });
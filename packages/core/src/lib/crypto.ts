@@ -1,13 +1,22 @@
-import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+  timingSafeEqual,
+} from "node:crypto";
+import type { Static, TSchema } from "@sinclair/typebox";
 import { err, ok, Result } from "neverthrow";
 import type {
   DecryptErrorUnion,
   DecryptJsonErrorUnion,
+  DecryptJsonWithSchemaErrorUnion,
   EncryptedDataValidationError,
   EncryptErrorUnion,
   EncryptJsonErrorUnion,
 } from "./crypto.errors";
 import {
+  AssociatedDataMismatchError,
   DecryptionFailedError,
   EncryptionFailedError,
   InvalidAuthTagLengthError,
@@ -16,9 +25,11 @@ import {
   InvalidKeyLengthError,
   JsonParseFailedError,
   JsonSerializationFailedError,
-  MissingEncryptionKeyError,
   PlaintextTooLargeError,
 } from "./crypto.errors";
+import { validateJson } from "./json-schema";
+import type { Keyring } from "./keyring";
+import { resolveDecryptionKeys, resolveEncryptionKey } from "./keyring";
 
 /**
  * Represents encrypted data with all components needed for AES-256-GCM decryption
@@ -26,13 +37,16 @@ import {
  * @property {string} ciphertext - Base64-encoded encrypted data
  * @property {string} iv - Base64-encoded initialization vector (12 bytes)
  * @property {string} tag - Base64-encoded authentication tag (16 bytes)
+ * @property {string} [keyId] - ID of the key that sealed the data (absent on data sealed before key IDs existed)
+ * @property {string} [aadDigest] - Base64-encoded SHA-256 digest of the associated data the ciphertext is bound to
  *
  * @example
  * ```typescript
  * const encrypted: EncryptedData = {
  *   ciphertext: "encryptedDataHere...",
  *   iv: "base64IVHere...",
- *   tag: "base64TagHere..."
+ *   tag: "base64TagHere...",
+ *   keyId: "3f9c0a7e51d2b846"
  * };
  * ```
  */
@@ -40,6 +54,8 @@ export interface EncryptedData {
   ciphertext: string;
   iv: string;
   tag: string;
+  keyId?: string;
+  aadDigest?: string;
 }
 
 /**
@@ -57,17 +73,46 @@ const TAG_LENGTH = 16; // 16 bytes for GCM authentication tag
 const MAX_PLAINTEXT_SIZE = 64 * 1024; // 64KB
 
 /**
- * Gets the encryption key from environment variables
+ * Computes the digest of associated data recorded alongside the ciphertext
  *
  * @private
- * @returns {Result<string, MissingEncryptionKeyError>} Result with base64-encoded encryption key or error
  */
-function getEncryptionKey(): Result<string, MissingEncryptionKeyError> {
-  const key = process.env.ENCRYPTION_KEY;
-  if (!key) {
-    return err(new MissingEncryptionKeyError());
+function digestAssociatedData(associatedData: string): string {
+  return createHash("sha256").update(associatedData, "utf8").digest("base64");
+}
+
+/**
+ * Checks that the associated data matches what the ciphertext was bound to
+ *
+ * @private
+ * @remarks
+ * This only gives a precise error early; GCM tag verification still enforces
+ * the binding, so tampering with the stored digest cannot bypass it.
+ */
+function checkAssociatedData(
+  encryptedData: EncryptedData,
+  associatedData?: string,
+): Result<void, AssociatedDataMismatchError> {
+  const expected = encryptedData.aadDigest;
+  if (expected === undefined && associatedData === undefined) {
+    return ok(undefined);
+  }
+  if (expected === undefined || associatedData === undefined) {
+    return err(new AssociatedDataMismatchError());
   }
-  return ok(key);
+
+  const expectedBuffer = Buffer.from(expected, "base64");
+  const actualBuffer = Buffer.from(
+    digestAssociatedData(associatedData),
+    "base64",
+  );
+  if (
+    expectedBuffer.length !== actualBuffer.length ||
+    !timingSafeEqual(expectedBuffer, actualBuffer)
+  ) {
+    return err(new AssociatedDataMismatchError());
+  }
+  return ok(undefined);
 }
 
 /**
@@ -136,8 +181,9 @@ function validateEncryptedData(
  * Encrypts plaintext using AES-256-GCM
  *
  * @param {string} plaintext - The data to encrypt (UTF-8 encoded)
- * @param {string} [key] - Optional encryption key (defaults to ENCRYPTION_KEY env var)
- * @returns {Result<EncryptedData, EncryptErrorUnion>} Result with encrypted data (ciphertext + iv + tag) or error
+ * @param {string | Keyring} [key] - Optional encryption key or keyring (defaults to the keyring from env vars)
+ * @param {string} [associatedData] - Optional context the ciphertext is bound to (must be passed again to decrypt)
+ * @returns {Result<EncryptedData, EncryptErrorUnion>} Result with encrypted data (ciphertext + iv + tag + keyId) or error
  *
  * @example
  * ```typescript
@@ -168,12 +214,15 @@ function validateEncryptedData(
  * @remarks
  * - Uses AES-256-GCM for authenticated encryption
  * - Generates a unique 12-byte IV for each encryption
+ * - Records the ID of the sealing key so decrypt() can pick it from a keyring
+ * - Associated data is authenticated but not encrypted; only its digest is stored
  * - Key material is securely zeroed from memory after use
  * - Maximum plaintext size is 64KB to prevent DoS attacks
  */
 export function encrypt(
   plaintext: string,
-  key?: string,
+  key?: string | Keyring,
+  associatedData?: string,
 ): Result<EncryptedData, EncryptErrorUnion> {
   // Validate plaintext size to prevent DoS attacks
   const plaintextSize = Buffer.byteLength(plaintext, "utf8");
@@ -181,16 +230,11 @@ export function encrypt(
     return err(new PlaintextTooLargeError(MAX_PLAINTEXT_SIZE, plaintextSize));
   }
 
-  let encryptionKey: string;
-  if (key) {
-    encryptionKey = key;
-  } else {
-    const keyResult = getEncryptionKey();
-    if (keyResult.isErr()) {
-      return err(keyResult.error);
-    }
-    encryptionKey = keyResult.value;
+  const keyResult = resolveEncryptionKey(key);
+  if (keyResult.isErr()) {
+    return err(keyResult.error);
   }
+  const { keyId, key: encryptionKey } = keyResult.value;
 
   // Validate key length
   const keyBuffer = Buffer.from(encryptionKey, "base64");
@@ -205,6 +249,9 @@ export function encrypt(
 
     // Create cipher
     const cipher = createCipheriv(ALGORITHM, keyBuffer, iv);
+    if (associatedData !== undefined) {
+      cipher.setAAD(Buffer.from(associatedData, "utf8"));
+    }
 
     // Encrypt the data
     let ciphertext = cipher.update(plaintext, "utf8", "base64");
@@ -217,6 +264,10 @@ export function encrypt(
       ciphertext,
       iv: iv.toString("base64"),
       tag: tag.toString("base64"),
+      keyId,
+      ...(associatedData !== undefined && {
+        aadDigest: digestAssociatedData(associatedData),
+      }),
     });
   } catch (error) {
     return err(
@@ -234,7 +285,8 @@ export function encrypt(
  * Decrypts ciphertext using AES-256-GCM
  *
  * @param {EncryptedData} encryptedData - The encrypted data object with ciphertext, iv, and tag
- * @param {string} [key] - Optional encryption key (defaults to ENCRYPTION_KEY env var)
+ * @param {string | Keyring} [key] - Optional encryption key or keyring (defaults to the keyring from env vars)
+ * @param {string} [associatedData] - The associated data passed to encrypt (if any)
  * @returns {Result<string, DecryptErrorUnion>} Result with decrypted plaintext or error
  *
  * @example
@@ -267,6 +319,8 @@ export function encrypt(
  * - InvalidBase64FormatError - Ciphertext, IV, or tag is not valid base64
  * - InvalidKeyLengthError - Key is not 32 bytes
  * - MissingEncryptionKeyError - No key provided and ENCRYPTION_KEY env var not set
+ * - UnknownKeyIdError - The keyring does not contain the key referenced by keyId
+ * - AssociatedDataMismatchError - Associated data differs from what the data was bound to
  * - DecryptionFailedError - Decryption failed (wrong key, tampered data, etc.)
  *
  * @remarks
@@ -274,10 +328,13 @@ export function encrypt(
  * - Authentication tag verification is timing-safe (handled internally by Node.js)
  * - Key material is securely zeroed from memory after use
  * - Will fail if ciphertext, IV, or tag have been tampered with
+ * - With a keyring, the key is selected by the keyId recorded at encryption time;
+ *   data without a keyId is tried with every key of the keyring
  */
 export function decrypt(
   encryptedData: EncryptedData,
-  key?: string,
+  key?: string | Keyring,
+  associatedData?: string,
 ): Result<string, DecryptErrorUnion> {
   // Validate encrypted data format before attempting decryption
   const validationResult = validateEncryptedData(encryptedData);
@@ -285,17 +342,44 @@ export function decrypt(
     return err(validationResult.error);
   }
 
-  let encryptionKey: string;
-  if (key) {
-    encryptionKey = key;
-  } else {
-    const keyResult = getEncryptionKey();
-    if (keyResult.isErr()) {
-      return err(keyResult.error);
+  const associatedDataResult = checkAssociatedData(
+    encryptedData,
+    associatedData,
+  );
+  if (associatedDataResult.isErr()) {
+    return err(associatedDataResult.error);
+  }
+
+  const keysResult = resolveDecryptionKeys(encryptedData.keyId, key);
+  if (keysResult.isErr()) {
+    return err(keysResult.error);
+  }
+
+  // Several keys are only tried for data without a keyId
+  let result = decryptWithKey(
+    encryptedData,
+    keysResult.value[0]!,
+    associatedData,
+  );
+  for (const candidate of keysResult.value.slice(1)) {
+    if (result.isOk() || result.error.type !== "DECRYPTION_FAILED") {
+      break;
     }
-    encryptionKey = keyResult.value;
+    result = decryptWithKey(encryptedData, candidate, associatedData);
   }
+  return result;
+}
 
+/**
+ * Decrypts validated data with one key
+ *
+ * @private
+ */
+function decryptWithKey(
+  encryptedData: EncryptedData,
+  encryptionKey: string,
+  associatedData: string | undefined,
+): Result<string, InvalidKeyLengthError | DecryptionFailedError> {
   // Validate key length
   const keyBuffer = Buffer.from(encryptionKey, "base64");
   if (keyBuffer.length !== KEY_LENGTH) {
@@ -310,6 +394,9 @@ export function decrypt(
       keyBuffer,
       Buffer.from(encryptedData.iv, "base64"),
     );
+    if (associatedData !== undefined) {
+      decipher.setAAD(Buffer.from(associatedData, "utf8"));
+    }
 
     // Set the authentication tag
     // Note: GCM mode's setAuthTag + final() performs timing-safe tag verification internally
@@ -336,7 +423,8 @@ export function decrypt(
  * Encrypts a JSON object using AES-256-GCM
  *
  * @param {unknown} data - The object to encrypt (must be JSON-serializable)
- * @param {string} [key] - Optional encryption key (defaults to ENCRYPTION_KEY env var)
+ * @param {string | Keyring} [key] - Optional encryption key or keyring (defaults to the keyring from env vars)
+ * @param {string} [associatedData] - Optional context the ciphertext is bound to
  * @returns {Result<EncryptedData, EncryptJsonErrorUnion>} Result with encrypted data or error
  *
  * @example
@@ -376,7 +464,8 @@ export function decrypt(
  */
 export function encryptJson(
   data: unknown,
-  key?: string,
+  key?: string | Keyring,
+  associatedData?: string,
 ): Result<EncryptedData, EncryptJsonErrorUnion> {
   let jsonString: string;
   try {
@@ -388,7 +477,7 @@ export function encryptJson(
       ),
     );
   }
-  return encrypt(jsonString, key);
+  return encrypt(jsonString, key, associatedData);
 }
 
 /**
@@ -396,7 +485,8 @@ export function encryptJson(
  *
  * @template T - The expected type of the decrypted data (defaults to unknown)
  * @param {EncryptedData} encryptedData - The encrypted data object
- * @param {string} [key] - Optional encryption key (defaults to ENCRYPTION_KEY env var)
+ * @param {string | Keyring} [key] - Optional encryption key or keyring (defaults to the keyring from env vars)
+ * @param {string} [associatedData] - The associated data passed to encryptJson (if any)
  * @returns {Result<T, DecryptJsonErrorUnion>} Result with parsed JSON object or error
  *
  * @example
@@ -431,17 +521,18 @@ export function encryptJson(
  *
  * @remarks
  * - The type parameter T defaults to unknown for type safety
- * - Callers should provide an explicit type and validate the result
- * - Consider using a schema validation library for runtime type checking
+ * - The result is only cast to T, not checked at runtime
+ * - Use {@link decryptJsonWithSchema} to validate the shape at runtime
  * - All decryption security features from decrypt() apply
  *
  * @see {@link decrypt} for underlying decryption details
  */
 export function decryptJson<T = unknown>(
   encryptedData: EncryptedData,
-  key?: string,
+  key?: string | Keyring,
+  associatedData?: string,
 ): Result<T, DecryptJsonErrorUnion> {
-  const plaintextResult = decrypt(encryptedData, key);
+  const plaintextResult = decrypt(encryptedData, key, associatedData);
   if (plaintextResult.isErr()) {
     return err(plaintextResult.error);
   }
@@ -458,6 +549,48 @@ export function decryptJson<T = unknown>(
   }
 }
 
+/**
+ * Decrypts a JSON object and validates it against a TypeBox schema
+ *
+ * @template S - The TypeBox schema type
+ * @param {EncryptedData} encryptedData - The encrypted data object
+ * @param {S} schema - The schema the decrypted JSON must match
+ * @param {string | Keyring} [key] - Optional encryption key or keyring (defaults to the keyring from env vars)
+ * @param {string} [associatedData] - The associated data passed to encryptJson (if any)
+ * @returns {Result<Static<S>, DecryptJsonWithSchemaErrorUnion>} Result with the validated object or error
+ *
+ * @example
+ * ```typescript
+ * const OAuthTokens = t.Object({
+ *   access_token: t.String(),
+ *   refresh_token: t.String(),
+ * });
+ *
+ * const result = decryptJsonWithSchema(encryptedData, OAuthTokens);
+ * if (result.isOk()) {
+ *   console.log(result.value.refresh_token); // typed as string
+ * } else if (result.error.type === 'JSON_SCHEMA_MISMATCH') {
+ *   console.error(`Invalid token blob at: ${result.error.paths.join(", ")}`);
+ * }
+ * ```
+ *
+ * @errors
+ * - All errors from decryptJson()
+ * - JsonSchemaMismatchError - Decrypted JSON does not match the schema
+ *
+ * @see {@link decryptJson} for underlying decryption details
+ */
+export function decryptJsonWithSchema<S extends TSchema>(
+  encryptedData: EncryptedData,
+  schema: S,
+  key?: string | Keyring,
+  associatedData?: string,
+): Result<Static<S>, DecryptJsonWithSchemaErrorUnion> {
+  return decryptJson(encryptedData, key, associatedData).andThen((value) =>
+    validateJson(schema, value),
+  );
+}
+
 /**
  * Generates a cryptographically secure key and returns it as base64
  *
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "bun:test";
+import { generateEncryptionKey } from "./crypto";
+import { UnknownKeyIdError } from "./crypto.errors";
+import {
+  createLocalKekProvider,
+  openEnvelope,
+  openEnvelopeJson,
+  rewrapEnvelope,
+  sealEnvelope,
+  sealEnvelopeJson,
+} from "./envelope";
+import { createKeyring, getKeyId } from "./keyring";
+
+describe("Envelope Encryption", () => {
+  const oldKek = generateEncryptionKey();
+  const newKek = generateEncryptionKey();
+  const oldProvider = createLocalKekProvider(
+    createKeyring(oldKek)._unsafeUnwrap(),
+  );
+  const rotatedProvider = createLocalKekProvider(
+    createKeyring(newKek, [oldKek])._unsafeUnwrap(),
+  );
+
+  it("should seal and open an envelope", () => {
+    const sealedResult = sealEnvelope("refresh-token", oldProvider);
+    expect(sealedResult.isOk()).toBe(true);
+
+    if (sealedResult.isOk()) {
+      expect(sealedResult.value.version).toBe(1);
+      expect(sealedResult.value.wrappedKey.keyId).toBe(getKeyId(oldKek));
+      expect(sealedResult.value.payload.keyId).toBeUndefined();
+
+      const openedResult = openEnvelope(sealedResult.value, oldProvider);
+      expect(openedResult.isOk()).toBe(true);
+
+      if (openedResult.isOk()) {
+        expect(openedResult.value).toBe("refresh-token");
+      }
+    }
+  });
+
+  it("should use a fresh data key per record", () => {
+    const first = sealEnvelope("same", oldProvider)._unsafeUnwrap();
+    const second = sealEnvelope("same", oldProvider)._unsafeUnwrap();
+
+    expect(first.wrappedKey.ciphertext).not.toBe(second.wrappedKey.ciphertext);
+    expect(first.payload.ciphertext).not.toBe(second.payload.ciphertext);
+  });
+
+  it("should re-wrap the data key without touching the payload", () => {
+    const sealed = sealEnvelopeJson(
+      { token: "abc" },
+      oldProvider,
+    )._unsafeUnwrap();
+
+    const rewrappedResult = rewrapEnvelope(sealed, rotatedProvider);
+    expect(rewrappedResult.isOk()).toBe(true);
+
+    if (rewrappedResult.isOk()) {
+      expect(rewrappedResult.value.payload).toEqual(sealed.payload);
+      expect(rewrappedResult.value.wrappedKey.keyId).toBe(getKeyId(newKek));
+
+      const newOnly = createLocalKekProvider(
+        createKeyring(newKek)._unsafeUnwrap(),
+      );
+      const openedResult = openEnvelopeJson(rewrappedResult.value, newOnly);
+      expect(openedResult.isOk()).toBe(true);
+
+      if (openedResult.isOk()) {
+        expect(openedResult.value).toEqual({ token: "abc" });
+      }
+    }
+  });
+
+  it("should fail when the KEK is not available", () => {
+    const sealed = sealEnvelope("secret", oldProvider)._unsafeUnwrap();
+    const newOnly = createLocalKekProvider(
+      createKeyring(newKek)._unsafeUnwrap(),
+    );
+
+    const openedResult = openEnvelope(sealed, newOnly);
+    expect(openedResult.isErr()).toBe(true);
+
+    if (openedResult.isErr()) {
+      expect(openedResult.error).toBeInstanceOf(UnknownKeyIdError);
+    }
+  });
+
+  it("should bind both the wrapped key and the payload to associated data", () => {
+    const sealed = sealEnvelope("secret", oldProvider, "row-1")._unsafeUnwrap();
+
+    expect(sealed.wrappedKey.aadDigest).toBeDefined();
+    expect(sealed.payload.aadDigest).toBeDefined();
+
+    const openedResult = openEnvelope(sealed, oldProvider, "row-2");
+    expect(openedResult.isErr()).toBe(true);
+
+    if (openedResult.isErr()) {
+      expect(openedResult.error.type).toBe("ASSOCIATED_DATA_MISMATCH");
+    }
+  });
+});
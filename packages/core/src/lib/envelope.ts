@@ -0,0 +1,272 @@
+import { err, ok, Result } from "neverthrow";
+import type { EncryptedData } from "./crypto";
+import { decrypt, encrypt, generateEncryptionKey } from "./crypto";
+import type {
+  DecryptErrorUnion,
+  DecryptJsonErrorUnion,
+  EncryptErrorUnion,
+  EncryptJsonErrorUnion,
+  KeyringErrorUnion,
+} from "./crypto.errors";
+import {
+  JsonParseFailedError,
+  JsonSerializationFailedError,
+} from "./crypto.errors";
+import type { Keyring } from "./keyring";
+import { getDefaultKeyring } from "./keyring";
+
+/**
+ * Represents data sealed with envelope encryption
+ *
+ * @property {1} version - Envelope format version
+ * @property {EncryptedData} wrappedKey - The per-record data key, encrypted by the key encryption key (KEK)
+ * @property {EncryptedData} payload - The plaintext, encrypted by the data key
+ *
+ * @remarks
+ * `wrappedKey.keyId` identifies the KEK. Rotating the KEK only re-wraps the
+ * small data key; the payload stays untouched.
+ */
+export interface EnvelopeData {
+  version: 1;
+  wrappedKey: EncryptedData;
+  payload: EncryptedData;
+}
+
+/**
+ * A key encryption key (KEK) provider that wraps and unwraps data keys
+ *
+ * @remarks
+ * The local provider keeps the KEKs in memory (from ENCRYPTION_KEY or
+ * ENCRYPTION_KEY_FILE). Other providers (e.g. a cloud KMS) can implement
+ * the same interface without touching the envelope format.
+ */
+export interface KekProvider {
+  /** ID of the KEK used to wrap new data keys */
+  readonly activeKeyId: string;
+  /** Encrypts a base64-encoded data key with the active KEK */
+  wrapKey(
+    dataKey: string,
+    associatedData?: string,
+  ): Result<EncryptedData, EncryptErrorUnion>;
+  /** Decrypts a wrapped data key with the KEK referenced by its keyId */
+  unwrapKey(
+    wrappedKey: EncryptedData,
+    associatedData?: string,
+  ): Result<string, DecryptErrorUnion>;
+}
+
+const ENVELOPE_VERSION = 1 as const;
+
+/**
+ * Creates a KEK provider backed by a local keyring
+ *
+ * @param {Keyring} keyring - Keyring holding the active and retired KEKs
+ * @returns {KekProvider} The local KEK provider
+ */
+export function createLocalKekProvider(keyring: Keyring): KekProvider {
+  return {
+    activeKeyId: keyring.activeKeyId,
+    wrapKey: (dataKey, associatedData) =>
+      encrypt(dataKey, keyring, associatedData),
+    unwrapKey: (wrappedKey, associatedData) =>
+      decrypt(wrappedKey, keyring, associatedData),
+  };
+}
+
+/**
+ * Resolves the KEK provider to use
+ *
+ * @private
+ * @param {KekProvider} [kek] - Explicit provider (defaults to the local provider from env vars)
+ */
+function resolveKekProvider(
+  kek?: KekProvider,
+): Result<KekProvider, KeyringErrorUnion> {
+  if (kek) {
+    return ok(kek);
+  }
+  return getDefaultKeyring().map(createLocalKekProvider);
+}
+
+/**
+ * Strips the key ID of the data key from an encrypted payload
+ *
+ * @private
+ * @remarks
+ * The data key is unique per record, so its fingerprint carries no information.
+ */
+function withoutKeyId({
+  keyId: _keyId,
+  ...data
+}: EncryptedData): EncryptedData {
+  return data;
+}
+
+/**
+ * Type guard for the shape of EnvelopeData
+ *
+ * @param {unknown} value - The value to check
+ * @returns {boolean} Whether the value is an envelope
+ */
+export function isEnvelopeData(value: unknown): value is EnvelopeData {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const candidate = value as Record<string, unknown>;
+  return (
+    candidate.version === ENVELOPE_VERSION &&
+    typeof candidate.wrappedKey === "object" &&
+    candidate.wrappedKey !== null &&
+    typeof candidate.payload === "object" &&
+    candidate.payload !== null
+  );
+}
+
+/**
+ * Encrypts plaintext with a fresh data key and wraps the data key with the KEK
+ *
+ * @param {string} plaintext - The data to encrypt (UTF-8 encoded)
+ * @param {KekProvider} [kek] - Optional KEK provider (defaults to the local provider from env vars)
+ * @param {string} [associatedData] - Optional context both the payload and the wrapped key are bound to
+ * @returns {Result<EnvelopeData, EncryptErrorUnion>} Result with the envelope or error
+ *
+ * @example
+ * ```typescript
+ * const result = sealEnvelope("refresh-token", undefined, "connected_services:1");
+ * if (result.isOk()) {
+ *   console.log("Wrapped with KEK:", result.value.wrappedKey.keyId);
+ * }
+ * ```
+ *
+ * @errors
+ * - All errors from encrypt() (plaintext too large, invalid or missing key, etc.)
+ *
+ * @remarks
+ * - Every call generates a new random 32-byte data key
+ * - The plaintext size limit of encrypt() (64KB) applies to the payload
+ */
+export function sealEnvelope(
+  plaintext: string,
+  kek?: KekProvider,
+  associatedData?: string,
+): Result<EnvelopeData, EncryptErrorUnion> {
+  return resolveKekProvider(kek).andThen((provider) => {
+    const dataKey = generateEncryptionKey();
+
+    return encrypt(plaintext, dataKey, associatedData).andThen((payload) =>
+      provider.wrapKey(dataKey, associatedData).map((wrappedKey) => ({
+        version: ENVELOPE_VERSION,
+        wrappedKey,
+        payload: withoutKeyId(payload),
+      })),
+    );
+  });
+}
+
+/**
+ * Unwraps the data key and decrypts an envelope
+ *
+ * @param {EnvelopeData} envelope - The envelope to open
+ * @param {KekProvider} [kek] - Optional KEK provider (defaults to the local provider from env vars)
+ * @param {string} [associatedData] - The associated data passed to sealEnvelope (if any)
+ * @returns {Result<string, DecryptErrorUnion>} Result with the plaintext or error
+ *
+ * @errors
+ * - All errors from decrypt() (unknown KEK, associated data mismatch, tampering, etc.)
+ */
+export function openEnvelope(
+  envelope: EnvelopeData,
+  kek?: KekProvider,
+  associatedData?: string,
+): Result<string, DecryptErrorUnion> {
+  return resolveKekProvider(kek)
+    .andThen((provider) =>
+      provider.unwrapKey(envelope.wrappedKey, associatedData),
+    )
+    .andThen((dataKey) => decrypt(envelope.payload, dataKey, associatedData));
+}
+
+/**
+ * Re-wraps the data key of an envelope with the active KEK
+ *
+ * @param {EnvelopeData} envelope - The envelope to re-wrap
+ * @param {KekProvider} [kek] - Optional KEK provider (defaults to the local provider from env vars)
+ * @param {string} [associatedData] - The associated data passed to sealEnvelope (if any)
+ * @returns {Result<EnvelopeData, DecryptErrorUnion | EncryptErrorUnion>} Result with the re-wrapped envelope or error
+ *
+ * @remarks
+ * The payload is neither decrypted nor changed, which makes KEK rotation
+ * cheap regardless of the payload size.
+ */
+export function rewrapEnvelope(
+  envelope: EnvelopeData,
+  kek?: KekProvider,
+  associatedData?: string,
+): Result<EnvelopeData, DecryptErrorUnion | EncryptErrorUnion> {
+  return resolveKekProvider(kek).andThen((provider) =>
+    provider
+      .unwrapKey(envelope.wrappedKey, associatedData)
+      .andThen((dataKey) => provider.wrapKey(dataKey, associatedData))
+      .map((wrappedKey) => ({ ...envelope, wrappedKey })),
+  );
+}
+
+/**
+ * Encrypts a JSON object with envelope encryption
+ *
+ * @param {unknown} data - The object to encrypt (must be JSON-serializable)
+ * @param {KekProvider} [kek] - Optional KEK provider (defaults to the local provider from env vars)
+ * @param {string} [associatedData] - Optional context the envelope is bound to
+ * @returns {Result<EnvelopeData, EncryptJsonErrorUnion>} Result with the envelope or error
+ *
+ * @see {@link sealEnvelope} for underlying encryption details
+ */
+export function sealEnvelopeJson(
+  data: unknown,
+  kek?: KekProvider,
+  associatedData?: string,
+): Result<EnvelopeData, EncryptJsonErrorUnion> {
+  let jsonString: string;
+  try {
+    jsonString = JSON.stringify(data);
+  } catch (error) {
+    return err(
+      new JsonSerializationFailedError(
+        error instanceof Error ? error : new Error(String(error)),
+      ),
+    );
+  }
+  return sealEnvelope(jsonString, kek, associatedData);
+}
+
+/**
+ * Decrypts a JSON object sealed with envelope encryption
+ *
+ * @template T - The expected type of the decrypted data (defaults to unknown)
+ * @param {EnvelopeData} envelope - The envelope to open
+ * @param {KekProvider} [kek] - Optional KEK provider (defaults to the local provider from env vars)
+ * @param {string} [associatedData] - The associated data passed to sealEnvelopeJson (if any)
+ * @returns {Result<T, DecryptJsonErrorUnion>} Result with the parsed JSON object or error
+ *
+ * @see {@link openEnvelope} for underlying decryption details
+ */
+export function openEnvelopeJson<T = unknown>(
+  envelope: EnvelopeData,
+  kek?: KekProvider,
+  associatedData?: string,
+): Result<T, DecryptJsonErrorUnion> {
+  const plaintextResult = openEnvelope(envelope, kek, associatedData);
+  if (plaintextResult.isErr()) {
+    return err(plaintextResult.error);
+  }
+
+  try {
+    return ok(JSON.parse(plaintextResult.value) as T);
+  } catch (error) {
+    return err(
+      new JsonParseFailedError(
+        error instanceof Error ? error : new Error(String(error)),
+      ),
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import type {
+  SchemaOptions,
+  Static,
+  TLiteral,
+  TSchema,
+  TUnion,
+} from "@sinclair/typebox";
+import { Type } from "@sinclair/typebox";
+import { Value } from "@sinclair/typebox/value";
+import { err, ok, Result } from "neverthrow";
+import { JsonSchemaMismatchError } from "./crypto.errors";
+
+/**
+ * Validates a parsed JSON value against a TypeBox schema
+ *
+ * @template S - The TypeBox schema type
+ * @param {S} schema - The schema the value must match
+ * @param {unknown} value - The parsed JSON value
+ * @returns {Result<Static<S>, JsonSchemaMismatchError>} Result with the typed value or error
+ *
+ * @example
+ * ```typescript
+ * const OAuthTokens = t.Object({ access_token: t.String(), refresh_token: t.String() });
+ * const result = validateJson(OAuthTokens, JSON.parse(plaintext));
+ * if (result.isErr()) {
+ *   console.error(result.error.paths); // ["/refresh_token"]
+ * }
+ * ```
+ *
+ * @errors
+ * - JsonSchemaMismatchError - The value does not match; carries every failing path
+ *
+ * @remarks
+ * - The value is checked as-is: no defaults are applied and nothing is coerced
+ */
+export function validateJson<S extends TSchema>(
+  schema: S,
+  value: unknown,
+): Result<Static<S>, JsonSchemaMismatchError> {
+  if (Value.Check(schema, value)) {
+    return ok(value);
+  }
+
+  const issues = [...Value.Errors(schema, value)].map((error) => ({
+    path: error.path,
+    message: error.message,
+  }));
+  return err(new JsonSchemaMismatchError(issues));
+}
+
+/**
+ * Builds a union schema of string literals from a constant list
+ *
+ * @template T - The literal values
+ * @param {T} values - The allowed values (e.g. an `as const` array)
+ * @param {SchemaOptions} [options] - Schema options (description, ...)
+ * @returns {TUnion} A union of one literal schema per value
+ *
+ * @example
+ * ```typescript
+ * const FORMATS = ["json", "csv"] as const;
+ * const Format = literalUnion(FORMATS); // Static<typeof Format> = "json" | "csv"
+ * ```
+ *
+ * @remarks
+ * Mapping the list with `Type.Literal` directly loses the literal types.
+ */
+export function literalUnion<const T extends readonly string[]>(
+  values: T,
+  options?: SchemaOptions,
+): TUnion<{ -readonly [K in keyof T]: TLiteral<T[K]> }> {
+  return Type.Union(
+    values.map((value) => Type.Literal(value)),
+    options,
+  ) as unknown as TUnion<{ -readonly [K in keyof T]: TLiteral<T[K]> }>;
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "bun:test";
+import { decrypt, encrypt, generateEncryptionKey } from "./crypto";
+import { InvalidKeyLengthError, UnknownKeyIdError } from "./crypto.errors";
+import { createKeyring, getKeyId } from "./keyring";
+
+describe("Keyring", () => {
+  const oldKey = generateEncryptionKey();
+  const newKey = generateEncryptionKey();
+
+  it("should derive stable, distinct key IDs", () => {
+    expect(getKeyId(oldKey)).toBe(getKeyId(oldKey));
+    expect(getKeyId(oldKey)).not.toBe(getKeyId(newKey));
+    expect(getKeyId(oldKey)).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it("should reject keys with an invalid length", () => {
+    const result = createKeyring(newKey, ["too-short"]);
+    expect(result.isErr()).toBe(true);
+
+    if (result.isErr()) {
+      expect(result.error).toBeInstanceOf(InvalidKeyLengthError);
+    }
+  });
+
+  it("should record the active key ID when encrypting", () => {
+    const keyring = createKeyring(newKey, [oldKey])._unsafeUnwrap();
+
+    const encryptedResult = encrypt("secret", keyring);
+    expect(encryptedResult.isOk()).toBe(true);
+
+    if (encryptedResult.isOk()) {
+      expect(encryptedResult.value.keyId).toBe(getKeyId(newKey));
+    }
+  });
+
+  it("should decrypt data sealed with a retired key", () => {
+    const sealedWithOldKey = encrypt("secret", oldKey)._unsafeUnwrap();
+    const keyring = createKeyring(newKey, [oldKey])._unsafeUnwrap();
+
+    const decryptedResult = decrypt(sealedWithOldKey, keyring);
+    expect(decryptedResult.isOk()).toBe(true);
+
+    if (decryptedResult.isOk()) {
+      expect(decryptedResult.value).toBe("secret");
+    }
+  });
+
+  it("should decrypt data without a key ID using the active key", () => {
+    const { keyId: _keyId, ...legacy } = encrypt(
+      "secret",
+      newKey,
+    )._unsafeUnwrap();
+    const keyring = createKeyring(newKey)._unsafeUnwrap();
+
+    const decryptedResult = decrypt(legacy, keyring);
+    expect(decryptedResult.isOk()).toBe(true);
+  });
+
+  it("should try the retired keys for data without a key ID", () => {
+    const { keyId: _keyId, ...legacy } = encrypt(
+      "secret",
+      oldKey,
+    )._unsafeUnwrap();
+    const keyring = createKeyring(newKey, [oldKey])._unsafeUnwrap();
+
+    expect(decrypt(legacy, keyring)._unsafeUnwrap()).toBe("secret");
+    expect(
+      decrypt(legacy, createKeyring(newKey)._unsafeUnwrap())._unsafeUnwrapErr()
+        .type,
+    ).toBe("DECRYPTION_FAILED");
+  });
+
+  it("should fail when the key ID is not in the keyring", () => {
+    const sealedWithOldKey = encrypt("secret", oldKey)._unsafeUnwrap();
+    const keyring = createKeyring(newKey)._unsafeUnwrap();
+
+    const decryptedResult = decrypt(sealedWithOldKey, keyring);
+    expect(decryptedResult.isErr()).toBe(true);
+
+    if (decryptedResult.isErr()) {
+      const error = decryptedResult.error;
+      expect(error).toBeInstanceOf(UnknownKeyIdError);
+
+      if (error.type === "UNKNOWN_KEY_ID") {
+        expect(error.keyId).toBe(getKeyId(oldKey));
+      }
+    }
+  });
+});
@@ -0,0 +1,318 @@
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { err, ok, Result } from "neverthrow";
+import type { ConfigEnv } from "../config/config";
+import type { KeyringErrorUnion } from "./crypto.errors";
+import {
+  InvalidKeyLengthError,
+  KeyFileReadFailedError,
+  MissingEncryptionKeyError,
+  UnknownKeyIdError,
+} from "./crypto.errors";
+
+/**
+ * A set of AES-256 keys of which exactly one is active.
+ *
+ * @property {string} activeKeyId - ID of the key used for all new encryptions
+ * @property {ReadonlyMap<string, string>} keys - Base64-encoded keys by key ID (active + retired)
+ *
+ * @remarks
+ * Key IDs are fingerprints derived from the key material (see {@link getKeyId}),
+ * so they never have to be configured by hand and cannot drift from the key.
+ * Retired keys are only used to decrypt data that was sealed before a rotation.
+ */
+export interface Keyring {
+  readonly activeKeyId: string;
+  readonly keys: ReadonlyMap<string, string>;
+}
+
+/**
+ * A single key resolved from a keyring
+ */
+export interface ResolvedKey {
+  keyId: string;
+  key: string;
+}
+
+const KEY_LENGTH = 32; // 32 bytes for AES-256
+const KEY_ID_LENGTH = 16; // hex characters of the fingerprint
+const KEY_ID_DOMAIN = "coresvc:key-id:v1";
+
+// Keyring of the service, set at startup from `config.encryption`
+let defaultKeyring: Keyring | null = null;
+
+/**
+ * Derives the stable key ID for a base64-encoded key
+ *
+ * @param {string} key - Base64-encoded encryption key
+ * @returns {string} 16 hex character fingerprint of the key
+ *
+ * @remarks
+ * - The fingerprint is a domain-separated SHA-256 hash, truncated to 64 bits
+ * - It identifies a key without revealing anything usable about it
+ */
+export function getKeyId(key: string): string {
+  const keyBuffer = Buffer.from(key, "base64");
+  try {
+    return createHash("sha256")
+      .update(KEY_ID_DOMAIN)
+      .update(keyBuffer)
+      .digest("hex")
+      .slice(0, KEY_ID_LENGTH);
+  } finally {
+    keyBuffer.fill(0);
+  }
+}
+
+/**
+ * Validates that a base64-encoded key decodes to exactly 32 bytes
+ *
+ * @private
+ */
+function validateKey(key: string): Result<void, InvalidKeyLengthError> {
+  const keyBuffer = Buffer.from(key, "base64");
+  const length = keyBuffer.length;
+  keyBuffer.fill(0);
+  if (length !== KEY_LENGTH) {
+    return err(new InvalidKeyLengthError(KEY_LENGTH, length));
+  }
+  return ok(undefined);
+}
+
+/**
+ * Creates a keyring from an active key and any number of retired keys
+ *
+ * @param {string} activeKey - Base64-encoded key used for new encryptions
+ * @param {string[]} [retiredKeys] - Base64-encoded keys kept for decryption only
+ * @returns {Result<Keyring, InvalidKeyLengthError>} Result with the keyring or error
+ *
+ * @example
+ * ```typescript
+ * const result = createKeyring(newKey, [oldKey]);
+ * if (result.isOk()) {
+ *   const encrypted = encrypt("secret", result.value); // sealed with newKey
+ * }
+ * ```
+ *
+ * @errors
+ * - InvalidKeyLengthError - One of the keys is not 32 bytes
+ */
+export function createKeyring(
+  activeKey: string,
+  retiredKeys: string[] = [],
+): Result<Keyring, InvalidKeyLengthError> {
+  const keys = new Map<string, string>();
+
+  for (const key of [activeKey, ...retiredKeys]) {
+    const validation = validateKey(key);
+    if (validation.isErr()) {
+      return err(validation.error);
+    }
+    const keyId = getKeyId(key);
+    if (!keys.has(keyId)) {
+      keys.set(keyId, key);
+    }
+  }
+
+  return ok({ activeKeyId: getKeyId(activeKey), keys });
+}
+
+/**
+ * Splits a list of base64-encoded keys separated by commas or newlines
+ *
+ * @private
+ */
+function splitKeys(value: string): string[] {
+  return value
+    .split(/[,\n]/)
+    .map((key) => key.trim())
+    .filter((key) => key.length > 0 && !key.startsWith("#"));
+}
+
+/**
+ * Loads a keyring from a local key file
+ *
+ * @param {string} path - Path to the key file
+ * @returns {Result<Keyring, KeyringErrorUnion>} Result with the keyring or error
+ *
+ * @errors
+ * - KeyFileReadFailedError - The file cannot be read
+ * - MissingEncryptionKeyError - The file contains no key
+ * - InvalidKeyLengthError - One of the keys is not 32 bytes
+ *
+ * @remarks
+ * - One base64-encoded key per line, lines starting with `#` are ignored
+ * - The first key is active, all following keys are retired
+ */
+export function loadKeyringFromFile(
+  path: string,
+): Result<Keyring, KeyringErrorUnion> {
+  let content: string;
+  try {
+    content = readFileSync(path, "utf8");
+  } catch (error) {
+    return err(
+      new KeyFileReadFailedError(
+        path,
+        error instanceof Error ? error : new Error(String(error)),
+      ),
+    );
+  }
+
+  const [activeKey, ...retiredKeys] = splitKeys(content);
+  if (!activeKey) {
+    return err(new MissingEncryptionKeyError());
+  }
+  return createKeyring(activeKey, retiredKeys);
+}
+
+/**
+ * Loads the keyring from environment variables
+ *
+ * @param {ConfigEnv} env - The env vars
+ * @returns {Result<Keyring, KeyringErrorUnion>} Result with the keyring or error
+ *
+ * @errors
+ * - MissingEncryptionKeyError - Neither ENCRYPTION_KEY nor ENCRYPTION_KEY_FILE is set
+ * - KeyFileReadFailedError - ENCRYPTION_KEY_FILE cannot be read
+ * - InvalidKeyLengthError - The active key or one of the retired keys is not 32 bytes
+ *
+ * @remarks
+ * - `ENCRYPTION_KEY` is the active key
+ * - `ENCRYPTION_RETIRED_KEYS` is an optional comma-separated list of previous keys
+ * - `ENCRYPTION_KEY_FILE` points to a key file instead (see {@link loadKeyringFromFile})
+ * - Only `loadConfig` calls this; everything else uses the default keyring
+ *   (see {@link setDefaultKeyring})
+ */
+export function loadKeyringFromEnv(
+  env: ConfigEnv,
+): Result<Keyring, KeyringErrorUnion> {
+  if (env.ENCRYPTION_KEY_FILE) {
+    return loadKeyringFromFile(env.ENCRYPTION_KEY_FILE);
+  }
+  if (!env.ENCRYPTION_KEY) {
+    return err(new MissingEncryptionKeyError());
+  }
+  return createKeyring(
+    env.ENCRYPTION_KEY,
+    splitKeys(env.ENCRYPTION_RETIRED_KEYS ?? ""),
+  );
+}
+
+/**
+ * Sets the keyring used when no key is passed explicitly
+ *
+ * @param {Keyring | null} keyring - `config.encryption.keyring` (null unsets it)
+ */
+export function setDefaultKeyring(keyring: Keyring | null): void {
+  defaultKeyring = keyring;
+}
+
+/**
+ * Returns the keyring set at startup
+ *
+ * @returns {Result<Keyring, MissingEncryptionKeyError>} The keyring or error
+ *
+ * @errors
+ * - MissingEncryptionKeyError - No keyring was set (the config was not applied)
+ */
+export function getDefaultKeyring(): Result<
+  Keyring,
+  MissingEncryptionKeyError
+> {
+  return defaultKeyring
+    ? ok(defaultKeyring)
+    : err(new MissingEncryptionKeyError());
+}
+
+/**
+ * Resolves the key to use from a keyring
+ *
+ * @param {Keyring} keyring - The keyring to look up
+ * @param {string} [keyId] - Key ID to resolve (defaults to the active key)
+ * @returns {Result<ResolvedKey, UnknownKeyIdError>} Result with the key or error
+ *
+ * @errors
+ * - UnknownKeyIdError - The keyring does not contain the requested key
+ */
+export function resolveKey(
+  keyring: Keyring,
+  keyId: string = keyring.activeKeyId,
+): Result<ResolvedKey, UnknownKeyIdError> {
+  const key = keyring.keys.get(keyId);
+  if (!key) {
+    return err(new UnknownKeyIdError(keyId));
+  }
+  return ok({ keyId, key });
+}
+
+/**
+ * Resolves the key used for encryption
+ *
+ * @param {string | Keyring} [key] - Explicit key or keyring (defaults to the keyring from env vars)
+ * @returns {Result<ResolvedKey, KeyringErrorUnion | UnknownKeyIdError>} Result with the active key and its ID or error
+ */
+export function resolveEncryptionKey(
+  key?: string | Keyring,
+): Result<ResolvedKey, KeyringErrorUnion | UnknownKeyIdError> {
+  if (typeof key === "string" && key) {
+    return ok({ keyId: getKeyId(key), key });
+  }
+
+  const keyringResult = typeof key === "object" ? ok(key) : getDefaultKeyring();
+  return keyringResult.andThen((keyring) => resolveKey(keyring));
+}
+
+/**
+ * Resolves the keys to try for decryption
+ *
+ * @param {string} [keyId] - ID of the key that sealed the data
+ * @param {string | Keyring} [key] - Explicit key or keyring (defaults to the keyring from env vars)
+ * @returns {Result<string[], KeyringErrorUnion | UnknownKeyIdError>} Result with the base64-encoded keys or error
+ *
+ * @remarks
+ * An explicit key string is always used as-is. Data without a keyId predates
+ * key IDs and may have been sealed with any key of the keyring (a rotation
+ * retires the key it was sealed with): every key is returned, the active key
+ * first.
+ */
+export function resolveDecryptionKeys(
+  keyId: string | undefined,
+  key?: string | Keyring,
+): Result<string[], KeyringErrorUnion | UnknownKeyIdError> {
+  if (typeof key === "string" && key) {
+    return ok([key]);
+  }
+
+  const keyringResult = typeof key === "object" ? ok(key) : getDefaultKeyring();
+  return keyringResult.andThen((keyring) => {
+    if (keyId !== undefined) {
+      return resolveKey(keyring, keyId).map((resolved) => [resolved.key]);
+    }
+    return resolveKey(keyring).map((active) => [
+      active.key,
+      ...[...keyring.keys]
+        .filter(([id]) => id !== active.keyId)
+        .map(([, retired]) => retired),
+    ]);
+  });
+}
+
+/**
+ * Resolves the key used for decryption
+ *
+ * @param {string} [keyId] - ID of the key that sealed the data
+ * @param {string | Keyring} [key] - Explicit key or keyring (defaults to the keyring from env vars)
+ * @returns {Result<string, KeyringErrorUnion | UnknownKeyIdError>} Result with the base64-encoded key or error
+ *
+ * @remarks
+ * Only the first candidate of {@link resolveDecryptionKeys}: without a keyId
+ * that is the active key, so data predating key IDs should be opened with
+ * `decrypt()`, which tries every key.
+ */
+export function resolveDecryptionKey(
+  keyId: string | undefined,
+  key?: string | Keyring,
+): Result<string, KeyringErrorUnion | UnknownKeyIdError> {
+  return resolveDecryptionKeys(keyId, key).map(([first]) => first!);
+}
@@ -0,0 +1,68 @@
+/**
+ * Lifecycle Error Types
+ *
+ * Discriminated union type for all errors of starting and stopping the
+ * service.
+ */
+export type LifecycleErrorType =
+  | "LIFECYCLE_HOOK_FAILED"
+  | "LIFECYCLE_HOOK_TIMEOUT";
+
+/**
+ * Phase a hook ran in
+ */
+export type LifecyclePhase = "start" | "stop";
+
+/**
+ * Base class for all lifecycle errors.
+ */
+export abstract class LifecycleError extends Error {
+  abstract readonly type: LifecycleErrorType;
+
+  constructor(message: string) {
+    super(message);
+    this.name = this.constructor.name;
+    Error.captureStackTrace?.(this, this.constructor);
+  }
+}
+
+/**
+ * Error thrown when a start or stop hook throws or returns an error.
+ */
+export class LifecycleHookFailedError extends LifecycleError {
+  readonly type = "LIFECYCLE_HOOK_FAILED" as const;
+
+  constructor(
+    public readonly hook: string,
+    public readonly phase: LifecyclePhase,
+    public readonly cause: Error,
+  ) {
+    super(`Failed to ${phase} ${hook}: ${cause.message}`);
+  }
+}
+
+/**
+ * Error thrown when a start or stop hook does not finish in time.
+ *
+ * @remarks
+ * The hook's signal is aborted, so it can cut its work short (close
+ * connections, checkpoint jobs) before the next hook runs.
+ */
+export class LifecycleHookTimeoutError extends LifecycleError {
+  readonly type = "LIFECYCLE_HOOK_TIMEOUT" as const;
+
+  constructor(
+    public readonly hook: string,
+    public readonly phase: LifecyclePhase,
+    public readonly timeoutMs: number,
+  ) {
+    super(`Timed out after ${timeoutMs} ms waiting for ${hook} to ${phase}`);
+  }
+}
+
+/**
+ * Union type of all lifecycle errors.
+ */
+export type LifecycleErrorUnion =
+  | LifecycleHookFailedError
+  | LifecycleHookTimeoutError;
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "bun:test";
+import { constants } from "node:os";
+import { errAsync } from "neverthrow";
+import type { LifecycleHook } from "./lifecycle";
+import { createLifecycle, EXIT_CODES } from "./lifecycle";
+
+describe("Lifecycle", () => {
+  /** A hook that records its start and stop in `events` */
+  function recorded(
+    events: string[],
+    name: string,
+    hook: Partial<LifecycleHook> = {},
+  ): LifecycleHook {
+    return {
+      name,
+      start: () => void events.push(`start ${name}`),
+      stop: () => void events.push(`stop ${name}`),
+      ...hook,
+    };
+  }
+
+  it("should start hooks in order and stop them in reverse, once", async () => {
+    const events: string[] = [];
+    const lifecycle = createLifecycle();
+    lifecycle.register(recorded(events, "database"));
+    lifecycle.register(recorded(events, "scheduler", { start: undefined }));
+    lifecycle.register(recorded(events, "http"));
+
+    (await lifecycle.start())._unsafeUnwrap();
+    const [first, second] = await Promise.all([
+      lifecycle.stop(),
+      lifecycle.stop(),
+    ]);
+
+    expect(first).toEqual([]);
+    expect(second).toBe(first);
+    expect(events).toEqual([
+      "start database",
+      "start http",
+      "stop http",
+      "stop scheduler",
+      "stop database",
+    ]);
+  });
+
+  it("should stop the started hooks when one fails to start", async () => {
+    const events: string[] = [];
+    const lifecycle = createLifecycle();
+    lifecycle.register(recorded(events, "database"));
+    lifecycle.register(
+      recorded(events, "bot", {
+        start: () => errAsync(new Error("invalid token")),
+      }),
+    );
+    lifecycle.register(recorded(events, "http"));
+
+    const error = (await lifecycle.start())._unsafeUnwrapErr();
+
+    expect(error.type).toBe("LIFECYCLE_HOOK_FAILED");
+    expect(error.message).toBe("Failed to start bot: invalid token");
+    expect(events).toEqual(["start database", "stop database"]);
+  });
+
+  it("should abort a stop hook that times out and stop the others", async () => {
+    const events: string[] = [];
+    const lifecycle = createLifecycle({ stopTimeoutMs: 20, abortGraceMs: 50 });
+    lifecycle.register(recorded(events, "database"));
+    lifecycle.register(
+      recorded(events, "scheduler", {
+        stop: (signal) =>
+          new Promise<void>((resolve) =>
+            signal.addEventListener("abort", () => {
+              events.push("checkpoint scheduler");
+              resolve();
+            }),
+          ),
+      }),
+    );
+    lifecycle.register(
+      recorded(events, "bot", {
+        stop: () => {
+          throw new Error("already stopped");
+        },
+      }),
+    );
+
+    (await lifecycle.start())._unsafeUnwrap();
+    const errors = await lifecycle.stop();
+
+    expect(errors.map((error) => error.type)).toEqual([
+      "LIFECYCLE_HOOK_FAILED",
+      "LIFECYCLE_HOOK_TIMEOUT",
+    ]);
+    expect(events).toEqual([
+      "start database",
+      "start scheduler",
+      "start bot",
+      "checkpoint scheduler",
+      "stop database",
+    ]);
+  });
+
+  it("should exit once stopped, and right away on a second signal", async () => {
+    const codes: number[] = [];
+    const lifecycle = createLifecycle({ stopTimeoutMs: 20, abortGraceMs: 0 });
+    let finishStop = () => {};
+    lifecycle.register({
+      name: "http",
+      stop: () => new Promise<void>((resolve) => (finishStop = resolve)),
+    });
+    (await lifecycle.start())._unsafeUnwrap();
+
+    const uninstall = lifecycle.handleSignals({
+      signals: ["SIGUSR2"],
+      exit: (code) => codes.push(code),
+    });
+    try {
+      process.emit("SIGUSR2", "SIGUSR2");
+      process.emit("SIGUSR2", "SIGUSR2");
+      expect(codes).toEqual([128 + constants.signals.SIGUSR2]);
+      finishStop();
+      await lifecycle.stop();
+      await Bun.sleep(0);
+      expect(codes).toEqual([128 + constants.signals.SIGUSR2, EXIT_CODES.ok]);
+    } finally {
+      uninstall();
+    }
+  });
+});
@@ -0,0 +1,268 @@
+import { constants } from "node:os";
+import { Err, err, ok, ResultAsync } from "neverthrow";
+import type { LifecycleErrorUnion, LifecyclePhase } from "./lifecycle.errors";
+import {
+  LifecycleHookFailedError,
+  LifecycleHookTimeoutError,
+} from "./lifecycle.errors";
+
+/**
+ * Starts or stops a component
+ *
+ * Fails by throwing, rejecting, or resolving to an `Err` (a `ResultAsync`
+ * can be returned as-is). The signal is aborted once the step ran out of
+ * time.
+ */
+export type LifecycleStep = (signal: AbortSignal) => unknown;
+
+/**
+ * A component of the service
+ *
+ * @property {string} name - Name used in logs and errors
+ * @property {LifecycleStep} [start] - Brings the component up
+ * @property {LifecycleStep} [stop] - Shuts it down (only called once `start` succeeded)
+ * @property {number} [startTimeoutMs] - Overrides the default start timeout
+ * @property {number} [stopTimeoutMs] - Overrides the default stop timeout
+ */
+export interface LifecycleHook {
+  name: string;
+  start?: LifecycleStep;
+  stop?: LifecycleStep;
+  startTimeoutMs?: number;
+  stopTimeoutMs?: number;
+}
+
+/**
+ * Options of {@link createLifecycle}
+ *
+ * @property {number} [startTimeoutMs] - Default time a hook may take to start (default 30 s)
+ * @property {number} [stopTimeoutMs] - Default time a hook may take to stop (default 10 s)
+ * @property {number} [abortGraceMs] - How long a timed-out hook gets to react to its aborted signal (default 2 s)
+ */
+export interface LifecycleOptions {
+  startTimeoutMs?: number;
+  stopTimeoutMs?: number;
+  abortGraceMs?: number;
+}
+
+/**
+ * Options of {@link Lifecycle.handleSignals}
+ *
+ * @property {NodeJS.Signals[]} [signals] - Signals that trigger the shutdown (default SIGTERM and SIGINT)
+ * @property {(code: number) => void} [exit] - Ends the process (default `process.exit`)
+ */
+export interface SignalOptions {
+  signals?: NodeJS.Signals[];
+  exit?: (code: number) => void;
+}
+
+/**
+ * Ordered start and stop of the service's components
+ *
+ * @property register - Adds a hook; hooks start in registration order and stop in reverse
+ * @property start - Starts every hook; on failure, stops the ones already started
+ * @property stop - Stops the started hooks and resolves with every problem (never rejects, runs once)
+ * @property handleSignals - Stops and exits on SIGTERM/SIGINT; returns a function removing the handlers
+ */
+export interface Lifecycle {
+  register(hook: LifecycleHook): void;
+  start(): ResultAsync<void, LifecycleErrorUnion>;
+  stop(): Promise<LifecycleErrorUnion[]>;
+  handleSignals(options?: SignalOptions): () => void;
+}
+
+/**
+ * Exit codes of the service
+ *
+ * - `ok` - Stopped cleanly
+ * - `startFailed` - A component did not start
+ * - `shutdownIncomplete` - A component failed or timed out while stopping
+ *
+ * A second signal during the shutdown exits right away with 128 + the
+ * signal number (130 for SIGINT, 143 for SIGTERM).
+ */
+export const EXIT_CODES = {
+  ok: 0,
+  startFailed: 1,
+  shutdownIncomplete: 2,
+} as const;
+
+const DEFAULT_START_TIMEOUT_MS = 30 * 1000;
+const DEFAULT_STOP_TIMEOUT_MS = 10 * 1000;
+const DEFAULT_ABORT_GRACE_MS = 2 * 1000;
+
+/**
+ * Runs a step with a timeout, turning every failure into a lifecycle error
+ *
+ * @private
+ */
+async function runStep(
+  name: string,
+  phase: LifecyclePhase,
+  step: LifecycleStep,
+  timeoutMs: number,
+  abortGraceMs: number,
+): Promise<LifecycleErrorUnion | null> {
+  const controller = new AbortController();
+  const outcome = (async () => {
+    const value = await step(controller.signal);
+    if (value instanceof Err) {
+      throw value.error;
+    }
+    return null;
+  })().catch(
+    (error: unknown) =>
+      new LifecycleHookFailedError(
+        name,
+        phase,
+        error instanceof Error ? error : new Error(String(error)),
+      ),
+  );
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<"timeout">((resolve) => {
+    timer = setTimeout(() => resolve("timeout"), timeoutMs);
+  });
+  const first = await Promise.race([outcome, timedOut]);
+  clearTimeout(timer);
+  if (first !== "timeout") {
+    return first;
+  }
+
+  controller.abort();
+  await Promise.race([outcome, Bun.sleep(abortGraceMs)]);
+  return new LifecycleHookTimeoutError(name, phase, timeoutMs);
+}
+
+/**
+ * Creates the lifecycle of the service
+ *
+ * @param {LifecycleOptions} [options] - Default timeouts
+ * @returns {Lifecycle} A lifecycle without hooks
+ *
+ * @example
+ * ```typescript
+ * const lifecycle = createLifecycle();
+ * lifecycle.register({ name: "database", stop: () => closeDb() });
+ * lifecycle.register({
+ *   name: "scheduler",
+ *   start: () => void (scheduler = startScheduler()),
+ *   stop: (signal) => scheduler.stop(signal),
+ * });
+ *
+ * lifecycle.handleSignals();
+ * const started = await lifecycle.start();
+ * ```
+ *
+ * @remarks
+ * - Register dependencies first: whatever a hook uses is still running
+ *   while it stops (e.g. the database outlives the scheduler)
+ * - A stop hook that fails or times out is reported, and the remaining
+ *   hooks still stop
+ * - When a step times out its signal is aborted and it gets `abortGraceMs`
+ *   to wrap up before the next hook runs
+ */
+export function createLifecycle(options: LifecycleOptions = {}): Lifecycle {
+  const hooks: LifecycleHook[] = [];
+  const started: LifecycleHook[] = [];
+  const abortGraceMs = options.abortGraceMs ?? DEFAULT_ABORT_GRACE_MS;
+  let stopping: Promise<LifecycleErrorUnion[]> | null = null;
+
+  function stop(): Promise<LifecycleErrorUnion[]> {
+    stopping ??= (async () => {
+      const errors: LifecycleErrorUnion[] = [];
+      for (const hook of started.reverse()) {
+        if (!hook.stop) {
+          continue;
+        }
+        const error = await runStep(
+          hook.name,
+          "stop",
+          hook.stop,
+          hook.stopTimeoutMs ??
+            options.stopTimeoutMs ??
+            DEFAULT_STOP_TIMEOUT_MS,
+          abortGraceMs,
+        );
+        if (error) {
+          errors.push(error);
+        }
+      }
+      return errors;
+    })();
+    return stopping;
+  }
+
+  return {
+    register(hook) {
+      hooks.push(hook);
+    },
+
+    start() {
+      return ResultAsync.fromSafePromise(
+        (async () => {
+          for (const hook of hooks) {
+            if (stopping) {
+              break;
+            }
+            if (hook.start) {
+              const error = await runStep(
+                hook.name,
+                "start",
+                hook.start,
+                hook.startTimeoutMs ??
+                  options.startTimeoutMs ??
+                  DEFAULT_START_TIMEOUT_MS,
+                abortGraceMs,
+              );
+              if (error) {
+                await stop();
+                return error;
+              }
+            }
+            started.push(hook);
+          }
+          return null;
+        })(),
+      ).andThen((error) => (error ? err(error) : ok(undefined)));
+    },
+
+    stop,
+
+    handleSignals(signalOptions = {}) {
+      const signals = signalOptions.signals ?? ["SIGTERM", "SIGINT"];
+      const exit = signalOptions.exit ?? ((code) => process.exit(code));
+      let received = false;
+
+      const onSignal = (signal: NodeJS.Signals) => {
+        if (received) {
+          console.error(`Received ${signal} again, exiting immediately`);
+          exit(128 + constants.signals[signal]);
+          return;
+        }
+        received = true;
+        console.log(`Received ${signal}, shutting down`);
+        void stop().then((errors) => {
+          for (const error of errors) {
+            console.error(error.message);
+          }
+          if (errors.length === 0) {
+            console.log("Shutdown complete");
+          }
+          exit(
+            errors.length > 0 ? EXIT_CODES.shutdownIncomplete : EXIT_CODES.ok,
+          );
+        });
+      };
+
+      for (const signal of signals) {
+        process.on(signal, onSignal);
+      }
+      return () => {
+        for (const signal of signals) {
+          process.off(signal, onSignal);
+        }
+      };
+    },
+  };
+}
@@ -1,17 +1,162 @@
-import { runMigrations } from "./db/migrate";
+import { applyConfig, loadConfig } from "./config/config";
+import { closeDb } from "./db/index";
+import { describeMigrationReport, runMigrations } from "./db/migrate";
+import type { AppOptions } from "./interfaces/rest/app";
+import { createApp } from "./interfaces/rest/app";
+import type { TelegramBotHandle } from "./interfaces/telegram/bot";
+import { startTelegramBot } from "./interfaces/telegram/bot";
+import { createLifecycle, EXIT_CODES } from "./lifecycle/lifecycle";
+import { bootstrapRootUser } from "./services/auth/users";
+import { registerBuiltinFunctions } from "./services/functions/builtin";
+import { failPendingAuthorizations } from "./services/oauth/events";
+import type { SchedulerHandle } from "./services/scheduler/scheduler";
+import { startScheduler } from "./services/scheduler/scheduler";
+import { registerGitHubProvider } from "./services/github/provider";
+import { registerYouTubeProvider } from "./services/youtube/provider";
+
+/**
+ * How long the scheduler may take to stop, and how much of it running jobs
+ * get to finish; the rest is left for recording them as interrupted
+ */
+const SCHEDULER_STOP_TIMEOUT_MS = 10 * 1000;
+const SCHEDULER_DRAIN_MS = 7 * 1000;
 
 async function startServer() {
   console.log("Core service starting...");
 
-  // Run migrations on startup
-  const migrationResult = await runMigrations();
-  if (migrationResult.isErr()) {
-    console.error(migrationResult.error.message);
-    process.exit(1);
+  // Every env var is checked up front, so all problems show at once
+  const configResult = loadConfig();
+  if (configResult.isErr()) {
+    console.error(configResult.error.message);
+    process.exit(EXIT_CODES.startFailed);
   }
+  const config = configResult.value;
+  applyConfig(config);
+
+  // Components start in this order and stop in reverse: requests drain
+  // first, then running jobs, then the bot, and the database closes last
+  const lifecycle = createLifecycle();
+
+  lifecycle.register({
+    name: "database",
+    start: () =>
+      runMigrations().map((report) =>
+        console.log(describeMigrationReport(report)),
+      ),
+    stop: () => closeDb(),
+  });
+
+  lifecycle.register({
+    name: "root user",
+    start: async () => {
+      if (!config.rootUser) {
+        console.log("ROOT_USER_EMAIL not set, skipping the root user");
+        return;
+      }
+      const bootstrap = await bootstrapRootUser({
+        force: config.rootUser.force,
+        config: config.rootUser,
+      });
+      if (bootstrap.isOk()) {
+        console.log(
+          `Root user ${bootstrap.value.user.email}: ${bootstrap.value.action}`,
+        );
+      }
+      return bootstrap;
+    },
+  });
+
+  lifecycle.register({
+    name: "integrations",
+    start: () => {
+      if (!registerYouTubeProvider(config.youtube.oauth)) {
+        console.log(
+          "YOUTUBE_CLIENT_ID not set, YouTube connections are disabled",
+        );
+      }
+      if (!registerGitHubProvider(config.github)) {
+        console.log(
+          "GITHUB_CLIENT_ID not set, GitHub can only be connected with a personal access token",
+        );
+      }
+      // Functions are mounted as routes and bot commands, so register them first
+      return registerBuiltinFunctions();
+    },
+  });
 
-  console.log(migrationResult.value);
-  console.log("Core service started successfully");
+  const appOptions: AppOptions = {
+    oauthRedirectBaseUrl: config.server.oauthRedirectBaseUrl,
+    rootUser: config.rootUser,
+  };
+  let telegram: TelegramBotHandle | null = null;
+  lifecycle.register({
+    name: "Telegram bot",
+    start: async () => {
+      if (!config.telegram) {
+        console.log("TELEGRAM_BOT_TOKEN not set, the Telegram bot is disabled");
+        return;
+      }
+      const started = await startTelegramBot(config.telegram);
+      if (started.isErr()) {
+        return started;
+      }
+      telegram = started.value;
+      console.log(`Telegram bot started (${telegram.mode})`);
+      if (config.telegram.webhook) {
+        appOptions.telegramWebhook = {
+          bot: telegram.bot,
+          secretToken: config.telegram.webhook.secretToken,
+        };
+      }
+    },
+    stop: () => telegram?.stop(),
+  });
+
+  let scheduler: SchedulerHandle;
+  lifecycle.register({
+    name: "job scheduler",
+    start: () => {
+      scheduler = startScheduler();
+      console.log("Job scheduler started");
+    },
+    // Running jobs may finish until the drain deadline, then are recorded
+    // as interrupted, which still counts as a clean stop
+    stop: (signal) =>
+      scheduler.stop(
+        AbortSignal.any([signal, AbortSignal.timeout(SCHEDULER_DRAIN_MS)]),
+      ),
+    stopTimeoutMs: SCHEDULER_STOP_TIMEOUT_MS,
+  });
+
+  let server: ReturnType<typeof createApp>["server"] = null;
+  lifecycle.register({
+    name: "HTTP server",
+    start: () => {
+      const app = createApp(appOptions).listen(config.server.port);
+      server = app.server;
+      console.log(
+        `Core service started successfully on http://${server?.hostname}:${server?.port} (Swagger UI at /swagger)`,
+      );
+    },
+    // Stops accepting connections and waits for requests in flight; open
+    // authorization streams are ended first, as they would last for minutes
+    stop: async (signal) => {
+      signal.addEventListener("abort", () => void server?.stop(true));
+      const stopped = server?.stop();
+      failPendingAuthorizations();
+      await stopped;
+    },
+  });
+
+  lifecycle.handleSignals();
+  const started = await lifecycle.start();
+  if (started.isErr()) {
+    console.error(started.error.message);
+    process.exit(EXIT_CODES.startFailed);
+  }
 }
 
-startServer().catch(console.error);
+startServer().catch((error) => {
+  console.error(error);
+  process.exit(EXIT_CODES.startFailed);
+});
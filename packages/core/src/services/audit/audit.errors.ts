@@ -0,0 +1,39 @@
+/**
+ * Audit Error Types
+ *
+ * Discriminated union type for all errors of the audit log.
+ */
+export type AuditErrorType = "AUDIT_DATABASE_ERROR";
+
+/**
+ * Base class for all audit errors.
+ */
+export abstract class AuditError extends Error {
+  abstract readonly type: AuditErrorType;
+
+  constructor(message: string) {
+    super(message);
+    this.name = this.constructor.name;
+    Error.captureStackTrace?.(this, this.constructor);
+  }
+}
+
+/**
+ * Error thrown when reading or appending to the audit log fails.
+ *
+ * @remarks
+ * Operations that must be audited (decrypting credentials, for one)
+ * fail with this error rather than proceed unrecorded.
+ */
+export class AuditDatabaseError extends AuditError {
+  readonly type = "AUDIT_DATABASE_ERROR" as const;
+
+  constructor(public readonly cause: Error) {
+    super(`Audit log database error: ${cause.message}`);
+  }
+}
+
+/**
+ * Union type of all audit errors.
+ */
+export type AuditErrorUnion = AuditDatabaseError;
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "bun:test";
+import { eq, sql } from "drizzle-orm";
+import { getDb } from "../../db/index";
+import { auditEvents } from "../../db/schema";
+import { generateEncryptionKey } from "../../lib/crypto";
+import { createKeyring } from "../../lib/keyring";
+import { useTestDatabase } from "../../testing/database";
+import {
+  deleteService,
+  getServiceCredentials,
+  saveServiceCredentials,
+} from "../crud/connected-services";
+import {
+  GENESIS_HASH,
+  listAuditEvents,
+  recordAuditEvent,
+  verifyAuditChain,
+} from "./audit";
+import { currentAuditActor, runAsAuditActor, withAuditActor } from "./context";
+
+describe("Audit Log", () => {
+  const keyring = createKeyring(generateEncryptionKey())._unsafeUnwrap();
+  useTestDatabase();
+
+  it("should nest actors and start new chains", async () => {
+    expect(currentAuditActor()).toBe("system");
+
+    const actors = await withAuditActor("bot:/stars", async () => {
+      await Bun.sleep(1);
+      return [
+        currentAuditActor(),
+        withAuditActor("function:github_stars", currentAuditActor),
+        runAsAuditActor("job:nightly", currentAuditActor),
+      ];
+    });
+
+    expect(actors).toEqual([
+      "bot:/stars",
+      "bot:/stars > function:github_stars",
+      "job:nightly",
+    ]);
+  });
+
+  it("should record credential access with the actor that caused it", async () => {
+    const service = (
+      await withAuditActor("route:POST /services", () =>
+        saveServiceCredentials(
+          "openai",
+          "apikey",
+          { apiKey: "sk" },
+          { keyring },
+        ),
+      )
+    )._unsafeUnwrap();
+    await withAuditActor(["job:nightly", "function:summarize"], () =>
+      getServiceCredentials(service.id, { keyring }),
+    );
+    (await deleteService(service.id))._unsafeUnwrap();
+
+    const events = (
+      await listAuditEvents({ serviceId: service.id })
+    )._unsafeUnwrap();
+    expect(events.map((event) => [event.action, event.actor])).toEqual([
+      ["credential.delete", "system"],
+      ["credential.read", "job:nightly > function:summarize"],
+      ["credential.write", "route:POST /services"],
+    ]);
+    expect(JSON.stringify(events)).not.toContain("sk");
+
+    const byFunction = await listAuditEvents({ actor: "function:summarize" });
+    expect(byFunction._unsafeUnwrap().map((event) => event.action)).toEqual([
+      "credential.read",
+    ]);
+    const byPrefix = await listAuditEvents({ actor: "function:sum" });
+    expect(byPrefix._unsafeUnwrap()).toEqual([]);
+  });
+
+  it("should chain concurrent appends and verify the chain", async () => {
+    await Promise.all(
+      Array.from({ length: 10 }, (_, index) =>
+        recordAuditEvent({ action: "auth.signout", details: { index } }),
+      ),
+    );
+
+    const verification = (await verifyAuditChain())._unsafeUnwrap();
+    const events = (await listAuditEvents({ limit: 100 }))._unsafeUnwrap();
+    expect(verification).toEqual({
+      valid: true,
+      events: events.length,
+      headHash: events[0]!.hash,
+      brokenAt: null,
+    });
+    expect(events.at(-1)!.prevHash).toBe(GENESIS_HASH);
+  });
+
+  it("should reject changes and detect tampering that bypasses the triggers", async () => {
+    const [target] = (
+      await listAuditEvents({ action: "credential.read" })
+    )._unsafeUnwrap();
+
+    await expect(
+      getDb()
+        .update(auditEvents)
+        .set({ actor: "system" })
+        .where(eq(auditEvents.id, target!.id))
+        .execute(),
+    ).rejects.toThrow();
+    await expect(getDb().delete(auditEvents).execute()).rejects.toThrow();
+
+    await getDb().run(sql`DROP TRIGGER audit_events_no_update`);
+    await getDb()
+      .update(auditEvents)
+      .set({ actor: "system" })
+      .where(eq(auditEvents.id, target!.id));
+
+    const verification = (await verifyAuditChain())._unsafeUnwrap();
+    expect(verification.valid).toBe(false);
+    expect(verification.brokenAt).toBe(target!.id);
+  });
+});
@@ -0,0 +1,326 @@
+import { createHash } from "node:crypto";
+import type { SQL } from "drizzle-orm";
+import { and, asc, desc, eq, gt, lt, sql } from "drizzle-orm";
+import { ResultAsync } from "neverthrow";
+import type { Database } from "../../db/index";
+import { getDb } from "../../db/index";
+import type { AuditEvent } from "../../db/schema";
+import { auditEvents } from "../../db/schema";
+import type { AuditErrorUnion } from "./audit.errors";
+import { AuditDatabaseError } from "./audit.errors";
+import { ACTOR_SEPARATOR, currentAuditActor } from "./context";
+
+/**
+ * Everything the audit log records
+ *
+ * - `credential.read` - credentials of a connected service were decrypted
+ * - `credential.write` - credentials were stored or replaced
+ * - `credential.delete` - a connected service and its credentials were deleted
+ * - `key.rotation` - all credentials were re-wrapped under a new master key
+ * - `backup.create` / `backup.restore` - encrypted copies of the whole database
+ * - `auth.signin` / `auth.signin_failed` / `auth.signout` - sessions
+ * - `auth.token_created` / `auth.token_revoked` - API tokens
+ */
+export const AUDIT_ACTIONS = [
+  "credential.read",
+  "credential.write",
+  "credential.delete",
+  "key.rotation",
+  "backup.create",
+  "backup.restore",
+  "auth.signin",
+  "auth.signin_failed",
+  "auth.signout",
+  "auth.token_created",
+  "auth.token_revoked",
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+/**
+ * `prev_hash` of the first event
+ */
+export const GENESIS_HASH = "0".repeat(64);
+
+/**
+ * An event to record; the actor is taken from the current context
+ *
+ * @property {AuditAction} action - What happened
+ * @property {number} [serviceId] - The connected service it happened to
+ * @property {Record<string, unknown>} [details] - JSON-serializable context (never secrets)
+ */
+export interface AuditEventInput {
+  action: AuditAction;
+  serviceId?: number;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Filter of {@link listAuditEvents}
+ *
+ * @property {number} [serviceId] - Only events of this connected service
+ * @property {string} [actor] - Only events whose actor chain contains these segments, e.g. "token:3" or "function:github_stars"
+ * @property {AuditAction} [action] - Only events of this action
+ * @property {number} [before] - Only events older than this event id (paging)
+ * @property {number} [limit] - Maximum number of events (default 50)
+ */
+export interface AuditEventFilter {
+  serviceId?: number;
+  actor?: string;
+  action?: AuditAction;
+  before?: number;
+  limit?: number;
+}
+
+/**
+ * Outcome of {@link verifyAuditChain}
+ *
+ * @property {boolean} valid - Whether every event matches its hash and predecessor
+ * @property {number} events - Number of events checked
+ * @property {string} headHash - Hash of the newest event (GENESIS_HASH when empty)
+ * @property {number | null} brokenAt - Id of the first event that does not match, if any
+ */
+export interface AuditChainVerification {
+  valid: boolean;
+  events: number;
+  headHash: string;
+  brokenAt: number | null;
+}
+
+/**
+ * The database, or an open transaction of it, an event is appended through
+ */
+export type AuditExecutor = Pick<Database, "select" | "insert">;
+
+const MAX_APPEND_ATTEMPTS = 5;
+const VERIFY_PAGE_SIZE = 500;
+
+// Appends of this process are queued, so each one sees the previous head
+let appending: Promise<unknown> = Promise.resolve();
+
+/**
+ * Maps a database failure to AuditDatabaseError
+ *
+ * @private
+ */
+function toAuditDatabaseError(error: unknown): AuditDatabaseError {
+  return new AuditDatabaseError(
+    error instanceof Error ? error : new Error(String(error)),
+  );
+}
+
+/**
+ * Serializes JSON with sorted keys, so equal values hash equally
+ *
+ * @private
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Computes the hash of an event from its fields and its predecessor
+ *
+ * @private
+ */
+function hashEvent(event: Omit<AuditEvent, "id" | "hash">): string {
+  return createHash("sha256")
+    .update(
+      canonicalJson([
+        event.prevHash,
+        event.occurredAt.getTime(),
+        event.action,
+        event.actor,
+        event.serviceId,
+        event.details,
+      ]),
+    )
+    .digest("hex");
+}
+
+/**
+ * Chains an event to the current head and inserts it
+ *
+ * @private
+ * @remarks
+ * `prev_hash` is unique: when another process appended in between, the
+ * insert is a no-op and the append starts over with the new head.
+ */
+async function append(
+  event: Omit<AuditEvent, "id" | "hash" | "prevHash">,
+  db: AuditExecutor,
+): Promise<AuditEvent> {
+  for (let attempt = 1; ; attempt++) {
+    const [head] = await db
+      .select({ hash: auditEvents.hash })
+      .from(auditEvents)
+      .orderBy(desc(auditEvents.id))
+      .limit(1);
+    const prevHash = head?.hash ?? GENESIS_HASH;
+
+    const [row] = await db
+      .insert(auditEvents)
+      .values({ ...event, prevHash, hash: hashEvent({ ...event, prevHash }) })
+      .onConflictDoNothing({ target: auditEvents.prevHash })
+      .returning();
+    if (row) {
+      return row;
+    }
+    if (attempt >= MAX_APPEND_ATTEMPTS) {
+      throw new Error("The head of the audit log kept moving");
+    }
+  }
+}
+
+/**
+ * Appends an event to the audit log
+ *
+ * @param {AuditEventInput} input - Action, service and details
+ * @param {AuditExecutor} [tx] - Transaction to append in, so the event commits or rolls back with it
+ * @returns {ResultAsync<AuditEvent, AuditErrorUnion>} The recorded event or error
+ *
+ * @example
+ * ```typescript
+ * await recordAuditEvent({
+ *   action: "credential.read",
+ *   serviceId: service.id,
+ *   details: { provider: service.provider },
+ * });
+ * ```
+ *
+ * @remarks
+ * The actor is the chain of the current context (see
+ * `withAuditActor`). Callers that must not proceed unrecorded
+ * propagate the error instead of ignoring it.
+ *
+ * Appends in a transaction skip the queue of this process: the write
+ * lock the transaction already holds orders them, and waiting for a
+ * queued append that needs that lock would stall both.
+ */
+export function recordAuditEvent(
+  input: AuditEventInput,
+  tx?: AuditExecutor,
+): ResultAsync<AuditEvent, AuditErrorUnion> {
+  const event = {
+    occurredAt: new Date(),
+    action: input.action,
+    actor: currentAuditActor(),
+    serviceId: input.serviceId ?? null,
+    // Hashed exactly as it reads back from the JSON column
+    details: JSON.parse(JSON.stringify(input.details ?? {})) as Record<
+      string,
+      unknown
+    >,
+  };
+  if (tx) {
+    return ResultAsync.fromPromise(append(event, tx), toAuditDatabaseError);
+  }
+  const appended = appending.then(() => append(event, getDb()));
+  appending = appended.catch(() => undefined);
+  return ResultAsync.fromPromise(appended, toAuditDatabaseError);
+}
+
+/**
+ * Lists audit events, newest first
+ *
+ * @param {AuditEventFilter} [filter] - Service, actor, action and paging
+ * @returns {ResultAsync<AuditEvent[], AuditErrorUnion>} The events or error
+ *
+ * @remarks
+ * The actor filter matches whole segments: "function:github_stars"
+ * finds "job:nightly > function:github_stars", but "function:github"
+ * finds nothing.
+ */
+export function listAuditEvents(
+  filter: AuditEventFilter = {},
+): ResultAsync<AuditEvent[], AuditErrorUnion> {
+  const conditions: SQL[] = [];
+  if (filter.serviceId !== undefined) {
+    conditions.push(eq(auditEvents.serviceId, filter.serviceId));
+  }
+  if (filter.actor) {
+    conditions.push(
+      sql`instr(${ACTOR_SEPARATOR} || ${auditEvents.actor} || ${ACTOR_SEPARATOR}, ${ACTOR_SEPARATOR + filter.actor + ACTOR_SEPARATOR}) > 0`,
+    );
+  }
+  if (filter.action) {
+    conditions.push(eq(auditEvents.action, filter.action));
+  }
+  if (filter.before !== undefined) {
+    conditions.push(lt(auditEvents.id, filter.before));
+  }
+
+  return ResultAsync.fromPromise(
+    getDb()
+      .select()
+      .from(auditEvents)
+      .where(and(...conditions))
+      .orderBy(desc(auditEvents.id))
+      .limit(filter.limit ?? 50),
+    toAuditDatabaseError,
+  );
+}
+
+/**
+ * Recomputes the hash chain of the whole audit log
+ *
+ * @returns {ResultAsync<AuditChainVerification, AuditErrorUnion>} The outcome or error
+ *
+ * @example
+ * ```typescript
+ * const result = await verifyAuditChain();
+ * if (result.isOk() && !result.value.valid) {
+ *   console.error(`Audit log tampered at event ${result.value.brokenAt}`);
+ * }
+ * ```
+ *
+ * @remarks
+ * Detects edited, inserted, reordered and deleted events, except events
+ * deleted from the end: a shorter chain is still a valid chain. Keep the
+ * returned `headHash` somewhere else (a ticket, a backup) and compare it
+ * with a later verification to cover that case.
+ */
+export function verifyAuditChain(): ResultAsync<
+  AuditChainVerification,
+  AuditErrorUnion
+> {
+  return ResultAsync.fromPromise(
+    (async () => {
+      let headHash = GENESIS_HASH;
+      let events = 0;
+      let lastId = 0;
+
+      for (;;) {
+        const page = await getDb()
+          .select()
+          .from(auditEvents)
+          .where(gt(auditEvents.id, lastId))
+          .orderBy(asc(auditEvents.id))
+          .limit(VERIFY_PAGE_SIZE);
+
+        for (const { id, hash, ...event } of page) {
+          if (event.prevHash !== headHash || hashEvent(event) !== hash) {
+            return { valid: false, events, headHash, brokenAt: id };
+          }
+          headHash = hash;
+          events++;
+          lastId = id;
+        }
+        if (page.length < VERIFY_PAGE_SIZE) {
+          return { valid: true, events, headHash, brokenAt: null };
+        }
+      }
+    })(),
+    toAuditDatabaseError,
+  );
+}
@@ -0,0 +1,74 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+/**
+ * Actor of work that no route, command, job or CLI started
+ */
+export const SYSTEM_ACTOR = "system";
+
+/**
+ * Separator between the segments of an actor chain
+ */
+export const ACTOR_SEPARATOR = " > ";
+
+const actors = new AsyncLocalStorage<readonly string[]>();
+
+/**
+ * Runs a function on behalf of an actor nested in the current one
+ *
+ * @template T - The return type of the function
+ * @param {string | readonly string[]} actor - One or more segments, e.g. "function:github_stars"
+ * @param {() => T} fn - The work; promises created inside keep the actor
+ * @returns {T} Whatever the function returns
+ *
+ * @example
+ * ```typescript
+ * // Recorded as "token:3 > route:POST /functions/:name > function:github_stars"
+ * withAuditActor("function:github_stars", () => getServiceCredentials(id));
+ * ```
+ */
+export function withAuditActor<T>(
+  actor: string | readonly string[],
+  fn: () => T,
+): T {
+  return actors.run([...(actors.getStore() ?? []), ...[actor].flat()], fn);
+}
+
+/**
+ * Runs a function on behalf of an actor that starts a new chain
+ *
+ * @template T - The return type of the function
+ * @param {string} actor - The actor, e.g. "job:nightly"
+ * @param {() => T} fn - The work
+ * @returns {T} Whatever the function returns
+ *
+ * @remarks
+ * For work that runs on its own (scheduled jobs, CLI commands) and must
+ * not inherit the actor of whatever happened to start it.
+ */
+export function runAsAuditActor<T>(actor: string, fn: () => T): T {
+  return actors.run([actor], fn);
+}
+
+/**
+ * Sets the actor for the rest of the current execution
+ *
+ * @param {...string} actor - The segments, outermost first
+ *
+ * @remarks
+ * For framework hooks that cannot wrap the work that follows them. Must
+ * be called synchronously from the hook: an `await` before it confines
+ * the actor to the hook itself.
+ */
+export function enterAuditActor(...actor: string[]): void {
+  actors.enterWith(actor);
+}
+
+/**
+ * Describes who is doing the current work
+ *
+ * @returns {string} The actor chain, e.g. "telegram:42 > bot:/stars", or "system"
+ */
+export function currentAuditActor(): string {
+  const chain = actors.getStore();
+  return chain && chain.length > 0 ? chain.join(ACTOR_SEPARATOR) : SYSTEM_ACTOR;
+}
@@ -0,0 +1,119 @@
+import type { AuditErrorUnion } from "../audit/audit.errors";
+import type { ApiTokenScope } from "./api-tokens";
+
+/**
+ * API Token Error Types
+ *
+ * Discriminated union type for all errors of the API tokens.
+ */
+export type ApiTokenErrorType =
+  | "API_TOKEN_INVALID"
+  | "API_TOKEN_EXPIRED"
+  | "API_TOKEN_REVOKED"
+  | "API_TOKEN_SCOPE_MISSING"
+  | "API_TOKEN_NOT_FOUND"
+  | "API_TOKEN_DATABASE_ERROR";
+
+/**
+ * Base class for all API token errors.
+ */
+export abstract class ApiTokenError extends Error {
+  abstract readonly type: ApiTokenErrorType;
+
+  constructor(message: string) {
+    super(message);
+    this.name = this.constructor.name;
+    Error.captureStackTrace?.(this, this.constructor);
+  }
+}
+
+/**
+ * Error thrown when a bearer token is not a known API token.
+ */
+export class ApiTokenInvalidError extends ApiTokenError {
+  readonly type = "API_TOKEN_INVALID" as const;
+
+  constructor() {
+    super("API token is invalid");
+  }
+}
+
+/**
+ * Error thrown when an API token is past its expiry.
+ */
+export class ApiTokenExpiredError extends ApiTokenError {
+  readonly type = "API_TOKEN_EXPIRED" as const;
+
+  constructor(public readonly expiredAt: Date) {
+    super(`API token expired at ${expiredAt.toISOString()}`);
+  }
+}
+
+/**
+ * Error thrown when an API token was revoked.
+ */
+export class ApiTokenRevokedError extends ApiTokenError {
+  readonly type = "API_TOKEN_REVOKED" as const;
+
+  constructor(public readonly revokedAt: Date) {
+    super(`API token was revoked at ${revokedAt.toISOString()}`);
+  }
+}
+
+/**
+ * Error thrown when the caller lacks scopes a route requires.
+ *
+ * @remarks
+ * Also raised when a caller tries to create a token with scopes it does
+ * not hold itself.
+ */
+export class ApiTokenScopeMissingError extends ApiTokenError {
+  readonly type = "API_TOKEN_SCOPE_MISSING" as const;
+
+  constructor(public readonly missing: ApiTokenScope[]) {
+    super(`Missing scopes: ${missing.join(", ")}`);
+  }
+}
+
+/**
+ * Error thrown when no API token exists with the given id.
+ */
+export class ApiTokenNotFoundError extends ApiTokenError {
+  readonly type = "API_TOKEN_NOT_FOUND" as const;
+
+  constructor(public readonly tokenId: number) {
+    super(`API token ${tokenId} not found`);
+  }
+}
+
+/**
+ * Error thrown when reading or writing the API tokens table fails.
+ */
+export class ApiTokenDatabaseError extends ApiTokenError {
+  readonly type = "API_TOKEN_DATABASE_ERROR" as const;
+
+  constructor(public readonly cause: Error) {
+    super(`API tokens database error: ${cause.message}`);
+  }
+}
+
+/**
+ * Subset of errors that can occur while verifying a token.
+ */
+export type VerifyApiTokenErrorUnion =
+  | ApiTokenInvalidError
+  | ApiTokenExpiredError
+  | ApiTokenRevokedError
+  | ApiTokenDatabaseError;
+
+export type ApiTokenErrorUnion =
+  | VerifyApiTokenErrorUnion
+  | ApiTokenScopeMissingError
+  | ApiTokenNotFoundError;
+
+/**
+ * Subset of errors that can occur while creating or revoking a token.
+ */
+export type ManageApiTokenErrorUnion =
+  | ApiTokenErrorUnion
+  | AuditErrorUnion;
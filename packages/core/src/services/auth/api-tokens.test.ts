@@ -0,0 +1,92 @@
+import { describe, expect, it } from "bun:test";
+import { eq } from "drizzle-orm";
+import { getDb } from "../../db/index";
+import { apiTokens } from "../../db/schema";
+import { useTestDatabase } from "../../testing/database";
+import {
+  API_TOKEN_PREFIX,
+  createApiToken,
+  listApiTokens,
+  missingScopes,
+  revokeApiToken,
+  verifyApiToken,
+} from "./api-tokens";
+import { hashSecretToken } from "./secret-tokens";
+
+describe("API Tokens", () => {
+  useTestDatabase();
+
+  it("should store only the hash of a token", async () => {
+    const created = (
+      await createApiToken({ name: "cron", scopes: ["services:read"] })
+    )._unsafeUnwrap();
+
+    expect(created.token.startsWith(API_TOKEN_PREFIX)).toBe(true);
+    expect(created.token.startsWith(created.prefix)).toBe(true);
+
+    const [row] = await getDb()
+      .select()
+      .from(apiTokens)
+      .where(eq(apiTokens.id, created.id));
+    expect(row!.tokenHash).toBe(hashSecretToken(created.token));
+    expect(JSON.stringify(row)).not.toContain(created.token);
+
+    const listed = (await listApiTokens())._unsafeUnwrap();
+    expect(listed.find((token) => token.id === created.id)).not.toHaveProperty(
+      "tokenHash",
+    );
+  });
+
+  it("should verify a token and record its use", async () => {
+    const created = (
+      await createApiToken({ name: "cron", scopes: ["services:read"] })
+    )._unsafeUnwrap();
+    expect(created.lastUsedAt).toBeNull();
+
+    const verified = await verifyApiToken(created.token);
+
+    expect(verified._unsafeUnwrap().id).toBe(created.id);
+    expect(verified._unsafeUnwrap().lastUsedAt).toBeInstanceOf(Date);
+    expect(
+      (await verifyApiToken(`${created.token}x`))._unsafeUnwrapErr().type,
+    ).toBe("API_TOKEN_INVALID");
+  });
+
+  it("should reject expired tokens", async () => {
+    const created = (
+      await createApiToken({
+        name: "expired",
+        scopes: ["services:read"],
+        expiresAt: new Date(Date.now() - 1000),
+      })
+    )._unsafeUnwrap();
+
+    const verified = await verifyApiToken(created.token);
+
+    expect(verified._unsafeUnwrapErr().type).toBe("API_TOKEN_EXPIRED");
+  });
+
+  it("should reject revoked tokens and keep the first revocation time", async () => {
+    const created = (
+      await createApiToken({ name: "revoked", scopes: ["services:read"] })
+    )._unsafeUnwrap();
+
+    const revoked = (await revokeApiToken(created.id))._unsafeUnwrap();
+    const again = (await revokeApiToken(created.id))._unsafeUnwrap();
+
+    expect(again.revokedAt).toEqual(revoked.revokedAt);
+    expect((await verifyApiToken(created.token))._unsafeUnwrapErr().type).toBe(
+      "API_TOKEN_REVOKED",
+    );
+    expect((await revokeApiToken(999_999))._unsafeUnwrapErr().type).toBe(
+      "API_TOKEN_NOT_FOUND",
+    );
+  });
+
+  it("should report the scopes a token is missing", () => {
+    expect(missingScopes(["services:read"], ["services:read"])).toEqual([]);
+    expect(
+      missingScopes(["services:read"], ["services:read", "services:write"]),
+    ).toEqual(["services:write"]);
+  });
+});
@@ -0,0 +1,346 @@
+import { parseArgs } from "node:util";
+import { desc, eq } from "drizzle-orm";
+import { errAsync, okAsync, ResultAsync } from "neverthrow";
+import { applyConfig, loadConfig } from "../../config/config";
+import { getDb } from "../../db/index";
+import type { ApiToken } from "../../db/schema";
+import { apiTokens } from "../../db/schema";
+import { recordAuditEvent } from "../audit/audit";
+import { runAsAuditActor } from "../audit/context";
+import type {
+  ApiTokenErrorUnion,
+  ManageApiTokenErrorUnion,
+  VerifyApiTokenErrorUnion,
+} from "./api-tokens.errors";
+import {
+  ApiTokenDatabaseError,
+  ApiTokenExpiredError,
+  ApiTokenInvalidError,
+  ApiTokenNotFoundError,
+  ApiTokenRevokedError,
+} from "./api-tokens.errors";
+import { generateSecretToken, hashSecretToken } from "./secret-tokens";
+
+/**
+ * All scopes an API token can hold
+ *
+ * @remarks
+ * - `services:read` - list connected services and read data through them (exports)
+ * - `services:write` - connect, disconnect and act on connected services
+ * - `functions:run` - run utility functions
+ * - `jobs:read` - list scheduled jobs and their run history
+ * - `jobs:write` - create, pause, resume, trigger and delete scheduled jobs
+ * - `tokens:manage` - create, list and revoke API tokens
+ * - `audit:read` - read and verify the audit log
+ * - `users:manage` - reset the root user from its env vars
+ *
+ * Signed-in users hold every scope.
+ */
+export const API_TOKEN_SCOPES = [
+  "services:read",
+  "services:write",
+  "functions:run",
+  "jobs:read",
+  "jobs:write",
+  "tokens:manage",
+  "audit:read",
+  "users:manage",
+] as const;
+
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+/**
+ * Prefix of every API token, so leaked tokens are easy to recognize
+ */
+export const API_TOKEN_PREFIX = "csk_";
+
+/** Last use is written at most once per minute per token */
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/** Characters of the token kept in clear for listings */
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6;
+
+/**
+ * An API token without its hash
+ */
+export type ApiTokenSummary = Omit<ApiToken, "tokenHash">;
+
+/**
+ * A newly created API token
+ *
+ * @property {string} token - The secret; it cannot be retrieved again
+ */
+export interface CreatedApiToken extends ApiTokenSummary {
+  token: string;
+}
+
+/**
+ * Options of a new API token
+ *
+ * @property {string} name - What the token is for (e.g. "backup cron")
+ * @property {ApiTokenScope[]} scopes - The scopes the token grants
+ * @property {Date} [expiresAt] - When the token stops working (default: never)
+ */
+export interface CreateApiTokenOptions {
+  name: string;
+  scopes: ApiTokenScope[];
+  expiresAt?: Date;
+}
+
+const summaryColumns = {
+  id: apiTokens.id,
+  name: apiTokens.name,
+  prefix: apiTokens.prefix,
+  scopes: apiTokens.scopes,
+  expiresAt: apiTokens.expiresAt,
+  lastUsedAt: apiTokens.lastUsedAt,
+  revokedAt: apiTokens.revokedAt,
+  createdAt: apiTokens.createdAt,
+};
+
+/**
+ * Maps a database failure to ApiTokenDatabaseError
+ *
+ * @private
+ */
+function toDatabaseError(error: unknown): ApiTokenDatabaseError {
+  return new ApiTokenDatabaseError(
+    error instanceof Error ? error : new Error(String(error)),
+  );
+}
+
+/**
+ * Returns the required scopes that are not held
+ *
+ * @param {readonly ApiTokenScope[]} held - The scopes of the caller
+ * @param {readonly ApiTokenScope[]} required - The required scopes
+ * @returns {ApiTokenScope[]} The missing scopes (empty if all are held)
+ */
+export function missingScopes(
+  held: readonly ApiTokenScope[],
+  required: readonly ApiTokenScope[],
+): ApiTokenScope[] {
+  return required.filter((scope) => !held.includes(scope));
+}
+
+/**
+ * Creates an API token
+ *
+ * @param {CreateApiTokenOptions} options - Name, scopes and expiry
+ * @returns {ResultAsync<CreatedApiToken, ManageApiTokenErrorUnion>} The token including its secret, or error
+ *
+ * @example
+ * ```typescript
+ * const result = await createApiToken({ name: "backup cron", scopes: ["services:read"] });
+ * if (result.isOk()) {
+ *   console.log("Store this token now:", result.value.token);
+ * }
+ * ```
+ *
+ * @remarks
+ * Only the hash is stored; the returned `token` is the only copy.
+ * Recorded as `auth.token_created` in the audit log.
+ */
+export function createApiToken(
+  options: CreateApiTokenOptions,
+): ResultAsync<CreatedApiToken, ManageApiTokenErrorUnion> {
+  const token = generateSecretToken(API_TOKEN_PREFIX);
+
+  return ResultAsync.fromPromise(
+    getDb()
+      .insert(apiTokens)
+      .values({
+        name: options.name,
+        tokenHash: hashSecretToken(token),
+        prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+        scopes: [...new Set(options.scopes)],
+        expiresAt: options.expiresAt ?? null,
+      })
+      .returning(summaryColumns),
+    toDatabaseError,
+  )
+    .andThen(([row]) =>
+      row
+        ? okAsync({ ...row, token })
+        : errAsync(
+            new ApiTokenDatabaseError(new Error("Insert returned no row")),
+          ),
+    )
+    .andThen((created) =>
+      recordAuditEvent({
+        action: "auth.token_created",
+        details: {
+          tokenId: created.id,
+          name: created.name,
+          scopes: created.scopes,
+        },
+      }).map(() => created),
+    );
+}
+
+/**
+ * Lists all API tokens, including revoked and expired ones
+ *
+ * @returns {ResultAsync<ApiTokenSummary[], ApiTokenErrorUnion>} The tokens (newest first) or error
+ */
+export function listApiTokens(): ResultAsync<
+  ApiTokenSummary[],
+  ApiTokenErrorUnion
+> {
+  return ResultAsync.fromPromise(
+    getDb().select(summaryColumns).from(apiTokens).orderBy(desc(apiTokens.id)),
+    toDatabaseError,
+  );
+}
+
+/**
+ * Revokes an API token
+ *
+ * @param {number} id - The token id
+ * @returns {ResultAsync<ApiTokenSummary, ManageApiTokenErrorUnion>} The revoked token or error
+ *
+ * @remarks
+ * Revoking is idempotent; the first revocation time is kept. Every call
+ * is recorded as `auth.token_revoked` in the audit log.
+ */
+export function revokeApiToken(
+  id: number,
+): ResultAsync<ApiTokenSummary, ManageApiTokenErrorUnion> {
+  return ResultAsync.fromPromise(
+    getDb().transaction(async (tx) => {
+      const [row] = await tx
+        .select(summaryColumns)
+        .from(apiTokens)
+        .where(eq(apiTokens.id, id));
+      if (!row || row.revokedAt) {
+        return row;
+      }
+      const [revoked] = await tx
+        .update(apiTokens)
+        .set({ revokedAt: new Date() })
+        .where(eq(apiTokens.id, id))
+        .returning(summaryColumns);
+      return revoked;
+    }),
+    toDatabaseError,
+  )
+    .andThen((row) =>
+      row ? okAsync(row) : errAsync(new ApiTokenNotFoundError(id)),
+    )
+    .andThen((row) =>
+      recordAuditEvent({
+        action: "auth.token_revoked",
+        details: { tokenId: row.id, name: row.name },
+      }).map(() => row),
+    );
+}
+
+/**
+ * Verifies an API token and records its use
+ *
+ * @param {string} token - The token from the request
+ * @returns {ResultAsync<ApiTokenSummary, VerifyApiTokenErrorUnion>} The token or error
+ *
+ * @errors
+ * - ApiTokenInvalidError - Unknown token
+ * - ApiTokenRevokedError - The token was revoked
+ * - ApiTokenExpiredError - The token is past its expiry
+ * - ApiTokenDatabaseError - The lookup failed
+ *
+ * @remarks
+ * `lastUsedAt` has a resolution of one minute, so busy scripts do not
+ * cause a write per request.
+ */
+export function verifyApiToken(
+  token: string,
+): ResultAsync<ApiTokenSummary, VerifyApiTokenErrorUnion> {
+  if (!token.startsWith(API_TOKEN_PREFIX)) {
+    return errAsync(new ApiTokenInvalidError());
+  }
+
+  return ResultAsync.fromPromise(
+    getDb()
+      .select(summaryColumns)
+      .from(apiTokens)
+      .where(eq(apiTokens.tokenHash, hashSecretToken(token))),
+    toDatabaseError,
+  ).andThen(([row]) => {
+    if (!row) {
+      return errAsync(new ApiTokenInvalidError());
+    }
+    if (row.revokedAt) {
+      return errAsync(new ApiTokenRevokedError(row.revokedAt));
+    }
+    const now = new Date();
+    if (row.expiresAt && row.expiresAt <= now) {
+      return errAsync(new ApiTokenExpiredError(row.expiresAt));
+    }
+    if (
+      row.lastUsedAt &&
+      now.getTime() - row.lastUsedAt.getTime() < LAST_USED_RESOLUTION_MS
+    ) {
+      return okAsync(row);
+    }
+
+    return ResultAsync.fromPromise(
+      getDb()
+        .update(apiTokens)
+        .set({ lastUsedAt: now })
+        .where(eq(apiTokens.id, row.id)),
+      toDatabaseError,
+    ).map(() => ({ ...row, lastUsedAt: now }));
+  });
+}
+
+if (import.meta.main) {
+  const { values } = parseArgs({
+    options: {
+      name: { type: "string" },
+      scopes: { type: "string", default: API_TOKEN_SCOPES.join(",") },
+      "expires-in-days": { type: "string" },
+    },
+  });
+
+  const scopes = values.scopes!.split(",").map((scope) => scope.trim());
+  const unknown = scopes.filter(
+    (scope) => !(API_TOKEN_SCOPES as readonly string[]).includes(scope),
+  );
+  if (!values.name || unknown.length > 0) {
+    console.error(
+      unknown.length > 0
+        ? `Unknown scopes: ${unknown.join(", ")} (valid: ${API_TOKEN_SCOPES.join(", ")})`
+        : "Usage: bun run auth:create-token --name <name> [--scopes a,b] [--expires-in-days n]",
+    );
+    process.exit(1);
+  }
+
+  const config = loadConfig();
+  if (config.isErr()) {
+    console.error(config.error.message);
+    process.exit(1);
+  }
+  applyConfig(config.value);
+
+  const days = Number(values["expires-in-days"]);
+  const result = await runAsAuditActor("cli:auth:create-token", () =>
+    createApiToken({
+      name: values.name!,
+      scopes: scopes as ApiTokenScope[],
+      expiresAt:
+        days > 0
+          ? new Date(Date.now() + days * 24 * 60 * 60 * 1000)
+          : undefined,
+    }),
+  );
+
+  result.match(
+    (created) =>
+      console.log(
+        `Created API token ${created.id} (${created.scopes.join(", ")}); it is shown only once:\n${created.token}`,
+      ),
+    (error) => {
+      console.error(error.message);
+      process.exit(1);
+    },
+  );
+}
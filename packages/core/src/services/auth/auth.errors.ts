@@ -0,0 +1,127 @@
+import type { AuditErrorUnion } from "../audit/audit.errors";
+
+/**
+ * Auth Error Types
+ *
+ * Discriminated union type for all errors of users, sessions and request
+ * authentication.
+ */
+export type AuthErrorType =
+  | "AUTHENTICATION_REQUIRED"
+  | "INVALID_CREDENTIALS"
+  | "SESSION_INVALID"
+  | "SESSION_EXPIRED"
+  | "USER_SESSION_REQUIRED"
+  | "ROOT_USER_NOT_CONFIGURED"
+  | "AUTH_DATABASE_ERROR";
+
+/**
+ * Base class for all auth errors.
+ */
+export abstract class AuthError extends Error {
+  abstract readonly type: AuthErrorType;
+
+  constructor(message: string) {
+    super(message);
+    this.name = this.constructor.name;
+    Error.captureStackTrace?.(this, this.constructor);
+  }
+}
+
+/**
+ * Error thrown when a protected route is called without a session cookie
+ * or bearer token.
+ */
+export class AuthenticationRequiredError extends AuthError {
+  readonly type = "AUTHENTICATION_REQUIRED" as const;
+
+  constructor() {
+    super("Authentication required: send a session cookie or a bearer token");
+  }
+}
+
+/**
+ * Error thrown when the email or the password is wrong.
+ *
+ * @remarks
+ * Deliberately does not say which of the two was wrong.
+ */
+export class InvalidCredentialsError extends AuthError {
+  readonly type = "INVALID_CREDENTIALS" as const;
+
+  constructor() {
+    super("Invalid email or password");
+  }
+}
+
+/**
+ * Error thrown when a session token is unknown or was signed out.
+ */
+export class SessionInvalidError extends AuthError {
+  readonly type = "SESSION_INVALID" as const;
+
+  constructor() {
+    super("Session is invalid");
+  }
+}
+
+/**
+ * Error thrown when a session is past its expiry.
+ */
+export class SessionExpiredError extends AuthError {
+  readonly type = "SESSION_EXPIRED" as const;
+
+  constructor(public readonly expiredAt: Date) {
+    super(`Session expired at ${expiredAt.toISOString()}`);
+  }
+}
+
+/**
+ * Error thrown when an action needs a signed-in user and the request
+ * carries an API token instead.
+ */
+export class UserSessionRequiredError extends AuthError {
+  readonly type = "USER_SESSION_REQUIRED" as const;
+
+  constructor() {
+    super("This action requires a signed-in user, API tokens are not accepted");
+  }
+}
+
+/**
+ * Error thrown when the root user env vars are missing.
+ */
+export class RootUserNotConfiguredError extends AuthError {
+  readonly type = "ROOT_USER_NOT_CONFIGURED" as const;
+
+  constructor(public readonly missing: string[]) {
+    super(`Root user is not configured, missing: ${missing.join(", ")}`);
+  }
+}
+
+/**
+ * Error thrown when reading or writing users or sessions fails.
+ */
+export class AuthDatabaseError extends AuthError {
+  readonly type = "AUTH_DATABASE_ERROR" as const;
+
+  constructor(public readonly cause: Error) {
+    super(`Auth database error: ${cause.message}`);
+  }
+}
+
+export type AuthErrorUnion =
+  | AuthenticationRequiredError
+  | InvalidCredentialsError
+  | SessionInvalidError
+  | SessionExpiredError
+  | UserSessionRequiredError
+  | RootUserNotConfiguredError
+  | AuthDatabaseError;
+
+/**
+ * Subset of errors that can occur while signing in or out.
+ */
+export type SessionChangeErrorUnion =
+  | AuthErrorUnion
+  | AuditErrorUnion;
@@ -0,0 +1,84 @@
+import { errAsync, ResultAsync } from "neverthrow";
+import type { ApiTokenScope, ApiTokenSummary } from "./api-tokens";
+import {
+  API_TOKEN_PREFIX,
+  API_TOKEN_SCOPES,
+  verifyApiToken,
+} from "./api-tokens";
+import type { VerifyApiTokenErrorUnion } from "./api-tokens.errors";
+import type { AuthErrorUnion } from "./auth.errors";
+import { AuthenticationRequiredError } from "./auth.errors";
+import type { SessionSummary } from "./sessions";
+import { verifySession } from "./sessions";
+import type { UserSummary } from "./users";
+
+/**
+ * Who is calling: a signed-in user or an API token
+ */
+export type Principal =
+  | { type: "user"; user: UserSummary; session: SessionSummary }
+  | { type: "api_token"; token: ApiTokenSummary };
+
+/**
+ * Credentials found on a request
+ *
+ * @property {string} [authorization] - The `Authorization` header
+ * @property {string} [sessionToken] - The session cookie
+ */
+export interface RequestCredentials {
+  authorization?: string;
+  sessionToken?: string;
+}
+
+export type AuthenticateErrorUnion = AuthErrorUnion | VerifyApiTokenErrorUnion;
+
+/**
+ * Returns the scopes a principal holds
+ *
+ * @param {Principal} principal - The caller
+ * @returns {readonly ApiTokenScope[]} The scopes (users hold every scope)
+ */
+export function principalScopes(
+  principal: Principal,
+): readonly ApiTokenScope[] {
+  return principal.type === "user" ? API_TOKEN_SCOPES : principal.token.scopes;
+}
+
+/**
+ * Authenticates a request by its bearer token or session cookie
+ *
+ * @param {RequestCredentials} credentials - The header and cookie of the request
+ * @returns {ResultAsync<Principal, AuthenticateErrorUnion>} The caller or error
+ *
+ * @errors
+ * - AuthenticationRequiredError - Neither a bearer token nor a session cookie
+ * - All errors from verifyApiToken() and verifySession()
+ *
+ * @remarks
+ * A bearer token takes precedence over the cookie. Bearer tokens are
+ * either API tokens (`csk_...`) or session tokens (`css_...`).
+ */
+export function authenticateRequest(
+  credentials: RequestCredentials,
+): ResultAsync<Principal, AuthenticateErrorUnion> {
+  const bearer = /^Bearer\s+(\S+)$/i.exec(
+    credentials.authorization?.trim() ?? "",
+  )?.[1];
+
+  if (bearer?.startsWith(API_TOKEN_PREFIX)) {
+    return verifyApiToken(bearer).map((token) => ({
+      type: "api_token" as const,
+      token,
+    }));
+  }
+
+  const sessionToken = bearer ?? credentials.sessionToken;
+  if (!sessionToken) {
+    return errAsync(new AuthenticationRequiredError());
+  }
+  return verifySession(sessionToken).map(({ user, session }) => ({
+    type: "user" as const,
+    user,
+    session,
+  }));
+}
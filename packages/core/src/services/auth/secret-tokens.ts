@@ -0,0 +1,25 @@
+import { createHash, randomBytes } from "node:crypto";
+
+/**
+ * Generates a random bearer token
+ *
+ * @param {string} prefix - Prefix telling the kind of token (e.g. "csk_")
+ * @returns {string} The prefix followed by 256 random bits (base64url)
+ */
+export function generateSecretToken(prefix: string): string {
+  return `${prefix}${randomBytes(32).toString("base64url")}`;
+}
+
+/**
+ * Hashes a bearer token for storage and lookup
+ *
+ * @param {string} token - The token
+ * @returns {string} The SHA-256 hash (base64url)
+ *
+ * @remarks
+ * Tokens carry 256 random bits, so a fast hash is enough; a slow password
+ * hash would only slow down every authenticated request.
+ */
+export function hashSecretToken(token: string): string {
+  return createHash("sha256").update(token).digest("base64url");
+}
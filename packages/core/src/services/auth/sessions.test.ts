@@ -0,0 +1,112 @@
+import { describe, expect, it } from "bun:test";
+import { eq } from "drizzle-orm";
+import { getDb } from "../../db/index";
+import { sessions, users } from "../../db/schema";
+import { useTestDatabase } from "../../testing/database";
+import { createApiToken } from "./api-tokens";
+import { authenticateRequest } from "./authenticate";
+import { signIn, verifySession } from "./sessions";
+import { hashSecretToken } from "./secret-tokens";
+import { bootstrapRootUser } from "./users";
+
+describe("Users and Sessions", () => {
+  const config = {
+    email: "Root@Example.com",
+    label: "Root",
+    password: "correct horse",
+  };
+  useTestDatabase();
+
+  it("should bootstrap the root user idempotently with a hashed password", async () => {
+    const created = (await bootstrapRootUser({ config }))._unsafeUnwrap();
+    const again = (
+      await bootstrapRootUser({ config: { ...config, password: "other" } })
+    )._unsafeUnwrap();
+
+    expect(created.action).toBe("created");
+    expect(created.user.email).toBe("root@example.com");
+    expect(again).toEqual({ user: created.user, action: "unchanged" });
+
+    const [row] = await getDb().select().from(users);
+    expect(row!.passwordHash).not.toContain(config.password);
+    expect((await signIn(config.email, "other"))._unsafeUnwrapErr().type).toBe(
+      "INVALID_CREDENTIALS",
+    );
+  });
+
+  it("should overwrite the password and end all sessions with force", async () => {
+    const { sessionToken } = (
+      await signIn(config.email, config.password)
+    )._unsafeUnwrap();
+
+    const forced = (
+      await bootstrapRootUser({
+        force: true,
+        config: { ...config, password: "new password" },
+      })
+    )._unsafeUnwrap();
+
+    expect(forced.action).toBe("updated");
+    expect((await verifySession(sessionToken))._unsafeUnwrapErr().type).toBe(
+      "SESSION_INVALID",
+    );
+    expect((await signIn(config.email, "new password")).isOk()).toBe(true);
+    config.password = "new password";
+  });
+
+  it("should rename the root user when the configured email changes", async () => {
+    const { sessionToken } = (
+      await signIn(config.email, config.password)
+    )._unsafeUnwrap();
+
+    const renamed = (
+      await bootstrapRootUser({
+        config: { ...config, email: "Admin@Example.com" },
+      })
+    )._unsafeUnwrap();
+
+    expect(renamed.action).toBe("updated");
+    expect(renamed.user.email).toBe("admin@example.com");
+    expect(await getDb().select().from(users)).toHaveLength(1);
+    expect((await verifySession(sessionToken)).isOk()).toBe(true);
+    expect((await signIn("admin@example.com", config.password)).isOk()).toBe(
+      true,
+    );
+    config.email = "Admin@Example.com";
+  });
+
+  it("should reject expired sessions", async () => {
+    const { sessionToken } = (
+      await signIn(config.email, config.password)
+    )._unsafeUnwrap();
+    await getDb()
+      .update(sessions)
+      .set({ expiresAt: new Date(Date.now() - 1000) })
+      .where(eq(sessions.tokenHash, hashSecretToken(sessionToken)));
+
+    const verified = await verifySession(sessionToken);
+
+    expect(verified._unsafeUnwrapErr().type).toBe("SESSION_EXPIRED");
+  });
+
+  it("should authenticate requests by bearer token or session cookie", async () => {
+    const { sessionToken } = (
+      await signIn(config.email, config.password)
+    )._unsafeUnwrap();
+    const { token } = (
+      await createApiToken({ name: "cron", scopes: ["services:read"] })
+    )._unsafeUnwrap();
+
+    const byCookie = await authenticateRequest({ sessionToken });
+    const byBearer = await authenticateRequest({
+      authorization: `Bearer ${token}`,
+      sessionToken,
+    });
+
+    expect(byCookie._unsafeUnwrap().type).toBe("user");
+    expect(byBearer._unsafeUnwrap().type).toBe("api_token");
+    expect((await authenticateRequest({}))._unsafeUnwrapErr().type).toBe(
+      "AUTHENTICATION_REQUIRED",
+    );
+  });
+});
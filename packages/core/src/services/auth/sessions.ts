@@ -0,0 +1,229 @@
+import { and, eq, lt } from "drizzle-orm";
+import { errAsync, okAsync, ResultAsync } from "neverthrow";
+import { getDb } from "../../db/index";
+import type { Session } from "../../db/schema";
+import { sessions, users } from "../../db/schema";
+import { recordAuditEvent } from "../audit/audit";
+import type { AuthErrorUnion, SessionChangeErrorUnion } from "./auth.errors";
+import {
+  InvalidCredentialsError,
+  SessionExpiredError,
+  SessionInvalidError,
+} from "./auth.errors";
+import { generateSecretToken, hashSecretToken } from "./secret-tokens";
+import type { UserSummary } from "./users";
+import {
+  normalizeEmail,
+  toAuthDatabaseError,
+  userSummaryColumns,
+} from "./users";
+
+/**
+ * How long a session is valid after sign-in (7 days)
+ */
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Prefix of every session token
+ */
+export const SESSION_TOKEN_PREFIX = "css_";
+
+/**
+ * A session without its token hash
+ */
+export type SessionSummary = Omit<Session, "tokenHash">;
+
+/**
+ * A signed-in user
+ *
+ * @property {string} sessionToken - The session token (cookie value or bearer token)
+ * @property {Date} expiresAt - When the session expires
+ * @property {UserSummary} user - The user
+ */
+export interface SignInResult {
+  sessionToken: string;
+  expiresAt: Date;
+  user: UserSummary;
+}
+
+/**
+ * A verified session and its user
+ */
+export interface AuthenticatedSession {
+  session: SessionSummary;
+  user: UserSummary;
+}
+
+const sessionSummaryColumns = {
+  id: sessions.id,
+  userId: sessions.userId,
+  expiresAt: sessions.expiresAt,
+  createdAt: sessions.createdAt,
+};
+
+let dummyPasswordHash: Promise<string> | undefined;
+
+/**
+ * Verifies a password against a hash, or burns the same time without one
+ *
+ * @private
+ * @remarks
+ * Verifying against a dummy hash for unknown emails keeps the response
+ * time from revealing which emails have an account.
+ */
+async function verifyPassword(
+  password: string,
+  passwordHash: string | undefined,
+): Promise<boolean> {
+  if (passwordHash) {
+    return Bun.password.verify(password, passwordHash);
+  }
+  dummyPasswordHash ??= Bun.password.hash("not-a-password");
+  await Bun.password.verify(password, await dummyPasswordHash);
+  return false;
+}
+
+/**
+ * Signs a user in with email and password
+ *
+ * @param {string} email - The email address (any case)
+ * @param {string} password - The password
+ * @returns {ResultAsync<SignInResult, SessionChangeErrorUnion>} The new session or error
+ *
+ * @example
+ * ```typescript
+ * const result = await signIn("admin@example.com", password);
+ * if (result.isOk()) {
+ *   console.log(`Session valid until ${result.value.expiresAt.toISOString()}`);
+ * }
+ * ```
+ *
+ * @errors
+ * - InvalidCredentialsError - Unknown email or wrong password
+ * - AuthDatabaseError - The user or session could not be read or written
+ * - AuditDatabaseError - The attempt could not be recorded
+ *
+ * @remarks
+ * Expired sessions of the user are purged on every sign-in. Successful
+ * and failed attempts are recorded in the audit log (`auth.signin`,
+ * `auth.signin_failed`), without the password.
+ */
+export function signIn(
+  email: string,
+  password: string,
+): ResultAsync<SignInResult, SessionChangeErrorUnion> {
+  return ResultAsync.fromPromise(
+    getDb()
+      .select({ ...userSummaryColumns, passwordHash: users.passwordHash })
+      .from(users)
+      .where(eq(users.email, normalizeEmail(email))),
+    toAuthDatabaseError,
+  )
+    .andThen(([row]) =>
+      ResultAsync.fromPromise(
+        verifyPassword(password, row?.passwordHash),
+        toAuthDatabaseError,
+      ).andThen((valid) =>
+        row && valid ? okAsync(row) : errAsync(new InvalidCredentialsError()),
+      ),
+    )
+    .andThen(({ passwordHash: _, ...user }) => {
+      const sessionToken = generateSecretToken(SESSION_TOKEN_PREFIX);
+      const now = new Date();
+      const expiresAt = new Date(now.getTime() + SESSION_TTL_MS);
+
+      return ResultAsync.fromPromise(
+        getDb().transaction(async (tx) => {
+          await tx
+            .delete(sessions)
+            .where(
+              and(eq(sessions.userId, user.id), lt(sessions.expiresAt, now)),
+            );
+          await tx.insert(sessions).values({
+            tokenHash: hashSecretToken(sessionToken),
+            userId: user.id,
+            expiresAt,
+          });
+        }),
+        toAuthDatabaseError,
+      ).map(() => ({ sessionToken, expiresAt, user }));
+    })
+    .andThen((signedIn) =>
+      recordAuditEvent({
+        action: "auth.signin",
+        details: { userId: signedIn.user.id, email: signedIn.user.email },
+      }).map(() => signedIn),
+    )
+    .orElse((error) =>
+      error.type === "INVALID_CREDENTIALS"
+        ? recordAuditEvent({
+            action: "auth.signin_failed",
+            details: { email: normalizeEmail(email) },
+          }).andThen(() => errAsync(error))
+        : errAsync(error),
+    );
+}
+
+/**
+ * Verifies a session token
+ *
+ * @param {string} sessionToken - The token from the cookie or the bearer header
+ * @returns {ResultAsync<AuthenticatedSession, AuthErrorUnion>} The session and its user, or error
+ *
+ * @errors
+ * - SessionInvalidError - Unknown or signed-out session
+ * - SessionExpiredError - The session is past its expiry
+ * - AuthDatabaseError - The lookup failed
+ */
+export function verifySession(
+  sessionToken: string,
+): ResultAsync<AuthenticatedSession, AuthErrorUnion> {
+  if (!sessionToken.startsWith(SESSION_TOKEN_PREFIX)) {
+    return errAsync(new SessionInvalidError());
+  }
+
+  return ResultAsync.fromPromise(
+    getDb()
+      .select({ session: sessionSummaryColumns, user: userSummaryColumns })
+      .from(sessions)
+      .innerJoin(users, eq(users.id, sessions.userId))
+      .where(eq(sessions.tokenHash, hashSecretToken(sessionToken))),
+    toAuthDatabaseError,
+  ).andThen(([row]) => {
+    if (!row) {
+      return errAsync(new SessionInvalidError());
+    }
+    if (row.session.expiresAt <= new Date()) {
+      return errAsync(new SessionExpiredError(row.session.expiresAt));
+    }
+    return okAsync(row);
+  });
+}
+
+/**
+ * Ends a session
+ *
+ * @param {string} sessionToken - The session token
+ * @returns {ResultAsync<boolean, SessionChangeErrorUnion>} Whether a session was ended, or error
+ *
+ * @remarks
+ * Ending a session is recorded as `auth.signout` in the audit log.
+ */
+export function signOut(
+  sessionToken: string,
+): ResultAsync<boolean, SessionChangeErrorUnion> {
+  return ResultAsync.fromPromise(
+    getDb()
+      .delete(sessions)
+      .where(eq(sessions.tokenHash, hashSecretToken(sessionToken)))
+      .returning({ id: sessions.id, userId: sessions.userId }),
+    toAuthDatabaseError,
+  ).andThen(([session]) =>
+    session
+      ? recordAuditEvent({
+          action: "auth.signout",
+          details: { userId: session.userId, sessionId: session.id },
+        }).map(() => true)
+      : okAsync(false),
+  );
+}
@@ -0,0 +1,169 @@
+import { eq } from "drizzle-orm";
+import { err, ok, Result, ResultAsync } from "neverthrow";
+import type { ConfigEnv } from "../../config/config";
+import { getDb } from "../../db/index";
+import type { User } from "../../db/schema";
+import { sessions, users } from "../../db/schema";
+import { normalizeIdentifier } from "../../lib/blind-index";
+import type { AuthErrorUnion } from "./auth.errors";
+import { AuthDatabaseError, RootUserNotConfiguredError } from "./auth.errors";
+
+/**
+ * A user without the password hash
+ */
+export type UserSummary = Omit<User, "passwordHash" | "role">;
+
+/**
+ * The root user as configured through env vars
+ */
+export interface RootUserConfig {
+  email: string;
+  label: string;
+  password: string;
+}
+
+/**
+ * What bootstrapping the root user did
+ *
+ * @property {UserSummary} user - The root user
+ * @property {"created" | "updated" | "unchanged"} action - `updated` with `force` or a changed email
+ */
+export interface RootUserBootstrap {
+  user: UserSummary;
+  action: "created" | "updated" | "unchanged";
+}
+
+/** Columns selected for {@link UserSummary} */
+export const userSummaryColumns = {
+  id: users.id,
+  email: users.email,
+  label: users.label,
+  createdAt: users.createdAt,
+  updatedAt: users.updatedAt,
+};
+
+/**
+ * Maps a database failure to AuthDatabaseError
+ *
+ * @param {unknown} error - Anything thrown by a query
+ * @returns {AuthDatabaseError} The typed error
+ */
+export function toAuthDatabaseError(error: unknown): AuthDatabaseError {
+  return new AuthDatabaseError(
+    error instanceof Error ? error : new Error(String(error)),
+  );
+}
+
+/**
+ * Normalizes an email address for storage and lookup
+ *
+ * @param {string} email - The email address
+ * @returns {string} Trimmed, NFKC-normalized, lowercased address
+ */
+export function normalizeEmail(email: string): string {
+  return normalizeIdentifier(email);
+}
+
+/**
+ * Reads the root user from `ROOT_USER_EMAIL`, `ROOT_USER_LABEL` and `ROOT_USER_PASSWORD`
+ *
+ * @param {ConfigEnv} env - The env vars
+ * @returns {Result<RootUserConfig, RootUserNotConfiguredError>} The configuration or error
+ *
+ * @remarks
+ * `ROOT_USER_LABEL` is optional and defaults to the email address.
+ */
+export function loadRootUserConfig(
+  env: ConfigEnv,
+): Result<RootUserConfig, RootUserNotConfiguredError> {
+  const email = env.ROOT_USER_EMAIL?.trim();
+  const password = env.ROOT_USER_PASSWORD;
+  const missing = [
+    ...(email ? [] : ["ROOT_USER_EMAIL"]),
+    ...(password ? [] : ["ROOT_USER_PASSWORD"]),
+  ];
+  if (!email || !password) {
+    return err(new RootUserNotConfiguredError(missing));
+  }
+  return ok({
+    email,
+    label: env.ROOT_USER_LABEL?.trim() || email,
+    password,
+  });
+}
+
+/**
+ * Creates the root user if it does not exist yet
+ *
+ * @param {object} options - Bootstrap options
+ * @param {RootUserConfig} options.config - The root user (`config.rootUser`)
+ * @param {boolean} [options.force] - Overwrite label and password of an existing root user
+ * @returns {ResultAsync<RootUserBootstrap, AuthErrorUnion>} The root user and what was done, or error
+ *
+ * @example
+ * ```typescript
+ * const result = await bootstrapRootUser({ config: config.rootUser });
+ * result.match(
+ *   ({ action }) => console.log(`Root user ${action}`),
+ *   (error) => console.error(error.message),
+ * );
+ * ```
+ *
+ * @errors
+ * - AuthDatabaseError - The user could not be read or written
+ *
+ * @remarks
+ * - The root user is the row with `role: "root"`, not the one with the configured email:
+ *   a changed `ROOT_USER_EMAIL` renames it instead of adding a second admin
+ * - Idempotent: without `force` label and password are left untouched, even if the env vars changed
+ * - Read and write run in one transaction, and the role is unique, so concurrent
+ *   bootstraps cannot create two root users
+ * - Passwords are hashed with `Bun.password` (argon2id)
+ * - Overwriting the password signs the user out everywhere
+ */
+export function bootstrapRootUser(options: {
+  config: RootUserConfig;
+  force?: boolean;
+}): ResultAsync<RootUserBootstrap, AuthErrorUnion> {
+  const { label, password } = options.config;
+  const email = normalizeEmail(options.config.email);
+
+  return ResultAsync.fromPromise(
+    getDb().transaction(async (tx): Promise<RootUserBootstrap> => {
+      const [existing] = await tx
+        .select(userSummaryColumns)
+        .from(users)
+        .where(eq(users.role, "root"));
+
+      if (!existing) {
+        const passwordHash = await Bun.password.hash(password);
+        const [created] = await tx
+          .insert(users)
+          .values({ email, label, passwordHash, role: "root" })
+          .returning(userSummaryColumns);
+        return { user: created!, action: "created" };
+      }
+      if (!options.force) {
+        if (existing.email === email) {
+          return { user: existing, action: "unchanged" };
+        }
+        const [renamed] = await tx
+          .update(users)
+          .set({ email })
+          .where(eq(users.id, existing.id))
+          .returning(userSummaryColumns);
+        return { user: renamed!, action: "updated" };
+      }
+
+      const passwordHash = await Bun.password.hash(password);
+      const [updated] = await tx
+        .update(users)
+        .set({ email, label, passwordHash })
+        .where(eq(users.id, existing.id))
+        .returning(userSummaryColumns);
+      await tx.delete(sessions).where(eq(sessions.userId, existing.id));
+      return { user: updated!, action: "updated" };
+    }),
+    toAuthDatabaseError,
+  );
+}
@@ -0,0 +1,88 @@
+import type {
+  DecryptJsonErrorUnion,
+  DecryptJsonWithSchemaErrorUnion,
+  EncryptJsonErrorUnion,
+} from "../../lib/crypto.errors";
+import type { AuditErrorUnion } from "../audit/audit.errors";
+
+/**
+ * Connected Service Error Types
+ *
+ * Discriminated union type for all errors of the connected services repository.
+ */
+export type ConnectedServiceErrorType =
+  | "SERVICE_NOT_FOUND"
+  | "SERVICE_DATABASE_ERROR";
+
+/**
+ * Base class for all connected service errors.
+ */
+export abstract class ConnectedServiceError extends Error {
+  abstract readonly type: ConnectedServiceErrorType;
+
+  constructor(message: string) {
+    super(message);
+    this.name = this.constructor.name;
+    Error.captureStackTrace?.(this, this.constructor);
+  }
+}
+
+/**
+ * Error thrown when no connected service exists with the given id.
+ */
+export class ServiceNotFoundError extends ConnectedServiceError {
+  readonly type = "SERVICE_NOT_FOUND" as const;
+
+  constructor(public readonly serviceId: number) {
+    super(`Connected service ${serviceId} not found`);
+  }
+}
+
+/**
+ * Error thrown when reading or writing the connected services table fails.
+ */
+export class ServiceDatabaseError extends ConnectedServiceError {
+  readonly type = "SERVICE_DATABASE_ERROR" as const;
+
+  constructor(public readonly cause: Error) {
+    super(`Connected services database error: ${cause.message}`);
+  }
+}
+
+/**
+ * Union type of the errors raised by the repository itself.
+ */
+export type ConnectedServiceErrorUnion =
+  | ServiceNotFoundError
+  | ServiceDatabaseError;
+
+/**
+ * Subset of errors that can occur while reading credentials.
+ */
+export type GetServiceCredentialsErrorUnion =
+  | ConnectedServiceErrorUnion
+  | DecryptJsonErrorUnion
+  | AuditErrorUnion;
+
+/**
+ * Subset of errors that can occur while reading credentials of a known shape.
+ */
+export type GetServiceCredentialsWithSchemaErrorUnion =
+  | ConnectedServiceErrorUnion
+  | DecryptJsonWithSchemaErrorUnion
+  | AuditErrorUnion;
+
+/**
+ * Subset of errors that can occur while storing credentials.
+ */
+export type SaveServiceCredentialsErrorUnion =
+  | ConnectedServiceErrorUnion
+  | EncryptJsonErrorUnion
+  | AuditErrorUnion;
+
+/**
+ * Subset of errors that can occur while deleting a service.
+ */
+export type DeleteServiceErrorUnion =
+  | ConnectedServiceErrorUnion
+  | AuditErrorUnion;
@@ -0,0 +1,160 @@
+import { describe, expect, it } from "bun:test";
+import { Type } from "@sinclair/typebox";
+import { eq, sql } from "drizzle-orm";
+import { getDb } from "../../db/index";
+import { connectedServices } from "../../db/schema";
+import { findServicesByAccount } from "../../db/service-accounts";
+import { generateEncryptionKey } from "../../lib/crypto";
+import { createKeyring } from "../../lib/keyring";
+import { useTestDatabase } from "../../testing/database";
+import {
+  deleteService,
+  getServiceCredentials,
+  getServiceCredentialsWithSchema,
+  listServices,
+  saveServiceCredentials,
+  updateCredentials,
+} from "./connected-services";
+
+describe("Connected Services Repository", () => {
+  const keyring = createKeyring(generateEncryptionKey())._unsafeUnwrap();
+  useTestDatabase();
+
+  it("should save, list and read credentials", async () => {
+    const saved = await saveServiceCredentials(
+      "youtube",
+      "oauth",
+      { access_token: "access", refresh_token: "refresh" },
+      { keyring, account: { email: "jane@example.com" } },
+    );
+    const service = saved._unsafeUnwrap();
+
+    const listed = (await listServices())._unsafeUnwrap();
+    expect(listed).toEqual([service]);
+    expect(JSON.stringify(listed)).not.toContain("encrypted");
+
+    const credentials = await getServiceCredentials(service.id, { keyring });
+    expect(credentials._unsafeUnwrap()).toEqual({
+      access_token: "access",
+      refresh_token: "refresh",
+    });
+
+    const found = await findServicesByAccount(
+      "youtube",
+      { email: "jane@example.com" },
+      keyring,
+    );
+    expect(found._unsafeUnwrap().map((row) => row.id)).toEqual([service.id]);
+  });
+
+  it("should update credentials and bump updatedAt", async () => {
+    const [service] = (await listServices())._unsafeUnwrap();
+    if (!service) {
+      throw new Error("Expected a connected service");
+    }
+    await getDb()
+      .update(connectedServices)
+      .set({ updatedAt: new Date(0) })
+      .where(eq(connectedServices.id, service.id));
+
+    const updated = await updateCredentials(
+      service.id,
+      { access_token: "new-access", refresh_token: "refresh" },
+      { keyring },
+    );
+    expect(updated._unsafeUnwrap().updatedAt.getTime()).toBeGreaterThan(0);
+
+    const credentials = await getServiceCredentialsWithSchema(
+      service.id,
+      Type.Object({ access_token: Type.String() }),
+      { keyring },
+    );
+    expect(credentials._unsafeUnwrap().access_token).toBe("new-access");
+
+    const mismatch = await getServiceCredentialsWithSchema(
+      service.id,
+      Type.Object({ apiKey: Type.String() }),
+      { keyring },
+    );
+    expect(mismatch.isErr() && mismatch.error.type).toBe(
+      "JSON_SCHEMA_MISMATCH",
+    );
+  });
+
+  it("should surface crypto errors without storing anything", async () => {
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+
+    const saved = await saveServiceCredentials("github", "apikey", circular, {
+      keyring,
+    });
+    expect(saved.isErr()).toBe(true);
+
+    if (saved.isErr()) {
+      expect(saved.error.type).toBe("JSON_SERIALIZATION_FAILED");
+    }
+    expect((await listServices())._unsafeUnwrap()).toHaveLength(1);
+  });
+
+  it("should return SERVICE_NOT_FOUND for unknown ids", async () => {
+    const results = await Promise.all([
+      getServiceCredentials(999, { keyring }),
+      updateCredentials(999, {}, { keyring }),
+      deleteService(999),
+    ]);
+
+    for (const result of results) {
+      expect(result.isErr() && result.error.type).toBe("SERVICE_NOT_FOUND");
+    }
+  });
+
+  it("should roll back writes whose audit event fails", async () => {
+    const before = (await listServices())._unsafeUnwrap();
+    await getDb().run(
+      sql`CREATE TRIGGER audit_unavailable BEFORE INSERT ON audit_events BEGIN SELECT RAISE(ABORT, 'audit unavailable'); END`,
+    );
+
+    try {
+      const saved = await saveServiceCredentials(
+        "github",
+        "apikey",
+        { token: "secret" },
+        { keyring },
+      );
+      expect(saved.isErr() && saved.error.type).toBe("AUDIT_DATABASE_ERROR");
+
+      const [service] = before;
+      if (!service) {
+        throw new Error("Expected a connected service");
+      }
+      const updated = await updateCredentials(
+        service.id,
+        { token: "replaced" },
+        { keyring },
+      );
+      expect(updated.isErr() && updated.error.type).toBe(
+        "AUDIT_DATABASE_ERROR",
+      );
+      const deleted = await deleteService(service.id);
+      expect(deleted.isErr() && deleted.error.type).toBe(
+        "AUDIT_DATABASE_ERROR",
+      );
+
+      expect((await listServices())._unsafeUnwrap()).toEqual(before);
+    } finally {
+      await getDb().run(sql`DROP TRIGGER audit_unavailable`);
+    }
+  });
+
+  it("should delete a service", async () => {
+    const [service] = (await listServices())._unsafeUnwrap();
+    if (!service) {
+      throw new Error("Expected a connected service");
+    }
+
+    expect((await deleteService(service.id))._unsafeUnwrap().id).toBe(
+      service.id,
+    );
+    expect((await listServices())._unsafeUnwrap()).toEqual([]);
+  });
+});
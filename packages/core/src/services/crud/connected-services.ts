@@ -0,0 +1,420 @@
+import type { Static, TSchema } from "@sinclair/typebox";
+import { eq } from "drizzle-orm";
+import type { Result } from "neverthrow";
+import { errAsync, okAsync, ResultAsync } from "neverthrow";
+import {
+  openCredentials,
+  openCredentialsWithSchema,
+  sealCredentials,
+} from "../../db/credentials";
+import { getDb } from "../../db/index";
+import type { ConnectedService } from "../../db/schema";
+import { connectedServices } from "../../db/schema";
+import type {
+  ServiceAccount,
+  ServiceAccountColumns,
+} from "../../db/service-accounts";
+import { sealServiceAccount } from "../../db/service-accounts";
+import { CryptoError } from "../../lib/crypto.errors";
+import type { KekProvider } from "../../lib/envelope";
+import { createLocalKekProvider } from "../../lib/envelope";
+import type { Keyring } from "../../lib/keyring";
+import { recordAuditEvent } from "../audit/audit";
+import type { AuditErrorUnion } from "../audit/audit.errors";
+import { AuditError } from "../audit/audit.errors";
+import type {
+  ConnectedServiceErrorUnion,
+  DeleteServiceErrorUnion,
+  GetServiceCredentialsErrorUnion,
+  GetServiceCredentialsWithSchemaErrorUnion,
+  SaveServiceCredentialsErrorUnion,
+} from "./connected-services.errors";
+import {
+  ConnectedServiceError,
+  ServiceDatabaseError,
+  ServiceNotFoundError,
+} from "./connected-services.errors";
+
+/**
+ * The metadata of a connected service, without any secret
+ */
+export type ConnectedServiceSummary = Pick<
+  ConnectedService,
+  "id" | "provider" | "type" | "status" | "createdAt" | "updatedAt"
+>;
+
+export interface ConnectedServiceOptions {
+  /** Keyring to use instead of the one from env vars */
+  keyring?: Keyring;
+}
+
+export interface SaveServiceCredentialsOptions extends ConnectedServiceOptions {
+  /** Account identifiers, stored encrypted and searchable via blind indexes */
+  account?: ServiceAccount;
+}
+
+const summaryColumns = {
+  id: connectedServices.id,
+  provider: connectedServices.provider,
+  type: connectedServices.type,
+  status: connectedServices.status,
+  createdAt: connectedServices.createdAt,
+  updatedAt: connectedServices.updatedAt,
+};
+
+/**
+ * Builds the KEK provider for a keyring (undefined falls back to env vars)
+ *
+ * @private
+ */
+function kekFor(options: ConnectedServiceOptions): KekProvider | undefined {
+  return options.keyring ? createLocalKekProvider(options.keyring) : undefined;
+}
+
+/**
+ * Maps anything thrown inside a query or transaction to a repository error
+ *
+ * @private
+ * @remarks
+ * Typed errors are thrown inside transactions to roll them back and are
+ * passed through unchanged; everything else is a database error.
+ */
+function toRepositoryError<E>(error: unknown): E | ServiceDatabaseError {
+  if (
+    error instanceof ConnectedServiceError ||
+    error instanceof CryptoError ||
+    error instanceof AuditError
+  ) {
+    return error as E;
+  }
+  return new ServiceDatabaseError(
+    error instanceof Error ? error : new Error(String(error)),
+  );
+}
+
+/**
+ * Loads a single row or fails with ServiceNotFoundError
+ *
+ * @private
+ */
+function findService(
+  id: number,
+): ResultAsync<ConnectedService, ConnectedServiceErrorUnion> {
+  return ResultAsync.fromPromise(
+    getDb()
+      .select()
+      .from(connectedServices)
+      .where(eq(connectedServices.id, id)),
+    (error) => toRepositoryError<ConnectedServiceErrorUnion>(error),
+  ).andThen(([row]) =>
+    row ? okAsync(row) : errAsync(new ServiceNotFoundError(id)),
+  );
+}
+
+/**
+ * Loads the metadata of a connected service
+ *
+ * @param {number} id - The connected service id
+ * @returns {ResultAsync<ConnectedServiceSummary, ConnectedServiceErrorUnion>} The service or error
+ */
+export function getService(
+  id: number,
+): ResultAsync<ConnectedServiceSummary, ConnectedServiceErrorUnion> {
+  return ResultAsync.fromPromise(
+    getDb()
+      .select(summaryColumns)
+      .from(connectedServices)
+      .where(eq(connectedServices.id, id)),
+    (error) => toRepositoryError<ConnectedServiceErrorUnion>(error),
+  ).andThen(([row]) =>
+    row ? okAsync(row) : errAsync(new ServiceNotFoundError(id)),
+  );
+}
+
+/**
+ * Lists all connected services
+ *
+ * @returns {ResultAsync<ConnectedServiceSummary[], ConnectedServiceErrorUnion>} The services or error
+ *
+ * @remarks
+ * Only metadata columns are selected; neither credentials nor account
+ * blobs ever leave the database through this function.
+ */
+export function listServices(): ResultAsync<
+  ConnectedServiceSummary[],
+  ConnectedServiceErrorUnion
+> {
+  return ResultAsync.fromPromise(
+    getDb()
+      .select(summaryColumns)
+      .from(connectedServices)
+      .orderBy(connectedServices.id),
+    (error) => toRepositoryError<ConnectedServiceErrorUnion>(error),
+  );
+}
+
+/**
+ * Opens the credentials of a row and records the read
+ *
+ * @private
+ */
+function readCredentials<T, E>(
+  id: number,
+  open: (row: ConnectedService) => Result<T, E>,
+): ResultAsync<T, E | ConnectedServiceErrorUnion | AuditErrorUnion> {
+  return findService(id).andThen((row) =>
+    open(row).asyncAndThen((credentials) =>
+      recordAuditEvent({
+        action: "credential.read",
+        serviceId: row.id,
+        details: { provider: row.provider },
+      }).map(() => credentials),
+    ),
+  );
+}
+
+/**
+ * Decrypts the credentials of a connected service
+ *
+ * @param {number} id - The connected service id
+ * @param {ConnectedServiceOptions} [options] - Optional keyring
+ * @returns {ResultAsync<unknown, GetServiceCredentialsErrorUnion>} The credentials or error
+ *
+ * @errors
+ * - ServiceNotFoundError - No service with this id
+ * - ServiceDatabaseError - The query failed
+ * - All errors from openCredentials() (missing key, tampering, etc.)
+ * - AuditDatabaseError - The read could not be recorded
+ *
+ * @remarks
+ * Every decryption is recorded as `credential.read` in the audit log;
+ * the credentials are only returned once the event is stored. Callers
+ * that expect a shape use {@link getServiceCredentialsWithSchema}.
+ */
+export function getServiceCredentials(
+  id: number,
+  options: ConnectedServiceOptions = {},
+): ResultAsync<unknown, GetServiceCredentialsErrorUnion> {
+  return readCredentials(id, (row) => openCredentials(row, kekFor(options)));
+}
+
+/**
+ * Decrypts the credentials of a connected service and validates their shape
+ *
+ * @template S - The TypeBox schema type
+ * @param {number} id - The connected service id
+ * @param {S} schema - The schema the credentials must match
+ * @param {ConnectedServiceOptions} [options] - Optional keyring
+ * @returns {ResultAsync<Static<S>, GetServiceCredentialsWithSchemaErrorUnion>} The validated credentials or error
+ *
+ * @errors
+ * - JsonSchemaMismatchError - The credentials do not match the schema
+ * - All errors from getServiceCredentials()
+ *
+ * @remarks
+ * Credentials that do not match are not returned, so only matching reads
+ * are recorded in the audit log.
+ */
+export function getServiceCredentialsWithSchema<S extends TSchema>(
+  id: number,
+  schema: S,
+  options: ConnectedServiceOptions = {},
+): ResultAsync<Static<S>, GetServiceCredentialsWithSchemaErrorUnion> {
+  return readCredentials(id, (row) =>
+    openCredentialsWithSchema(row, schema, kekFor(options)),
+  );
+}
+
+/**
+ * Encrypts and stores the credentials of a new connected service
+ *
+ * @param {string} provider - The provider (e.g. "youtube")
+ * @param {ConnectedService["type"]} type - How the service is authenticated
+ * @param {unknown} data - The credentials (must be JSON-serializable)
+ * @param {SaveServiceCredentialsOptions} [options] - Account identifiers and keyring
+ * @returns {ResultAsync<ConnectedServiceSummary, SaveServiceCredentialsErrorUnion>} The new service or error
+ *
+ * @example
+ * ```typescript
+ * const result = await saveServiceCredentials("youtube", "oauth", tokens, {
+ *   account: { email: "jane@example.com" },
+ * });
+ * ```
+ *
+ * @remarks
+ * The credentials are bound to the row id, which only exists after the
+ * insert; insert and encryption therefore run in one transaction, which
+ * also records the `credential.write` audit event.
+ */
+export function saveServiceCredentials(
+  provider: string,
+  type: ConnectedService["type"],
+  data: unknown,
+  options: SaveServiceCredentialsOptions = {},
+): ResultAsync<ConnectedServiceSummary, SaveServiceCredentialsErrorUnion> {
+  return ResultAsync.fromPromise(
+    getDb().transaction(async (tx) => {
+      const [row] = await tx
+        .insert(connectedServices)
+        .values({ provider, type, encryptedData: "" })
+        .returning(summaryColumns);
+      if (!row) {
+        throw new Error("Insert returned no row");
+      }
+
+      const encryptedData = sealCredentials(row, data, kekFor(options));
+      if (encryptedData.isErr()) {
+        throw encryptedData.error;
+      }
+
+      let accountColumns: Partial<ServiceAccountColumns> = {};
+      if (options.account) {
+        const account = sealServiceAccount(
+          row,
+          options.account,
+          options.keyring,
+        );
+        if (account.isErr()) {
+          throw account.error;
+        }
+        accountColumns = account.value;
+      }
+
+      await tx
+        .update(connectedServices)
+        .set({ encryptedData: encryptedData.value, ...accountColumns })
+        .where(eq(connectedServices.id, row.id));
+
+      const recorded = await recordAuditEvent(
+        {
+          action: "credential.write",
+          serviceId: row.id,
+          details: { provider, type, operation: "create" },
+        },
+        tx,
+      );
+      if (recorded.isErr()) {
+        throw recorded.error;
+      }
+      return row;
+    }),
+    (error) => toRepositoryError<SaveServiceCredentialsErrorUnion>(error),
+  );
+}
+
+/**
+ * Replaces the credentials of a connected service
+ *
+ * @param {number} id - The connected service id
+ * @param {unknown} data - The new credentials (must be JSON-serializable)
+ * @param {ConnectedServiceOptions} [options] - Optional keyring
+ * @returns {ResultAsync<ConnectedServiceSummary, SaveServiceCredentialsErrorUnion>} The updated service or error
+ *
+ * @remarks
+ * - `updatedAt` is set automatically by the schema on every update
+ * - New credentials make the service `active` again
+ * - Recorded as `credential.write` in the audit log, in the transaction of the update
+ */
+export function updateCredentials(
+  id: number,
+  data: unknown,
+  options: ConnectedServiceOptions = {},
+): ResultAsync<ConnectedServiceSummary, SaveServiceCredentialsErrorUnion> {
+  return findService(id)
+    .andThen((row) => sealCredentials(row, data, kekFor(options)))
+    .andThen((encryptedData) =>
+      ResultAsync.fromPromise(
+        getDb().transaction(async (tx) => {
+          const [row] = await tx
+            .update(connectedServices)
+            .set({ encryptedData, status: "active" })
+            .where(eq(connectedServices.id, id))
+            .returning(summaryColumns);
+          if (!row) {
+            throw new ServiceNotFoundError(id);
+          }
+
+          const recorded = await recordAuditEvent(
+            {
+              action: "credential.write",
+              serviceId: row.id,
+              details: {
+                provider: row.provider,
+                type: row.type,
+                operation: "update",
+              },
+            },
+            tx,
+          );
+          if (recorded.isErr()) {
+            throw recorded.error;
+          }
+          return row;
+        }),
+        (error) => toRepositoryError<SaveServiceCredentialsErrorUnion>(error),
+      ),
+    );
+}
+
+/**
+ * Sets the status of a connected service
+ *
+ * @param {number} id - The connected service id
+ * @param {ConnectedService["status"]} status - The new status
+ * @returns {ResultAsync<ConnectedServiceSummary, ConnectedServiceErrorUnion>} The updated service or error
+ */
+export function setServiceStatus(
+  id: number,
+  status: ConnectedService["status"],
+): ResultAsync<ConnectedServiceSummary, ConnectedServiceErrorUnion> {
+  return ResultAsync.fromPromise(
+    getDb()
+      .update(connectedServices)
+      .set({ status })
+      .where(eq(connectedServices.id, id))
+      .returning(summaryColumns),
+    (error) => toRepositoryError<ConnectedServiceErrorUnion>(error),
+  ).andThen(([row]) =>
+    row ? okAsync(row) : errAsync(new ServiceNotFoundError(id)),
+  );
+}
+
+/**
+ * Deletes a connected service and its credentials
+ *
+ * @param {number} id - The connected service id
+ * @returns {ResultAsync<ConnectedServiceSummary, DeleteServiceErrorUnion>} The deleted service or error
+ *
+ * @remarks
+ * Recorded as `credential.delete` in the audit log, in the transaction of
+ * the delete: a service is never removed unrecorded.
+ */
+export function deleteService(
+  id: number,
+): ResultAsync<ConnectedServiceSummary, DeleteServiceErrorUnion> {
+  return ResultAsync.fromPromise(
+    getDb().transaction(async (tx) => {
+      const [row] = await tx
+        .delete(connectedServices)
+        .where(eq(connectedServices.id, id))
+        .returning(summaryColumns);
+      if (!row) {
+        throw new ServiceNotFoundError(id);
+      }
+
+      const recorded = await recordAuditEvent(
+        {
+          action: "credential.delete",
+          serviceId: row.id,
+          details: { provider: row.provider, type: row.type },
+        },
+        tx,
+      );
+      if (recorded.isErr()) {
+        throw recorded.error;
+      }
+      return row;
+    }),
+    (error) => toRepositoryError<DeleteServiceErrorUnion>(error),
+  );
+}
@@ -0,0 +1,80 @@
+import { Type } from "@sinclair/typebox";
+import { ok, Result } from "neverthrow";
+import type { JsonSchemaMismatchError } from "../../lib/crypto.errors";
+import { validateJson } from "../../lib/json-schema";
+import type { GitHubAccessToken } from "../github/client";
+import { listStarredRepositories } from "../github/client";
+import { GITHUB_PROVIDER_ID } from "../github/provider";
+import type { FunctionNameInvalidError } from "./functions.errors";
+import type { FunctionCredentials } from "./registry";
+import { defineFunction, registerFunction } from "./registry";
+
+const GitHubApiKey = Type.Object({ apiKey: Type.String() });
+
+/**
+ * The token of the injected GitHub connection (OAuth token or PAT)
+ *
+ * @private
+ */
+function githubAccessToken(
+  credentials: FunctionCredentials,
+): Result<GitHubAccessToken, JsonSchemaMismatchError> {
+  if (credentials.type === "oauth") {
+    return ok(credentials);
+  }
+  return validateJson(GitHubApiKey, credentials.data).map(({ apiKey }) => ({
+    serviceId: credentials.serviceId,
+    type: "apikey" as const,
+    accessToken: apiKey,
+  }));
+}
+
+/**
+ * Starred repositories of the connected GitHub account
+ */
+export const githubStars = defineFunction({
+  name: "github_stars",
+  description: "Starred GitHub repositories, most recently starred first",
+  input: Type.Object({
+    limit: Type.Optional(
+      Type.Integer({ minimum: 1, description: "Return at most this many" }),
+    ),
+  }),
+  output: Type.Array(
+    Type.Object({
+      fullName: Type.String(),
+      url: Type.String(),
+      description: Type.Union([Type.String(), Type.Null()]),
+      language: Type.Union([Type.String(), Type.Null()]),
+      stars: Type.Number(),
+    }),
+  ),
+  providers: [GITHUB_PROVIDER_ID],
+  // The injected token is used as is; only a 401 makes the client refresh it
+  handler: ({ limit }, { credentials }) =>
+    githubAccessToken(credentials.github)
+      .asyncAndThen((token) => listStarredRepositories(token))
+      .map((repositories) =>
+        repositories
+          .slice(0, limit)
+          .map(({ fullName, url, description, language, stars }) => ({
+            fullName,
+            url,
+            description,
+            language,
+            stars,
+          })),
+      ),
+});
+
+/**
+ * Registers the functions shipped with the core service
+ *
+ * @returns {Result<void, FunctionNameInvalidError>} Result with nothing or error
+ */
+export function registerBuiltinFunctions(): Result<
+  void,
+  FunctionNameInvalidError
+> {
+  return registerFunction(githubStars);
+}
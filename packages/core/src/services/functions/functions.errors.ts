@@ -0,0 +1,114 @@
+import type { JsonSchemaIssue } from "../../lib/crypto.errors";
+
+/**
+ * Function Error Types
+ *
+ * Discriminated union type for all errors of the function registry and
+ * of invoking functions.
+ */
+export type FunctionErrorType =
+  | "FUNCTION_NAME_INVALID"
+  | "FUNCTION_NOT_FOUND"
+  | "FUNCTION_INPUT_INVALID"
+  | "FUNCTION_PROVIDER_NOT_CONNECTED"
+  | "FUNCTION_PROVIDER_AMBIGUOUS";
+
+/**
+ * Base class for all function errors.
+ */
+export abstract class FunctionError extends Error {
+  abstract readonly type: FunctionErrorType;
+
+  constructor(message: string) {
+    super(message);
+    this.name = this.constructor.name;
+    Error.captureStackTrace?.(this, this.constructor);
+  }
+}
+
+/**
+ * Error thrown when a function name is not usable as route segment and
+ * Telegram command.
+ */
+export class FunctionNameInvalidError extends FunctionError {
+  readonly type = "FUNCTION_NAME_INVALID" as const;
+
+  constructor(public readonly functionName: string) {
+    super(
+      `Invalid function name "${functionName}": use 1-32 characters of a-z, 0-9 and _, starting with a letter`,
+    );
+  }
+}
+
+/**
+ * Error thrown when no function is registered under a name.
+ */
+export class FunctionNotFoundError extends FunctionError {
+  readonly type = "FUNCTION_NOT_FOUND" as const;
+
+  constructor(public readonly functionName: string) {
+    super(`Function "${functionName}" not found`);
+  }
+}
+
+/**
+ * Error thrown when the input does not match the input schema of a
+ * function.
+ */
+export class FunctionInputInvalidError extends FunctionError {
+  readonly type = "FUNCTION_INPUT_INVALID" as const;
+
+  constructor(public readonly issues: JsonSchemaIssue[]) {
+    super(
+      `Invalid input: ${issues
+        .map((issue) => `${issue.path || "/"} ${issue.message}`)
+        .join("; ")}`,
+    );
+  }
+}
+
+/**
+ * Error thrown when a function requires a provider that is not
+ * connected, or the selected connection belongs to another provider.
+ */
+export class FunctionProviderNotConnectedError extends FunctionError {
+  readonly type = "FUNCTION_PROVIDER_NOT_CONNECTED" as const;
+
+  constructor(
+    public readonly provider: string,
+    public readonly serviceId?: number,
+  ) {
+    super(
+      serviceId === undefined
+        ? `No ${provider} account is connected`
+        : `Connected service ${serviceId} is not a ${provider} connection`,
+    );
+  }
+}
+
+/**
+ * Error thrown when several connections of a required provider exist and
+ * none was selected.
+ */
+export class FunctionProviderAmbiguousError extends FunctionError {
+  readonly type = "FUNCTION_PROVIDER_AMBIGUOUS" as const;
+
+  constructor(
+    public readonly provider: string,
+    public readonly serviceIds: number[],
+  ) {
+    super(
+      `Several ${provider} accounts are connected (${serviceIds.join(", ")}), select one`,
+    );
+  }
+}
+
+/**
+ * Union type of all function errors.
+ */
+export type FunctionErrorUnion =
+  | FunctionNameInvalidError
+  | FunctionNotFoundError
+  | FunctionInputInvalidError
+  | FunctionProviderNotConnectedError
+  | FunctionProviderAmbiguousError;
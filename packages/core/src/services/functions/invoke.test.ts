@@ -0,0 +1,103 @@
+import { afterEach, beforeAll, describe, expect, it } from "bun:test";
+import { Type } from "@sinclair/typebox";
+import { okAsync } from "neverthrow";
+import { useTestDatabase } from "../../testing/database";
+import {
+  deleteService,
+  listServices,
+  saveServiceCredentials,
+} from "../crud/connected-services";
+import { invokeFunction } from "./invoke";
+import { defineFunction, getFunction, registerFunction } from "./registry";
+
+const weather = defineFunction({
+  name: "test_weather",
+  description: "Returns the forecast of a city",
+  input: Type.Object({
+    city: Type.String(),
+    days: Type.Optional(Type.Integer({ minimum: 1, maximum: 7 })),
+  }),
+  output: Type.Object({ city: Type.String(), apiKey: Type.String() }),
+  providers: ["weather"],
+  handler: (input, { credentials }) =>
+    okAsync({
+      city: input.city,
+      apiKey:
+        credentials.weather.type === "apikey"
+          ? (credentials.weather.data as { apiKey: string }).apiKey
+          : "",
+    }),
+});
+
+describe("Function Registry", () => {
+  it("should reject names that are no valid command", () => {
+    const result = registerFunction({ ...weather, name: "Weather-Now" });
+
+    expect(result._unsafeUnwrapErr().type).toBe("FUNCTION_NAME_INVALID");
+    expect(getFunction("Weather-Now").isErr()).toBe(true);
+  });
+});
+
+describe("invokeFunction", () => {
+  useTestDatabase();
+
+  beforeAll(async () => {
+    registerFunction(weather)._unsafeUnwrap();
+  });
+
+  afterEach(async () => {
+    for (const service of (await listServices())._unsafeUnwrap()) {
+      await deleteService(service.id);
+    }
+  });
+
+  it("should inject the decrypted credentials of the provider", async () => {
+    await saveServiceCredentials("weather", "apikey", { apiKey: "wk_1" });
+
+    const result = await invokeFunction("test_weather", { city: "Berlin" });
+
+    expect(result._unsafeUnwrap()).toEqual({ city: "Berlin", apiKey: "wk_1" });
+  });
+
+  it("should use the selected connection when there are several", async () => {
+    await saveServiceCredentials("weather", "apikey", { apiKey: "wk_1" });
+    const second = (
+      await saveServiceCredentials("weather", "apikey", { apiKey: "wk_2" })
+    )._unsafeUnwrap();
+
+    const ambiguous = await invokeFunction("test_weather", { city: "Oslo" });
+    const selected = await invokeFunction(
+      "test_weather",
+      { city: "Oslo" },
+      { services: { weather: second.id } },
+    );
+
+    expect(ambiguous._unsafeUnwrapErr().type).toBe(
+      "FUNCTION_PROVIDER_AMBIGUOUS",
+    );
+    expect(selected._unsafeUnwrap()).toEqual({ city: "Oslo", apiKey: "wk_2" });
+  });
+
+  it("should fail when the provider is not connected", async () => {
+    const result = await invokeFunction("test_weather", { city: "Rome" });
+
+    expect(result._unsafeUnwrapErr().type).toBe(
+      "FUNCTION_PROVIDER_NOT_CONNECTED",
+    );
+  });
+
+  it("should validate the input before resolving credentials", async () => {
+    const result = await invokeFunction("test_weather", {
+      city: "Rome",
+      days: 30,
+    });
+
+    expect(result._unsafeUnwrapErr().type).toBe("FUNCTION_INPUT_INVALID");
+  });
+
+  it("should fail for unknown functions", async () => {
+    const result = await invokeFunction("test_missing", {});
+
+    expect(result._unsafeUnwrapErr().type).toBe("FUNCTION_NOT_FOUND");
+  });
+});
@@ -0,0 +1,160 @@
+import { err, errAsync, ok, ResultAsync } from "neverthrow";
+import { validateJson } from "../../lib/json-schema";
+import { withAuditActor } from "../audit/context";
+import type { ConnectedServiceSummary } from "../crud/connected-services";
+import {
+  getServiceCredentials,
+  listServices,
+} from "../crud/connected-services";
+import type { GetServiceCredentialsErrorUnion } from "../crud/connected-services.errors";
+import type { GetAccessTokenErrorUnion } from "../oauth/tokens";
+import { getAccessToken } from "../oauth/tokens";
+import type { FunctionErrorUnion } from "./functions.errors";
+import {
+  FunctionInputInvalidError,
+  FunctionProviderAmbiguousError,
+  FunctionProviderNotConnectedError,
+} from "./functions.errors";
+import type {
+  FunctionCredentials,
+  FunctionDefinition,
+  FunctionHandlerError,
+} from "./registry";
+import { getFunction } from "./registry";
+
+/**
+ * Options of a single invocation
+ *
+ * @property {Record<string, number>} [services] - Connected service id per provider; required when a provider has several connections
+ */
+export interface InvokeFunctionOptions {
+  services?: Record<string, number | undefined>;
+}
+
+export type InvokeFunctionErrorUnion =
+  | FunctionErrorUnion
+  | GetServiceCredentialsErrorUnion
+  | GetAccessTokenErrorUnion
+  | FunctionHandlerError;
+
+/**
+ * Picks the connection of a provider
+ *
+ * @private
+ */
+function selectConnection(
+  services: ConnectedServiceSummary[],
+  provider: string,
+  serviceId?: number,
+) {
+  const connections = services.filter(
+    (service) => service.provider === provider,
+  );
+  if (serviceId !== undefined) {
+    const selected = connections.find((service) => service.id === serviceId);
+    return selected
+      ? ok(selected)
+      : err(new FunctionProviderNotConnectedError(provider, serviceId));
+  }
+  if (connections.length === 0) {
+    return err(new FunctionProviderNotConnectedError(provider));
+  }
+  if (connections.length > 1) {
+    return err(
+      new FunctionProviderAmbiguousError(
+        provider,
+        connections.map((service) => service.id),
+      ),
+    );
+  }
+  return ok(connections[0]!);
+}
+
+/**
+ * Decrypts the credentials of one connection
+ *
+ * @private
+ */
+function loadCredentials(
+  service: ConnectedServiceSummary,
+): ResultAsync<FunctionCredentials, InvokeFunctionErrorUnion> {
+  return service.type === "oauth"
+    ? getAccessToken(service.id).map((accessToken) => ({
+        serviceId: service.id,
+        type: "oauth" as const,
+        accessToken,
+      }))
+    : getServiceCredentials(service.id).map((data) => ({
+        serviceId: service.id,
+        type: "apikey" as const,
+        data,
+      }));
+}
+
+/**
+ * Resolves the credentials of every provider a function requires
+ *
+ * @private
+ */
+function resolveCredentials(
+  definition: FunctionDefinition,
+  selection: Record<string, number | undefined>,
+): ResultAsync<Record<string, FunctionCredentials>, InvokeFunctionErrorUnion> {
+  if (definition.providers.length === 0) {
+    return ResultAsync.fromSafePromise(Promise.resolve({}));
+  }
+
+  return listServices().andThen((services) =>
+    ResultAsync.combine(
+      definition.providers.map((provider) =>
+        selectConnection(services, provider, selection[provider])
+          .asyncAndThen(loadCredentials)
+          .map((credentials) => [provider, credentials] as const),
+      ),
+    ).map((entries) => Object.fromEntries(entries)),
+  );
+}
+
+/**
+ * Validates the input, injects credentials and runs a function
+ *
+ * @param {string} name - The registered function name
+ * @param {unknown} input - The input; must match the input schema
+ * @param {InvokeFunctionOptions} [options] - Connection selection
+ * @returns {ResultAsync<unknown, InvokeFunctionErrorUnion>} The output or error
+ *
+ * @example
+ * ```typescript
+ * const result = await invokeFunction("github_stars", { limit: 10 });
+ * ```
+ *
+ * @errors
+ * - FunctionNotFoundError - No function with this name
+ * - FunctionInputInvalidError - The input does not match the schema
+ * - FunctionProviderNotConnectedError - A required provider is not connected
+ * - FunctionProviderAmbiguousError - A required provider has several connections and none was selected
+ * - All errors from getServiceCredentials() and getAccessToken()
+ * - Any typed error of the handler
+ */
+export function invokeFunction(
+  name: string,
+  input: unknown,
+  options: InvokeFunctionOptions = {},
+): ResultAsync<unknown, InvokeFunctionErrorUnion> {
+  const definition = getFunction(name);
+  if (definition.isErr()) {
+    return errAsync(definition.error);
+  }
+  const validInput = validateJson(definition.value.input, input);
+  if (validInput.isErr()) {
+    return errAsync(new FunctionInputInvalidError(validInput.error.issues));
+  }
+
+  // Credential reads show up in the audit log as "... > function:<name>"
+  return withAuditActor(`function:${name}`, () =>
+    resolveCredentials(definition.value, options.services ?? {}).andThen(
+      (credentials) =>
+        definition.value.handler(validInput.value, { credentials }),
+    ),
+  );
+}
@@ -0,0 +1,141 @@
+import type { Static, TSchema } from "@sinclair/typebox";
+import { err, ok, Result, ResultAsync } from "neverthrow";
+import {
+  FunctionNameInvalidError,
+  FunctionNotFoundError,
+} from "./functions.errors";
+
+/**
+ * Decrypted access to one connected service, injected into handlers
+ *
+ * @remarks
+ * OAuth connections carry a fresh access token (refreshed when close to
+ * expiry); API key connections carry their decrypted credentials.
+ */
+export type FunctionCredentials =
+  | { serviceId: number; type: "oauth"; accessToken: string }
+  | { serviceId: number; type: "apikey"; data: unknown };
+
+/**
+ * What a handler gets besides its input
+ *
+ * @template P - The required providers
+ * @property {Record<P, FunctionCredentials>} credentials - One connection per required provider
+ */
+export interface FunctionContext<P extends string = string> {
+  credentials: Record<P, FunctionCredentials>;
+}
+
+/**
+ * Any typed error a handler fails with
+ *
+ * @remarks
+ * Handlers fail with the typed errors of the services they call; the
+ * `type` decides the HTTP status like for every other route.
+ */
+export type FunctionHandlerError = Error & { type: string };
+
+/**
+ * A utility of the function space
+ *
+ * @template I - Input schema
+ * @template O - Output schema
+ * @template P - Required connected-service providers
+ * @property {string} name - Route segment and Telegram command (`a-z`, `0-9`, `_`, at most 32)
+ * @property {string} description - One line shown in Swagger and the bot's /help
+ * @property {I} input - TypeBox schema of the input (an object)
+ * @property {O} output - TypeBox schema of the output
+ * @property {readonly P[]} providers - Providers the handler needs credentials for
+ */
+export interface FunctionDefinition<
+  I extends TSchema = TSchema,
+  O extends TSchema = TSchema,
+  P extends string = string,
+> {
+  name: string;
+  description: string;
+  input: I;
+  output: O;
+  providers: readonly P[];
+  handler(
+    input: Static<I>,
+    context: FunctionContext<P>,
+  ): ResultAsync<Static<O>, FunctionHandlerError>;
+}
+
+const FUNCTION_NAME = /^[a-z][a-z0-9_]{0,31}$/;
+
+const functions = new Map<string, FunctionDefinition>();
+
+/**
+ * Declares a function with inferred input, output and provider types
+ *
+ * @param {FunctionDefinition<I, O, P>} definition - The function
+ * @returns {FunctionDefinition<I, O, P>} The same definition
+ *
+ * @example
+ * ```typescript
+ * const echo = defineFunction({
+ *   name: "echo",
+ *   description: "Returns its input",
+ *   input: t.Object({ text: t.String() }),
+ *   output: t.Object({ text: t.String() }),
+ *   providers: [],
+ *   handler: (input) => okAsync(input),
+ * });
+ * registerFunction(echo);
+ * ```
+ */
+export function defineFunction<
+  I extends TSchema,
+  O extends TSchema,
+  const P extends string = never,
+>(definition: FunctionDefinition<I, O, P>): FunctionDefinition<I, O, P> {
+  return definition;
+}
+
+/**
+ * Registers a function (replacing a function with the same name)
+ *
+ * @param {FunctionDefinition} definition - The function
+ * @returns {Result<void, FunctionNameInvalidError>} Result with nothing or error
+ *
+ * @remarks
+ * The REST routes and bot commands are built from the registry when the
+ * app and the bot are created, so register functions before that.
+ */
+export function registerFunction<
+  I extends TSchema,
+  O extends TSchema,
+  P extends string,
+>(
+  definition: FunctionDefinition<I, O, P>,
+): Result<void, FunctionNameInvalidError> {
+  if (!FUNCTION_NAME.test(definition.name)) {
+    return err(new FunctionNameInvalidError(definition.name));
+  }
+  functions.set(definition.name, definition as unknown as FunctionDefinition);
+  return ok(undefined);
+}
+
+/**
+ * Looks up a registered function
+ *
+ * @param {string} name - The function name
+ * @returns {Result<FunctionDefinition, FunctionNotFoundError>} Result with the function or error
+ */
+export function getFunction(
+  name: string,
+): Result<FunctionDefinition, FunctionNotFoundError> {
+  const definition = functions.get(name);
+  return definition ? ok(definition) : err(new FunctionNotFoundError(name));
+}
+
+/**
+ * Lists all registered functions, sorted by name
+ *
+ * @returns {FunctionDefinition[]} The functions
+ */
+export function listFunctions(): FunctionDefinition[] {
+  return [...functions.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "bun:test";
+import { parseNextLink } from "./client";
+
+describe("GitHub Client", () => {
+  it("should find the next page in a Link header", () => {
+    const link =
+      '<https://api.github.com/user/starred?page=3>; rel="next", <https://api.github.com/user/starred?page=9>; rel="last", <https://api.github.com/user/starred?page=1>; rel="first"';
+
+    expect(parseNextLink(link)).toBe(
+      "https://api.github.com/user/starred?page=3",
+    );
+  });
+
+  it("should return null on the last page", () => {
+    expect(
+      parseNextLink(
+        '<https://api.github.com/user/starred?page=1>; rel="first", <https://api.github.com/user/starred?page=8>; rel="prev"',
+      ),
+    ).toBeNull();
+    expect(parseNextLink(null)).toBeNull();
+  });
+});
@@ -0,0 +1,595 @@
+import type { Static, TSchema } from "@sinclair/typebox";
+import { Type } from "@sinclair/typebox";
+import { err, errAsync, ok, okAsync, ResultAsync } from "neverthrow";
+import type { ConnectedService } from "../../db/schema";
+import type { JsonSchemaMismatchError } from "../../lib/crypto.errors";
+import { validateJson } from "../../lib/json-schema";
+import {
+  getService,
+  getServiceCredentialsWithSchema,
+  listServices,
+} from "../crud/connected-services";
+import type { GetServiceCredentialsWithSchemaErrorUnion } from "../crud/connected-services.errors";
+import type {
+  AccessTokenSession,
+  GetAccessTokenErrorUnion,
+} from "../oauth/tokens";
+import { createAccessTokenSession, getAccessToken } from "../oauth/tokens";
+import type { GitHubErrorUnion } from "./github.errors";
+import {
+  GitHubApiError,
+  GitHubConnectionAmbiguousError,
+  GitHubNotConnectedError,
+  GitHubNotFoundError,
+  GitHubRateLimitedError,
+} from "./github.errors";
+import { GITHUB_PROVIDER_ID } from "./provider";
+
+/**
+ * Default base URL of the GitHub REST API (overridable with `GITHUB_API_URL`)
+ */
+export const GITHUB_API_URL = "https://api.github.com";
+
+/** The maximum page size of the list endpoints */
+const PAGE_SIZE = 100;
+
+/**
+ * A repository as exported by the GitHub integration
+ *
+ * @property {string} fullName - `owner/name`
+ * @property {string} url - The repository page
+ * @property {string | null} description - The description
+ * @property {string | null} language - The primary language
+ * @property {number} stars - Number of stargazers
+ * @property {string[]} topics - The repository topics
+ * @property {string | null} pushedAt - Last push (ISO 8601, null for empty repositories)
+ * @property {boolean} private - Whether the repository is private
+ * @property {boolean} fork - Whether the repository is a fork
+ * @property {boolean} archived - Whether the repository is archived
+ */
+export interface GitHubRepository {
+  fullName: string;
+  url: string;
+  description: string | null;
+  language: string | null;
+  stars: number;
+  topics: string[];
+  pushedAt: string | null;
+  private: boolean;
+  fork: boolean;
+  archived: boolean;
+}
+
+/**
+ * An unread notification thread
+ *
+ * @property {string} id - The thread id (used to mark it read)
+ * @property {string} title - Title of the issue, pull request, release, ...
+ * @property {string} type - Subject type (e.g. "PullRequest", "Issue")
+ * @property {string} reason - Why the account was notified (e.g. "mention")
+ * @property {string} repository - `owner/name` of the repository
+ * @property {string | null} subjectUrl - API URL of the subject
+ * @property {string} updatedAt - Last update (ISO 8601)
+ */
+export interface GitHubNotification {
+  id: string;
+  title: string;
+  type: string;
+  reason: string;
+  repository: string;
+  subjectUrl: string | null;
+  updatedAt: string;
+}
+
+export type GitHubClientErrorUnion =
+  | GitHubErrorUnion
+  | GetServiceCredentialsWithSchemaErrorUnion
+  | GetAccessTokenErrorUnion
+  | JsonSchemaMismatchError;
+
+/**
+ * A token already resolved for a GitHub connection (e.g. injected into a function)
+ *
+ * @property {number} serviceId - The connection the token belongs to
+ * @property {"oauth" | "apikey"} type - OAuth access token or personal access token
+ * @property {string} accessToken - The token
+ */
+export interface GitHubAccessToken {
+  serviceId: number;
+  type: ConnectedService["type"];
+  accessToken: string;
+}
+
+type GitHubConnection = Pick<ConnectedService, "id" | "type">;
+
+const ApiKeyCredentials = Type.Object({ apiKey: Type.String() });
+
+const Repository = Type.Object({
+  full_name: Type.String(),
+  html_url: Type.String(),
+  description: Type.Union([Type.String(), Type.Null()]),
+  language: Type.Union([Type.String(), Type.Null()]),
+  stargazers_count: Type.Number(),
+  topics: Type.Optional(Type.Array(Type.String())),
+  pushed_at: Type.Union([Type.String(), Type.Null()]),
+  private: Type.Boolean(),
+  fork: Type.Boolean(),
+  archived: Type.Boolean(),
+});
+
+const Notification = Type.Object({
+  id: Type.String(),
+  reason: Type.String(),
+  updated_at: Type.String(),
+  subject: Type.Object({
+    title: Type.String(),
+    type: Type.String(),
+    url: Type.Union([Type.String(), Type.Null()]),
+  }),
+  repository: Type.Object({ full_name: Type.String() }),
+});
+
+/**
+ * Last known rate limit per connection
+ *
+ * @remarks
+ * Updated from the `x-ratelimit-*` headers of every response, so an
+ * exhausted limit is detected before the next request is sent.
+ */
+const rateLimits = new Map<number, { remaining: number; resetAt: Date }>();
+
+/**
+ * Returns the `rel="next"` URL of a `Link` header
+ *
+ * @param {string | null} link - The `Link` header
+ * @returns {string | null} The URL of the next page (null on the last page)
+ */
+export function parseNextLink(link: string | null): string | null {
+  if (!link) {
+    return null;
+  }
+  for (const part of link.split(",")) {
+    const match = /<([^>]+)>\s*;\s*rel="?([^";]+)"?/.exec(part);
+    if (match?.[2]?.split(/\s+/).includes("next")) {
+      return match[1]!;
+    }
+  }
+  return null;
+}
+
+// API base URL, set at startup from `config.github.apiUrl`
+let baseUrl = GITHUB_API_URL;
+
+/**
+ * Points the client at the configured API
+ *
+ * @param {{ apiUrl: string }} config - `config.github`
+ */
+export function configureGitHubClient(config: { apiUrl: string }): void {
+  baseUrl = config.apiUrl.replace(/\/$/, "");
+}
+
+/**
+ * Picks the GitHub connection to use
+ *
+ * @param {number} [serviceId] - The connection to use; required if several accounts are connected
+ * @returns {ResultAsync<GitHubConnection, GitHubClientErrorUnion>} The connection (id and type) or error
+ *
+ * @errors
+ * - GitHubNotConnectedError - No GitHub account is connected, or `serviceId` is not one
+ * - GitHubConnectionAmbiguousError - Several accounts are connected and none was selected
+ *
+ * @remarks
+ * Both OAuth connections and personal access tokens (`type: "apikey"`) count.
+ */
+export function resolveGitHubConnection(
+  serviceId?: number,
+): ResultAsync<GitHubConnection, GitHubClientErrorUnion> {
+  if (serviceId !== undefined) {
+    return getService(serviceId)
+      .orElse((error) =>
+        error.type === "SERVICE_NOT_FOUND"
+          ? errAsync(new GitHubNotConnectedError(serviceId))
+          : errAsync(error),
+      )
+      .andThen((service) =>
+        service.provider === GITHUB_PROVIDER_ID
+          ? ok({ id: service.id, type: service.type })
+          : err(new GitHubNotConnectedError(serviceId)),
+      );
+  }
+
+  return listServices().andThen((services) => {
+    const connections = services.filter(
+      (service) => service.provider === GITHUB_PROVIDER_ID,
+    );
+    if (connections.length === 0) {
+      return err(new GitHubNotConnectedError());
+    }
+    if (connections.length > 1) {
+      return err(
+        new GitHubConnectionAmbiguousError(
+          connections.map((service) => service.id),
+        ),
+      );
+    }
+    return ok({ id: connections[0]!.id, type: connections[0]!.type });
+  });
+}
+
+/**
+ * Returns the token of a connection (OAuth access token or PAT)
+ *
+ * @private
+ */
+function getToken(
+  connection: GitHubConnection,
+): ResultAsync<string, GitHubClientErrorUnion> {
+  if (connection.type === "oauth") {
+    return getAccessToken(connection.id);
+  }
+  return getServiceCredentialsWithSchema(connection.id, ApiKeyCredentials).map(
+    (credentials) => credentials.apiKey,
+  );
+}
+
+/**
+ * Resolves the token of an operation once, for all of its requests
+ *
+ * @private
+ * @remarks
+ * Only OAuth tokens are refreshed on a 401; a rejected PAT is an error.
+ */
+function openSession(
+  connection?: number | GitHubAccessToken,
+): ResultAsync<AccessTokenSession, GitHubClientErrorUnion> {
+  if (typeof connection === "object") {
+    return okAsync(
+      createAccessTokenSession(connection.serviceId, connection.accessToken, {
+        refresh: connection.type === "oauth",
+      }),
+    );
+  }
+
+  return resolveGitHubConnection(connection).andThen((resolved) =>
+    getToken(resolved).map((token) =>
+      createAccessTokenSession(resolved.id, token, {
+        refresh: resolved.type === "oauth",
+      }),
+    ),
+  );
+}
+
+interface GitHubResponse {
+  status: number;
+  headers: Headers;
+  json: unknown;
+}
+
+interface RawResponse {
+  status: number;
+  headers: Headers;
+  text: string;
+}
+
+/**
+ * Sends a single authorized request and records the rate limit
+ *
+ * @private
+ */
+function sendRequest(
+  serviceId: number,
+  url: string,
+  init: { method?: string; body?: unknown },
+  token: string,
+): ResultAsync<RawResponse, GitHubClientErrorUnion> {
+  return ResultAsync.fromPromise(
+    fetch(url, {
+      method: init.method ?? "GET",
+      headers: {
+        authorization: `Bearer ${token}`,
+        accept: "application/vnd.github+json",
+        "x-github-api-version": "2022-11-28",
+        "user-agent": "coresvc",
+        ...(init.body === undefined
+          ? {}
+          : { "content-type": "application/json" }),
+      },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    }).then(async (response) => {
+      const remaining = response.headers.get("x-ratelimit-remaining");
+      const reset = response.headers.get("x-ratelimit-reset");
+      if (remaining !== null && reset !== null) {
+        rateLimits.set(serviceId, {
+          remaining: Number(remaining),
+          resetAt: new Date(Number(reset) * 1000),
+        });
+      }
+      const text = await response.text();
+      return { status: response.status, headers: response.headers, text };
+    }),
+    (error) =>
+      new GitHubApiError(
+        null,
+        error instanceof Error ? error.message : String(error),
+      ),
+  );
+}
+
+/**
+ * Calls a GitHub API endpoint
+ *
+ * @private
+ * @remarks
+ * - Fails fast with GitHubRateLimitedError while the last response said the limit is exhausted
+ * - A 401 on an OAuth connection is retried once with a refreshed token
+ */
+function githubRequest(
+  session: AccessTokenSession,
+  url: string,
+  init: { method?: string; body?: unknown } = {},
+): ResultAsync<GitHubResponse, GitHubClientErrorUnion> {
+  const limit = rateLimits.get(session.serviceId);
+  if (limit && limit.remaining <= 0 && limit.resetAt.getTime() > Date.now()) {
+    return errAsync(new GitHubRateLimitedError(limit.resetAt));
+  }
+
+  return session
+    .send((token) => sendRequest(session.serviceId, url, init, token))
+    .andThen(({ status, headers, text }) => {
+      let json: unknown = null;
+      if (text) {
+        try {
+          json = JSON.parse(text);
+        } catch {
+          return err(new GitHubApiError(status, "Response is not JSON"));
+        }
+      }
+
+      const retryAfter = headers.get("retry-after");
+      if (
+        (status === 403 || status === 429) &&
+        (retryAfter !== null || headers.get("x-ratelimit-remaining") === "0")
+      ) {
+        return err(
+          new GitHubRateLimitedError(
+            retryAfter !== null
+              ? new Date(Date.now() + Number(retryAfter) * 1000)
+              : (rateLimits.get(session.serviceId)?.resetAt ?? new Date()),
+          ),
+        );
+      }
+      if (status === 404) {
+        return err(new GitHubNotFoundError(new URL(url).pathname));
+      }
+      if (status >= 400) {
+        const message =
+          typeof (json as { message?: unknown } | null)?.message === "string"
+            ? (json as { message: string }).message
+            : text.slice(0, 200);
+        return err(new GitHubApiError(status, message));
+      }
+
+      return ok({ status, headers, json });
+    });
+}
+
+/**
+ * Fetches every page of a list endpoint by following `Link` headers
+ *
+ * @private
+ */
+function paginate<S extends TSchema>(
+  session: AccessTokenSession,
+  url: string,
+  itemSchema: S,
+  collected: Static<S>[] = [],
+): ResultAsync<Static<S>[], GitHubClientErrorUnion> {
+  return githubRequest(session, url).andThen(({ status, headers, json }) =>
+    validateJson(Type.Array(itemSchema), json)
+      .mapErr(
+        (error) =>
+          new GitHubApiError(status, `Unexpected response: ${error.message}`),
+      )
+      .asyncAndThen((page) => {
+        const items = [...collected, ...page];
+        const next = parseNextLink(headers.get("link"));
+        if (!next) {
+          return okAsync(items);
+        }
+        // The token must never be sent anywhere but the API
+        if (new URL(next).origin !== new URL(baseUrl).origin) {
+          return errAsync(
+            new GitHubApiError(status, `Refusing to follow next link ${next}`),
+          );
+        }
+        return paginate(session, next, itemSchema, items);
+      }),
+  );
+}
+
+/**
+ * Builds the URL of the first page of a list endpoint
+ *
+ * @private
+ */
+function listUrl(path: string, params: Record<string, string> = {}): string {
+  const url = new URL(`${baseUrl}${path}`);
+  for (const [name, value] of Object.entries({
+    ...params,
+    per_page: String(PAGE_SIZE),
+  })) {
+    url.searchParams.set(name, value);
+  }
+  return url.toString();
+}
+
+/**
+ * Maps an API repository to the exported shape
+ *
+ * @private
+ */
+function toRepository(repository: Static<typeof Repository>): GitHubRepository {
+  return {
+    fullName: repository.full_name,
+    url: repository.html_url,
+    description: repository.description,
+    language: repository.language,
+    stars: repository.stargazers_count,
+    topics: repository.topics ?? [],
+    pushedAt: repository.pushed_at,
+    private: repository.private,
+    fork: repository.fork,
+    archived: repository.archived,
+  };
+}
+
+/**
+ * Lists the repositories starred by the account
+ *
+ * @param {number | GitHubAccessToken} [connection] - The GitHub connection to use (required if several accounts are connected), or a token already resolved for it
+ * @returns {ResultAsync<GitHubRepository[], GitHubClientErrorUnion>} The starred repositories (most recently starred first) or error
+ *
+ * @errors
+ * - GitHubNotConnectedError / GitHubConnectionAmbiguousError - See {@link resolveGitHubConnection}
+ * - GitHubRateLimitedError - The rate limit is exhausted
+ * - GitHubApiError - The API failed or returned an unexpected response
+ * - All errors from getAccessToken() and getServiceCredentialsWithSchema()
+ *
+ * @remarks
+ * With a {@link GitHubAccessToken} the credentials are not read again; an
+ * OAuth token is only refreshed if the API rejects it.
+ */
+export function listStarredRepositories(
+  serviceId?: number,
+): ResultAsync<GitHubRepository[], GitHubClientErrorUnion>;
+export function listStarredRepositories(
+  token: GitHubAccessToken,
+): ResultAsync<GitHubRepository[], GitHubClientErrorUnion>;
+export function listStarredRepositories(
+  connection?: number | GitHubAccessToken,
+): ResultAsync<GitHubRepository[], GitHubClientErrorUnion> {
+  return openSession(connection)
+    .andThen((session) =>
+      paginate(session, listUrl("/user/starred"), Repository),
+    )
+    .map((repositories) => repositories.map(toRepository));
+}
+
+/**
+ * Lists the repositories of a user, or of the account itself
+ *
+ * @param {string} [username] - The user; omit for the account's own repositories (including private ones)
+ * @param {number | GitHubAccessToken} [connection] - The GitHub connection or its token, see {@link listStarredRepositories}
+ * @returns {ResultAsync<GitHubRepository[], GitHubClientErrorUnion>} The repositories (most recently pushed first) or error
+ *
+ * @errors
+ * - GitHubNotFoundError - The user does not exist
+ * - All errors from {@link listStarredRepositories}
+ */
+export function listRepositories(
+  username?: string,
+  serviceId?: number,
+): ResultAsync<GitHubRepository[], GitHubClientErrorUnion>;
+export function listRepositories(
+  username: string | undefined,
+  token: GitHubAccessToken,
+): ResultAsync<GitHubRepository[], GitHubClientErrorUnion>;
+export function listRepositories(
+  username?: string,
+  connection?: number | GitHubAccessToken,
+): ResultAsync<GitHubRepository[], GitHubClientErrorUnion> {
+  const url = username
+    ? listUrl(`/users/${encodeURIComponent(username)}/repos`, {
+        sort: "pushed",
+        type: "owner",
+      })
+    : listUrl("/user/repos", { sort: "pushed", affiliation: "owner" });
+
+  return openSession(connection)
+    .andThen((session) => paginate(session, url, Repository))
+    .map((repositories) => repositories.map(toRepository));
+}
+
+/**
+ * Lists the unread notifications of the account
+ *
+ * @param {number | GitHubAccessToken} [connection] - The GitHub connection or its token, see {@link listStarredRepositories}
+ * @returns {ResultAsync<GitHubNotification[], GitHubClientErrorUnion>} The unread notifications (newest first) or error
+ *
+ * @errors
+ * - All errors from {@link listStarredRepositories}
+ */
+export function listNotifications(
+  serviceId?: number,
+): ResultAsync<GitHubNotification[], GitHubClientErrorUnion>;
+export function listNotifications(
+  token: GitHubAccessToken,
+): ResultAsync<GitHubNotification[], GitHubClientErrorUnion>;
+export function listNotifications(
+  connection?: number | GitHubAccessToken,
+): ResultAsync<GitHubNotification[], GitHubClientErrorUnion> {
+  return openSession(connection)
+    .andThen((session) =>
+      paginate(session, listUrl("/notifications"), Notification),
+    )
+    .map((notifications) =>
+      notifications.map((notification) => ({
+        id: notification.id,
+        title: notification.subject.title,
+        type: notification.subject.type,
+        reason: notification.reason,
+        repository: notification.repository.full_name,
+        subjectUrl: notification.subject.url,
+        updatedAt: notification.updated_at,
+      })),
+    );
+}
+
+/**
+ * Marks notifications as read
+ *
+ * @param {object} [options] - What to mark
+ * @param {string} [options.threadId] - A single thread; omit to mark all notifications
+ * @param {Date} [options.lastReadAt] - When marking all, only notifications updated before this time (default: now)
+ * @param {number | GitHubAccessToken} [connection] - The GitHub connection or its token, see {@link listStarredRepositories}
+ * @returns {ResultAsync<void, GitHubClientErrorUnion>} Nothing or error
+ *
+ * @errors
+ * - GitHubNotFoundError - The thread does not exist
+ * - All errors from {@link listStarredRepositories}
+ *
+ * @remarks
+ * GitHub marks large numbers of notifications asynchronously (202), so
+ * a following {@link listNotifications} may still return some of them.
+ */
+export function markNotificationsRead(
+  options?: { threadId?: string; lastReadAt?: Date },
+  serviceId?: number,
+): ResultAsync<void, GitHubClientErrorUnion>;
+export function markNotificationsRead(
+  options: { threadId?: string; lastReadAt?: Date } | undefined,
+  token: GitHubAccessToken,
+): ResultAsync<void, GitHubClientErrorUnion>;
+export function markNotificationsRead(
+  options: { threadId?: string; lastReadAt?: Date } = {},
+  connection?: number | GitHubAccessToken,
+): ResultAsync<void, GitHubClientErrorUnion> {
+  return openSession(connection)
+    .andThen((session) =>
+      options.threadId
+        ? githubRequest(
+            session,
+            `${baseUrl}/notifications/threads/${encodeURIComponent(options.threadId)}`,
+            { method: "PATCH" },
+          )
+        : githubRequest(session, `${baseUrl}/notifications`, {
+            method: "PUT",
+            body: {
+              last_read_at: (options.lastReadAt ?? new Date()).toISOString(),
+              read: true,
+            },
+          }),
+    )
+    .map(() => undefined);
+}
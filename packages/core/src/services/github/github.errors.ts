@@ -0,0 +1,106 @@
+/**
+ * GitHub Error Types
+ *
+ * Discriminated union type for all errors of the GitHub integration.
+ */
+export type GitHubErrorType =
+  | "GITHUB_NOT_CONNECTED"
+  | "GITHUB_CONNECTION_AMBIGUOUS"
+  | "GITHUB_NOT_FOUND"
+  | "GITHUB_RATE_LIMITED"
+  | "GITHUB_API_ERROR";
+
+/**
+ * Base class for all GitHub errors.
+ */
+export abstract class GitHubError extends Error {
+  abstract readonly type: GitHubErrorType;
+
+  constructor(message: string) {
+    super(message);
+    this.name = this.constructor.name;
+    Error.captureStackTrace?.(this, this.constructor);
+  }
+}
+
+/**
+ * Error thrown when no GitHub connection exists, or the given connection
+ * is not a GitHub connection.
+ */
+export class GitHubNotConnectedError extends GitHubError {
+  readonly type = "GITHUB_NOT_CONNECTED" as const;
+
+  constructor(public readonly serviceId?: number) {
+    super(
+      serviceId === undefined
+        ? "No GitHub account is connected"
+        : `Connected service ${serviceId} is not a GitHub connection`,
+    );
+  }
+}
+
+/**
+ * Error thrown when several GitHub accounts are connected and the request
+ * did not say which one to use.
+ */
+export class GitHubConnectionAmbiguousError extends GitHubError {
+  readonly type = "GITHUB_CONNECTION_AMBIGUOUS" as const;
+
+  constructor(public readonly serviceIds: number[]) {
+    super(
+      `Several GitHub accounts are connected (${serviceIds.join(", ")}); select one by connection id`,
+    );
+  }
+}
+
+/**
+ * Error thrown when a user, repository or notification thread does not
+ * exist or is not visible to the account.
+ */
+export class GitHubNotFoundError extends GitHubError {
+  readonly type = "GITHUB_NOT_FOUND" as const;
+
+  constructor(public readonly path: string) {
+    super(`GitHub resource not found: ${path}`);
+  }
+}
+
+/**
+ * Error thrown when the rate limit of the account is exhausted.
+ *
+ * @remarks
+ * No request is sent until `resetAt`; retrying earlier only burns into
+ * GitHub's secondary limits.
+ */
+export class GitHubRateLimitedError extends GitHubError {
+  readonly type = "GITHUB_RATE_LIMITED" as const;
+
+  constructor(public readonly resetAt: Date) {
+    super(`GitHub rate limit exceeded until ${resetAt.toISOString()}`);
+  }
+}
+
+/**
+ * Error thrown when the GitHub API fails or returns an unexpected response.
+ */
+export class GitHubApiError extends GitHubError {
+  readonly type = "GITHUB_API_ERROR" as const;
+
+  constructor(
+    public readonly status: number | null,
+    public readonly detail: string,
+  ) {
+    super(
+      status === null
+        ? `GitHub API request failed: ${detail}`
+        : `GitHub API request failed with status ${status}: ${detail}`,
+    );
+  }
+}
+
+export type GitHubErrorUnion =
+  | GitHubNotConnectedError
+  | GitHubConnectionAmbiguousError
+  | GitHubNotFoundError
+  | GitHubRateLimitedError
+  | GitHubApiError;
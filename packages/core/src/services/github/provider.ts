@@ -0,0 +1,41 @@
+import type { ProviderConfig } from "../../config/config";
+import { registerOAuthProvider } from "../oauth/providers";
+
+/**
+ * Provider id of GitHub connections (`connected_services.provider`)
+ */
+export const GITHUB_PROVIDER_ID = "github";
+
+/**
+ * Registers the GitHub OAuth provider
+ *
+ * @param {ProviderConfig} github - OAuth app credentials and API base URL (`config.github`)
+ * @returns {boolean} Whether the provider was registered (false without credentials)
+ *
+ * @remarks
+ * - Personal access tokens work without the provider: connect them with
+ *   `POST /services` and `provider: "github"`
+ * - The login (and public email, if any) of `GET /user` is stored as the
+ *   account of new connections
+ */
+export function registerGitHubProvider(github: ProviderConfig): boolean {
+  const client = github.oauth;
+  if (!client) {
+    return false;
+  }
+
+  registerOAuthProvider({
+    id: GITHUB_PROVIDER_ID,
+    authorizationUrl: "https://github.com/login/oauth/authorize",
+    tokenUrl: "https://github.com/login/oauth/access_token",
+    clientId: client.clientId,
+    clientSecret: client.clientSecret,
+    scopes: ["repo", "notifications", "read:user"],
+    account: {
+      url: `${github.apiUrl}/user`,
+      email: "email",
+      username: "login",
+    },
+  });
+  return true;
+}
@@ -0,0 +1,94 @@
+import { errAsync, okAsync, ResultAsync } from "neverthrow";
+import type { ServiceAccount } from "../../db/service-accounts";
+import { OAuthAccountLookupFailedError } from "./oauth.errors";
+import type { OAuthProvider } from "./providers";
+import type { OAuthTokens } from "./token-endpoint";
+
+/**
+ * Reads a non-empty string field of the account response
+ *
+ * @private
+ */
+function readField(
+  body: Record<string, unknown>,
+  field: string | undefined,
+): string | undefined {
+  const value = field === undefined ? undefined : body[field];
+  return typeof value === "string" && value !== "" ? value : undefined;
+}
+
+/**
+ * Reads the account new tokens belong to from the provider
+ *
+ * @param {OAuthProvider} provider - The provider
+ * @param {OAuthTokens} tokens - The tokens of the new connection
+ * @returns {ResultAsync<ServiceAccount | undefined, OAuthAccountLookupFailedError>} The account (undefined when the provider has no account endpoint or reports no identifier) or error
+ *
+ * @errors
+ * - OAuthAccountLookupFailedError - Network failure, error status, or a response that is not a JSON object
+ *
+ * @remarks
+ * Only the fields named by `provider.account` are kept; they are what the
+ * blind indexes of the connected service are computed from.
+ */
+export function fetchServiceAccount(
+  provider: OAuthProvider,
+  tokens: OAuthTokens,
+): ResultAsync<ServiceAccount | undefined, OAuthAccountLookupFailedError> {
+  const endpoint = provider.account;
+  if (!endpoint) {
+    return okAsync(undefined);
+  }
+
+  return ResultAsync.fromPromise(
+    fetch(endpoint.url, {
+      headers: {
+        authorization: `Bearer ${tokens.access_token}`,
+        accept: "application/json",
+      },
+    }).then(async (response) => ({
+      status: response.status,
+      ok: response.ok,
+      text: await response.text(),
+    })),
+    (error) =>
+      new OAuthAccountLookupFailedError(
+        null,
+        error instanceof Error ? error.message : String(error),
+      ),
+  ).andThen(({ status, ok, text }) => {
+    if (!ok) {
+      return errAsync(
+        new OAuthAccountLookupFailedError(status, text.slice(0, 200)),
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return errAsync(
+        new OAuthAccountLookupFailedError(status, "Response is not JSON"),
+      );
+    }
+    if (body === null || typeof body !== "object" || Array.isArray(body)) {
+      return errAsync(
+        new OAuthAccountLookupFailedError(
+          status,
+          "Response is not a JSON object",
+        ),
+      );
+    }
+
+    const fields = body as Record<string, unknown>;
+    const account: ServiceAccount = {
+      email: readField(fields, endpoint.email),
+      username: readField(fields, endpoint.username),
+    };
+    return okAsync(
+      account.email === undefined && account.username === undefined
+        ? undefined
+        : account,
+    );
+  });
+}
@@ -0,0 +1,74 @@
+import type { ConnectedServiceSummary } from "../crud/connected-services";
+
+/**
+ * Outcome of an OAuth authorization, pushed to the waiting client
+ */
+export type AuthorizationEvent =
+  | { type: "connected"; service: ConnectedServiceSummary }
+  | { type: "failed"; error: { type: string; message: string } };
+
+type AuthorizationListener = (event: AuthorizationEvent) => void;
+
+const listeners = new Map<string, Set<AuthorizationListener>>();
+
+/**
+ * Subscribes to the outcome of the authorization with the given state
+ *
+ * @param {string} state - The OAuth state of the authorization
+ * @param {AuthorizationListener} listener - Called once with the outcome
+ * @returns {() => void} Unsubscribes the listener
+ *
+ * @remarks
+ * Events are in-process only; the callback must hit the same instance
+ * that started the authorization.
+ */
+export function onAuthorizationEvent(
+  state: string,
+  listener: AuthorizationListener,
+): () => void {
+  const stateListeners = listeners.get(state) ?? new Set();
+  stateListeners.add(listener);
+  listeners.set(state, stateListeners);
+
+  return () => {
+    stateListeners.delete(listener);
+    if (stateListeners.size === 0) {
+      listeners.delete(state);
+    }
+  };
+}
+
+/**
+ * Publishes the outcome of an authorization to all its listeners
+ *
+ * @param {string} state - The OAuth state of the authorization
+ * @param {AuthorizationEvent} event - The outcome
+ */
+export function publishAuthorizationEvent(
+  state: string,
+  event: AuthorizationEvent,
+): void {
+  const stateListeners = listeners.get(state);
+  listeners.delete(state);
+  stateListeners?.forEach((listener) => listener(event));
+}
+
+/**
+ * Fails every authorization that still has listeners
+ *
+ * @remarks
+ * Called on shutdown, so the open event streams end with a `failed` event
+ * rather than holding the HTTP server open until they expire.
+ */
+export function failPendingAuthorizations(): void {
+  const event: AuthorizationEvent = {
+    type: "failed",
+    error: {
+      type: "SERVER_SHUTTING_DOWN",
+      message: "The server is shutting down, start the authorization again",
+    },
+  };
+  for (const state of [...listeners.keys()]) {
+    publishAuthorizationEvent(state, event);
+  }
+}
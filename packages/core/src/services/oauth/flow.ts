@@ -0,0 +1,284 @@
+import { createHash, randomBytes } from "node:crypto";
+import { and, eq, lt } from "drizzle-orm";
+import { err, errAsync, ok, okAsync, Result, ResultAsync } from "neverthrow";
+import { sealJson } from "../../db/columns";
+import { getDb } from "../../db/index";
+import type { OAuthState } from "../../db/schema";
+import { oauthStates, oauthVerifierColumn } from "../../db/schema";
+import type {
+  DecryptJsonErrorUnion,
+  EncryptJsonErrorUnion,
+} from "../../lib/crypto.errors";
+import type { ConnectedServiceSummary } from "../crud/connected-services";
+import { saveServiceCredentials } from "../crud/connected-services";
+import type { SaveServiceCredentialsErrorUnion } from "../crud/connected-services.errors";
+import { fetchServiceAccount } from "./account";
+import { publishAuthorizationEvent } from "./events";
+import type { OAuthErrorUnion } from "./oauth.errors";
+import {
+  OAuthAuthorizationDeniedError,
+  OAuthDatabaseError,
+  OAuthRedirectUriInvalidError,
+  OAuthStateExpiredError,
+  OAuthStateInvalidError,
+} from "./oauth.errors";
+import { getOAuthProvider } from "./providers";
+import { requestTokens } from "./token-endpoint";
+
+/**
+ * How long a started authorization can be completed (10 minutes)
+ */
+export const AUTHORIZATION_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * A started authorization
+ *
+ * @property {string} authUrl - URL the user has to open to grant access
+ * @property {string} state - The OAuth state identifying this authorization
+ * @property {Date} expiresAt - When the authorization can no longer be completed
+ */
+export interface AuthorizationRequest {
+  authUrl: string;
+  state: string;
+  expiresAt: Date;
+}
+
+/**
+ * The query parameters the provider redirects back with
+ */
+export interface AuthorizationCallback {
+  state?: string;
+  code?: string;
+  error?: string;
+  error_description?: string;
+}
+
+export type StartAuthorizationErrorUnion =
+  OAuthErrorUnion | EncryptJsonErrorUnion;
+
+export type CompleteAuthorizationErrorUnion =
+  OAuthErrorUnion | DecryptJsonErrorUnion | SaveServiceCredentialsErrorUnion;
+
+/**
+ * Generates a random URL-safe token (state or PKCE verifier)
+ *
+ * @private
+ */
+function randomToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+/**
+ * Builds the redirect URI of a provider
+ *
+ * @param {string} redirectBaseUrl - Public base URL of the core service
+ * @param {string} providerId - The provider id
+ * @returns {Result<string, OAuthRedirectUriInvalidError>} The callback URL registered with the provider or error
+ *
+ * @errors
+ * - OAuthRedirectUriInvalidError - The base URL is not an absolute URL
+ */
+export function buildRedirectUri(
+  redirectBaseUrl: string,
+  providerId: string,
+): Result<string, OAuthRedirectUriInvalidError> {
+  const path = `/services/${encodeURIComponent(providerId)}/callback`;
+  if (!URL.canParse(path, redirectBaseUrl)) {
+    return err(new OAuthRedirectUriInvalidError(redirectBaseUrl));
+  }
+  return ok(new URL(path, redirectBaseUrl).toString());
+}
+
+/**
+ * Maps a database failure to OAuthDatabaseError
+ *
+ * @private
+ */
+function toDatabaseError(error: unknown): OAuthDatabaseError {
+  return new OAuthDatabaseError(
+    error instanceof Error ? error : new Error(String(error)),
+  );
+}
+
+/**
+ * Starts an authorization-code flow with PKCE
+ *
+ * @param {string} providerId - The registered provider id
+ * @param {string} redirectBaseUrl - Public base URL of the core service (the callback is derived from it)
+ * @returns {ResultAsync<AuthorizationRequest, StartAuthorizationErrorUnion>} The authorization URL and state or error
+ *
+ * @example
+ * ```typescript
+ * const result = await startAuthorization("youtube", "https://core.example.com");
+ * if (result.isOk()) {
+ *   console.log("Open:", result.value.authUrl);
+ * }
+ * ```
+ *
+ * @errors
+ * - UnknownOAuthProviderError - The provider is not registered
+ * - OAuthRedirectUriInvalidError - `redirectBaseUrl` is not an absolute URL
+ * - OAuthDatabaseError - The state could not be stored
+ * - All errors from sealJson() (missing or invalid key)
+ *
+ * @remarks
+ * - The state and the S256 code verifier are random 256-bit values
+ * - The verifier is stored encrypted and never leaves the server
+ * - Expired states are purged whenever a new authorization starts
+ */
+export function startAuthorization(
+  providerId: string,
+  redirectBaseUrl: string,
+): ResultAsync<AuthorizationRequest, StartAuthorizationErrorUnion> {
+  const providerResult = getOAuthProvider(providerId);
+  if (providerResult.isErr()) {
+    return errAsync(providerResult.error);
+  }
+  const provider = providerResult.value;
+
+  const state = randomToken();
+  const verifier = randomToken();
+  const codeVerifier = sealJson(verifier, oauthVerifierColumn);
+  if (codeVerifier.isErr()) {
+    return errAsync(codeVerifier.error);
+  }
+
+  const redirectUri = buildRedirectUri(redirectBaseUrl, provider.id);
+  if (redirectUri.isErr()) {
+    return errAsync(redirectUri.error);
+  }
+
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + AUTHORIZATION_TTL_MS);
+
+  return ResultAsync.fromPromise(
+    getDb().transaction(async (tx) => {
+      await tx.delete(oauthStates).where(lt(oauthStates.expiresAt, now));
+      await tx.insert(oauthStates).values({
+        state,
+        provider: provider.id,
+        codeVerifier: codeVerifier.value,
+        redirectUri: redirectUri.value,
+        expiresAt,
+      });
+    }),
+    toDatabaseError,
+  ).map(() => {
+    const authUrl = new URL(provider.authorizationUrl);
+    const params = {
+      ...provider.authorizationParams,
+      response_type: "code",
+      client_id: provider.clientId,
+      redirect_uri: redirectUri.value,
+      scope: provider.scopes.join(" "),
+      state,
+      code_challenge: createHash("sha256").update(verifier).digest("base64url"),
+      code_challenge_method: "S256",
+    };
+    for (const [name, value] of Object.entries(params)) {
+      authUrl.searchParams.set(name, value);
+    }
+
+    return { authUrl: authUrl.toString(), state, expiresAt };
+  });
+}
+
+/**
+ * Exchanges the code of a consumed state and stores the tokens
+ *
+ * @private
+ */
+function redeemState(
+  row: OAuthState,
+  callback: AuthorizationCallback,
+): ResultAsync<ConnectedServiceSummary, CompleteAuthorizationErrorUnion> {
+  if (row.expiresAt.getTime() < Date.now()) {
+    return errAsync(new OAuthStateExpiredError(row.expiresAt));
+  }
+  if (callback.error || !callback.code) {
+    return errAsync(
+      new OAuthAuthorizationDeniedError(
+        callback.error ?? "invalid_request",
+        callback.error
+          ? callback.error_description
+          : "Callback carries neither a code nor an error",
+      ),
+    );
+  }
+
+  const code = callback.code;
+  return getOAuthProvider(row.provider).asyncAndThen((provider) =>
+    row.codeVerifier.value
+      .asyncAndThen((codeVerifier) =>
+        requestTokens(provider, {
+          grant_type: "authorization_code",
+          code,
+          redirect_uri: row.redirectUri,
+          code_verifier: codeVerifier,
+        }),
+      )
+      .andThen((tokens) =>
+        fetchServiceAccount(provider, tokens).andThen((account) =>
+          saveServiceCredentials(row.provider, "oauth", tokens, { account }),
+        ),
+      ),
+  );
+}
+
+/**
+ * Completes an authorization from the provider's redirect
+ *
+ * @param {string} providerId - The provider id from the callback route
+ * @param {AuthorizationCallback} callback - The query parameters of the redirect
+ * @returns {ResultAsync<ConnectedServiceSummary, CompleteAuthorizationErrorUnion>} The new connected service or error
+ *
+ * @errors
+ * - OAuthStateInvalidError - Unknown, reused, or foreign state
+ * - OAuthStateExpiredError - The authorization took too long
+ * - OAuthAuthorizationDeniedError - The provider returned an error instead of a code
+ * - OAuthTokenExchangeFailedError - The token endpoint rejected the code
+ * - OAuthAccountLookupFailedError - The account endpoint of the provider failed
+ * - All errors from decrypting the verifier
+ * - All errors from saveServiceCredentials()
+ *
+ * @remarks
+ * - The state is deleted before anything else, so it can be used only once
+ * - Tokens are stored as a new `type: "oauth"` connected service, with the
+ *   account read from the provider's account endpoint (see `OAuthProvider.account`)
+ * - The outcome is published to the listeners of the state (see `onAuthorizationEvent`),
+ *   except for invalid states, which may not belong to the caller
+ */
+export function completeAuthorization(
+  providerId: string,
+  callback: AuthorizationCallback,
+): ResultAsync<ConnectedServiceSummary, CompleteAuthorizationErrorUnion> {
+  const state = callback.state;
+  if (!state) {
+    return errAsync(new OAuthStateInvalidError());
+  }
+
+  const consumed = ResultAsync.fromPromise(
+    getDb()
+      .delete(oauthStates)
+      .where(
+        and(eq(oauthStates.state, state), eq(oauthStates.provider, providerId)),
+      )
+      .returning(),
+    toDatabaseError,
+  ).andThen(([row]) =>
+    row ? okAsync(row) : errAsync(new OAuthStateInvalidError()),
+  );
+
+  return consumed.andThen((row) =>
+    redeemState(row, callback)
+      .andTee((service) =>
+        publishAuthorizationEvent(state, { type: "connected", service }),
+      )
+      .orTee((error) =>
+        publishAuthorizationEvent(state, {
+          type: "failed",
+          error: { type: error.type, message: error.message },
+        }),
+      ),
+  );
+}
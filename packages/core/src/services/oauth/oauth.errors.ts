@@ -0,0 +1,192 @@
+/**
+ * OAuth Error Types
+ *
+ * Discriminated union type for all errors of the OAuth authorization flow.
+ */
+export type OAuthErrorType =
+  | "UNKNOWN_OAUTH_PROVIDER"
+  | "OAUTH_STATE_INVALID"
+  | "OAUTH_STATE_EXPIRED"
+  | "OAUTH_AUTHORIZATION_DENIED"
+  | "OAUTH_TOKEN_EXCHANGE_FAILED"
+  | "OAUTH_ACCOUNT_LOOKUP_FAILED"
+  | "OAUTH_REAUTH_REQUIRED"
+  | "NOT_AN_OAUTH_SERVICE"
+  | "OAUTH_REDIRECT_URI_INVALID"
+  | "OAUTH_DATABASE_ERROR";
+
+/**
+ * Base class for all OAuth errors.
+ */
+export abstract class OAuthError extends Error {
+  abstract readonly type: OAuthErrorType;
+
+  constructor(message: string) {
+    super(message);
+    this.name = this.constructor.name;
+    Error.captureStackTrace?.(this, this.constructor);
+  }
+}
+
+/**
+ * Error thrown when no OAuth provider is registered under the given id.
+ */
+export class UnknownOAuthProviderError extends OAuthError {
+  readonly type = "UNKNOWN_OAUTH_PROVIDER" as const;
+
+  constructor(public readonly provider: string) {
+    super(`Unknown OAuth provider: ${provider}`);
+  }
+}
+
+/**
+ * Error thrown when the callback carries a state that was never issued,
+ * was already used, or belongs to another provider.
+ *
+ * @remarks
+ * States are single use, so replaying a callback always ends here.
+ */
+export class OAuthStateInvalidError extends OAuthError {
+  readonly type = "OAUTH_STATE_INVALID" as const;
+
+  constructor() {
+    super("OAuth state is unknown or has already been used");
+  }
+}
+
+/**
+ * Error thrown when the callback arrives after the state expired.
+ */
+export class OAuthStateExpiredError extends OAuthError {
+  readonly type = "OAUTH_STATE_EXPIRED" as const;
+
+  constructor(public readonly expiredAt: Date) {
+    super(`OAuth state expired at ${expiredAt.toISOString()}`);
+  }
+}
+
+/**
+ * Error thrown when the provider redirects back with an error instead of a code.
+ *
+ * @remarks
+ * Most commonly `access_denied`, when the user declined the consent screen.
+ */
+export class OAuthAuthorizationDeniedError extends OAuthError {
+  readonly type = "OAUTH_AUTHORIZATION_DENIED" as const;
+
+  constructor(
+    public readonly error: string,
+    public readonly description?: string,
+  ) {
+    super(
+      `Authorization denied by provider: ${error}${description ? ` (${description})` : ""}`,
+    );
+  }
+}
+
+/**
+ * Error thrown when exchanging the authorization code for tokens fails.
+ *
+ * @remarks
+ * Used for both the authorization code and the refresh token grant.
+ * `status` is the HTTP status of the token endpoint, or null if it could
+ * not be reached. `errorCode` is the OAuth `error` of the response body
+ * (e.g. `invalid_grant`), if the endpoint sent one.
+ */
+export class OAuthTokenExchangeFailedError extends OAuthError {
+  readonly type = "OAUTH_TOKEN_EXCHANGE_FAILED" as const;
+
+  constructor(
+    public readonly status: number | null,
+    public readonly detail: string,
+    public readonly errorCode?: string,
+  ) {
+    super(
+      `Token exchange failed${status === null ? "" : ` with status ${status}`}: ${detail}`,
+    );
+  }
+}
+
+/**
+ * Error thrown when the account behind new tokens cannot be read.
+ *
+ * @remarks
+ * `status` is the HTTP status of the account endpoint, or null if it could
+ * not be reached.
+ */
+export class OAuthAccountLookupFailedError extends OAuthError {
+  readonly type = "OAUTH_ACCOUNT_LOOKUP_FAILED" as const;
+
+  constructor(
+    public readonly status: number | null,
+    public readonly detail: string,
+  ) {
+    super(
+      `Account lookup failed${status === null ? "" : ` with status ${status}`}: ${detail}`,
+    );
+  }
+}
+
+/**
+ * Error thrown when a connected service has to be connected again.
+ *
+ * @remarks
+ * The provider revoked the refresh token (or none was issued and the access
+ * token expired). The service is marked `needs_reauth` until the user
+ * connects it again.
+ */
+export class OAuthReauthRequiredError extends OAuthError {
+  readonly type = "OAUTH_REAUTH_REQUIRED" as const;
+
+  constructor(public readonly serviceId: number) {
+    super(`Connected service ${serviceId} needs to be connected again`);
+  }
+}
+
+/**
+ * Error thrown when an access token is requested for an API key connection.
+ */
+export class NotAnOAuthServiceError extends OAuthError {
+  readonly type = "NOT_AN_OAUTH_SERVICE" as const;
+
+  constructor(public readonly serviceId: number) {
+    super(`Connected service ${serviceId} is not an OAuth connection`);
+  }
+}
+
+/**
+ * Error thrown when no callback URL can be built from the redirect base URL.
+ */
+export class OAuthRedirectUriInvalidError extends OAuthError {
+  readonly type = "OAUTH_REDIRECT_URI_INVALID" as const;
+
+  constructor(public readonly redirectBaseUrl: string) {
+    super(`Cannot build an OAuth redirect URI from "${redirectBaseUrl}"`);
+  }
+}
+
+/**
+ * Error thrown when reading or writing the OAuth states fails.
+ */
+export class OAuthDatabaseError extends OAuthError {
+  readonly type = "OAUTH_DATABASE_ERROR" as const;
+
+  constructor(public readonly cause: Error) {
+    super(`OAuth state database error: ${cause.message}`);
+  }
+}
+
+/**
+ * Union type of all OAuth errors.
+ */
+export type OAuthErrorUnion =
+  | UnknownOAuthProviderError
+  | OAuthStateInvalidError
+  | OAuthStateExpiredError
+  | OAuthAuthorizationDeniedError
+  | OAuthTokenExchangeFailedError
+  | OAuthAccountLookupFailedError
+  | OAuthReauthRequiredError
+  | NotAnOAuthServiceError
+  | OAuthRedirectUriInvalidError
+  | OAuthDatabaseError;
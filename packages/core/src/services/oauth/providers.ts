@@ -0,0 +1,71 @@
+import { err, ok, Result } from "neverthrow";
+import { UnknownOAuthProviderError } from "./oauth.errors";
+
+/**
+ * Endpoint returning the account an access token belongs to
+ *
+ * @property {string} url - Called with the access token as bearer token; must return a JSON object
+ * @property {string} [email] - Top-level field holding the email address
+ * @property {string} [username] - Top-level field holding the username or handle
+ */
+export interface OAuthAccountEndpoint {
+  url: string;
+  email?: string;
+  username?: string;
+}
+
+/**
+ * Configuration of an OAuth2 authorization-code provider
+ *
+ * @property {string} id - Provider id, used in routes and as `connected_services.provider`
+ * @property {string} authorizationUrl - The provider's authorization endpoint
+ * @property {string} tokenUrl - The provider's token endpoint
+ * @property {string} clientId - OAuth client id
+ * @property {string} [clientSecret] - OAuth client secret (omit for public clients, PKCE still applies)
+ * @property {string[]} scopes - Requested scopes
+ * @property {Record<string, string>} [authorizationParams] - Extra query parameters (e.g. `access_type: "offline"`)
+ * @property {OAuthAccountEndpoint} [account] - Where to read the account of new connections (omit: stored without one)
+ */
+export interface OAuthProvider {
+  id: string;
+  authorizationUrl: string;
+  tokenUrl: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes: string[];
+  authorizationParams?: Record<string, string>;
+  account?: OAuthAccountEndpoint;
+}
+
+const providers = new Map<string, OAuthProvider>();
+
+/**
+ * Registers an OAuth provider (replacing a provider with the same id)
+ *
+ * @param {OAuthProvider} provider - The provider configuration
+ */
+export function registerOAuthProvider(provider: OAuthProvider): void {
+  providers.set(provider.id, provider);
+}
+
+/**
+ * Looks up a registered OAuth provider
+ *
+ * @param {string} id - The provider id
+ * @returns {Result<OAuthProvider, UnknownOAuthProviderError>} Result with the provider or error
+ */
+export function getOAuthProvider(
+  id: string,
+): Result<OAuthProvider, UnknownOAuthProviderError> {
+  const provider = providers.get(id);
+  return provider ? ok(provider) : err(new UnknownOAuthProviderError(id));
+}
+
+/**
+ * Lists the ids of all registered OAuth providers
+ *
+ * @returns {string[]} The provider ids
+ */
+export function listOAuthProviders(): string[] {
+  return [...providers.keys()];
+}
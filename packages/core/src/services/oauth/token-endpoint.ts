@@ -0,0 +1,142 @@
+import type { Static } from "@sinclair/typebox";
+import { Type } from "@sinclair/typebox";
+import { errAsync, ResultAsync } from "neverthrow";
+import { validateJson } from "../../lib/json-schema";
+import { OAuthTokenExchangeFailedError } from "./oauth.errors";
+import type { OAuthProvider } from "./providers";
+
+/**
+ * The token endpoint response of RFC 6749, section 5.1
+ *
+ * @remarks
+ * Additional fields (e.g. `id_token`) are allowed and ignored.
+ */
+export const OAuthTokenResponse = Type.Object({
+  access_token: Type.String(),
+  token_type: Type.String(),
+  refresh_token: Type.Optional(Type.String()),
+  expires_in: Type.Optional(Type.Number()),
+  scope: Type.Optional(Type.String()),
+});
+
+/**
+ * The credentials stored for `type: "oauth"` connected services
+ *
+ * @remarks
+ * `expires_at` is an absolute timestamp (ms since epoch), computed from
+ * `expires_in` when the tokens were received.
+ */
+export const OAuthTokens = Type.Object({
+  access_token: Type.String(),
+  token_type: Type.String(),
+  refresh_token: Type.Optional(Type.String()),
+  expires_at: Type.Optional(Type.Number()),
+  scope: Type.Optional(Type.String()),
+});
+
+export type OAuthTokens = Static<typeof OAuthTokens>;
+
+/**
+ * Reads the OAuth `error` code from an error response body
+ *
+ * @private
+ */
+function parseErrorCode(text: string): string | undefined {
+  try {
+    const body = JSON.parse(text) as { error?: unknown };
+    return typeof body.error === "string" ? body.error : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Requests tokens from the token endpoint of a provider
+ *
+ * @param {OAuthProvider} provider - The provider
+ * @param {Record<string, string>} grant - Grant parameters (`grant_type` and its fields)
+ * @returns {ResultAsync<OAuthTokens, OAuthTokenExchangeFailedError>} The received tokens or error
+ *
+ * @example
+ * ```typescript
+ * const result = await requestTokens(provider, {
+ *   grant_type: "refresh_token",
+ *   refresh_token: tokens.refresh_token,
+ * });
+ * ```
+ *
+ * @errors
+ * - OAuthTokenExchangeFailedError - Network failure, error status, or a malformed response
+ *
+ * @remarks
+ * The client id (and secret, for confidential clients) are added to the
+ * form body. The response is validated against {@link OAuthTokenResponse}.
+ */
+export function requestTokens(
+  provider: OAuthProvider,
+  grant: Record<string, string>,
+): ResultAsync<OAuthTokens, OAuthTokenExchangeFailedError> {
+  const body = new URLSearchParams({ ...grant, client_id: provider.clientId });
+  if (provider.clientSecret) {
+    body.set("client_secret", provider.clientSecret);
+  }
+
+  const requestedAt = Date.now();
+  return ResultAsync.fromPromise(
+    fetch(provider.tokenUrl, {
+      method: "POST",
+      headers: {
+        "content-type": "application/x-www-form-urlencoded",
+        accept: "application/json",
+      },
+      body,
+    }).then(async (response) => ({
+      status: response.status,
+      ok: response.ok,
+      text: await response.text(),
+    })),
+    (error) =>
+      new OAuthTokenExchangeFailedError(
+        null,
+        error instanceof Error ? error.message : String(error),
+      ),
+  ).andThen(({ status, ok, text }) => {
+    if (!ok) {
+      return errAsync(
+        new OAuthTokenExchangeFailedError(
+          status,
+          text.slice(0, 200),
+          parseErrorCode(text),
+        ),
+      );
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      return errAsync(
+        new OAuthTokenExchangeFailedError(status, "Response is not JSON"),
+      );
+    }
+
+    return validateJson(OAuthTokenResponse, json)
+      .map((tokens): OAuthTokens => ({
+        access_token: tokens.access_token,
+        token_type: tokens.token_type,
+        refresh_token: tokens.refresh_token,
+        scope: tokens.scope,
+        expires_at:
+          tokens.expires_in === undefined
+            ? undefined
+            : requestedAt + tokens.expires_in * 1000,
+      }))
+      .mapErr(
+        (error) =>
+          new OAuthTokenExchangeFailedError(
+            status,
+            `Unexpected token response: ${error.message}`,
+          ),
+      );
+  });
+}
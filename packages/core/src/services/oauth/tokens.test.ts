@@ -0,0 +1,169 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+} from "bun:test";
+import type { Server } from "bun";
+import { useTestDatabase } from "../../testing/database";
+import {
+  getService,
+  getServiceCredentialsWithSchema,
+  saveServiceCredentials,
+} from "../crud/connected-services";
+import { registerOAuthProvider } from "./providers";
+import { OAuthTokens } from "./token-endpoint";
+import { getAccessToken, REFRESH_MARGIN_MS } from "./tokens";
+
+describe("OAuth Token Manager", () => {
+  let tokenServer: Server<undefined>;
+  useTestDatabase();
+  let refreshRequests: string[] = [];
+  let revoked = false;
+
+  beforeAll(async () => {
+    let issued = 0;
+    tokenServer = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        const form = new URLSearchParams(await request.text());
+        refreshRequests.push(form.get("refresh_token") ?? "");
+        // Let concurrent callers pile up before answering
+        await Bun.sleep(20);
+        if (revoked) {
+          return Response.json({ error: "invalid_grant" }, { status: 400 });
+        }
+        issued++;
+        return Response.json({
+          access_token: `access-${issued}`,
+          refresh_token: `refresh-${issued}`,
+          token_type: "Bearer",
+          expires_in: 3600,
+        });
+      },
+    });
+
+    registerOAuthProvider({
+      id: "mock-refresh",
+      authorizationUrl: "http://localhost/authorize",
+      tokenUrl: `http://localhost:${tokenServer.port}/token`,
+      clientId: "client",
+      scopes: ["read"],
+    });
+  });
+
+  afterAll(() => {
+    tokenServer.stop(true);
+  });
+
+  beforeEach(() => {
+    refreshRequests = [];
+    revoked = false;
+  });
+
+  async function connect(tokens: OAuthTokens) {
+    const service = await saveServiceCredentials(
+      "mock-refresh",
+      "oauth",
+      tokens,
+    );
+    return service._unsafeUnwrap().id;
+  }
+
+  it("should return a fresh token without refreshing", async () => {
+    const id = await connect({
+      access_token: "still-valid",
+      refresh_token: "refresh-0",
+      token_type: "Bearer",
+      expires_at: Date.now() + 2 * REFRESH_MARGIN_MS,
+    });
+
+    const token = await getAccessToken(id);
+
+    expect(token._unsafeUnwrap()).toBe("still-valid");
+    expect(refreshRequests).toHaveLength(0);
+  });
+
+  it("should refresh once for concurrent callers and store the rotated refresh token", async () => {
+    const id = await connect({
+      access_token: "expiring",
+      refresh_token: "refresh-0",
+      token_type: "Bearer",
+      expires_at: Date.now() + 1000,
+    });
+
+    const tokens = await Promise.all(
+      Array.from({ length: 5 }, () => getAccessToken(id)),
+    );
+
+    expect(refreshRequests).toEqual(["refresh-0"]);
+    const accessTokens = tokens.map((token) => token._unsafeUnwrap());
+    expect(new Set(accessTokens).size).toBe(1);
+
+    const stored = await getServiceCredentialsWithSchema(id, OAuthTokens);
+    expect(stored._unsafeUnwrap().access_token).toBe(accessTokens[0]!);
+    expect(stored._unsafeUnwrap().refresh_token).not.toBe("refresh-0");
+    expect(stored._unsafeUnwrap().expires_at).toBeGreaterThan(
+      Date.now() + REFRESH_MARGIN_MS,
+    );
+  });
+
+  it("should refresh a valid token when forced", async () => {
+    const id = await connect({
+      access_token: "rejected",
+      refresh_token: "refresh-0",
+      token_type: "Bearer",
+      expires_at: Date.now() + 2 * REFRESH_MARGIN_MS,
+    });
+
+    const token = await getAccessToken(id, { forceRefresh: true });
+
+    expect(token._unsafeUnwrap()).not.toBe("rejected");
+    expect(refreshRequests).toHaveLength(1);
+  });
+
+  it("should mark the service for re-auth when the refresh token is revoked", async () => {
+    revoked = true;
+    const id = await connect({
+      access_token: "expired",
+      refresh_token: "refresh-0",
+      token_type: "Bearer",
+      expires_at: Date.now() - 1000,
+    });
+
+    const token = await getAccessToken(id);
+
+    expect(token._unsafeUnwrapErr().type).toBe("OAUTH_REAUTH_REQUIRED");
+    expect((await getService(id))._unsafeUnwrap().status).toBe("needs_reauth");
+
+    // No further refresh attempts until the user connects again
+    const again = await getAccessToken(id);
+    expect(again._unsafeUnwrapErr().type).toBe("OAUTH_REAUTH_REQUIRED");
+    expect(refreshRequests).toHaveLength(1);
+  });
+
+  it("should require re-auth when no refresh token was issued", async () => {
+    const id = await connect({
+      access_token: "expired",
+      token_type: "Bearer",
+      expires_at: Date.now() - 1000,
+    });
+
+    const token = await getAccessToken(id);
+
+    expect(token._unsafeUnwrapErr().type).toBe("OAUTH_REAUTH_REQUIRED");
+    expect(refreshRequests).toHaveLength(0);
+  });
+
+  it("should reject API key services", async () => {
+    const service = await saveServiceCredentials("openai", "apikey", {
+      apiKey: "sk-test",
+    });
+
+    const token = await getAccessToken(service._unsafeUnwrap().id);
+
+    expect(token._unsafeUnwrapErr().type).toBe("NOT_AN_OAUTH_SERVICE");
+  });
+});
@@ -0,0 +1,261 @@
+import { errAsync, okAsync, ResultAsync } from "neverthrow";
+import {
+  getService,
+  getServiceCredentialsWithSchema,
+  setServiceStatus,
+  updateCredentials,
+} from "../crud/connected-services";
+import type {
+  GetServiceCredentialsWithSchemaErrorUnion,
+  SaveServiceCredentialsErrorUnion,
+} from "../crud/connected-services.errors";
+import type { OAuthErrorUnion } from "./oauth.errors";
+import {
+  NotAnOAuthServiceError,
+  OAuthReauthRequiredError,
+} from "./oauth.errors";
+import { getOAuthProvider } from "./providers";
+import type { OAuthTokens } from "./token-endpoint";
+import {
+  OAuthTokens as OAuthTokensSchema,
+  requestTokens,
+} from "./token-endpoint";
+
+/**
+ * How long before expiry an access token is refreshed (5 minutes)
+ */
+export const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+export interface GetAccessTokenOptions {
+  /** Refresh even if the token is not about to expire (e.g. after a 401) */
+  forceRefresh?: boolean;
+}
+
+export type GetAccessTokenErrorUnion =
+  | OAuthErrorUnion
+  | GetServiceCredentialsWithSchemaErrorUnion
+  | SaveServiceCredentialsErrorUnion;
+
+const inflightRefreshes = new Map<
+  number,
+  ResultAsync<OAuthTokens, GetAccessTokenErrorUnion>
+>();
+
+/**
+ * Whether an access token expires within the refresh margin
+ *
+ * @private
+ */
+function isExpiring(tokens: OAuthTokens): boolean {
+  return (
+    tokens.expires_at !== undefined &&
+    tokens.expires_at - REFRESH_MARGIN_MS <= Date.now()
+  );
+}
+
+/**
+ * Loads and validates the tokens of an OAuth connection
+ *
+ * @private
+ */
+function loadTokens(
+  serviceId: number,
+): ResultAsync<
+  { provider: string; tokens: OAuthTokens },
+  GetAccessTokenErrorUnion
+> {
+  return getService(serviceId).andThen((service) => {
+    if (service.type !== "oauth") {
+      return errAsync(new NotAnOAuthServiceError(serviceId));
+    }
+    if (service.status === "needs_reauth") {
+      return errAsync(new OAuthReauthRequiredError(serviceId));
+    }
+    return getServiceCredentialsWithSchema(serviceId, OAuthTokensSchema).map(
+      (tokens) => ({ provider: service.provider, tokens }),
+    );
+  });
+}
+
+/**
+ * Marks a connection as needing re-authorization
+ *
+ * @private
+ */
+function requireReauth(
+  serviceId: number,
+): ResultAsync<never, GetAccessTokenErrorUnion> {
+  return setServiceStatus(serviceId, "needs_reauth").andThen(() =>
+    errAsync(new OAuthReauthRequiredError(serviceId)),
+  );
+}
+
+/**
+ * Refreshes the tokens of a connection and persists them
+ *
+ * @private
+ * @remarks
+ * The tokens are reloaded first: a refresh that finished while this one
+ * was queued has already stored a fresh token.
+ */
+function refreshTokens(
+  serviceId: number,
+  force: boolean,
+): ResultAsync<OAuthTokens, GetAccessTokenErrorUnion> {
+  return loadTokens(serviceId).andThen(({ provider, tokens }) => {
+    if (!force && !isExpiring(tokens)) {
+      return okAsync(tokens);
+    }
+    const refreshToken = tokens.refresh_token;
+    if (!refreshToken) {
+      return requireReauth(serviceId);
+    }
+
+    return getOAuthProvider(provider)
+      .asyncAndThen((oauthProvider) =>
+        requestTokens(oauthProvider, {
+          grant_type: "refresh_token",
+          refresh_token: refreshToken,
+        }),
+      )
+      .orElse((error) =>
+        error.type === "OAUTH_TOKEN_EXCHANGE_FAILED" &&
+        error.errorCode === "invalid_grant"
+          ? requireReauth(serviceId)
+          : errAsync(error),
+      )
+      .andThen((fresh) => {
+        // Providers that rotate refresh tokens send a new one; others keep the old one valid
+        const refreshed: OAuthTokens = {
+          ...fresh,
+          refresh_token: fresh.refresh_token ?? refreshToken,
+          scope: fresh.scope ?? tokens.scope,
+        };
+        return updateCredentials(serviceId, refreshed).map(() => refreshed);
+      });
+  });
+}
+
+/**
+ * Runs at most one refresh per connection at a time
+ *
+ * @private
+ */
+function refreshOnce(
+  serviceId: number,
+  force: boolean,
+): ResultAsync<OAuthTokens, GetAccessTokenErrorUnion> {
+  const inflight = inflightRefreshes.get(serviceId);
+  if (inflight) {
+    return inflight;
+  }
+
+  const refresh = new ResultAsync(
+    Promise.resolve(refreshTokens(serviceId, force)).finally(() =>
+      inflightRefreshes.delete(serviceId),
+    ),
+  );
+  inflightRefreshes.set(serviceId, refresh);
+  return refresh;
+}
+
+/**
+ * Returns a valid access token for an OAuth connection
+ *
+ * @param {number} serviceId - The connected service id
+ * @param {GetAccessTokenOptions} [options] - Refresh options
+ * @returns {ResultAsync<string, GetAccessTokenErrorUnion>} The access token or error
+ *
+ * @example
+ * ```typescript
+ * const token = await getAccessToken(serviceId);
+ * if (token.isErr() && token.error.type === "OAUTH_REAUTH_REQUIRED") {
+ *   // ask the user to connect the service again
+ * }
+ * ```
+ *
+ * @errors
+ * - OAuthReauthRequiredError - The refresh token was revoked (the service is marked `needs_reauth`)
+ * - NotAnOAuthServiceError - The service is an API key connection
+ * - OAuthTokenExchangeFailedError - The provider could not refresh the token (transient)
+ * - JsonSchemaMismatchError - The stored credentials are not OAuth tokens
+ * - All errors from getServiceCredentialsWithSchema() and updateCredentials()
+ *
+ * @remarks
+ * - Tokens are refreshed {@link REFRESH_MARGIN_MS} before they expire
+ * - Concurrent calls for the same connection share a single refresh (per process)
+ * - Rotated refresh tokens are re-encrypted and stored
+ */
+export function getAccessToken(
+  serviceId: number,
+  options: GetAccessTokenOptions = {},
+): ResultAsync<string, GetAccessTokenErrorUnion> {
+  // A forced refresh loads the tokens itself
+  const resolved = options.forceRefresh
+    ? refreshOnce(serviceId, true)
+    : loadTokens(serviceId).andThen(({ tokens }) =>
+        isExpiring(tokens) ? refreshOnce(serviceId, false) : okAsync(tokens),
+      );
+  return resolved.map((tokens) => tokens.access_token);
+}
+
+/**
+ * An access token resolved once and shared by the requests of one operation
+ *
+ * @property {number} serviceId - The connection the token belongs to
+ * @property send - Sends a request with the token; a 401 refreshes it once and resends
+ */
+export interface AccessTokenSession {
+  readonly serviceId: number;
+  send<T extends { status: number }, E>(
+    request: (accessToken: string) => ResultAsync<T, E>,
+  ): ResultAsync<T, E | GetAccessTokenErrorUnion>;
+}
+
+/**
+ * Shares an access token between the requests of an operation
+ *
+ * @param {number} serviceId - The connected service id
+ * @param {string} accessToken - The token resolved for the operation
+ * @param {{ refresh?: boolean }} [options] - `refresh: false` for tokens that cannot be refreshed (personal access tokens)
+ * @returns {AccessTokenSession} The session
+ *
+ * @example
+ * ```typescript
+ * const session = createAccessTokenSession(serviceId, token);
+ * const pages = await ResultAsync.combine(
+ *   urls.map((url) => session.send((token) => fetchPage(url, token))),
+ * );
+ * ```
+ *
+ * @remarks
+ * - Pages and concurrent requests reuse the token instead of decrypting the
+ *   credentials (and recording a `credential.read`) once per request
+ * - A 401 means the provider revoked the token before it expired: the
+ *   request is resent once with a refreshed token. Requests rejected with
+ *   the same token share that refresh.
+ */
+export function createAccessTokenSession(
+  serviceId: number,
+  accessToken: string,
+  options: { refresh?: boolean } = {},
+): AccessTokenSession {
+  let current: ResultAsync<string, GetAccessTokenErrorUnion> =
+    okAsync(accessToken);
+
+  return {
+    serviceId,
+    send: (request) => {
+      const used = current;
+      return used.andThen(request).andThen((response) => {
+        if (response.status !== 401 || options.refresh === false) {
+          return okAsync(response);
+        }
+        if (current === used) {
+          current = getAccessToken(serviceId, { forceRefresh: true });
+        }
+        return current.andThen(request);
+      });
+    },
+  };
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "bun:test";
+import { nextOccurrence, parseCron, parseSchedule } from "./cron";
+
+function next(expression: string, after: string, timezone = "UTC") {
+  const schedule = parseCron(expression)._unsafeUnwrap();
+  return nextOccurrence(schedule, timezone, new Date(after))?.toISOString();
+}
+
+describe("Cron Expressions", () => {
+  it("should find the next matching minute", () => {
+    expect(next("*/15 * * * *", "2024-05-01T10:07:30Z")).toBe(
+      "2024-05-01T10:15:00.000Z",
+    );
+    expect(next("0 8 * * mon-fri", "2024-05-03T08:00:00Z")).toBe(
+      "2024-05-06T08:00:00.000Z",
+    );
+    expect(next("@monthly", "2024-01-31T12:00:00Z")).toBe(
+      "2024-02-01T00:00:00.000Z",
+    );
+  });
+
+  it("should match either day field when both are restricted", () => {
+    // The 13th or any Friday
+    expect(next("0 0 13 * 5", "2024-09-01T00:00:00Z")).toBe(
+      "2024-09-06T00:00:00.000Z",
+    );
+    expect(next("0 0 13 * 5", "2024-09-06T00:00:00Z")).toBe(
+      "2024-09-13T00:00:00.000Z",
+    );
+  });
+
+  it("should evaluate expressions in their timezone", () => {
+    expect(next("30 2 * * *", "2024-05-01T12:00:00Z", "Europe/Berlin")).toBe(
+      "2024-05-02T00:30:00.000Z",
+    );
+    expect(next("0 9 * * *", "2024-01-15T00:00:00Z", "America/New_York")).toBe(
+      "2024-01-15T14:00:00.000Z",
+    );
+  });
+
+  it("should skip wall-clock times that DST skips and run repeated ones once", () => {
+    // 2024-03-31 02:30 does not exist in Berlin
+    expect(next("30 2 * * *", "2024-03-30T12:00:00Z", "Europe/Berlin")).toBe(
+      "2024-04-01T00:30:00.000Z",
+    );
+    // 2024-10-27 02:30 exists twice in Berlin
+    const first = next("30 2 * * *", "2024-10-26T12:00:00Z", "Europe/Berlin")!;
+    expect(next("30 2 * * *", first, "Europe/Berlin")).toBe(
+      "2024-10-28T01:30:00.000Z",
+    );
+  });
+
+  it("should return null when an expression never matches", () => {
+    expect(next("0 0 30 2 *", "2024-01-01T00:00:00Z")).toBeUndefined();
+  });
+
+  it("should reject invalid expressions and timezones", () => {
+    expect(parseCron("* * * *")._unsafeUnwrapErr().type).toBe(
+      "CRON_EXPRESSION_INVALID",
+    );
+    expect(parseCron("60 * * * *")._unsafeUnwrapErr().message).toContain(
+      'invalid minute "60"',
+    );
+    expect(parseCron("0 0 * * 1-0").isErr()).toBe(true);
+    expect(
+      parseSchedule("0 0 * * *", "Mars/Olympus")._unsafeUnwrapErr().type,
+    ).toBe("TIMEZONE_INVALID");
+  });
+});
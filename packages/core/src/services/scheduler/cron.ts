@@ -0,0 +1,359 @@
+import { err, ok, Result } from "neverthrow";
+import type { ScheduleErrorUnion } from "./scheduler.errors";
+import {
+  CronExpressionInvalidError,
+  TimezoneInvalidError,
+} from "./scheduler.errors";
+
+/**
+ * A parsed cron expression: the allowed values of every field
+ *
+ * @property {boolean} anyDayOfMonth - The day-of-month field is `*`
+ * @property {boolean} anyDayOfWeek - The day-of-week field is `*`
+ */
+export interface CronSchedule {
+  expression: string;
+  minutes: ReadonlySet<number>;
+  hours: ReadonlySet<number>;
+  daysOfMonth: ReadonlySet<number>;
+  months: ReadonlySet<number>;
+  daysOfWeek: ReadonlySet<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: readonly string[];
+}
+
+const FIELDS: readonly FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  {
+    name: "month",
+    min: 1,
+    max: 12,
+    names: [
+      "jan",
+      "feb",
+      "mar",
+      "apr",
+      "may",
+      "jun",
+      "jul",
+      "aug",
+      "sep",
+      "oct",
+      "nov",
+      "dec",
+    ],
+  },
+  // 7 is accepted as Sunday and folded into 0
+  {
+    name: "day of week",
+    min: 0,
+    max: 7,
+    names: ["sun", "mon", "tue", "wed", "thu", "fri", "sat"],
+  },
+];
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+/** Searching stops after this many years without an occurrence */
+const MAX_SEARCH_YEARS = 8;
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Parses a single value of a field (a number or a name)
+ *
+ * @private
+ */
+function parseFieldValue(raw: string, spec: FieldSpec): number | null {
+  const named = spec.names?.indexOf(raw.toLowerCase()) ?? -1;
+  if (named >= 0) {
+    return named + spec.min;
+  }
+  if (!/^\d+$/.test(raw)) {
+    return null;
+  }
+  const value = Number(raw);
+  return value >= spec.min && value <= spec.max ? value : null;
+}
+
+/**
+ * Parses one field: lists of values, ranges and steps
+ *
+ * @private
+ */
+function parseField(raw: string, spec: FieldSpec): Result<Set<number>, string> {
+  const values = new Set<number>();
+
+  for (const part of raw.split(",")) {
+    const [range, stepText, ...rest] = part.split("/");
+    if (!range || rest.length > 0) {
+      return err(`invalid ${spec.name} "${part}"`);
+    }
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      return err(`invalid step in ${spec.name} "${part}"`);
+    }
+
+    let start: number | null;
+    let end: number | null;
+    if (range === "*") {
+      [start, end] = [spec.min, spec.max];
+    } else {
+      const [from, to, ...extra] = range.split("-");
+      start = parseFieldValue(from!, spec);
+      // `5/15` means every 15 starting at 5
+      end =
+        to === undefined
+          ? stepText === undefined
+            ? start
+            : spec.max
+          : parseFieldValue(to, spec);
+      if (extra.length > 0 || start === null || end === null || start > end) {
+        return err(`invalid ${spec.name} "${part}"`);
+      }
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return ok(values);
+}
+
+/**
+ * Parses a 5-field cron expression
+ *
+ * @param {string} expression - `minute hour day-of-month month day-of-week`, or a macro like `@daily`
+ * @returns {Result<CronSchedule, CronExpressionInvalidError>} Result with the schedule or error
+ *
+ * @example
+ * ```typescript
+ * parseCron("30 2 * * mon-fri"); // 02:30 on weekdays
+ * parseCron("*\/15 * * * *");    // every 15 minutes
+ * ```
+ *
+ * @remarks
+ * - Fields support `*`, lists (`1,15`), ranges (`1-5`), steps (`*\/10`,
+ *   `0-30/10`) and month/weekday names (`jan`, `mon`)
+ * - Like classic cron, when both day fields are restricted a day matches
+ *   if either of them does
+ */
+export function parseCron(
+  expression: string,
+): Result<CronSchedule, CronExpressionInvalidError> {
+  const trimmed = expression.trim();
+  const fields = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (fields.length !== FIELDS.length) {
+    return err(
+      new CronExpressionInvalidError(
+        expression,
+        `expected ${FIELDS.length} fields, got ${fields.length}`,
+      ),
+    );
+  }
+
+  const parsed: Set<number>[] = [];
+  for (const [index, spec] of FIELDS.entries()) {
+    const field = parseField(fields[index]!, spec);
+    if (field.isErr()) {
+      return err(new CronExpressionInvalidError(expression, field.error));
+    }
+    parsed.push(field.value);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parsed as [
+    Set<number>,
+    Set<number>,
+    Set<number>,
+    Set<number>,
+    Set<number>,
+  ];
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return ok({
+    expression: trimmed,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === "*",
+    anyDayOfWeek: fields[4] === "*",
+  });
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Returns a cached formatter for the wall-clock time of a timezone
+ *
+ * @private
+ */
+function formatterFor(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Checks that a timezone is a known IANA timezone
+ *
+ * @param {string} timezone - The timezone (e.g. "Europe/Berlin" or "UTC")
+ * @returns {Result<string, TimezoneInvalidError>} Result with the timezone or error
+ */
+export function validateTimezone(
+  timezone: string,
+): Result<string, TimezoneInvalidError> {
+  try {
+    formatterFor(timezone);
+    return ok(timezone);
+  } catch {
+    return err(new TimezoneInvalidError(timezone));
+  }
+}
+
+/**
+ * Parses a cron expression and checks its timezone
+ *
+ * @param {string} expression - The cron expression
+ * @param {string} timezone - The IANA timezone it is evaluated in
+ * @returns {Result<CronSchedule, ScheduleErrorUnion>} Result with the schedule or error
+ */
+export function parseSchedule(
+  expression: string,
+  timezone: string,
+): Result<CronSchedule, ScheduleErrorUnion> {
+  return validateTimezone(timezone).andThen(() => parseCron(expression));
+}
+
+/**
+ * Returns the wall-clock time of an instant as the epoch milliseconds of
+ * a UTC date with the same fields
+ *
+ * @private
+ */
+function wallClock(instant: number, timezone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timezone).formatToParts(instant)) {
+    parts[part.type] = Number(part.value);
+  }
+  return Date.UTC(
+    parts.year!,
+    parts.month! - 1,
+    parts.day!,
+    parts.hour!,
+    parts.minute!,
+    parts.second!,
+  );
+}
+
+/**
+ * Converts a wall-clock time to an instant
+ *
+ * @private
+ * @remarks
+ * Returns null for times skipped by a DST change. Times repeated by a DST
+ * change resolve to one of the two instants.
+ */
+function toInstant(wall: number, timezone: string): number | null {
+  let instant = wall;
+  for (let i = 0; i < 2; i++) {
+    instant = wall - (wallClock(instant, timezone) - instant);
+  }
+  return wallClock(instant, timezone) === wall ? instant : null;
+}
+
+/**
+ * Checks the day fields against a wall-clock date
+ *
+ * @private
+ */
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+  if (!schedule.anyDayOfMonth && !schedule.anyDayOfWeek) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Computes the first occurrence of a schedule after an instant
+ *
+ * @param {CronSchedule} schedule - The parsed cron expression
+ * @param {string} timezone - The IANA timezone the expression is evaluated in
+ * @param {Date} after - Occurrences at or before this instant are ignored
+ * @returns {Date | null} The next occurrence, or null if there is none (e.g. `0 0 30 2 *`)
+ *
+ * @remarks
+ * Occurrences are matched against the wall-clock time of the timezone.
+ * Wall-clock times skipped when DST starts do not occur; times repeated
+ * when DST ends occur once.
+ */
+export function nextOccurrence(
+  schedule: CronSchedule,
+  timezone: string,
+  after: Date,
+): Date | null {
+  const start = wallClock(after.getTime(), timezone);
+  const cursor = new Date(start - (start % MINUTE_MS) + MINUTE_MS);
+  const lastYear = cursor.getUTCFullYear() + MAX_SEARCH_YEARS;
+
+  while (cursor.getUTCFullYear() <= lastYear) {
+    if (!schedule.months.has(cursor.getUTCMonth() + 1)) {
+      cursor.setUTCMonth(cursor.getUTCMonth() + 1, 1);
+      cursor.setUTCHours(0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, cursor)) {
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+      cursor.setUTCHours(0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(cursor.getUTCHours())) {
+      cursor.setUTCHours(cursor.getUTCHours() + 1, 0);
+      continue;
+    }
+    if (schedule.minutes.has(cursor.getUTCMinutes())) {
+      const instant = toInstant(cursor.getTime(), timezone);
+      if (instant !== null && instant > after.getTime()) {
+        return new Date(instant);
+      }
+    }
+    cursor.setUTCMinutes(cursor.getUTCMinutes() + 1);
+  }
+
+  return null;
+}
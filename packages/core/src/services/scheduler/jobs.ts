@@ -0,0 +1,277 @@
+import { desc, eq } from "drizzle-orm";
+import { errAsync, okAsync, ResultAsync } from "neverthrow";
+import { getDb } from "../../db/index";
+import type { Job, JobRun } from "../../db/schema";
+import { jobRuns, jobs } from "../../db/schema";
+import { validateJson } from "../../lib/json-schema";
+import type { FunctionNotFoundError } from "../functions/functions.errors";
+import { FunctionInputInvalidError } from "../functions/functions.errors";
+import { getFunction } from "../functions/registry";
+import { nextOccurrence, parseSchedule } from "./cron";
+import type { SchedulerErrorUnion } from "./scheduler.errors";
+import {
+  JobDatabaseError,
+  JobNameTakenError,
+  JobNotFoundError,
+} from "./scheduler.errors";
+
+export type CatchUpPolicy = Job["catchUp"];
+
+/**
+ * A new job
+ *
+ * @property {string} name - Unique name of the job
+ * @property {string} functionName - The registered function to run
+ * @property {Record<string, unknown>} [input] - Input of every run; must match the input schema of the function
+ * @property {Record<string, number>} [services] - Connected service id per provider (see `invokeFunction`)
+ * @property {string} schedule - 5-field cron expression (see {@link parseCron})
+ * @property {string} [timezone] - IANA timezone of the expression (default "UTC")
+ * @property {CatchUpPolicy} [catchUp] - What to do with occurrences missed during downtime (default "skip")
+ * @property {number} [maxAttempts] - Attempts per occurrence, including the first (default 3)
+ * @property {number} [retryBackoffSeconds] - Delay before the first retry, doubled per attempt (default 60)
+ */
+export interface JobDefinition {
+  name: string;
+  functionName: string;
+  input?: Record<string, unknown>;
+  services?: Record<string, number>;
+  schedule: string;
+  timezone?: string;
+  catchUp?: CatchUpPolicy;
+  maxAttempts?: number;
+  retryBackoffSeconds?: number;
+}
+
+export type CreateJobErrorUnion =
+  SchedulerErrorUnion | FunctionNotFoundError | FunctionInputInvalidError;
+
+/**
+ * Maps a database failure to JobDatabaseError
+ *
+ * @param {unknown} error - Whatever the query threw
+ * @returns {JobDatabaseError} The typed error
+ */
+export function toJobDatabaseError(error: unknown): JobDatabaseError {
+  return new JobDatabaseError(
+    error instanceof Error ? error : new Error(String(error)),
+  );
+}
+
+/**
+ * Loads a job or fails with JobNotFoundError
+ *
+ * @param {number} id - The job id
+ * @returns {ResultAsync<Job, SchedulerErrorUnion>} The job or error
+ */
+export function getJob(id: number): ResultAsync<Job, SchedulerErrorUnion> {
+  return ResultAsync.fromPromise(
+    getDb().select().from(jobs).where(eq(jobs.id, id)),
+    toJobDatabaseError,
+  ).andThen(([row]) =>
+    row ? okAsync(row) : errAsync(new JobNotFoundError(id)),
+  );
+}
+
+/**
+ * Lists all jobs
+ *
+ * @returns {ResultAsync<Job[], SchedulerErrorUnion>} The jobs, by id, or error
+ */
+export function listJobs(): ResultAsync<Job[], SchedulerErrorUnion> {
+  return ResultAsync.fromPromise(
+    getDb().select().from(jobs).orderBy(jobs.id),
+    toJobDatabaseError,
+  );
+}
+
+/**
+ * Lists the latest runs of a job
+ *
+ * @param {number} id - The job id
+ * @param {number} [limit] - How many runs to return (default 20)
+ * @returns {ResultAsync<JobRun[], SchedulerErrorUnion>} The runs, newest first, or error
+ */
+export function listJobRuns(
+  id: number,
+  limit = 20,
+): ResultAsync<JobRun[], SchedulerErrorUnion> {
+  return getJob(id).andThen(() =>
+    ResultAsync.fromPromise(
+      getDb()
+        .select()
+        .from(jobRuns)
+        .where(eq(jobRuns.jobId, id))
+        .orderBy(desc(jobRuns.id))
+        .limit(limit),
+      toJobDatabaseError,
+    ),
+  );
+}
+
+/**
+ * Creates a job and schedules its first run
+ *
+ * @param {JobDefinition} definition - The job
+ * @param {Date} [now] - Reference time for the first occurrence
+ * @returns {ResultAsync<Job, CreateJobErrorUnion>} The new job or error
+ *
+ * @example
+ * ```typescript
+ * const result = await createJob({
+ *   name: "weekly-stars",
+ *   functionName: "github_stars",
+ *   schedule: "0 8 * * mon",
+ *   timezone: "Europe/Berlin",
+ * });
+ * ```
+ *
+ * @errors
+ * - CronExpressionInvalidError / TimezoneInvalidError - The schedule cannot be evaluated
+ * - FunctionNotFoundError - No function with this name is registered
+ * - FunctionInputInvalidError - The input does not match the input schema
+ * - JobNameTakenError - Another job has this name
+ * - JobDatabaseError - The query failed
+ */
+export function createJob(
+  definition: JobDefinition,
+  now = new Date(),
+): ResultAsync<Job, CreateJobErrorUnion> {
+  const timezone = definition.timezone ?? "UTC";
+  const input = definition.input ?? {};
+
+  const checked = parseSchedule(definition.schedule, timezone).andThen(
+    (schedule) =>
+      getFunction(definition.functionName)
+        .andThen((fn) =>
+          validateJson(fn.input, input).mapErr(
+            (error) => new FunctionInputInvalidError(error.issues),
+          ),
+        )
+        .map(() => schedule),
+  );
+  if (checked.isErr()) {
+    return errAsync(checked.error);
+  }
+
+  return ResultAsync.fromPromise(
+    getDb()
+      .insert(jobs)
+      .values({
+        name: definition.name,
+        functionName: definition.functionName,
+        input,
+        services: definition.services ?? {},
+        schedule: checked.value.expression,
+        timezone,
+        catchUp: definition.catchUp,
+        maxAttempts: definition.maxAttempts,
+        retryBackoffSeconds: definition.retryBackoffSeconds,
+        nextRunAt: nextOccurrence(checked.value, timezone, now),
+      })
+      .onConflictDoNothing({ target: jobs.name })
+      .returning(),
+    toJobDatabaseError,
+  ).andThen(([row]) =>
+    row ? okAsync(row) : errAsync(new JobNameTakenError(definition.name)),
+  );
+}
+
+/**
+ * Updates a job or fails with JobNotFoundError
+ *
+ * @private
+ */
+function updateJob(
+  id: number,
+  values: Partial<Job>,
+): ResultAsync<Job, SchedulerErrorUnion> {
+  return ResultAsync.fromPromise(
+    getDb().update(jobs).set(values).where(eq(jobs.id, id)).returning(),
+    toJobDatabaseError,
+  ).andThen(([row]) =>
+    row ? okAsync(row) : errAsync(new JobNotFoundError(id)),
+  );
+}
+
+/**
+ * Pauses a job
+ *
+ * @param {number} id - The job id
+ * @returns {ResultAsync<Job, SchedulerErrorUnion>} The paused job or error
+ *
+ * @remarks
+ * A running attempt finishes, but no further run starts (pending retries
+ * and triggers included) until the job is resumed.
+ */
+export function pauseJob(id: number): ResultAsync<Job, SchedulerErrorUnion> {
+  return updateJob(id, { paused: true, nextRunAt: null });
+}
+
+/**
+ * Resumes a paused job
+ *
+ * @param {number} id - The job id
+ * @param {Date} [now] - Reference time for the next occurrence
+ * @returns {ResultAsync<Job, SchedulerErrorUnion>} The resumed job or error
+ *
+ * @remarks
+ * Occurrences missed while paused are not caught up; the job continues
+ * with its next occurrence after `now`.
+ */
+export function resumeJob(
+  id: number,
+  now = new Date(),
+): ResultAsync<Job, SchedulerErrorUnion> {
+  return getJob(id).andThen((job) =>
+    parseSchedule(job.schedule, job.timezone).asyncAndThen((schedule) =>
+      updateJob(id, {
+        paused: false,
+        nextRunAt: nextOccurrence(schedule, job.timezone, now),
+      }),
+    ),
+  );
+}
+
+/**
+ * Queues a run of a job outside its schedule
+ *
+ * @param {number} id - The job id
+ * @param {Date} [now] - When the run is due
+ * @returns {ResultAsync<JobRun, SchedulerErrorUnion>} The pending run or error
+ *
+ * @remarks
+ * The run starts with the next scheduler tick, after a run of the same
+ * job that is still in progress.
+ */
+export function triggerJob(
+  id: number,
+  now = new Date(),
+): ResultAsync<JobRun, SchedulerErrorUnion> {
+  return getJob(id).andThen((job) =>
+    ResultAsync.fromPromise(
+      getDb()
+        .insert(jobRuns)
+        .values({ jobId: job.id, trigger: "manual", scheduledFor: now })
+        .returning(),
+      toJobDatabaseError,
+    ).map(([run]) => run!),
+  );
+}
+
+/**
+ * Deletes a job and its run history
+ *
+ * @param {number} id - The job id
+ * @returns {ResultAsync<Job, SchedulerErrorUnion>} The deleted job or error
+ */
+export function deleteJob(id: number): ResultAsync<Job, SchedulerErrorUnion> {
+  return ResultAsync.fromPromise(
+    getDb().batch([
+      getDb().delete(jobRuns).where(eq(jobRuns.jobId, id)),
+      getDb().delete(jobs).where(eq(jobs.id, id)).returning(),
+    ]),
+    toJobDatabaseError,
+  ).andThen(([, [row]]) =>
+    row ? okAsync(row) : errAsync(new JobNotFoundError(id)),
+  );
+}
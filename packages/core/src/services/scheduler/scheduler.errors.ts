@@ -0,0 +1,101 @@
+/**
+ * Scheduler Error Types
+ *
+ * Discriminated union type for all errors of scheduled jobs and their
+ * cron expressions.
+ */
+export type SchedulerErrorType =
+  | "CRON_EXPRESSION_INVALID"
+  | "TIMEZONE_INVALID"
+  | "JOB_NOT_FOUND"
+  | "JOB_NAME_TAKEN"
+  | "JOB_DATABASE_ERROR";
+
+/**
+ * Base class for all scheduler errors.
+ */
+export abstract class SchedulerError extends Error {
+  abstract readonly type: SchedulerErrorType;
+
+  constructor(message: string) {
+    super(message);
+    this.name = this.constructor.name;
+    Error.captureStackTrace?.(this, this.constructor);
+  }
+}
+
+/**
+ * Error thrown when a cron expression cannot be parsed.
+ */
+export class CronExpressionInvalidError extends SchedulerError {
+  readonly type = "CRON_EXPRESSION_INVALID" as const;
+
+  constructor(
+    public readonly expression: string,
+    public readonly reason: string,
+  ) {
+    super(`Invalid cron expression "${expression}": ${reason}`);
+  }
+}
+
+/**
+ * Error thrown when a timezone is not a known IANA timezone.
+ */
+export class TimezoneInvalidError extends SchedulerError {
+  readonly type = "TIMEZONE_INVALID" as const;
+
+  constructor(public readonly timezone: string) {
+    super(
+      `Unknown timezone "${timezone}" (expected an IANA name like Europe/Berlin)`,
+    );
+  }
+}
+
+/**
+ * Error thrown when no job exists with an id.
+ */
+export class JobNotFoundError extends SchedulerError {
+  readonly type = "JOB_NOT_FOUND" as const;
+
+  constructor(public readonly jobId: number) {
+    super(`Job ${jobId} not found`);
+  }
+}
+
+/**
+ * Error thrown when a job name is already used by another job.
+ */
+export class JobNameTakenError extends SchedulerError {
+  readonly type = "JOB_NAME_TAKEN" as const;
+
+  constructor(public readonly jobName: string) {
+    super(`A job named "${jobName}" already exists`);
+  }
+}
+
+/**
+ * Error thrown when reading or writing jobs or runs fails.
+ */
+export class JobDatabaseError extends SchedulerError {
+  readonly type = "JOB_DATABASE_ERROR" as const;
+
+  constructor(public readonly cause: Error) {
+    super(`Job database operation failed: ${cause.message}`);
+  }
+}
+
+/**
+ * Union type of all errors of parsing a schedule.
+ */
+export type ScheduleErrorUnion =
+  | CronExpressionInvalidError
+  | TimezoneInvalidError;
+
+/**
+ * Union type of all scheduler errors.
+ */
+export type SchedulerErrorUnion =
+  | ScheduleErrorUnion
+  | JobNotFoundError
+  | JobNameTakenError
+  | JobDatabaseError;
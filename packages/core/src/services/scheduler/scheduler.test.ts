@@ -0,0 +1,268 @@
+import { afterEach, beforeAll, describe, expect, it } from "bun:test";
+import { Type } from "@sinclair/typebox";
+import { errAsync, okAsync, ResultAsync } from "neverthrow";
+import { getDb } from "../../db/index";
+import { jobRuns } from "../../db/schema";
+import { useTestDatabase } from "../../testing/database";
+import { registerFunction } from "../functions/registry";
+import type { JobDefinition } from "./jobs";
+import {
+  createJob,
+  deleteJob,
+  getJob,
+  listJobRuns,
+  listJobs,
+  pauseJob,
+  resumeJob,
+  triggerJob,
+} from "./jobs";
+import type { SchedulerHandle } from "./scheduler";
+import { startScheduler } from "./scheduler";
+
+const START = new Date("2024-05-01T10:00:00Z");
+
+let clock = START;
+let failuresLeft = 0;
+let calls: string[] = [];
+let gate: Promise<void> | null = null;
+
+function at(minutes: number, seconds = 0) {
+  return new Date(START.getTime() + (minutes * 60 + seconds) * 1000);
+}
+
+describe("Job Scheduler", () => {
+  useTestDatabase();
+  let scheduler: SchedulerHandle | null = null;
+
+  function start() {
+    scheduler = startScheduler({
+      tickIntervalMs: 60 * 60 * 1000,
+      now: () => clock,
+    });
+    return scheduler;
+  }
+
+  /** Runs one pass and waits until the runs it started finished */
+  async function tickAt(time: Date) {
+    clock = time;
+    await scheduler!.tick();
+    await scheduler!.idle();
+  }
+
+  async function job(definition: Partial<JobDefinition> = {}) {
+    return (
+      await createJob(
+        {
+          name: `job-${Math.random()}`,
+          functionName: "test_task",
+          input: { label: "default" },
+          schedule: "*/10 * * * *",
+          ...definition,
+        },
+        clock,
+      )
+    )._unsafeUnwrap();
+  }
+
+  const runsOf = async (id: number) =>
+    (await listJobRuns(id))._unsafeUnwrap().reverse();
+
+  beforeAll(async () => {
+    registerFunction({
+      name: "test_task",
+      description: "Records its calls, fails while failuresLeft > 0",
+      input: Type.Object({ label: Type.String() }),
+      output: Type.Null(),
+      providers: [],
+      handler: ({ label }) => {
+        calls.push(label);
+        if (failuresLeft > 0) {
+          failuresLeft--;
+          return errAsync(
+            Object.assign(new Error("boom"), { type: "TEST_FAILURE" }),
+          );
+        }
+        return gate
+          ? ResultAsync.fromSafePromise(gate.then(() => null))
+          : okAsync(null);
+      },
+    })._unsafeUnwrap();
+  });
+
+  afterEach(async () => {
+    await scheduler?.stop();
+    scheduler = null;
+    for (const existing of (await listJobs())._unsafeUnwrap()) {
+      await deleteJob(existing.id);
+    }
+    clock = START;
+    failuresLeft = 0;
+    calls = [];
+    gate = null;
+  });
+
+  it("should validate jobs when they are created", async () => {
+    const invalid = await createJob({
+      name: "broken",
+      functionName: "test_task",
+      input: { label: 1 },
+      schedule: "0 8 * * *",
+    });
+    const missing = await createJob({
+      name: "missing",
+      functionName: "test_missing",
+      schedule: "0 8 * * *",
+    });
+    const created = await job({ name: "nightly", schedule: "0 2 * * *" });
+    const duplicate = await createJob({
+      name: "nightly",
+      functionName: "test_task",
+      input: { label: "x" },
+      schedule: "0 3 * * *",
+    });
+
+    expect(invalid._unsafeUnwrapErr().type).toBe("FUNCTION_INPUT_INVALID");
+    expect(missing._unsafeUnwrapErr().type).toBe("FUNCTION_NOT_FOUND");
+    expect(created.nextRunAt).toEqual(new Date("2024-05-02T02:00:00Z"));
+    expect(duplicate._unsafeUnwrapErr().type).toBe("JOB_NAME_TAKEN");
+  });
+
+  it("should run due jobs and retry failed attempts with backoff", async () => {
+    const { id } = await job({ maxAttempts: 3, retryBackoffSeconds: 60 });
+    failuresLeft = 2;
+    start();
+
+    await tickAt(at(10, 5));
+    await tickAt(at(11, 0));
+    expect(calls).toHaveLength(1);
+
+    await tickAt(at(11, 5));
+    await tickAt(at(13, 4));
+    expect(calls).toHaveLength(2);
+
+    await tickAt(at(13, 5));
+    const runs = await runsOf(id);
+    expect(runs.map((run) => [run.trigger, run.attempt, run.status])).toEqual([
+      ["schedule", 1, "failed"],
+      ["retry", 2, "failed"],
+      ["retry", 3, "succeeded"],
+    ]);
+    expect(runs[0]!.error).toEqual({ type: "TEST_FAILURE", message: "boom" });
+    expect(runs[2]!.durationMs).toBeGreaterThanOrEqual(0);
+    expect((await getJob(id))._unsafeUnwrap().nextRunAt).toEqual(at(20));
+  });
+
+  it("should apply the catch-up policy to occurrences missed during downtime", async () => {
+    const skip = await job({ catchUp: "skip" });
+    const once = await job({ catchUp: "once" });
+    const all = await job({ catchUp: "all" });
+    start();
+
+    // Down from 10:00 to 11:05: 10:10, ..., 11:00 were missed
+    await tickAt(at(65));
+
+    const triggers = async (id: number) =>
+      (await runsOf(id)).map((run) => [run.trigger, run.scheduledFor]);
+    expect(await triggers(skip.id)).toEqual([]);
+    expect(await triggers(once.id)).toEqual([["catch_up", at(10)]]);
+    expect(await triggers(all.id)).toEqual(
+      [10, 20, 30, 40, 50, 60].map((minute) => ["catch_up", at(minute)]),
+    );
+    for (const { id } of [skip, once, all]) {
+      expect((await getJob(id))._unsafeUnwrap().nextRunAt).toEqual(at(70));
+    }
+  });
+
+  it("should not overlap runs of the same job", async () => {
+    const { id } = await job({ schedule: "* * * * *" });
+    let release = () => {};
+    gate = new Promise((resolve) => (release = resolve));
+    start();
+
+    clock = at(1);
+    await scheduler!.tick();
+    clock = at(2);
+    await scheduler!.tick();
+    (await triggerJob(id, clock))._unsafeUnwrap();
+    await scheduler!.tick();
+    expect(calls).toHaveLength(1);
+
+    release();
+    await scheduler!.idle();
+    await tickAt(at(2, 30));
+
+    expect(calls).toHaveLength(2);
+    expect((await runsOf(id)).map((run) => [run.trigger, run.status])).toEqual([
+      ["schedule", "succeeded"],
+      ["manual", "succeeded"],
+    ]);
+  });
+
+  it("should hold queued runs of paused jobs until they are resumed", async () => {
+    const { id } = await job();
+    start();
+
+    expect((await pauseJob(id))._unsafeUnwrap().nextRunAt).toBeNull();
+    (await triggerJob(id, clock))._unsafeUnwrap();
+    await tickAt(at(30));
+    expect(calls).toHaveLength(0);
+
+    expect((await resumeJob(id, clock))._unsafeUnwrap().nextRunAt).toEqual(
+      at(40),
+    );
+    await tickAt(at(30, 1));
+    expect(calls).toEqual(["default"]);
+  });
+
+  it("should fail and retry runs interrupted by a restart", async () => {
+    const { id } = await job();
+    await getDb()
+      .insert(jobRuns)
+      .values({
+        jobId: id,
+        trigger: "schedule",
+        status: "running",
+        scheduledFor: at(0),
+        startedAt: at(0),
+      });
+
+    start();
+    await tickAt(at(1));
+
+    const runs = await runsOf(id);
+    expect(runs.map((run) => [run.trigger, run.status])).toEqual([
+      ["schedule", "failed"],
+      ["retry", "pending"],
+    ]);
+    expect(runs[0]!.error?.type).toBe("JOB_RUN_INTERRUPTED");
+  });
+
+  it("should checkpoint runs still in progress when the shutdown runs out of time", async () => {
+    const { id } = await job();
+    let release = () => {};
+    gate = new Promise((resolve) => (release = resolve));
+    start();
+
+    clock = at(10);
+    await scheduler!.tick();
+    expect(calls).toHaveLength(1);
+
+    const controller = new AbortController();
+    const stopping = scheduler!.stop(controller.signal);
+    controller.abort();
+    await stopping;
+
+    let runs = await runsOf(id);
+    expect(runs.map((run) => [run.trigger, run.status])).toEqual([
+      ["schedule", "failed"],
+      ["retry", "pending"],
+    ]);
+    expect(runs[0]!.error?.type).toBe("JOB_RUN_INTERRUPTED");
+
+    // The run finishing afterwards does not overwrite the checkpoint
+    release();
+    await scheduler!.idle();
+    runs = await runsOf(id);
+    expect(runs[0]!.status).toBe("failed");
+  });
+});
@@ -0,0 +1,396 @@
+import { and, asc, eq, inArray, lte } from "drizzle-orm";
+import { getDb } from "../../db/index";
+import type { Job, JobRun, NewJobRun } from "../../db/schema";
+import { jobRuns, jobs } from "../../db/schema";
+import { runAsAuditActor } from "../audit/context";
+import { invokeFunction } from "../functions/invoke";
+import { nextOccurrence, parseSchedule } from "./cron";
+import { toJobDatabaseError } from "./jobs";
+
+/**
+ * Options of the scheduler
+ *
+ * @property {number} [tickIntervalMs] - How often due jobs and pending runs are checked (default 15 s)
+ * @property {number} [graceMs] - How late an occurrence may be noticed and still count as on time (default 60 s)
+ * @property {() => Date} [now] - Clock, for tests
+ */
+export interface SchedulerOptions {
+  tickIntervalMs?: number;
+  graceMs?: number;
+  now?: () => Date;
+}
+
+/**
+ * A started scheduler
+ *
+ * @property {() => Promise<void>} tick - Runs one scheduling pass now (passes never overlap)
+ * @property {() => Promise<void>} idle - Resolves once no run is in progress
+ * @property {(signal?: AbortSignal) => Promise<void>} stop - Stops scheduling and waits for runs in progress, or checkpoints them once the signal aborts
+ */
+export interface SchedulerHandle {
+  tick(): Promise<void>;
+  idle(): Promise<void>;
+  stop(signal?: AbortSignal): Promise<void>;
+}
+
+/**
+ * Most runs enqueued for the occurrences a job missed (catch-up "all")
+ */
+export const MAX_CATCH_UP_RUNS = 24;
+
+const DEFAULT_TICK_INTERVAL_MS = 15 * 1000;
+const DEFAULT_GRACE_MS = 60 * 1000;
+
+/**
+ * Error recorded on a run the server stopped before it finished
+ */
+const INTERRUPTED_ERROR = {
+  type: "JOB_RUN_INTERRUPTED",
+  message: "The server stopped during the run",
+};
+
+let active: SchedulerHandle | null = null;
+
+/**
+ * Describes an error for the run history
+ *
+ * @private
+ */
+function describeError(error: unknown): { type: string; message: string } {
+  if (error instanceof Error) {
+    const type = "type" in error ? String(error.type) : "UNEXPECTED_ERROR";
+    return { type, message: error.message };
+  }
+  return { type: "UNEXPECTED_ERROR", message: String(error) };
+}
+
+/**
+ * Builds the retry of a failed attempt, if the job allows another one
+ *
+ * @private
+ * @remarks
+ * The delay doubles with every attempt: backoff, 2 × backoff, 4 × backoff...
+ */
+function retryFor(job: Job, run: JobRun, failedAt: Date): NewJobRun | null {
+  if (run.attempt >= job.maxAttempts) {
+    return null;
+  }
+  const delayMs = job.retryBackoffSeconds * 1000 * 2 ** (run.attempt - 1);
+  return {
+    jobId: job.id,
+    trigger: "retry",
+    attempt: run.attempt + 1,
+    scheduledFor: new Date(failedAt.getTime() + delayMs),
+  };
+}
+
+/**
+ * Decides which runs a due job gets for the occurrences since `nextRunAt`
+ *
+ * @private
+ * @remarks
+ * Occurrences noticed within the grace period are on time and always
+ * run. Older ones were missed (the server was down or busy) and are
+ * handled by the catch-up policy of the job.
+ */
+function runsForDueJob(
+  job: Job,
+  now: Date,
+  graceMs: number,
+): { runs: NewJobRun[]; nextRunAt: Date | null } {
+  const schedule = parseSchedule(job.schedule, job.timezone);
+  if (schedule.isErr() || !job.nextRunAt) {
+    return { runs: [], nextRunAt: null };
+  }
+
+  const occurrence = (after: Date) =>
+    nextOccurrence(schedule.value, job.timezone, after);
+  const graceStart = new Date(now.getTime() - graceMs);
+  // The latest occurrence within the grace period
+  let onTime: Date | null = null;
+  for (
+    let at = occurrence(new Date(graceStart.getTime() - 1));
+    at && at <= now;
+    at = occurrence(at)
+  ) {
+    onTime = at;
+  }
+  const missed = job.nextRunAt < graceStart;
+
+  const runs: NewJobRun[] = [];
+  const add = (trigger: NewJobRun["trigger"], scheduledFor: Date) =>
+    runs.push({ jobId: job.id, trigger, scheduledFor });
+
+  if (missed && job.catchUp === "all") {
+    for (
+      let at: Date | null = job.nextRunAt;
+      at && at < graceStart && runs.length < MAX_CATCH_UP_RUNS;
+      at = occurrence(at)
+    ) {
+      add("catch_up", at);
+    }
+  } else if (missed && job.catchUp === "once" && !onTime) {
+    add("catch_up", job.nextRunAt);
+  }
+  if (onTime) {
+    add("schedule", onTime);
+  }
+
+  return { runs, nextRunAt: occurrence(now) };
+}
+
+/**
+ * Starts the scheduler
+ *
+ * @param {SchedulerOptions} [options] - Tick interval, grace period and clock
+ * @returns {SchedulerHandle} The running scheduler
+ *
+ * @example
+ * ```typescript
+ * const scheduler = startScheduler();
+ * // ...
+ * await scheduler.stop(AbortSignal.timeout(10_000));
+ * ```
+ *
+ * @remarks
+ * Every pass:
+ * 1. Enqueues pending runs for jobs whose `next_run_at` has passed
+ *    (see the catch-up policy of a job) and computes their next occurrence
+ * 2. Starts pending runs that are due, at most one running run per job
+ *
+ * Overlaps are prevented: while a job has a pending or running run, its
+ * occurrences are skipped, and a run only starts once the previous one
+ * finished. Failed attempts are retried with exponential backoff. Runs
+ * left `running` by a previous process are marked failed (and retried)
+ * when the scheduler starts.
+ *
+ * `stop()` waits for the runs in progress. Once its signal aborts, it
+ * records them as interrupted right away (and queues their retry); their
+ * outcome, if they finish later, is dropped.
+ *
+ * Related writes use `batch()` rather than interactive transactions:
+ * runs finish while a pass is writing, and a second connection holding
+ * a transaction open would make the other writes fail with SQLITE_BUSY.
+ */
+export function startScheduler(
+  options: SchedulerOptions = {},
+): SchedulerHandle {
+  const now = options.now ?? (() => new Date());
+  const graceMs = options.graceMs ?? DEFAULT_GRACE_MS;
+  const inFlight = new Map<number, Promise<void>>();
+  const running = new Map<number, { job: Job; run: JobRun }>();
+  const checkpointed = new Set<number>();
+  let stopped = false;
+
+  async function finishRun(
+    job: Job,
+    run: JobRun,
+    values: Pick<JobRun, "status" | "error" | "durationMs">,
+  ) {
+    const finishedAt = now();
+    const retry = values.status === "failed" && retryFor(job, run, finishedAt);
+    const update = getDb()
+      .update(jobRuns)
+      .set({ ...values, finishedAt })
+      .where(eq(jobRuns.id, run.id));
+    await getDb().batch(
+      retry ? [update, getDb().insert(jobRuns).values(retry)] : [update],
+    );
+  }
+
+  async function execute(job: Job, run: JobRun) {
+    const started = performance.now();
+    const result = await runAsAuditActor(`job:${job.name}`, () =>
+      invokeFunction(job.functionName, job.input, { services: job.services }),
+    );
+    const durationMs = Math.round(performance.now() - started);
+    if (checkpointed.has(run.id)) {
+      return;
+    }
+    if (result.isErr()) {
+      console.error(
+        `Job ${job.name} failed (attempt ${run.attempt}/${job.maxAttempts}): ${result.error.message}`,
+      );
+    }
+    await finishRun(job, run, {
+      status: result.isOk() ? "succeeded" : "failed",
+      error: result.isOk() ? null : describeError(result.error),
+      durationMs,
+    });
+  }
+
+  async function recoverInterruptedRuns() {
+    const interrupted = await getDb()
+      .select({ run: jobRuns, job: jobs })
+      .from(jobRuns)
+      .innerJoin(jobs, eq(jobRuns.jobId, jobs.id))
+      .where(eq(jobRuns.status, "running"));
+    for (const { run, job } of interrupted) {
+      await finishRun(job, run, {
+        status: "failed",
+        error: INTERRUPTED_ERROR,
+        durationMs: null,
+      });
+    }
+  }
+
+  async function checkpointRunningRuns() {
+    for (const { job, run } of running.values()) {
+      checkpointed.add(run.id);
+      console.error(`Job ${job.name} interrupted by the shutdown`);
+      await finishRun(job, run, {
+        status: "failed",
+        error: INTERRUPTED_ERROR,
+        durationMs: run.startedAt
+          ? now().getTime() - run.startedAt.getTime()
+          : null,
+      });
+    }
+  }
+
+  async function enqueueDueJobs(at: Date) {
+    const due = await getDb()
+      .select()
+      .from(jobs)
+      .where(and(eq(jobs.paused, false), lte(jobs.nextRunAt, at)));
+    if (due.length === 0) {
+      return;
+    }
+
+    const busy = new Set(
+      (
+        await getDb()
+          .select({ jobId: jobRuns.jobId })
+          .from(jobRuns)
+          .where(inArray(jobRuns.status, ["pending", "running"]))
+      ).map((row) => row.jobId),
+    );
+
+    for (const job of due) {
+      const { runs, nextRunAt } = runsForDueJob(job, at, graceMs);
+      const update = getDb()
+        .update(jobs)
+        .set({ nextRunAt })
+        .where(eq(jobs.id, job.id));
+      await getDb().batch(
+        runs.length > 0 && !busy.has(job.id)
+          ? [getDb().insert(jobRuns).values(runs), update]
+          : [update],
+      );
+    }
+  }
+
+  async function startPendingRuns(at: Date) {
+    const pending = await getDb()
+      .select({ run: jobRuns, job: jobs })
+      .from(jobRuns)
+      .innerJoin(jobs, eq(jobRuns.jobId, jobs.id))
+      .where(
+        and(
+          eq(jobRuns.status, "pending"),
+          lte(jobRuns.scheduledFor, at),
+          eq(jobs.paused, false),
+        ),
+      )
+      .orderBy(asc(jobRuns.scheduledFor), asc(jobRuns.id));
+
+    for (const { run, job } of pending) {
+      if (stopped || inFlight.has(job.id)) {
+        continue;
+      }
+      const [claimed] = await getDb()
+        .update(jobRuns)
+        .set({ status: "running", startedAt: now() })
+        .where(and(eq(jobRuns.id, run.id), eq(jobRuns.status, "pending")))
+        .returning();
+      if (!claimed) {
+        continue;
+      }
+
+      running.set(job.id, { job, run: claimed });
+      const execution = execute(job, claimed)
+        .catch((error) =>
+          console.error(`Job ${job.name} could not be recorded:`, error),
+        )
+        .finally(() => {
+          inFlight.delete(job.id);
+          running.delete(job.id);
+          // The next queued run of this job may start right away
+          if (!stopped) {
+            void tick();
+          }
+        });
+      inFlight.set(job.id, execution);
+    }
+  }
+
+  const logFailure = (error: unknown) =>
+    console.error(`Scheduler: ${toJobDatabaseError(error).message}`);
+
+  // Passes are chained, so they never overlap
+  let passes: Promise<void> = recoverInterruptedRuns().catch(logFailure);
+
+  function tick(): Promise<void> {
+    passes = passes.then(async () => {
+      if (stopped) {
+        return;
+      }
+      const at = now();
+      await enqueueDueJobs(at)
+        .then(() => startPendingRuns(at))
+        .catch(logFailure);
+    });
+    return passes;
+  }
+
+  async function idle() {
+    while (inFlight.size > 0) {
+      await Promise.all(inFlight.values());
+    }
+  }
+
+  const timer = setInterval(
+    () => void tick(),
+    options.tickIntervalMs ?? DEFAULT_TICK_INTERVAL_MS,
+  );
+  void tick();
+
+  const handle: SchedulerHandle = {
+    tick,
+    idle,
+    async stop(signal) {
+      stopped = true;
+      clearInterval(timer);
+      await passes;
+      if (signal) {
+        const aborted = new Promise<void>((resolve) => {
+          if (signal.aborted) {
+            resolve();
+          }
+          signal.addEventListener("abort", () => resolve(), { once: true });
+        });
+        await Promise.race([idle(), aborted]);
+        if (signal.aborted) {
+          await checkpointRunningRuns();
+        }
+      } else {
+        await idle();
+      }
+      if (active === handle) {
+        active = null;
+      }
+    },
+  };
+  active = handle;
+  return handle;
+}
+
+/**
+ * Runs a scheduling pass of the running scheduler, if any
+ *
+ * @remarks
+ * Lets a manual trigger start right away instead of with the next tick.
+ */
+export function wakeScheduler(): void {
+  void active?.tick();
+}
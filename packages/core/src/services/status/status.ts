@@ -0,0 +1,236 @@
+import { randomUUID } from "node:crypto";
+import { desc, sql } from "drizzle-orm";
+import { verifyCredentialKey } from "../../db/credentials";
+import { getDb } from "../../db/index";
+import { getMigrationStatus } from "../../db/migrate";
+import { connectedServices } from "../../db/schema";
+import { decrypt, encrypt } from "../../lib/crypto";
+import { createLocalKekProvider } from "../../lib/envelope";
+import type { Keyring } from "../../lib/keyring";
+import { getDefaultKeyring } from "../../lib/keyring";
+import { listServices } from "../crud/connected-services";
+
+/**
+ * A check that either produced a value or failed
+ */
+export type StatusCheck<T> =
+  { ok: true; value: T } | { ok: false; error: string };
+
+/**
+ * How many migrations ran, compared to the migrations shipped with the code
+ */
+export interface MigrationState {
+  applied: number;
+  total: number;
+  pending: number;
+}
+
+/**
+ * Outcome of the encryption self-test
+ *
+ * @property {string} activeKeyId - ID of the key new credentials are sealed with
+ * @property {number | null} checkedServiceId - Connected service whose data key was unwrapped (null when there is none, or only a legacy row)
+ */
+export interface EncryptionSelfTest {
+  activeKeyId: string;
+  checkedServiceId: number | null;
+}
+
+/**
+ * Health of the core service
+ *
+ * @property {number} uptimeSeconds - Seconds since the process started
+ * @property {StatusCheck<null>} database - Whether the database answers queries
+ * @property {StatusCheck<MigrationState>} migrations - Applied vs. shipped migrations
+ * @property {StatusCheck<EncryptionSelfTest>} encryption - Whether the configured keys seal and open credentials
+ * @property {StatusCheck<number>} connectedServices - Number of connected services
+ */
+export interface SystemStatus {
+  uptimeSeconds: number;
+  database: StatusCheck<null>;
+  migrations: StatusCheck<MigrationState>;
+  encryption: StatusCheck<EncryptionSelfTest>;
+  connectedServices: StatusCheck<number>;
+}
+
+/**
+ * Runs a check and captures its failure
+ *
+ * @private
+ */
+async function check<T>(run: () => Promise<T>): Promise<StatusCheck<T>> {
+  try {
+    return { ok: true, value: await run() };
+  } catch (error) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Compares the migration journal with the migrations table
+ *
+ * @private
+ */
+async function readMigrationState(): Promise<MigrationState> {
+  const status = await getMigrationStatus();
+  if (status.isErr()) {
+    throw status.error;
+  }
+  const { applied, pending } = status.value;
+  return {
+    applied: applied.length,
+    total: applied.length + pending.length,
+    pending: pending.length,
+  };
+}
+
+/**
+ * How long the check of the stored credentials is reused (30 seconds)
+ */
+export const CREDENTIAL_CHECK_TTL_MS = 30 * 1000;
+
+// Last check of the stored credentials, reused by probes until it expires
+let credentialCheck: {
+  keyring: Keyring;
+  expiresAt: number;
+  result: Promise<number | null>;
+} | null = null;
+
+/**
+ * Unwraps the data key of the newest stored credentials
+ *
+ * @private
+ * @remarks
+ * The payload stays sealed (see {@link verifyCredentialKey}), so this is not
+ * a `credential.read`.
+ */
+async function checkStoredCredentials(
+  keyring: Keyring,
+): Promise<number | null> {
+  const [row] = await getDb()
+    .select({
+      id: connectedServices.id,
+      provider: connectedServices.provider,
+      type: connectedServices.type,
+      encryptedData: connectedServices.encryptedData,
+    })
+    .from(connectedServices)
+    .orderBy(desc(connectedServices.id))
+    .limit(1);
+  if (!row) {
+    return null;
+  }
+
+  const verified = verifyCredentialKey(row, createLocalKekProvider(keyring));
+  if (verified.isErr()) {
+    throw new Error(
+      `Credentials of connected service #${row.id} do not decrypt: ${verified.error.message}`,
+    );
+  }
+  return verified.value ? row.id : null;
+}
+
+/**
+ * Round-trips a random canary and checks the key of the newest stored credentials
+ *
+ * @private
+ * @remarks
+ * The canary runs on every probe. The stored credentials are checked at
+ * most every {@link CREDENTIAL_CHECK_TTL_MS}, or as soon as the keyring
+ * changes.
+ */
+async function runEncryptionSelfTest(): Promise<EncryptionSelfTest> {
+  const keyring = getDefaultKeyring();
+  if (keyring.isErr()) {
+    throw keyring.error;
+  }
+
+  const canary = randomUUID();
+  const roundTrip = encrypt(canary, keyring.value).andThen((sealed) =>
+    decrypt(sealed, keyring.value),
+  );
+  if (roundTrip.isErr()) {
+    throw roundTrip.error;
+  }
+  if (roundTrip.value !== canary) {
+    throw new Error("The canary decrypted to a different value");
+  }
+
+  if (
+    credentialCheck?.keyring !== keyring.value ||
+    credentialCheck.expiresAt <= Date.now()
+  ) {
+    credentialCheck = {
+      keyring: keyring.value,
+      expiresAt: Date.now() + CREDENTIAL_CHECK_TTL_MS,
+      // A failed check is repeated by the next probe
+      result: checkStoredCredentials(keyring.value).catch((error) => {
+        credentialCheck = null;
+        throw error;
+      }),
+    };
+  }
+
+  return {
+    activeKeyId: keyring.value.activeKeyId,
+    checkedServiceId: await credentialCheck.result,
+  };
+}
+
+/**
+ * Collects the health of the core service
+ *
+ * @returns {Promise<SystemStatus>} The status; failing checks are reported, never thrown
+ *
+ * @example
+ * ```typescript
+ * const status = await getSystemStatus();
+ * if (!status.database.ok) {
+ *   console.error(status.database.error);
+ * }
+ * ```
+ */
+export async function getSystemStatus(): Promise<SystemStatus> {
+  const database = await check(async () => {
+    await getDb().run(sql`SELECT 1`);
+    return null;
+  });
+
+  return {
+    uptimeSeconds: Math.floor(process.uptime()),
+    database,
+    migrations: await check(readMigrationState),
+    encryption: await check(runEncryptionSelfTest),
+    connectedServices: await check(async () => {
+      const services = await listServices();
+      if (services.isErr()) {
+        throw services.error;
+      }
+      return services.value.length;
+    }),
+  };
+}
+
+/**
+ * Whether the service can serve requests
+ *
+ * @param {Pick<SystemStatus, "database" | "migrations" | "encryption">} status - The collected checks
+ * @returns {boolean} True when the database answers, no migration is pending and the self-test passed
+ *
+ * @remarks
+ * The number of connected services is informational and never makes the
+ * service unready.
+ */
+export function isReady(
+  status: Pick<SystemStatus, "database" | "migrations" | "encryption">,
+): boolean {
+  return (
+    status.database.ok &&
+    status.migrations.ok &&
+    status.migrations.value.pending === 0 &&
+    status.encryption.ok
+  );
+}
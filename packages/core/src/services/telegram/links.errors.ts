@@ -0,0 +1,66 @@
+/**
+ * Telegram Link Error Types
+ *
+ * Discriminated union type for all errors of linking Telegram accounts
+ * to users.
+ */
+export type TelegramLinkErrorType =
+  | "TELEGRAM_LINK_TOKEN_INVALID"
+  | "TELEGRAM_LINK_TOKEN_EXPIRED"
+  | "TELEGRAM_LINK_DATABASE_ERROR";
+
+/**
+ * Base class for all Telegram link errors.
+ */
+export abstract class TelegramLinkError extends Error {
+  abstract readonly type: TelegramLinkErrorType;
+
+  constructor(message: string) {
+    super(message);
+    this.name = this.constructor.name;
+    Error.captureStackTrace?.(this, this.constructor);
+  }
+}
+
+/**
+ * Error thrown when a link token is unknown or was already used.
+ */
+export class TelegramLinkTokenInvalidError extends TelegramLinkError {
+  readonly type = "TELEGRAM_LINK_TOKEN_INVALID" as const;
+
+  constructor() {
+    super("Unknown or already used link token, send /start to the bot again");
+  }
+}
+
+/**
+ * Error thrown when a link token is redeemed after its expiry.
+ */
+export class TelegramLinkTokenExpiredError extends TelegramLinkError {
+  readonly type = "TELEGRAM_LINK_TOKEN_EXPIRED" as const;
+
+  constructor(public readonly expiredAt: Date) {
+    super(
+      `Link token expired at ${expiredAt.toISOString()}, send /start to the bot again`,
+    );
+  }
+}
+
+/**
+ * Error thrown when reading or writing links fails.
+ */
+export class TelegramLinkDatabaseError extends TelegramLinkError {
+  readonly type = "TELEGRAM_LINK_DATABASE_ERROR" as const;
+
+  constructor(public readonly cause: Error) {
+    super(`Telegram link database operation failed: ${cause.message}`);
+  }
+}
+
+/**
+ * Union type of all Telegram link errors.
+ */
+export type TelegramLinkErrorUnion =
+  | TelegramLinkTokenInvalidError
+  | TelegramLinkTokenExpiredError
+  | TelegramLinkDatabaseError;
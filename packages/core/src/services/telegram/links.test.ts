@@ -0,0 +1,66 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { getDb } from "../../db/index";
+import { telegramLinkTokens } from "../../db/schema";
+import { useTestDatabase } from "../../testing/database";
+import { hashSecretToken } from "../auth/secret-tokens";
+import { bootstrapRootUser } from "../auth/users";
+import {
+  confirmLink,
+  createLinkToken,
+  getTelegramLink,
+  unlinkTelegramAccount,
+} from "./links";
+
+describe("Telegram Links", () => {
+  useTestDatabase();
+  let userId: number;
+
+  beforeAll(async () => {
+    userId = (
+      await bootstrapRootUser({
+        config: { email: "root@example.com", label: "Root", password: "pw" },
+      })
+    )._unsafeUnwrap().user.id;
+  });
+
+  it("should store only the hash and replace earlier tokens", async () => {
+    const first = (await createLinkToken(42))._unsafeUnwrap();
+    const second = (await createLinkToken(42))._unsafeUnwrap();
+
+    const rows = await getDb().select().from(telegramLinkTokens);
+    expect(rows.map((row) => row.tokenHash)).toEqual([
+      hashSecretToken(second.token),
+    ]);
+    expect(
+      (await confirmLink(first.token, userId))._unsafeUnwrapErr().type,
+    ).toBe("TELEGRAM_LINK_TOKEN_INVALID");
+  });
+
+  it("should link once per token and unlink", async () => {
+    const { token } = (await createLinkToken(42))._unsafeUnwrap();
+
+    const link = (await confirmLink(token, userId))._unsafeUnwrap();
+    expect(link).toMatchObject({ telegramUserId: 42, userId });
+    expect((await confirmLink(token, userId))._unsafeUnwrapErr().type).toBe(
+      "TELEGRAM_LINK_TOKEN_INVALID",
+    );
+    expect((await getTelegramLink(42))._unsafeUnwrap()?.user.email).toBe(
+      "root@example.com",
+    );
+
+    expect((await unlinkTelegramAccount(42))._unsafeUnwrap()).toBe(true);
+    expect((await getTelegramLink(42))._unsafeUnwrap()).toBeNull();
+  });
+
+  it("should reject expired tokens", async () => {
+    const { token } = (await createLinkToken(7))._unsafeUnwrap();
+    await getDb()
+      .update(telegramLinkTokens)
+      .set({ expiresAt: new Date(Date.now() - 1000) });
+
+    const result = await confirmLink(token, userId);
+
+    expect(result._unsafeUnwrapErr().type).toBe("TELEGRAM_LINK_TOKEN_EXPIRED");
+    expect((await getTelegramLink(7))._unsafeUnwrap()).toBeNull();
+  });
+});
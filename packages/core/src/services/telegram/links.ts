@@ -0,0 +1,190 @@
+import { eq, lt, or } from "drizzle-orm";
+import { errAsync, okAsync, ResultAsync } from "neverthrow";
+import { getDb } from "../../db/index";
+import type { TelegramLink } from "../../db/schema";
+import { telegramLinks, telegramLinkTokens, users } from "../../db/schema";
+import { generateSecretToken, hashSecretToken } from "../auth/secret-tokens";
+import type { UserSummary } from "../auth/users";
+import { userSummaryColumns } from "../auth/users";
+import type { TelegramLinkErrorUnion } from "./links.errors";
+import {
+  TelegramLinkDatabaseError,
+  TelegramLinkTokenExpiredError,
+  TelegramLinkTokenInvalidError,
+} from "./links.errors";
+
+/**
+ * How long a link token can be redeemed (15 minutes)
+ */
+export const LINK_TOKEN_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * Prefix of every link token
+ */
+export const LINK_TOKEN_PREFIX = "ctl_";
+
+/**
+ * A new link token
+ *
+ * @property {string} token - The token, only ever sent to the Telegram account
+ * @property {Date} expiresAt - When the token can no longer be redeemed
+ */
+export interface LinkTokenRequest {
+  token: string;
+  expiresAt: Date;
+}
+
+/**
+ * A Telegram account and the user it is linked to
+ */
+export interface LinkedTelegramAccount {
+  link: TelegramLink;
+  user: UserSummary;
+}
+
+/**
+ * Maps a database failure to TelegramLinkDatabaseError
+ *
+ * @private
+ */
+function toDatabaseError(error: unknown): TelegramLinkDatabaseError {
+  return new TelegramLinkDatabaseError(
+    error instanceof Error ? error : new Error(String(error)),
+  );
+}
+
+/**
+ * Creates a single-use token linking a Telegram account to a user
+ *
+ * @param {number} telegramUserId - The Telegram user id that asked to be linked
+ * @returns {ResultAsync<LinkTokenRequest, TelegramLinkErrorUnion>} The token or error
+ *
+ * @remarks
+ * - Only the hash of the token is stored
+ * - Earlier tokens of the same Telegram account are replaced, expired
+ *   tokens of all accounts are purged
+ */
+export function createLinkToken(
+  telegramUserId: number,
+): ResultAsync<LinkTokenRequest, TelegramLinkErrorUnion> {
+  const token = generateSecretToken(LINK_TOKEN_PREFIX);
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + LINK_TOKEN_TTL_MS);
+
+  return ResultAsync.fromPromise(
+    getDb().transaction(async (tx) => {
+      await tx
+        .delete(telegramLinkTokens)
+        .where(
+          or(
+            eq(telegramLinkTokens.telegramUserId, telegramUserId),
+            lt(telegramLinkTokens.expiresAt, now),
+          ),
+        );
+      await tx.insert(telegramLinkTokens).values({
+        tokenHash: hashSecretToken(token),
+        telegramUserId,
+        expiresAt,
+      });
+    }),
+    toDatabaseError,
+  ).map(() => ({ token, expiresAt }));
+}
+
+/**
+ * Redeems a link token for a user
+ *
+ * @param {string} token - The token from the link sent by the bot
+ * @param {number} userId - The signed-in user confirming the link
+ * @returns {ResultAsync<TelegramLink, TelegramLinkErrorUnion>} The link or error
+ *
+ * @errors
+ * - TelegramLinkTokenInvalidError - Unknown or already redeemed token
+ * - TelegramLinkTokenExpiredError - The token is past its expiry
+ * - TelegramLinkDatabaseError - The token or link could not be read or written
+ *
+ * @remarks
+ * The token is deleted before anything else, so it can be used only once.
+ * A Telegram account already linked to another user is moved to this one.
+ */
+export function confirmLink(
+  token: string,
+  userId: number,
+): ResultAsync<TelegramLink, TelegramLinkErrorUnion> {
+  if (!token.startsWith(LINK_TOKEN_PREFIX)) {
+    return errAsync(new TelegramLinkTokenInvalidError());
+  }
+
+  return ResultAsync.fromPromise(
+    getDb()
+      .delete(telegramLinkTokens)
+      .where(eq(telegramLinkTokens.tokenHash, hashSecretToken(token)))
+      .returning(),
+    toDatabaseError,
+  )
+    .andThen(([row]) => {
+      if (!row) {
+        return errAsync(new TelegramLinkTokenInvalidError());
+      }
+      if (row.expiresAt <= new Date()) {
+        return errAsync(new TelegramLinkTokenExpiredError(row.expiresAt));
+      }
+      return okAsync(row);
+    })
+    .andThen(({ telegramUserId }) => {
+      const linkedAt = new Date();
+      return ResultAsync.fromPromise(
+        getDb()
+          .insert(telegramLinks)
+          .values({ telegramUserId, userId, linkedAt })
+          .onConflictDoUpdate({
+            target: telegramLinks.telegramUserId,
+            set: { userId, linkedAt },
+          })
+          .returning(),
+        toDatabaseError,
+      );
+    })
+    .andThen(([link]) =>
+      link
+        ? okAsync(link)
+        : errAsync(toDatabaseError(new Error("Upsert returned no row"))),
+    );
+}
+
+/**
+ * Looks up the user a Telegram account is linked to
+ *
+ * @param {number} telegramUserId - The Telegram user id
+ * @returns {ResultAsync<LinkedTelegramAccount | null, TelegramLinkErrorUnion>} The link (null if not linked) or error
+ */
+export function getTelegramLink(
+  telegramUserId: number,
+): ResultAsync<LinkedTelegramAccount | null, TelegramLinkErrorUnion> {
+  return ResultAsync.fromPromise(
+    getDb()
+      .select({ link: telegramLinks, user: userSummaryColumns })
+      .from(telegramLinks)
+      .innerJoin(users, eq(users.id, telegramLinks.userId))
+      .where(eq(telegramLinks.telegramUserId, telegramUserId)),
+    toDatabaseError,
+  ).map(([row]) => row ?? null);
+}
+
+/**
+ * Removes the link of a Telegram account
+ *
+ * @param {number} telegramUserId - The Telegram user id
+ * @returns {ResultAsync<boolean, TelegramLinkErrorUnion>} Whether a link was removed, or error
+ */
+export function unlinkTelegramAccount(
+  telegramUserId: number,
+): ResultAsync<boolean, TelegramLinkErrorUnion> {
+  return ResultAsync.fromPromise(
+    getDb()
+      .delete(telegramLinks)
+      .where(eq(telegramLinks.telegramUserId, telegramUserId))
+      .returning({ id: telegramLinks.id }),
+    toDatabaseError,
+  ).map((deleted) => deleted.length > 0);
+}
@@ -0,0 +1,370 @@
+import type { TSchema, Static } from "@sinclair/typebox";
+import { Type } from "@sinclair/typebox";
+import { err, errAsync, ok, okAsync, ResultAsync } from "neverthrow";
+import { validateJson } from "../../lib/json-schema";
+import { getService, listServices } from "../crud/connected-services";
+import type { ConnectedServiceErrorUnion } from "../crud/connected-services.errors";
+import type {
+  AccessTokenSession,
+  GetAccessTokenErrorUnion,
+} from "../oauth/tokens";
+import { createAccessTokenSession, getAccessToken } from "../oauth/tokens";
+import { YOUTUBE_PROVIDER_ID } from "./provider";
+import type { YouTubeErrorUnion } from "./youtube.errors";
+import {
+  YouTubeApiError,
+  YouTubeConnectionAmbiguousError,
+  YouTubeNotConnectedError,
+  YouTubePlaylistNotFoundError,
+} from "./youtube.errors";
+
+/**
+ * Default base URL of the YouTube Data API (overridable with `YOUTUBE_API_URL`)
+ */
+export const YOUTUBE_API_URL = "https://www.googleapis.com/youtube/v3";
+
+/**
+ * Playlist id of the Watch Later playlist
+ */
+export const WATCH_LATER_PLAYLIST_ID = "WL";
+
+/** The API returns at most 50 items per page and accepts at most 50 video ids */
+const PAGE_SIZE = 50;
+
+// API base URL, set at startup from `config.youtube.apiUrl`
+let baseUrl = YOUTUBE_API_URL;
+
+/**
+ * Points the client at the configured API
+ *
+ * @param {{ apiUrl: string }} config - `config.youtube`
+ */
+export function configureYouTubeClient(config: { apiUrl: string }): void {
+  baseUrl = config.apiUrl.replace(/\/$/, "");
+}
+
+/**
+ * A video of an exported playlist
+ *
+ * @property {string} videoId - The YouTube video id
+ * @property {string} title - The video title
+ * @property {string | null} channel - Title of the channel that uploaded the video (null for deleted or private videos)
+ * @property {number | null} durationSeconds - The duration (null if unavailable)
+ * @property {string} addedAt - When the video was added to the playlist (ISO 8601)
+ */
+export interface PlaylistVideo {
+  videoId: string;
+  title: string;
+  channel: string | null;
+  durationSeconds: number | null;
+  addedAt: string;
+}
+
+export type YouTubeClientErrorUnion =
+  YouTubeErrorUnion | ConnectedServiceErrorUnion | GetAccessTokenErrorUnion;
+
+const ApiErrorBody = Type.Object({
+  error: Type.Object({
+    message: Type.Optional(Type.String()),
+    errors: Type.Optional(
+      Type.Array(Type.Object({ reason: Type.Optional(Type.String()) })),
+    ),
+  }),
+});
+
+const PlaylistItemsPage = Type.Object({
+  nextPageToken: Type.Optional(Type.String()),
+  items: Type.Array(
+    Type.Object({
+      snippet: Type.Object({
+        title: Type.String(),
+        publishedAt: Type.String(),
+        videoOwnerChannelTitle: Type.Optional(Type.String()),
+      }),
+      contentDetails: Type.Object({ videoId: Type.String() }),
+    }),
+  ),
+});
+
+type PlaylistItem = Static<typeof PlaylistItemsPage>["items"][number];
+
+const VideosPage = Type.Object({
+  items: Type.Array(
+    Type.Object({
+      id: Type.String(),
+      contentDetails: Type.Object({ duration: Type.String() }),
+    }),
+  ),
+});
+
+/**
+ * Parses an ISO 8601 duration as returned by the API (e.g. `PT1H2M3S`)
+ *
+ * @param {string} duration - The ISO 8601 duration
+ * @returns {number | null} The duration in seconds (null if not parseable)
+ */
+export function parseIsoDuration(duration: string): number | null {
+  const match = /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(
+    duration,
+  );
+  if (!match) {
+    return null;
+  }
+  const [days, hours, minutes, seconds] = match
+    .slice(1)
+    .map((part) => Number(part ?? 0));
+  return ((days! * 24 + hours!) * 60 + minutes!) * 60 + seconds!;
+}
+
+/**
+ * Picks the YouTube connection to use
+ *
+ * @param {number} [serviceId] - The connection to use; required if several accounts are connected
+ * @returns {ResultAsync<number, YouTubeClientErrorUnion>} The connected service id or error
+ *
+ * @errors
+ * - YouTubeNotConnectedError - No YouTube account is connected, or `serviceId` is not one
+ * - YouTubeConnectionAmbiguousError - Several accounts are connected and none was selected
+ */
+export function resolveYouTubeConnection(
+  serviceId?: number,
+): ResultAsync<number, YouTubeClientErrorUnion> {
+  const isYouTube = (service: { provider: string; type: string }) =>
+    service.provider === YOUTUBE_PROVIDER_ID && service.type === "oauth";
+
+  if (serviceId !== undefined) {
+    return getService(serviceId)
+      .orElse((error) =>
+        error.type === "SERVICE_NOT_FOUND"
+          ? errAsync(new YouTubeNotConnectedError(serviceId))
+          : errAsync(error),
+      )
+      .andThen((service) =>
+        isYouTube(service)
+          ? ok(service.id)
+          : err(new YouTubeNotConnectedError(serviceId)),
+      );
+  }
+
+  return listServices().andThen((services) => {
+    const ids = services.filter(isYouTube).map((service) => service.id);
+    if (ids.length === 0) {
+      return err(new YouTubeNotConnectedError());
+    }
+    if (ids.length > 1) {
+      return err(new YouTubeConnectionAmbiguousError(ids));
+    }
+    return ok(ids[0]!);
+  });
+}
+
+/**
+ * Sends a single authorized GET request
+ *
+ * @private
+ */
+function sendRequest(
+  url: URL,
+  token: string,
+): ResultAsync<
+  { status: number; ok: boolean; text: string },
+  YouTubeClientErrorUnion
+> {
+  return ResultAsync.fromPromise(
+    fetch(url, {
+      headers: {
+        authorization: `Bearer ${token}`,
+        accept: "application/json",
+      },
+    }).then(async (response) => ({
+      status: response.status,
+      ok: response.ok,
+      text: await response.text(),
+    })),
+    (error) =>
+      new YouTubeApiError(
+        null,
+        error instanceof Error ? error.message : String(error),
+      ),
+  );
+}
+
+/**
+ * Calls a YouTube Data API endpoint and validates the response
+ *
+ * @private
+ * @remarks
+ * The token comes from the session of the export, so a 401 is retried
+ * once with a refreshed token (see {@link createAccessTokenSession}).
+ */
+function youtubeGet<S extends TSchema>(
+  session: AccessTokenSession,
+  resource: string,
+  params: Record<string, string>,
+  schema: S,
+): ResultAsync<Static<S>, YouTubeClientErrorUnion> {
+  const url = new URL(`${baseUrl}/${resource}`);
+  for (const [name, value] of Object.entries(params)) {
+    url.searchParams.set(name, value);
+  }
+
+  return session
+    .send((token) => sendRequest(url, token))
+    .andThen(({ status, ok: isOk, text }) => {
+      let json: unknown;
+      try {
+        json = JSON.parse(text);
+      } catch {
+        return err(new YouTubeApiError(status, "Response is not JSON"));
+      }
+
+      if (!isOk) {
+        const body = validateJson(ApiErrorBody, json);
+        return err(
+          body.isOk()
+            ? new YouTubeApiError(
+                status,
+                body.value.error.message ?? text.slice(0, 200),
+                body.value.error.errors?.[0]?.reason,
+              )
+            : new YouTubeApiError(status, text.slice(0, 200)),
+        );
+      }
+
+      return validateJson(schema, json).mapErr(
+        (error) =>
+          new YouTubeApiError(status, `Unexpected response: ${error.message}`),
+      );
+    });
+}
+
+/**
+ * Fetches all items of a playlist, page by page
+ *
+ * @private
+ */
+function fetchPlaylistItems(
+  session: AccessTokenSession,
+  playlistId: string,
+  pageToken?: string,
+  collected: PlaylistItem[] = [],
+): ResultAsync<PlaylistItem[], YouTubeClientErrorUnion> {
+  return youtubeGet(
+    session,
+    "playlistItems",
+    {
+      part: "snippet,contentDetails",
+      playlistId,
+      maxResults: String(PAGE_SIZE),
+      ...(pageToken ? { pageToken } : {}),
+    },
+    PlaylistItemsPage,
+  )
+    .mapErr((error) =>
+      error.type === "YOUTUBE_API_ERROR" && error.reason === "playlistNotFound"
+        ? new YouTubePlaylistNotFoundError(playlistId)
+        : error,
+    )
+    .andThen((page) => {
+      const items = [...collected, ...page.items];
+      return page.nextPageToken
+        ? fetchPlaylistItems(session, playlistId, page.nextPageToken, items)
+        : okAsync(items);
+    });
+}
+
+/**
+ * Fetches the durations of videos, 50 ids per request
+ *
+ * @private
+ */
+function fetchDurations(
+  session: AccessTokenSession,
+  videoIds: string[],
+): ResultAsync<Map<string, number | null>, YouTubeClientErrorUnion> {
+  const chunks: string[][] = [];
+  for (let i = 0; i < videoIds.length; i += PAGE_SIZE) {
+    chunks.push(videoIds.slice(i, i + PAGE_SIZE));
+  }
+
+  return ResultAsync.combine(
+    chunks.map((ids) =>
+      youtubeGet(
+        session,
+        "videos",
+        {
+          part: "contentDetails",
+          id: ids.join(","),
+          maxResults: String(PAGE_SIZE),
+        },
+        VideosPage,
+      ),
+    ),
+  ).map(
+    (pages) =>
+      new Map(
+        pages.flatMap((page) =>
+          page.items.map(
+            (video) =>
+              [
+                video.id,
+                parseIsoDuration(video.contentDetails.duration),
+              ] as const,
+          ),
+        ),
+      ),
+  );
+}
+
+/**
+ * Fetches every video of a playlist
+ *
+ * @param {string} playlistId - The playlist id (e.g. {@link WATCH_LATER_PLAYLIST_ID})
+ * @param {number} [serviceId] - The YouTube connection to use; required if several accounts are connected
+ * @returns {ResultAsync<PlaylistVideo[], YouTubeClientErrorUnion>} The videos in playlist order or error
+ *
+ * @example
+ * ```typescript
+ * const videos = await getPlaylistVideos("PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf", serviceId);
+ * if (videos.isOk()) {
+ *   console.log(`${videos.value.length} videos`);
+ * }
+ * ```
+ *
+ * @errors
+ * - YouTubeNotConnectedError / YouTubeConnectionAmbiguousError - See {@link resolveYouTubeConnection}
+ * - YouTubePlaylistNotFoundError - The playlist does not exist or is private to another account
+ * - YouTubeApiError - The API failed (e.g. quota exceeded) or returned an unexpected response
+ * - All errors from getAccessToken() (e.g. OAuthReauthRequiredError)
+ *
+ * @remarks
+ * - All pages are fetched; durations come from a second endpoint (one request per 50 videos)
+ * - The access token is resolved once and shared by all requests of the export
+ * - Google stopped exposing Watch Later through the Data API in 2016; for
+ *   `WL` the API returns an empty playlist instead of an error
+ */
+export function getPlaylistVideos(
+  playlistId: string,
+  serviceId?: number,
+): ResultAsync<PlaylistVideo[], YouTubeClientErrorUnion> {
+  return resolveYouTubeConnection(serviceId)
+    .andThen((id) =>
+      getAccessToken(id).map((token) => createAccessTokenSession(id, token)),
+    )
+    .andThen((session) =>
+      fetchPlaylistItems(session, playlistId).andThen((items) =>
+        fetchDurations(
+          session,
+          items.map((item) => item.contentDetails.videoId),
+        ).map((durations) =>
+          items.map((item) => ({
+            videoId: item.contentDetails.videoId,
+            title: item.snippet.title,
+            channel: item.snippet.videoOwnerChannelTitle ?? null,
+            durationSeconds: durations.get(item.contentDetails.videoId) ?? null,
+            addedAt: item.snippet.publishedAt,
+          })),
+        ),
+      ),
+    );
+}
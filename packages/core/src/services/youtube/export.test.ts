@@ -0,0 +1,64 @@
+import { describe, expect, it } from "bun:test";
+import type { PlaylistVideo } from "./client";
+import { parseIsoDuration } from "./client";
+import { formatDuration, serializePlaylist } from "./export";
+
+const videos: PlaylistVideo[] = [
+  {
+    videoId: "dQw4w9WgXcQ",
+    title: 'Never "Gonna", Give | You Up',
+    channel: "Rick Astley",
+    durationSeconds: 213,
+    addedAt: "2024-01-02T03:04:05Z",
+  },
+  {
+    videoId: "deleted0001",
+    title: "Deleted video",
+    channel: null,
+    durationSeconds: null,
+    addedAt: "2024-02-03T04:05:06Z",
+  },
+];
+
+describe("YouTube Playlist Export", () => {
+  it("should parse ISO 8601 durations", () => {
+    expect(parseIsoDuration("PT3M33S")).toBe(213);
+    expect(parseIsoDuration("PT1H")).toBe(3600);
+    expect(parseIsoDuration("P1DT2S")).toBe(86402);
+    expect(parseIsoDuration("P0D")).toBe(0);
+    expect(parseIsoDuration("3:33")).toBeNull();
+  });
+
+  it("should format durations", () => {
+    expect(formatDuration(213)).toBe("3:33");
+    expect(formatDuration(3723)).toBe("1:02:03");
+    expect(formatDuration(null)).toBe("");
+  });
+
+  it("should serialize JSON with raw values", () => {
+    expect(JSON.parse(serializePlaylist(videos, "json"))).toEqual(videos);
+  });
+
+  it("should quote CSV fields", () => {
+    const csv = serializePlaylist(videos, "csv");
+
+    expect(csv.split("\r\n")).toEqual([
+      "video_id,title,channel,duration,added_at",
+      'dQw4w9WgXcQ,"Never ""Gonna"", Give | You Up",Rick Astley,3:33,2024-01-02T03:04:05Z',
+      "deleted0001,Deleted video,,,2024-02-03T04:05:06Z",
+      "",
+    ]);
+  });
+
+  it("should escape Markdown table cells and link videos", () => {
+    const lines = serializePlaylist(videos, "md").trimEnd().split("\n");
+
+    expect(lines).toHaveLength(4);
+    expect(lines[0]).toBe(
+      "| video_id | title | channel | duration | added_at |",
+    );
+    expect(lines[2]).toBe(
+      '| [dQw4w9WgXcQ](https://www.youtube.com/watch?v=dQw4w9WgXcQ) | Never "Gonna", Give \\| You Up | Rick Astley | 3:33 | 2024-01-02T03:04:05Z |',
+    );
+  });
+});
@@ -0,0 +1,111 @@
+import type { PlaylistVideo } from "./client";
+
+/**
+ * Supported playlist export formats
+ */
+export const EXPORT_FORMATS = ["json", "csv", "md"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * Content type of each export format
+ */
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: "application/json; charset=utf-8",
+  csv: "text/csv; charset=utf-8",
+  md: "text/markdown; charset=utf-8",
+};
+
+const COLUMNS = ["video_id", "title", "channel", "duration", "added_at"];
+
+/**
+ * Formats a duration in seconds as `h:mm:ss` (or `m:ss` below an hour)
+ *
+ * @param {number | null} seconds - The duration (null if unknown)
+ * @returns {string} The formatted duration (empty if unknown)
+ */
+export function formatDuration(seconds: number | null): string {
+  if (seconds === null) {
+    return "";
+  }
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(seconds % 60).padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${rest}`
+    : `${minutes}:${rest}`;
+}
+
+/**
+ * The exported columns of a video, in column order
+ *
+ * @private
+ */
+function toRow(video: PlaylistVideo): string[] {
+  return [
+    video.videoId,
+    video.title,
+    video.channel ?? "",
+    formatDuration(video.durationSeconds),
+    video.addedAt,
+  ];
+}
+
+/**
+ * Quotes a CSV field if needed (RFC 4180)
+ *
+ * @private
+ */
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value;
+}
+
+/**
+ * Escapes a Markdown table cell
+ *
+ * @private
+ */
+function markdownCell(value: string): string {
+  return value
+    .replaceAll("\\", "\\\\")
+    .replaceAll("|", "\\|")
+    .replace(/\s+/g, " ");
+}
+
+/**
+ * Serializes playlist videos in an export format
+ *
+ * @param {PlaylistVideo[]} videos - The videos, in playlist order
+ * @param {ExportFormat} format - The export format
+ * @returns {string} The serialized export
+ *
+ * @remarks
+ * - JSON keeps the raw values (duration in seconds, null when unknown)
+ * - CSV and Markdown show durations as `h:mm:ss` and link each video in Markdown
+ */
+export function serializePlaylist(
+  videos: PlaylistVideo[],
+  format: ExportFormat,
+): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(videos, null, 2);
+    case "csv":
+      return [COLUMNS, ...videos.map(toRow)]
+        .map((row) => row.map(csvField).join(","))
+        .join("\r\n")
+        .concat("\r\n");
+    case "md": {
+      const lines = [
+        `| ${COLUMNS.join(" | ")} |`,
+        `| ${COLUMNS.map(() => "---").join(" | ")} |`,
+        ...videos.map((video) => {
+          const [videoId, ...rest] = toRow(video).map(markdownCell);
+          const link = `[${videoId}](https://www.youtube.com/watch?v=${video.videoId})`;
+          return `| ${[link, ...rest].join(" | ")} |`;
+        }),
+      ];
+      return `${lines.join("\n")}\n`;
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import type { OAuthClientConfig } from "../../config/config";
+import { registerOAuthProvider } from "../oauth/providers";
+
+/**
+ * Provider id of YouTube connections (`connected_services.provider`)
+ */
+export const YOUTUBE_PROVIDER_ID = "youtube";
+
+/**
+ * Registers the YouTube OAuth provider
+ *
+ * @param {OAuthClientConfig | null} client - OAuth app credentials (`config.youtube.oauth`)
+ * @returns {boolean} Whether the provider was registered (false without credentials)
+ *
+ * @remarks
+ * - Requests read-only access to the account's YouTube data, plus the
+ *   email address of the Google account, which is stored as the account
+ *   of new connections
+ * - `access_type=offline` and `prompt=consent` make Google issue a refresh
+ *   token on every connection, so the token manager can keep it valid
+ */
+export function registerYouTubeProvider(
+  client: OAuthClientConfig | null,
+): boolean {
+  if (!client) {
+    return false;
+  }
+
+  registerOAuthProvider({
+    id: YOUTUBE_PROVIDER_ID,
+    authorizationUrl: "https://accounts.google.com/o/oauth2/v2/auth",
+    tokenUrl: "https://oauth2.googleapis.com/token",
+    clientId: client.clientId,
+    clientSecret: client.clientSecret,
+    scopes: ["https://www.googleapis.com/auth/youtube.readonly", "email"],
+    authorizationParams: { access_type: "offline", prompt: "consent" },
+    account: {
+      url: "https://openidconnect.googleapis.com/v1/userinfo",
+      email: "email",
+    },
+  });
+  return true;
+}
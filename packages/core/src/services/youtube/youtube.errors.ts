@@ -0,0 +1,92 @@
+/**
+ * YouTube Error Types
+ *
+ * Discriminated union type for all errors of the YouTube integration.
+ */
+export type YouTubeErrorType =
+  | "YOUTUBE_NOT_CONNECTED"
+  | "YOUTUBE_CONNECTION_AMBIGUOUS"
+  | "YOUTUBE_PLAYLIST_NOT_FOUND"
+  | "YOUTUBE_API_ERROR";
+
+/**
+ * Base class for all YouTube errors.
+ */
+export abstract class YouTubeError extends Error {
+  abstract readonly type: YouTubeErrorType;
+
+  constructor(message: string) {
+    super(message);
+    this.name = this.constructor.name;
+    Error.captureStackTrace?.(this, this.constructor);
+  }
+}
+
+/**
+ * Error thrown when no YouTube connection exists, or the given connection
+ * is not a YouTube OAuth connection.
+ */
+export class YouTubeNotConnectedError extends YouTubeError {
+  readonly type = "YOUTUBE_NOT_CONNECTED" as const;
+
+  constructor(public readonly serviceId?: number) {
+    super(
+      serviceId === undefined
+        ? "No YouTube account is connected"
+        : `Connected service ${serviceId} is not a YouTube OAuth connection`,
+    );
+  }
+}
+
+/**
+ * Error thrown when several YouTube accounts are connected and the request
+ * did not say which one to use.
+ */
+export class YouTubeConnectionAmbiguousError extends YouTubeError {
+  readonly type = "YOUTUBE_CONNECTION_AMBIGUOUS" as const;
+
+  constructor(public readonly serviceIds: number[]) {
+    super(
+      `Several YouTube accounts are connected (${serviceIds.join(", ")}); select one by connection id`,
+    );
+  }
+}
+
+/**
+ * Error thrown when a playlist does not exist or is not visible to the account.
+ */
+export class YouTubePlaylistNotFoundError extends YouTubeError {
+  readonly type = "YOUTUBE_PLAYLIST_NOT_FOUND" as const;
+
+  constructor(public readonly playlistId: string) {
+    super(`YouTube playlist not found: ${playlistId}`);
+  }
+}
+
+/**
+ * Error thrown when the YouTube Data API fails or returns an unexpected response.
+ *
+ * @remarks
+ * `reason` is the `error.errors[0].reason` of the API (e.g. "quotaExceeded").
+ */
+export class YouTubeApiError extends YouTubeError {
+  readonly type = "YOUTUBE_API_ERROR" as const;
+
+  constructor(
+    public readonly status: number | null,
+    public readonly detail: string,
+    public readonly reason?: string,
+  ) {
+    super(
+      status === null
+        ? `YouTube API request failed: ${detail}`
+        : `YouTube API request failed with status ${status}: ${detail}`,
+    );
+  }
+}
+
+export type YouTubeErrorUnion =
+  | YouTubeNotConnectedError
+  | YouTubeConnectionAmbiguousError
+  | YouTubePlaylistNotFoundError
+  | YouTubeApiError;
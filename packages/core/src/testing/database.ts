@@ -0,0 +1,104 @@
+import { afterAll, afterEach, beforeAll, beforeEach } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { closeDb, configureDatabase, getDatabasePath } from "../db/index";
+import { runMigrations } from "../db/migrate";
+import { generateEncryptionKey } from "../lib/crypto";
+import type { Keyring } from "../lib/keyring";
+import {
+  createKeyring,
+  getDefaultKeyring,
+  setDefaultKeyring,
+} from "../lib/keyring";
+
+/**
+ * The temporary database of a test file
+ *
+ * @property {string} dir - Temporary directory holding it, removed after the tests
+ * @property {string} path - Path of the database file
+ * @property {string} encryptionKey - Active key of the default keyring while the tests run
+ */
+export interface TestDatabase {
+  dir: string;
+  path: string;
+  encryptionKey: string;
+}
+
+/**
+ * Options of {@link useTestDatabase}
+ *
+ * @property {string} [encryptionKey] - Key of the default keyring (default: a new random key)
+ * @property {boolean} [migrate] - Apply the migrations (default true)
+ * @property {boolean} [perTest] - A fresh database for every test instead of one per file
+ */
+export interface TestDatabaseOptions {
+  encryptionKey?: string;
+  migrate?: boolean;
+  perTest?: boolean;
+}
+
+/**
+ * Gives the tests of the current `describe` their own database
+ *
+ * @param {TestDatabaseOptions} [options] - Key, migrations and scope
+ * @returns {TestDatabase} Filled in once the setup hook ran
+ *
+ * @example
+ * ```typescript
+ * describe("Connected Services", () => {
+ *   const database = useTestDatabase();
+ *
+ *   it("should ...", async () => {
+ *     // getDb() opens database.path, migrated
+ *   });
+ * });
+ * ```
+ *
+ * @remarks
+ * Call it first in the `describe`, so its setup runs before the file's own
+ * hooks. Afterwards the connection is closed, the directory removed and
+ * the previous database path and default keyring are put back.
+ */
+export function useTestDatabase(
+  options: TestDatabaseOptions = {},
+): TestDatabase {
+  const database: TestDatabase = {
+    dir: "",
+    path: "",
+    encryptionKey: options.encryptionKey ?? generateEncryptionKey(),
+  };
+  let previous: { path: string; keyring: Keyring | null } | null = null;
+
+  const setUp = async () => {
+    previous = {
+      path: getDatabasePath(),
+      keyring: getDefaultKeyring().unwrapOr(null),
+    };
+    database.dir = mkdtempSync(join(tmpdir(), "coresvc-test-"));
+    database.path = join(database.dir, "core.db");
+    configureDatabase({ path: database.path });
+    setDefaultKeyring(createKeyring(database.encryptionKey)._unsafeUnwrap());
+    if (options.migrate ?? true) {
+      (await runMigrations())._unsafeUnwrap();
+    }
+  };
+
+  const tearDown = () => {
+    closeDb();
+    rmSync(database.dir, { recursive: true, force: true });
+    if (previous) {
+      configureDatabase({ path: previous.path });
+      setDefaultKeyring(previous.keyring);
+    }
+  };
+
+  if (options.perTest) {
+    beforeEach(setUp);
+    afterEach(tearDown);
+  } else {
+    beforeAll(setUp);
+    afterAll(tearDown);
+  }
+  return database;
+}